@@ -3,134 +3,689 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useState } from 'react';
-import { InputSection } from './components/InputSection';
+import React, { useEffect, useMemo, useState } from 'react';
+import { InputSection, BatchFile } from './components/InputSection';
 import { SvgPreview } from './components/SvgPreview';
-import { detectAndCropViews, runViewPipeline, generateWarshipSvg } from './services/geminiService';
-import { WarshipProject, GenerationStatus, ApiError, ImageData, ViewType } from './types';
-import { AlertCircle, ShieldAlert, CheckCircle2, RefreshCw, Scissors, ScanLine } from 'lucide-react';
+import { ProjectLibrary } from './components/ProjectLibrary';
+import {
+  detectViews, cropViews, runViewPipeline, generateCandidates, generateWarshipSvg, reconcileViews, refineSelection,
+  PipelineStageError, candidateFailure, partialResult, withCheckpoint
+} from './services/geminiService';
+import { getDefaultProvider, isAbortError } from './services/modelProvider';
+import { validateSvg, describeIssues, requiredGroupsFor } from './services/svgValidator';
+import { validateAndNormalize } from './services/svgPostProcess';
+import { assertLockedLayersKept } from './services/svgLayers';
+import { saveProject, loadProject } from './services/projectStore';
+import { historyFromPipeline, commitRevision, amendHead, patchRevision, graftTree, childrenOf, currentSvgOf, withTree, headOf, undo, redo, checkout, traceOf } from './services/revisionHistory';
+import { selectedCandidateOf, withCandidates } from './services/candidates';
+import { checklistFor, withShipType } from './services/shipTemplates';
+
+import { RevisionHistory } from './components/RevisionHistory';
+import { AuditPanel } from './components/AuditPanel';
+import { ConvergencePanel } from './components/ConvergencePanel';
+import { ConsistencyPanel } from './components/ConsistencyPanel';
+import { consistencyPairs, checkViewPair } from './services/viewConsistency';
+import { scoreFidelity } from './services/fidelity';
+import { FidelityPanel, FidelityBadge } from './components/FidelityPanel';
+import { SegmentationEditor } from './components/SegmentationEditor';
+import { CandidateGallery } from './components/CandidateGallery';
+import { CalibrationPanel } from './components/CalibrationPanel';
+import { SheetPanel } from './components/SheetPanel';
+import { BatchPanel } from './components/BatchPanel';
+import { ResumePanel } from './components/ResumePanel';
+import { TracePanel } from './components/TracePanel';
+import { stepRevision } from './services/pipelineTrace';
+import { ProgressTracks } from './components/ProgressTracks';
+import { PipelineSettings } from './components/PipelineSettings';
+import { DEFAULT_PRESET_ID, duplicatePreset, loadPresetState, presetsOf, resolvePreset, savePresetState } from './services/pipelineConfig';
+import {
+  RetryCountingProvider, SHEET_TRACK_ID, finishTrack, isFinished, previewOfPartial, startTrack, updateTrack, withStatus
+} from './services/pipelineProgress';
+import { createBatchJob, createBatchQueue, exportBatchZip } from './services/batchQueue';
+import { downloadBlob } from './services/download';
+import { resolveTheme, themesOf } from './services/themes';
+import { applyDimensions, calibrate, stripDimensions, formatLength } from './services/dimensions';
+import {
+  WarshipProject, GenerationStatus, ApiError, ImageData, ViewType, GeneratedSvg, RevisionTree, PipelineLoopOptions,
+  Segmentation, ProjectView, CalibrationReference, LengthUnit, ScaleCalibration, SvgTheme, BatchJob, ViewProgress,
+  PipelineConfig, ShipType
+} from './types';
+import { AlertCircle, RefreshCw, Scissors, ScanLine, Layers, Box, Play, Activity } from 'lucide-react';
+
+const VIEW_ICONS: Partial<Record<ViewType, React.FC<{ className?: string }>>> = {
+  side: ScanLine,
+  inboard: ScanLine,
+  top: Layers
+};
+
+/** Re-dimensions new content for a calibrated view; a drawing the calibration no longer fits is left undimensioned. */
+const redimension = (view: ProjectView, content: string): string => {
+  if (!view.calibration) return content;
+  try {
+    const { reference, unit } = view.calibration;
+    return applyDimensions(content, view.viewType, calibrate(content, view.viewType, reference, unit));
+  } catch (err) {
+    console.error("Could not re-apply dimensions", err);
+    return content;
+  }
+};
 
 const App: React.FC = () => {
   const [status, setStatus] = useState<GenerationStatus>(GenerationStatus.IDLE);
   const [project, setProject] = useState<WarshipProject | null>(null);
-  const [activeView, setActiveView] = useState<ViewType>('side');
+  const [activeViewId, setActiveViewId] = useState<string | null>(null);
   const [error, setError] = useState<ApiError | null>(null);
-  const [pipelineStatus, setPipelineStatus] = useState<string>('');
+  const [tracks, setTracks] = useState<ViewProgress[]>([]); // one per view while a run is in flight
+  const [refinementText, setRefinementText] = useState('');
+  const [libraryVersion, setLibraryVersion] = useState(0);
+  const [pendingRun, setPendingRun] = useState<{
+    prompt: string;
+    image: ImageData;
+    loopOptions?: PipelineLoopOptions;
+    segmentation: Segmentation;
+  } | null>(null);
+  // Drafts awaiting a manual pick before they are healed.
+  const [pendingCandidates, setPendingCandidates] = useState<{
+    prompt: string;
+    loopOptions?: PipelineLoopOptions;
+    project: WarshipProject;
+  } | null>(null);
+  // Aborts the pipeline run in progress, if it can be cancelled.
+  const [runController, setRunController] = useState<AbortController | null>(null);
+  const [traceStepId, setTraceStepId] = useState<string | null>(null); // trace output shown in the preview instead of the head
+  // Pipeline presets live in this browser rather than in a project; every run uses the selected one.
+  const [presetState, setPresetState] = useState(loadPresetState);
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>([]);
+  const [batchConcurrency, setBatchConcurrency] = useState(2);
+  // One queue for the session; jobs report back by id and finished projects appear in the library.
+  const [batchQueue] = useState(() => createBatchQueue((jobId, patch) => {
+    setBatchJobs((prev: BatchJob[]) => prev.map(job => job.id === jobId ? { ...job, ...patch } : job));
+    if (patch.status === 'done') setLibraryVersion((v: number) => v + 1);
+  }, 2));
+
+  // Persist the open project, including workspace state, shortly after it settles.
+  useEffect(() => {
+    if (!project) return;
+    const timer = setTimeout(() => {
+      saveProject({ ...project, activeViewId: activeViewId ?? undefined, refinementDraft: refinementText })
+        .then(() => setLibraryVersion(v => v + 1))
+        .catch(err => console.error("Could not save project", err));
+    }, 500);
+    return () => clearTimeout(timer);
+  }, [project, activeViewId, refinementText]);
+
+  useEffect(() => { savePresetState(presetState.custom, presetState.activeId); }, [presetState]);
+
+  const config = resolvePreset(presetState.custom, presetState.activeId);
+
+  const beginRun = (): AbortSignal => {
+    const controller = new AbortController();
+    setRunController(controller);
+    return controller.signal;
+  };
 
-  const handleGenerate = async (prompt: string, imageData?: ImageData) => {
+  const handleCancelRun = () => runController?.abort();
+
+  const patchTrack = (id: string, update: (track: ViewProgress) => ViewProgress) =>
+    setTracks((prev: ViewProgress[]) => updateTrack(prev, id, update));
+
+  /** Status callback, provider and draft stream that report into one track. */
+  const trackerFor = (id: string) => ({
+    onStatusChange: (status: string) => patchTrack(id, track => withStatus(track, status)),
+    provider: new RetryCountingProvider(getDefaultProvider(), () => patchTrack(id, track => ({ ...track, retries: track.retries + 1 }))),
+    onDraft: (text: string) => {
+      const preview = previewOfPartial(text);
+      if (preview) patchTrack(id, track => ({ ...track, preview }));
+    }
+  });
+
+  /** Settles a view's track once its pipeline returns or throws. */
+  const settleTrack = (id: string, err?: unknown) => {
+    const checkpoint = err instanceof PipelineStageError ? err.checkpoint : undefined;
+    patchTrack(id, track => !err ? finishTrack(track, 'done')
+      : checkpoint?.aborted || isAbortError(err) ? finishTrack(track, 'cancelled')
+      : finishTrack(track, 'failed', checkpoint?.error ?? (err instanceof Error ? err.message : String(err))));
+  };
+
+  /** A cancelled run is not an error: the workspace returns to where it was. */
+  const handleRunFailure = (err: any, message: string) => {
+    if (isAbortError(err)) {
+      setStatus(project ? GenerationStatus.SUCCESS : GenerationStatus.IDLE);
+      return;
+    }
+    console.error(err);
+    setStatus(GenerationStatus.ERROR);
+    setError({ message, details: err.message });
+  };
+
+  const handleGenerate = async (prompt: string, imageData?: ImageData, loopOptions?: PipelineLoopOptions, shipType?: ShipType) => {
     setStatus(GenerationStatus.SEGMENTING);
-    setPipelineStatus("SCANNING_LAYOUT");
+    setTracks([startTrack(SHEET_TRACK_ID, 'Sheet', 'scanning')]);
     setError(null);
     
     // Use new image or existing project image
     const imageToProcess = imageData || project?.originalImage;
     if (!imageToProcess) return;
+    const signal = beginRun();
+
+    try {
+      // 1. Tooling Phase: Segment the image. Re-runs on the open project start from its confirmed boxes.
+      const detected: Segmentation = !imageData && project?.segmentation
+        ? project.segmentation
+        : { views: await detectViews(imageToProcess, trackerFor(SHEET_TRACK_ID).provider, signal, config), padding: config.cropPadding };
+      // A ship type picked before the run replaces whatever was detected.
+      const segmentation = { ...detected, views: withShipType(detected.views, shipType) };
+
+      setPendingRun({ prompt, image: imageToProcess, loopOptions, segmentation });
+      setStatus(GenerationStatus.REVIEWING_SEGMENTATION);
+    } catch (err: any) {
+      handleRunFailure(err, "Segmentation Failure");
+    } finally {
+      setTracks([]);
+      setRunController(null);
+    }
+  };
+
+  const handleConfirmSegmentation = async (segmentation: Segmentation) => {
+    if (!pendingRun) return;
+    const { prompt, image, loopOptions } = pendingRun;
+    setPendingRun(null);
+    setStatus(GenerationStatus.LOADING);
+    const signal = beginRun();
 
     try {
-      // 1. Tooling Phase: Segment the image
-      const crops = await detectAndCropViews(imageToProcess);
+      if (segmentation.views.length === 0) {
+        throw new Error("No views were selected for conversion.");
+      }
+      const crops = await cropViews(image, segmentation.views, segmentation.padding, signal);
       
-      const newProject: WarshipProject = {
+      const now = Date.now();
+      const views: ProjectView[] = segmentation.views.map(({ box, ...view }) => ({ ...view, crop: crops[view.id] }));
+      const candidateCount = loopOptions?.candidateCount ?? 1;
+      setTracks(views.map(view => startTrack(view.id, view.label, candidateCount > 1 ? 'candidates' : 'drafting')));
+      let newProject: WarshipProject = {
         id: crypto.randomUUID(),
-        originalImage: imageToProcess,
+        name: prompt.slice(0, 60) || `Schematic ${new Date(now).toLocaleString()}`,
+        createdAt: now,
+        updatedAt: now,
+        originalImage: image,
+        segmentation,
+        views
       };
 
-      setStatus(GenerationStatus.LOADING);
-
-      // 2. Parallel Pipelines
-      const promises = [];
-      
-      if (crops.side) {
-         promises.push(runViewPipeline(prompt, crops.side, 'side', (s) => setPipelineStatus(s))
-           .then(res => {
-             newProject.sideView = {
-               id: crypto.randomUUID(),
-               content: res.content,
-               prompt,
-               timestamp: Date.now(),
-               auditReport: res.auditReport,
-               viewType: 'side'
-             };
-           }));
+      // 2. Best-of-N: draft several candidates per view, keeping the best-ranked one selected.
+      // A view whose drafting fails keeps a checkpoint to resume from and is left out of healing.
+      if (candidateCount > 1) {
+        const failures: PipelineStageError[] = [];
+        await Promise.all(views.map(view => {
+          const tracker = trackerFor(view.id);
+          return generateCandidates(prompt, view.crop!, view, candidateCount, tracker.onStatusChange, tracker.provider, signal, config)
+            .then(candidates => {
+              if (candidates.length > 0) newProject = withCandidates(newProject, view.id, candidates, candidates[0].id);
+            })
+            .catch(err => {
+              const failure = candidateFailure(err, view, prompt, config, loopOptions);
+              settleTrack(view.id, failure);
+              failures.push(failure);
+              newProject = withCheckpoint(newProject, view.id, failure.checkpoint);
+            });
+        }));
+        if (!newProject.views.some(view => view.candidates)) throw failures[0].cause ?? failures[0];
+        if (loopOptions?.candidateSelection === 'manual') {
+          setPendingCandidates({ prompt, loopOptions, project: newProject });
+          setStatus(GenerationStatus.REVIEWING_CANDIDATES);
+          return;
+        }
       }
 
-      if (crops.top) {
-        promises.push(runViewPipeline(prompt, crops.top, 'top', (s) => setPipelineStatus(s))
-          .then(res => {
-            newProject.topView = {
-              id: crypto.randomUUID(),
-              content: res.content,
-              prompt,
-              timestamp: Date.now(),
-              auditReport: res.auditReport,
-              viewType: 'top'
-            };
-          }));
-      }
+      await healViews(newProject, prompt, loopOptions, signal);
+    } catch (err: any) {
+      handleRunFailure(err, "Pipeline Failure");
+    } finally {
+      setTracks([]);
+      setRunController(null);
+    }
+  };
 
-      if (promises.length === 0) {
-        throw new Error("Could not identify distinct views in the schematic.");
-      }
+  /**
+   * 3. Parallel pipelines, one per view, each starting from its selected candidate when it has one.
+   * A view that fails or is cancelled keeps what it completed, plus a checkpoint to resume from.
+   */
+  const healViews = async (draftProject: WarshipProject, prompt: string, loopOptions?: PipelineLoopOptions, signal?: AbortSignal) => {
+    let newProject = draftProject;
+    const interrupted: PipelineStageError[] = [];
+    // Views coming from candidate review have no track yet; those that drafted candidates keep theirs.
+    setTracks((prev: ViewProgress[]) => draftProject.views.map(view => prev.find(track => track.id === view.id) ?? startTrack(view.id, view.label, 'drafting')));
+    // Views that already hold a checkpoint failed drafting their candidates.
+    await Promise.all(draftProject.views.filter(view => !view.checkpoint).map(view => {
+      const tracker = trackerFor(view.id);
+      return runViewPipeline(
+        prompt, view.crop!, view, tracker.onStatusChange, tracker.provider, loopOptions, selectedCandidateOf(view), { signal, onDraft: tracker.onDraft, config }
+      )
+        .then(res => {
+          newProject = withTree(newProject, view.id, historyFromPipeline(res, prompt, view.viewType));
+          settleTrack(view.id);
+        })
+        .catch(err => {
+          settleTrack(view.id, err);
+          if (!(err instanceof PipelineStageError)) throw err;
+          interrupted.push(err);
+          const partial = partialResult(err.checkpoint);
+          if (partial) newProject = withTree(newProject, view.id, historyFromPipeline(partial, prompt, view.viewType));
+          newProject = withCheckpoint(newProject, view.id, err.checkpoint);
+        });
+    }));
 
-      await Promise.all(promises);
-      
-      setProject(newProject);
-      // Default to side view if available, else top
-      setActiveView(newProject.sideView ? 'side' : 'top');
+    // With nothing to show, report the run as cancelled or failed outright.
+    if (!newProject.views.some(view => view.history)) throw interrupted[0].cause ?? interrupted[0];
+
+    setProject(newProject);
+    setActiveViewId(draftProject.views[0].id);
+    setStatus(GenerationStatus.SUCCESS);
+  };
+
+  const handleConfirmCandidates = async () => {
+    if (!pendingCandidates) return;
+    const { prompt, loopOptions, project: draftProject } = pendingCandidates;
+    setPendingCandidates(null);
+    setStatus(GenerationStatus.LOADING);
+    const signal = beginRun();
+
+    try {
+      await healViews(draftProject, prompt, loopOptions, signal);
+    } catch (err: any) {
+      handleRunFailure(err, "Pipeline Failure");
+    } finally {
+      setTracks([]);
+      setRunController(null);
+    }
+  };
+
+  /** Continues a view's interrupted run from its checkpoint and grafts the finished history in as a new branch. */
+  const handleResume = async (viewId: string) => {
+    const view = project?.views.find(v => v.id === viewId);
+    const checkpoint = view?.checkpoint;
+    if (!view?.crop || !checkpoint) return;
+    setStatus(GenerationStatus.LOADING);
+    setError(null);
+    setTracks([startTrack(view.id, view.label, checkpoint.stage === 'draft' ? 'drafting' : 'auditing')]);
+    const signal = beginRun();
+    const tracker = trackerFor(view.id);
+
+    try {
+      const res = await runViewPipeline(
+        checkpoint.prompt, view.crop, view, tracker.onStatusChange, tracker.provider, checkpoint.loopOptions, undefined,
+        { signal, resume: checkpoint, onDraft: tracker.onDraft }
+      );
+      const branch = historyFromPipeline(res, checkpoint.prompt, view.viewType);
+      setProject(prev => {
+        const target = prev?.views.find(v => v.id === viewId);
+        if (!prev || !target) return prev;
+        return withCheckpoint(withTree(prev, viewId, target.history ? graftTree(target.history, branch) : branch), viewId, undefined);
+      });
       setStatus(GenerationStatus.SUCCESS);
+    } catch (err: any) {
+      if (err instanceof PipelineStageError) {
+        // Interrupted again: the newer checkpoint has whatever this attempt added.
+        setProject(prev => prev && withCheckpoint(prev, viewId, err.checkpoint));
+        setStatus(GenerationStatus.SUCCESS);
+      } else {
+        handleRunFailure(err, "Resume Failed");
+      }
+    } finally {
+      setTracks([]);
+      setRunController(null);
+    }
+  };
+
+  const handlePickCandidate = (viewId: string, candidateId: string) => {
+    setPendingCandidates(prev => {
+      const view = prev?.project.views.find(v => v.id === viewId);
+      return prev && view
+        ? { ...prev, project: withCandidates(prev.project, viewId, view.candidates ?? [], candidateId) }
+        : prev;
+    });
+  };
+
+  const handleCancelCandidates = () => {
+    setPendingCandidates(null);
+    setStatus(project ? GenerationStatus.SUCCESS : GenerationStatus.IDLE);
+  };
+
+  const handleCancelSegmentation = () => {
+    setPendingRun(null);
+    setStatus(project ? GenerationStatus.SUCCESS : GenerationStatus.IDLE);
+  };
+
+  const activeView = project?.views.find(view => view.id === activeViewId) ?? project?.views[0];
+
+  const updateViewHistory = (viewId: string, update: (tree: RevisionTree) => RevisionTree) => {
+    setProject(prev => {
+      const tree = prev?.views.find(view => view.id === viewId)?.history;
+      return prev && tree ? withTree(prev, viewId, update(tree)) : prev;
+    });
+  };
+
+  const updateHistory = (update: (tree: RevisionTree) => RevisionTree) => {
+    if (activeView) updateViewHistory(activeView.id, update);
+  };
+
+  // Side/top pair of the active view's ship, checked for station agreement on every change.
+  const consistencyPair = project && activeView
+    ? consistencyPairs(project.views).find(pair => pair.side.id === activeView.id || pair.top.id === activeView.id)
+    : undefined;
+  const consistency = useMemo(() => {
+    if (!consistencyPair) return null;
+    const boxes = Object.fromEntries((project?.segmentation?.views ?? []).map(view => [view.id, view.box]));
+    return checkViewPair(consistencyPair, boxes);
+  }, [consistencyPair?.side, consistencyPair?.top, project?.segmentation]);
+
+  const handleReconcile = async () => {
+    if (!consistencyPair || !consistency) return;
+    const { side, top } = consistencyPair;
+    const sideSvg = currentSvgOf(side)!;
+    const topSvg = currentSvgOf(top)!;
+    if (!side.crop || !top.crop) {
+      setStatus(GenerationStatus.ERROR);
+      setError({ message: "Reconciliation Failed", details: "Both views need their source crops." });
+      return;
+    }
+    setStatus(GenerationStatus.LOADING);
+    setError(null);
+    setTracks([startTrack(SHEET_TRACK_ID, `${side.label} + ${top.label}`, 'reconciling')]);
+    const tracker = trackerFor(SHEET_TRACK_ID);
+
+    try {
+      const result = await reconcileViews(
+        { image: side.crop, svg: sideSvg.content, viewType: side.viewType },
+        { image: top.crop, svg: topSvg.content, viewType: top.viewType },
+        consistency,
+        tracker.onStatusChange,
+        tracker.provider,
+        config
+      );
 
+      // Each view that actually changed gets a new revision on top of its head.
+      const commitReconciled = (view: ProjectView, parent: GeneratedSvg, reconciled: string) => {
+        if (reconciled === parent.content) return;
+        const content = redimension(view, reconciled);
+        updateViewHistory(view.id, tree => commitRevision(tree, {
+          ...parent,
+          id: crypto.randomUUID(),
+          content,
+          prompt: 'Reconcile stations with companion view',
+          timestamp: Date.now(),
+          auditReport: undefined,
+          rounds: undefined,
+          stopReason: undefined,
+          trace: undefined,
+          fidelity: undefined,
+          validation: validateSvg(content, requiredGroupsFor(parent.viewType)),
+          stage: 'reconciled',
+          config
+        }));
+      };
+      commitReconciled(side, sideSvg, result.side);
+      commitReconciled(top, topSvg, result.top);
+      setStatus(GenerationStatus.SUCCESS);
     } catch (err: any) {
-      console.error(err);
       setStatus(GenerationStatus.ERROR);
-      setError({ message: "Pipeline Failure", details: err.message });
+      setError({ message: "Reconciliation Failed", details: err.message });
     } finally {
-      setPipelineStatus('');
+      setTracks([]);
     }
   };
 
-  const handleRefine = async (prompt: string) => {
-    if (!project) return;
+  /** Heals a previously rejected candidate and grafts the result into the view's tree as a new root branch. */
+  const handleHealCandidate = async (candidateId: string) => {
+    const view = activeView;
+    const candidate = view?.candidates?.find(c => c.id === candidateId);
+    if (!view?.crop || !view.history || !candidate) return;
+    const prompt = headOf(view.history).prompt;
+    setStatus(GenerationStatus.LOADING);
+    setError(null);
+    setTracks([startTrack(view.id, view.label, 'auditing')]);
+    const signal = beginRun();
+    const tracker = trackerFor(view.id);
+
+    try {
+      const res = await runViewPipeline(prompt, view.crop, view, tracker.onStatusChange, tracker.provider, undefined, candidate, { signal, config });
+      const branch = historyFromPipeline(res, prompt, view.viewType);
+      setProject(prev => {
+        const target = prev?.views.find(v => v.id === view.id);
+        if (!prev || !target?.history) return prev;
+        return withCandidates(withTree(prev, view.id, graftTree(target.history, branch)), view.id, target.candidates ?? [], candidateId);
+      });
+      setStatus(GenerationStatus.SUCCESS);
+    } catch (err: any) {
+      handleRunFailure(err.checkpoint?.aborted ? err.cause : err, "Candidate Heal Failed");
+    } finally {
+      setTracks([]);
+      setRunController(null);
+    }
+  };
+
+  const handleRefine = async (prompt: string, selection?: number[]) => {
+    if (!project || !activeView) return;
     setStatus(GenerationStatus.LOADING);
-    setPipelineStatus("REFINING_ACTIVE_VIEW");
+    setTracks([startTrack(activeView.id, selection ? `${activeView.label} (Selection)` : activeView.label, 'refining')]);
+    const { provider } = trackerFor(activeView.id);
     
     try {
-      const currentSvg = activeView === 'side' ? project.sideView : project.topView;
-      const imageUsed = project.originalImage; // Ideally we use the cropped one but we didn't save it to state to save memory. 
-      // For refinement, we can just use the previous SVG context.
+      const currentSvg = currentSvgOf(activeView);
       
-      const refinedContent = await generateWarshipSvg(prompt, undefined, currentSvg?.content);
+      // Scoped refinements rewrite only the selected subtrees and are spliced back in.
+      const refined = selection && currentSvg
+        ? (await refineSelection(prompt, activeView.crop, currentSvg.content, selection, activeView.viewType, provider, config)).validation
+        : validateAndNormalize(await generateWarshipSvg(prompt, activeView.crop, currentSvg?.content, undefined, provider, config), requiredGroupsFor(activeView.viewType));
+      if (!refined.valid) {
+        // Keep the previous drawing rather than replacing it with unusable output.
+        throw new Error(`Refined SVG failed validation:\n${describeIssues(refined)}`);
+      }
+      if (currentSvg) assertLockedLayersKept(currentSvg.content, refined.sanitized!);
+      // Calibrated views keep their dimensions in step with whatever the refinement changed.
+      const validation = activeView.calibration
+        ? { ...validateSvg(redimension(activeView, refined.sanitized!), requiredGroupsFor(activeView.viewType)), postProcess: refined.postProcess }
+        : refined;
       
-      const updatedSvg = {
+      const refinedSvg: GeneratedSvg = {
         ...currentSvg!,
-        content: refinedContent,
+        id: crypto.randomUUID(),
+        content: validation.sanitized!,
         prompt,
-        timestamp: Date.now()
+        timestamp: Date.now(),
+        // The parent's audit and loop history describe the parent, not this revision
+        auditReport: undefined,
+        rounds: undefined,
+        stopReason: undefined,
+        trace: undefined,
+        fidelity: undefined,
+        validation,
+        stage: 'refined',
+        config
       };
 
-      setProject(prev => {
-        if (!prev) return null;
-        return {
-          ...prev,
-          [activeView === 'side' ? 'sideView' : 'topView']: updatedSvg
-        };
-      });
+      // Refinements are committed on top of the current head, never over it.
+      updateHistory(tree => commitRevision(tree, refinedSvg));
       setStatus(GenerationStatus.SUCCESS);
 
     } catch(err: any) {
       setStatus(GenerationStatus.ERROR);
       setError({ message: "Refinement Failed", details: err.message });
+    } finally {
+      setTracks([]);
+    }
+  };
+
+  const setViewCalibration = (viewId: string, calibration: ScaleCalibration | undefined) => {
+    setProject(prev => prev && {
+      ...prev,
+      views: prev.views.map(view => view.id === viewId ? { ...view, calibration } : view)
+    });
+  };
+
+  const commitDimensioned = (viewId: string, parent: GeneratedSvg, content: string, prompt: string) => {
+    updateViewHistory(viewId, tree => commitRevision(tree, {
+      ...parent,
+      id: crypto.randomUUID(),
+      content,
+      prompt,
+      timestamp: Date.now(),
+      auditReport: undefined,
+      rounds: undefined,
+      stopReason: undefined,
+      trace: undefined,
+      fidelity: undefined,
+      validation: validateSvg(content, requiredGroupsFor(parent.viewType)),
+      stage: 'dimensioned'
+    }));
+  };
+
+  const handleCalibrate = (reference: CalibrationReference, unit: LengthUnit) => {
+    const currentSvg = currentSvgOf(activeView);
+    if (!activeView || !currentSvg) return;
+    try {
+      const calibration = calibrate(currentSvg.content, activeView.viewType, reference, unit);
+      const content = applyDimensions(currentSvg.content, activeView.viewType, calibration);
+      commitDimensioned(activeView.id, currentSvg, content, `Scale: ${reference.kind.toUpperCase()} = ${formatLength(reference.length, unit)}`);
+      setViewCalibration(activeView.id, calibration);
+    } catch (err: any) {
+      setStatus(GenerationStatus.ERROR);
+      setError({ message: "Calibration Failed", details: err.message });
     }
   };
 
-  const getStatusLabel = () => {
-    if (status === GenerationStatus.SEGMENTING) return "TOOLING: Analyzing Layout & Cropping Views...";
-    if (pipelineStatus.includes("DRAFTING")) return "ARCHITECT: Constructing Geometry...";
-    if (pipelineStatus.includes("AUDITING")) return "ADVERSARY: Inspecting for Flaws...";
-    if (pipelineStatus.includes("HEALING")) return "ARCHITECT: Performing Self-Correction...";
-    return "Processing Neural Pipeline...";
+  const handleClearCalibration = () => {
+    const currentSvg = currentSvgOf(activeView);
+    if (!activeView || !currentSvg) return;
+    commitDimensioned(activeView.id, currentSvg, stripDimensions(currentSvg.content), 'Remove scale and dimensions');
+    setViewCalibration(activeView.id, undefined);
+  };
+
+  const handleSaveTheme = (theme: SvgTheme) => setProject(prev => {
+    if (!prev) return prev;
+    const existing = prev.customThemes ?? [];
+    const customThemes = existing.some(t => t.id === theme.id)
+      ? existing.map(t => t.id === theme.id ? theme : t)
+      : [...existing, theme];
+    return { ...prev, customThemes, themeId: theme.id };
+  });
+
+  const handleDeleteTheme = (id: string) => setProject(prev => prev && {
+    ...prev,
+    customThemes: (prev.customThemes ?? []).filter(t => t.id !== id),
+    themeId: prev.themeId === id ? undefined : prev.themeId
+  });
+
+  const handleSavePreset = (preset: PipelineConfig) => setPresetState(prev => ({
+    custom: prev.custom.some(p => p.id === preset.id) ? prev.custom.map(p => p.id === preset.id ? preset : p) : [...prev.custom, preset],
+    activeId: preset.id
+  }));
+
+  const handleDeletePreset = (id: string) => setPresetState(prev => ({
+    custom: prev.custom.filter(p => p.id !== id),
+    activeId: prev.activeId === id ? DEFAULT_PRESET_ID : prev.activeId
+  }));
+
+  const handleImportPresets = (imported: PipelineConfig[]) => setPresetState(prev => ({
+    custom: [...prev.custom, ...imported],
+    activeId: imported[0]?.id ?? prev.activeId
+  }));
+
+  const handleLayerEdit = (content: string) => {
+    if (!activeView) return;
+    const validation = validateSvg(content, requiredGroupsFor(activeView.viewType));
+    updateHistory(tree => {
+      const head = headOf(tree);
+      // A run of layer edits collapses into one revision so toggling visibility doesn't flood the history.
+      if (head.stage === 'edited' && childrenOf(tree, head.id).length === 0) {
+        return amendHead(tree, { content, validation, timestamp: Date.now(), fidelity: undefined });
+      }
+      return commitRevision(tree, {
+        ...head,
+        id: crypto.randomUUID(),
+        content,
+        prompt: 'Layer edits',
+        timestamp: Date.now(),
+        auditReport: undefined,
+        rounds: undefined,
+        stopReason: undefined,
+        trace: undefined,
+        fidelity: undefined,
+        validation,
+        stage: 'edited'
+      });
+    });
+  };
+
+  const handleOpenProject = async (id: string) => {
+    try {
+      const stored = await loadProject(id);
+      if (!stored) return;
+      setProject(stored);
+      setActiveViewId(stored.activeViewId ?? stored.views[0]?.id ?? null);
+      setRefinementText(stored.refinementDraft ?? '');
+      setError(null);
+      setStatus(GenerationStatus.SUCCESS);
+    } catch (err: any) {
+      setStatus(GenerationStatus.ERROR);
+      setError({ message: "Could Not Open Project", details: err.message });
+    }
+  };
+
+  const handleQueueBatch = (prompt: string, files: BatchFile[], loopOptions: PipelineLoopOptions, shipType?: ShipType) => {
+    const jobs = files.map(file => createBatchJob(file.name, file.image, prompt, loopOptions, config, shipType));
+    setBatchJobs((prev: BatchJob[]) => [...prev, ...jobs]);
+    batchQueue.enqueue(jobs);
+  };
+
+  const handleRetryBatchJob = (jobId: string) => {
+    const job = batchJobs.find((j: BatchJob) => j.id === jobId);
+    if (!job) return;
+    const reset: BatchJob = { ...job, status: 'queued', error: undefined, detail: undefined, startedAt: undefined, finishedAt: undefined };
+    setBatchJobs((prev: BatchJob[]) => prev.map(j => j.id === jobId ? reset : j));
+    batchQueue.enqueue([reset]);
+  };
+
+  const handleBatchConcurrency = (concurrency: number) => {
+    setBatchConcurrency(concurrency);
+    batchQueue.setConcurrency(concurrency);
+  };
+
+  const handleProjectRenamed = (id: string, name: string, shipClass?: string) => {
+    setProject(prev => prev && prev.id === id ? { ...prev, name, shipClass } : prev);
+  };
+
+  const handleProjectDeleted = (id: string) => {
+    if (project?.id === id) {
+      setProject(null);
+      setRefinementText('');
+      setStatus(GenerationStatus.IDLE);
+    }
   };
 
-  const currentSvg = project ? (activeView === 'side' ? project.sideView : project.topView) : null;
+  const currentSvg = currentSvgOf(activeView) ?? null;
+  const currentTree = activeView?.history;
+  const currentTrace = currentTree ? traceOf(currentTree) : undefined;
+  const tracedStep = currentTrace?.steps.find(step => step.id === traceStepId);
+  const tracePreview = currentTrace && tracedStep ? stepRevision(currentTrace, tracedStep, currentSvg?.prompt) : null;
+
+  // A trace output is only shown until the user moves to another view or revision.
+  useEffect(() => { setTraceStepId(null); }, [activeView?.id, currentSvg?.id]);
+
+  // Revisions made outside the pipeline (refinements, layer edits) are scored once they are on screen.
+  useEffect(() => {
+    if (!activeView?.crop || !currentSvg || currentSvg.fidelity) return;
+    let cancelled = false;
+    const [viewId, revisionId] = [activeView.id, currentSvg.id];
+    scoreFidelity(currentSvg.content, activeView.crop)
+      .then(fidelity => {
+        if (!cancelled && fidelity) updateViewHistory(viewId, tree => patchRevision(tree, revisionId, { fidelity }));
+      })
+      .catch(err => console.error("Could not score fidelity", err));
+    return () => { cancelled = true; };
+  }, [activeView?.id, currentSvg?.id, currentSvg?.content, currentSvg?.fidelity]);
+  const multiShip = !!project && new Set(project.views.map(view => view.shipIndex)).size > 1;
 
   return (
     <div className="min-h-screen bg-zinc-950 text-zinc-100 font-sans selection:bg-indigo-500/30">      
@@ -141,21 +696,98 @@ const App: React.FC = () => {
       <main className="relative pb-20 pt-12">
         <InputSection 
           onGenerate={handleGenerate} 
+          onBatch={handleQueueBatch}
           status={status} 
         />
+
+        <PipelineSettings
+          presets={presetsOf(presetState.custom)}
+          active={config}
+          onSelect={(activeId) => setPresetState(prev => ({ ...prev, activeId }))}
+          onChange={handleSavePreset}
+          onDuplicate={() => handleSavePreset(duplicatePreset(config))}
+          onDelete={() => handleDeletePreset(config.id)}
+          onImport={handleImportPresets}
+          disabled={status === GenerationStatus.LOADING || status === GenerationStatus.SEGMENTING}
+        />
+
+        {batchJobs.length > 0 && (
+          <BatchPanel
+            jobs={batchJobs}
+            concurrency={batchConcurrency}
+            onConcurrencyChange={handleBatchConcurrency}
+            onRetry={handleRetryBatchJob}
+            onOpen={handleOpenProject}
+            onClearFinished={() => setBatchJobs((prev: BatchJob[]) => prev.filter(job => job.status !== 'done' && job.status !== 'failed'))}
+            onExport={() => downloadBlob(exportBatchZip(batchJobs), `batch-${new Date().toISOString().slice(0, 10)}.zip`)}
+          />
+        )}
         
         {(status === GenerationStatus.LOADING || status === GenerationStatus.SEGMENTING) && (
-          <div className="max-w-2xl mx-auto mt-8 px-4 animate-pulse">
-            <div className="bg-indigo-500/10 border border-indigo-500/20 rounded-xl p-6 flex flex-col items-center gap-4 text-center">
-              {status === GenerationStatus.SEGMENTING ? (
-                 <Scissors className="w-8 h-8 text-indigo-400 animate-bounce" />
-              ) : (
-                 <RefreshCw className="w-8 h-8 text-indigo-400 animate-spin" />
-              )}
-              <div>
-                <h4 className="font-bold text-white tracking-widest uppercase text-sm mb-1">{getStatusLabel()}</h4>
-                <p className="text-xs text-indigo-300/60 font-mono">Gemini Multi-View Processor Active</p>
+          <div className="max-w-4xl mx-auto mt-8 px-4">
+            <div className="bg-indigo-500/10 border border-indigo-500/20 rounded-xl p-6 flex flex-col gap-4">
+              <div className="flex items-center gap-4">
+                {status === GenerationStatus.SEGMENTING ? (
+                   <Scissors className="w-6 h-6 text-indigo-400 animate-bounce" />
+                ) : (
+                   <RefreshCw className="w-6 h-6 text-indigo-400 animate-spin" />
+                )}
+                <div className="flex-1">
+                  <h4 className="font-bold text-white tracking-widest uppercase text-sm mb-1">
+                    {status === GenerationStatus.SEGMENTING
+                      ? "TOOLING: Analyzing Layout & Cropping Views..."
+                      : `Processing ${tracks.length} View${tracks.length === 1 ? '' : 's'} · ${tracks.filter(isFinished).length} Finished`}
+                  </h4>
+                  <p className="text-xs text-indigo-300/60 font-mono">Gemini Multi-View Processor Active</p>
+                </div>
+                {runController && (
+                  <button
+                    onClick={handleCancelRun}
+                    className="px-4 py-2 text-xs font-bold uppercase tracking-widest text-zinc-300 hover:text-white border border-white/10 rounded-lg"
+                  >
+                    Cancel Run
+                  </button>
+                )}
               </div>
+              {tracks.length > 0 && <ProgressTracks tracks={tracks} />}
+            </div>
+          </div>
+        )}
+
+        {status === GenerationStatus.REVIEWING_SEGMENTATION && pendingRun && (
+          <SegmentationEditor
+            imageSrc={pendingRun.image.data}
+            initial={pendingRun.segmentation}
+            onConfirm={handleConfirmSegmentation}
+            onCancel={handleCancelSegmentation}
+          />
+        )}
+
+        {status === GenerationStatus.REVIEWING_CANDIDATES && pendingCandidates && (
+          <div className="mt-8 max-w-6xl mx-auto px-4">
+            {pendingCandidates.project.views.map(view => view.checkpoint ? (
+              <p key={view.id} className="mb-4 text-[10px] font-mono uppercase tracking-widest text-red-400">
+                {view.label}: {view.checkpoint.error} Resume it once the other views are healed.
+              </p>
+            ) : (
+              <CandidateGallery
+                key={view.id}
+                title={`Pick Draft: ${view.label}`}
+                candidates={view.candidates ?? []}
+                selectedId={view.selectedCandidateId}
+                onSelect={(id) => handlePickCandidate(view.id, id)}
+              />
+            ))}
+            <div className="flex justify-end gap-2">
+              <button onClick={handleCancelCandidates} className="px-4 py-2 text-xs font-bold uppercase tracking-widest text-zinc-400 hover:text-white rounded-lg">
+                Cancel
+              </button>
+              <button
+                onClick={handleConfirmCandidates}
+                className="flex items-center gap-2 px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold text-xs uppercase tracking-widest hover:bg-indigo-500"
+              >
+                <Play className="w-4 h-4" /> Heal Selected
+              </button>
             </div>
           </div>
         )}
@@ -172,63 +804,146 @@ const App: React.FC = () => {
           </div>
         )}
 
-        {project && (
+        {project && status !== GenerationStatus.REVIEWING_SEGMENTATION && status !== GenerationStatus.REVIEWING_CANDIDATES && (
           <div className="mt-8 max-w-6xl mx-auto px-4">
             {/* View Switching Tabs */}
-            <div className="flex gap-2 mb-4">
-              {project.sideView && (
-                <button
-                  onClick={() => setActiveView('side')}
-                  className={`px-4 py-2 rounded-lg text-sm font-bold uppercase tracking-widest flex items-center gap-2 transition-all ${
-                    activeView === 'side' ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/20' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
-                  }`}
-                >
-                  <ScanLine className="w-4 h-4" /> Side Profile
-                </button>
-              )}
-              {project.topView && (
-                <button
-                  onClick={() => setActiveView('top')}
-                  className={`px-4 py-2 rounded-lg text-sm font-bold uppercase tracking-widest flex items-center gap-2 transition-all ${
-                    activeView === 'top' ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/20' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
-                  }`}
-                >
-                  <Layers className="w-4 h-4" /> Deck Plan
-                </button>
-              )}
+            <div className="flex flex-wrap gap-2 mb-4">
+              {project.views.map(view => {
+                const Icon = VIEW_ICONS[view.viewType] ?? Box;
+                return (
+                  <button
+                    key={view.id}
+                    onClick={() => setActiveViewId(view.id)}
+                    className={`px-4 py-2 rounded-lg text-sm font-bold uppercase tracking-widest flex items-center gap-2 transition-all ${
+                      activeView?.id === view.id ? 'bg-indigo-600 text-white shadow-lg shadow-indigo-500/20' : 'bg-zinc-800 text-zinc-400 hover:bg-zinc-700'
+                    }`}
+                  >
+                    <Icon className="w-4 h-4" /> {view.label}
+                    {multiShip && <span className="text-[10px] font-mono opacity-60">SHIP {view.shipIndex + 1}</span>}
+                    <FidelityBadge score={currentSvgOf(view)?.fidelity} />
+                  </button>
+                );
+              })}
             </div>
 
+            {activeView?.checkpoint && status === GenerationStatus.SUCCESS && (
+              <ResumePanel
+                checkpoint={activeView.checkpoint}
+                viewLabel={activeView.label}
+                onResume={() => handleResume(activeView.id)}
+                onDismiss={() => setProject(prev => prev && withCheckpoint(prev, activeView.id, undefined))}
+              />
+            )}
+
+            {currentSvg?.fidelity && status === GenerationStatus.SUCCESS && (
+              <FidelityPanel score={currentSvg.fidelity} />
+            )}
+
             {/* Audit Summary */}
-            {currentSvg?.auditReport && status === GenerationStatus.SUCCESS && (
-               <div className="bg-zinc-900/80 border border-zinc-800 rounded-xl p-4 flex items-start gap-4 shadow-lg mb-4">
-                  <div className="p-2 bg-amber-500/10 rounded-lg">
-                    <ShieldAlert className="w-4 h-4 text-amber-500" />
-                  </div>
-                  <div className="flex-1">
-                    <div className="flex items-center gap-2 mb-2">
-                      <span className="text-[10px] font-mono text-amber-500 uppercase tracking-widest">
-                         Inspector General Report ({activeView.toUpperCase()})
-                      </span>
-                      <div className="h-px flex-1 bg-zinc-800"></div>
-                      <span className="text-[10px] font-mono text-green-500 uppercase tracking-widest flex items-center gap-1">
-                        <CheckCircle2 className="w-3 h-3" /> Resolved
-                      </span>
-                    </div>
-                    <div className="text-[11px] text-zinc-400 leading-relaxed font-mono line-clamp-2 hover:line-clamp-none transition-all cursor-help">
-                      {currentSvg.auditReport}
-                    </div>
-                  </div>
-               </div>
+            {currentSvg && status === GenerationStatus.SUCCESS && (
+              <AuditPanel
+                report={currentSvg.auditReport}
+                viewLabel={activeView?.label ?? currentSvg.viewType}
+                checklist={checklistFor(activeView?.shipType, currentSvg.viewType)}
+              />
+            )}
+
+            {currentSvg?.rounds && currentSvg.rounds.length > 0 && status === GenerationStatus.SUCCESS && (
+              <ConvergencePanel rounds={currentSvg.rounds} stopReason={currentSvg.stopReason} />
             )}
             
-            <SvgPreview data={currentSvg} onRefine={handleRefine} isLoading={status === GenerationStatus.LOADING} />
+            {consistency && consistencyPair && status === GenerationStatus.SUCCESS && (
+              <ConsistencyPanel
+                report={consistency}
+                sideSvg={currentSvgOf(consistencyPair.side)!.content}
+                topSvg={currentSvgOf(consistencyPair.top)!.content}
+                sideLabel={consistencyPair.side.label}
+                topLabel={consistencyPair.top.label}
+                onReconcile={handleReconcile}
+              />
+            )}
+
+            {activeView?.candidates && activeView.candidates.length > 1 && status === GenerationStatus.SUCCESS && (
+              <CandidateGallery
+                title="Draft Candidates"
+                candidates={activeView.candidates}
+                selectedId={activeView.selectedCandidateId}
+                onHeal={handleHealCandidate}
+              />
+            )}
+
+            {activeView && currentSvg && status === GenerationStatus.SUCCESS && (
+              <CalibrationPanel
+                viewType={activeView.viewType}
+                crop={activeView.crop}
+                calibration={activeView.calibration}
+                onApply={handleCalibrate}
+                onClear={handleClearCalibration}
+              />
+            )}
+
+            {currentTrace && status === GenerationStatus.SUCCESS && (
+              <TracePanel
+                trace={currentTrace}
+                openStepId={tracePreview?.id}
+                onOpen={(step) => setTraceStepId(step.id === traceStepId ? null : step.id)}
+              />
+            )}
+
+            {currentTree && (
+              <RevisionHistory
+                tree={currentTree}
+                onUndo={() => updateHistory(undo)}
+                onRedo={() => updateHistory(redo)}
+                onCheckout={(id) => updateHistory(tree => checkout(tree, id))}
+                disabled={status === GenerationStatus.LOADING}
+              />
+            )}
+
+            {tracePreview && tracedStep && (
+              <div className="flex items-center gap-3 mb-2 px-4 py-2 bg-indigo-500/10 border border-indigo-500/20 rounded-lg text-[10px] font-mono uppercase tracking-widest text-indigo-300">
+                <Activity className="w-3.5 h-3.5" />
+                Showing the {tracedStep.stage}{tracedStep.round !== undefined && ` round ${tracedStep.round}`} output from the run trace
+                <div className="flex-1"></div>
+                <button onClick={() => setTraceStepId(null)} className="text-zinc-300 hover:text-white">Back to Current Drawing</button>
+              </div>
+            )}
+
+            <SvgPreview
+              data={tracePreview ?? currentSvg}
+              onRefine={tracePreview ? undefined : handleRefine}
+              isLoading={status === GenerationStatus.LOADING}
+              refinementText={refinementText}
+              onRefinementTextChange={setRefinementText}
+              onContentChange={tracePreview ? undefined : handleLayerEdit}
+              theme={resolveTheme(project)}
+              themes={themesOf(project)}
+              onThemeChange={(themeId) => setProject(prev => prev && { ...prev, themeId })}
+              onSaveTheme={handleSaveTheme}
+              onDeleteTheme={handleDeleteTheme}
+            />
+
+            {status === GenerationStatus.SUCCESS && (
+              <div className="mt-4">
+                <SheetPanel
+                  project={project}
+                  onOptionsChange={(sheetOptions) => setProject(prev => prev && { ...prev, sheetOptions })}
+                />
+              </div>
+            )}
           </div>
         )}
+
+        <ProjectLibrary
+          activeProjectId={project?.id}
+          refreshKey={libraryVersion}
+          onOpen={handleOpenProject}
+          onRenamed={handleProjectRenamed}
+          onDeleted={handleProjectDeleted}
+        />
       </main>
     </div>
   );
 };
 
 export default App;
-// Helper import for Layers icon was missing in previous snippet if not careful, added to imports.
-import { Layers } from 'lucide-react'; 
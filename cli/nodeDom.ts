@@ -0,0 +1,92 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { DOMParser as LinkedomParser } from 'linkedom';
+
+// The services parse and rewrite SVG with DOMParser and XMLSerializer. linkedom provides the
+// DOM under Node, with three gaps this adapter closes so the validator behaves as in a browser:
+// it repairs malformed XML instead of reporting it, parsed elements never carry a namespace, and
+// getElementsByTagName('*') matches nothing.
+
+const TOKEN = /<!--[\s\S]*?-->|<!\[CDATA\[[\s\S]*?\]\]>|<\?[\s\S]*?\?>|<!DOCTYPE[^>]*>|<(\/?)([A-Za-z_][\w:.-]*)((?:\s+[^\s=/>]+\s*=\s*(?:"[^"]*"|'[^']*'))*)\s*(\/?)>|<|&(?!(?:[A-Za-z]+|#\d+|#x[0-9A-Fa-f]+);)/g;
+
+/** First well-formedness error in the markup, or null. Checks tag syntax, nesting, entities and a single root. */
+const wellFormednessError = (markup: string): string | null => {
+  const open: string[] = [];
+  let roots = 0;
+  let last = 0;
+  for (const match of markup.matchAll(TOKEN)) {
+    const [token, closing, name, , selfClosing] = match;
+    const index = match.index ?? 0;
+    if (open.length === 0 && markup.slice(last, index).trim()) return `Text outside the root element at offset ${last}.`;
+    last = index + token.length;
+    if (token === '<') return `Unexpected "<" at offset ${index}.`;
+    if (token === '&') return `Unescaped "&" at offset ${index}.`;
+    if (!name) continue;
+    if (closing) {
+      const expected = open.pop();
+      if (expected !== name) return `Expected </${expected ?? 'nothing'}> but found </${name}> at offset ${index}.`;
+    } else {
+      if (open.length === 0 && ++roots > 1) return `Second root element <${name}> at offset ${index}.`;
+      if (!selfClosing) open.push(name);
+    }
+  }
+  if (open.length > 0) return `Unclosed <${open[open.length - 1]}> at end of input.`;
+  if (markup.slice(last).trim()) return `Text outside the root element at offset ${last}.`;
+  return roots === 0 ? 'No root element.' : null;
+};
+
+const escapeText = (text: string) => text.replace(/&/g, '&amp;').replace(/</g, '&lt;');
+
+// Elements created with createElementNS are fine; parsed ones inherit from their xmlns declarations.
+const resolveNamespaces = (el: Element, inherited: string | null) => {
+  const namespace = el.getAttribute('xmlns') ?? inherited;
+  if (namespace) Object.defineProperty(el, 'namespaceURI', { value: namespace, configurable: true });
+  Array.from(el.children).forEach(child => resolveNamespaces(child, namespace));
+};
+
+type TagLookup = (this: ParentNode, name: string) => ArrayLike<Element>;
+const wildcardReady = new WeakSet<object>();
+
+// Teaches the prototype that owns getElementsByTagName to answer '*' with every descendant.
+const supportWildcard = (node: object) => {
+  let proto: object | null = Object.getPrototypeOf(node);
+  while (proto && !Object.prototype.hasOwnProperty.call(proto, 'getElementsByTagName')) proto = Object.getPrototypeOf(proto);
+  if (!proto || wildcardReady.has(proto)) return;
+  wildcardReady.add(proto);
+  const owner = proto as { getElementsByTagName: TagLookup };
+  const byTag = owner.getElementsByTagName;
+  owner.getElementsByTagName = function (name) {
+    return name === '*' ? this.querySelectorAll('*') : byTag.call(this, name);
+  };
+};
+
+type LinkedomMimeType = Parameters<LinkedomParser['parseFromString']>[1];
+
+/** DOMParser with browser semantics for XML: malformed input yields a document holding <parsererror>. */
+export class NodeDomParser {
+  parseFromString(markup: string, type: DOMParserSupportedType): Document {
+    const problem = type === 'text/html' ? null : wellFormednessError(markup);
+    const doc = new LinkedomParser().parseFromString(problem ? `<parsererror>${escapeText(problem)}</parsererror>` : markup, type as LinkedomMimeType) as unknown as Document;
+    if (!problem && type !== 'text/html' && doc.documentElement) resolveNamespaces(doc.documentElement, null);
+    supportWildcard(doc);
+    if (doc.documentElement) supportWildcard(doc.documentElement);
+    return doc;
+  }
+}
+
+export class NodeXmlSerializer {
+  serializeToString(node: Node): string {
+    const target = node.nodeType === 9 ? (node as Document).documentElement : node;
+    return target ? target.toString() : '';
+  }
+}
+
+/** Installs the adapters as the DOMParser and XMLSerializer globals unless the environment has its own. */
+export const installNodeDom = () => {
+  const scope = globalThis as { DOMParser?: unknown; XMLSerializer?: unknown };
+  scope.DOMParser ??= NodeDomParser;
+  scope.XMLSerializer ??= NodeXmlSerializer;
+};
@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { PNG } from 'pngjs';
+import { NodeRasterizer } from './nodeRasterizer';
+
+const blackPng = (width: number, height: number) => {
+  const png = new PNG({ width, height });
+  for (let i = 0; i < png.data.length; i += 4) png.data.set([0, 0, 0, 255], i);
+  return { data: `data:image/png;base64,${PNG.sync.write(png).toString('base64')}`, mimeType: 'image/png' };
+};
+
+describe('NodeRasterizer.cropImage', () => {
+  const rasterizer = new NodeRasterizer();
+
+  it('crops the box onto a white margin', async () => {
+    const crop = await rasterizer.cropImage(blackPng(10, 10), { xmin: 0, ymin: 0, xmax: 500, ymax: 1000 }, 2);
+    const gray = await rasterizer.decodeImage(crop);
+    expect([gray.width, gray.height]).toEqual([9, 14]);
+    expect(gray.data[0]).toBe(1);
+    expect(gray.data[2 * gray.width + 2]).toBe(0);
+  });
+
+  it('rounds fractional padding to whole pixels', async () => {
+    const crop = await rasterizer.cropImage(blackPng(10, 10), { xmin: 0, ymin: 0, xmax: 1000, ymax: 1000 }, 2.6);
+    const gray = await rasterizer.decodeImage(crop);
+    expect([gray.width, gray.height]).toEqual([16, 16]);
+    expect(gray.data[3 * gray.width + 3]).toBe(0);
+    expect(gray.data[2 * gray.width + 2]).toBe(1);
+  });
+});
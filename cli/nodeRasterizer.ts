@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PNG } from 'pngjs';
+import jpeg from 'jpeg-js';
+import { BoundingBox, ImageData } from '../types';
+import { GrayImage, Rasterizer, boxToPixels, toGray } from '../services/rasterizer';
+
+// Pure-JS image backend for Node: PNG and JPEG scans are decoded and cropped in memory.
+// There is no SVG renderer, so raster fidelity scores are skipped, as they are wherever
+// rendering fails.
+
+interface RgbaImage {
+  width: number;
+  height: number;
+  data: Uint8Array; // RGBA, row-major
+}
+
+export class NodeImageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'NodeImageError';
+  }
+}
+
+const bytesOf = (image: ImageData): Buffer => Buffer.from(image.data.split(',')[1] ?? image.data, 'base64');
+
+const decodeRgba = (image: ImageData): RgbaImage => {
+  const bytes = bytesOf(image);
+  // Sniff the signature rather than trusting the declared type.
+  if (bytes[0] === 0x89 && bytes[1] === 0x50) {
+    const png = PNG.sync.read(bytes);
+    return { width: png.width, height: png.height, data: png.data };
+  }
+  if (bytes[0] === 0xff && bytes[1] === 0xd8) {
+    const decoded = jpeg.decode(bytes, { useTArray: true, formatAsRGBA: true });
+    return { width: decoded.width, height: decoded.height, data: decoded.data };
+  }
+  throw new NodeImageError(`Unsupported image type ${image.mimeType}; the command line reads PNG and JPEG.`);
+};
+
+export class NodeRasterizer implements Rasterizer {
+  readonly name = 'node';
+
+  async rasterizeSvg(): Promise<GrayImage> {
+    throw new NodeImageError('SVG rendering is not available in the Node image backend.');
+  }
+
+  async decodeImage(image: ImageData): Promise<GrayImage> {
+    const { width, height, data } = decodeRgba(image);
+    return toGray(new Uint8ClampedArray(data.buffer, data.byteOffset, data.length), width, height);
+  }
+
+  /** Nearest-pixel crop composited onto white, encoded as PNG. Padding is rounded to whole pixels. */
+  async cropImage(image: ImageData, box: BoundingBox, padding: number): Promise<ImageData> {
+    // pngjs takes a fractional size and writes a malformed image, so only whole pixels reach it.
+    const margin = Math.max(0, Math.round(padding) || 0);
+    const source = decodeRgba(image);
+    const rect = boxToPixels(box, source.width, source.height);
+    const [x0, y0] = [Math.round(rect.x), Math.round(rect.y)];
+    const [w, h] = [Math.max(1, Math.round(rect.w)), Math.max(1, Math.round(rect.h))];
+    const out = new PNG({ width: w + margin * 2, height: h + margin * 2 });
+    out.data.fill(255);
+
+    for (let y = 0; y < h; y++) {
+      const sy = y0 + y;
+      if (sy < 0 || sy >= source.height) continue;
+      for (let x = 0; x < w; x++) {
+        const sx = x0 + x;
+        if (sx < 0 || sx >= source.width) continue;
+        const from = (sy * source.width + sx) * 4;
+        const to = ((y + margin) * out.width + x + margin) * 4;
+        const alpha = source.data[from + 3] / 255;
+        for (let c = 0; c < 3; c++) out.data[to + c] = Math.round(source.data[from + c] * alpha + 255 * (1 - alpha));
+      }
+    }
+    return { data: `data:image/png;base64,${PNG.sync.write(out).toString('base64')}`, mimeType: 'image/png' };
+  }
+}
@@ -0,0 +1,245 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { parseArgs } from 'node:util';
+import { mkdir, readFile, writeFile } from 'node:fs/promises';
+import path from 'node:path';
+import { FindingSeverity, PipelineConfig, PipelineLoopOptions, ShipType, ViewType } from '../types';
+import { DEFAULT_LOOP_OPTIONS } from '../services/geminiService';
+import { ModelProvider, setDefaultProvider } from '../services/modelProvider';
+import { GeminiProvider } from '../services/providers/geminiProvider';
+import { OpenAiCompatibleProvider } from '../services/providers/openAiCompatibleProvider';
+import { RecordingProvider, ReplayProvider } from '../services/providers/replayProvider';
+import { setDefaultRasterizer } from '../services/rasterizer';
+import { currentSvgOf, traceOf } from '../services/revisionHistory';
+import { traceToJson } from '../services/pipelineTrace';
+import { SEVERITIES } from '../services/auditFindings';
+import { BUILT_IN_THEMES, applyTheme } from '../services/themes';
+import { BUILT_IN_PRESETS, DEFAULT_PRESET_ID, parsePresets } from '../services/pipelineConfig';
+import { VIEW_TYPES, isViewType } from '../services/viewTypes';
+import { SHIP_TYPES, isShipType } from '../services/shipTemplates';
+import { convertSheet, projectNameOf, slug, viewReport } from '../services/sheetConversion';
+import { NodeRasterizer } from './nodeRasterizer';
+import { installNodeDom } from './nodeDom';
+
+// Headless entry point: `warship-svg convert plan.png --views side,top --out dir/`.
+// Writes one SVG, audit report and run trace per view, plus manifest.json describing the run.
+
+const USAGE = `Usage: warship-svg convert <image> [options]
+
+Options:
+  --out <dir>            Output directory (default: out)
+  --views <types>        Only convert these view types, comma-separated: ${VIEW_TYPES.join(', ')}
+  --prompt <text>        Design constraints passed to every stage
+  --ship <type>          Ship type for every view instead of detecting it: ${SHIP_TYPES.join(', ')}
+  --rounds <n>           Maximum audit/heal rounds (default: ${DEFAULT_LOOP_OPTIONS.maxRounds})
+  --stop-at <severity>   Converge once nothing at or above critical, major or minor is open (default: ${DEFAULT_LOOP_OPTIONS.stopAtSeverity})
+  --candidates <n>       Drafts per view; the best-ranked one is healed (default: 1)
+  --preset <id|file>     Models and prompts: ${BUILT_IN_PRESETS.map(preset => preset.id).join(', ')}, or an exported preset file (default: ${DEFAULT_PRESET_ID})
+  --padding <px>         Margin around each cropped view (default: the preset's)
+  --theme <id>           Recolour the SVGs with a built-in theme: ${BUILT_IN_THEMES.map(theme => theme.id).join(', ')}
+  --provider <name>      gemini, openai or replay (default: MODEL_PROVIDER, else gemini)
+  --fixture <file>       Replay fixture to answer every model call from; implies --provider replay
+  --record <file>        Save every model exchange as a replay fixture
+  --quiet                Do not print pipeline progress
+
+Environment: GEMINI_API_KEY for gemini; OPENAI_BASE_URL, OPENAI_API_KEY and OPENAI_MODEL for openai.`;
+
+class UsageError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'UsageError';
+  }
+}
+
+// Failures with a self-explanatory message; anything else prints its stack.
+const EXPECTED_ERRORS = ['SheetConversionError', 'NodeImageError', 'ReplayMissError', 'PipelineStageError', 'PipelineConfigError', 'AbortError'];
+
+const MIME_TYPES: Record<string, string> = { '.png': 'image/png', '.jpg': 'image/jpeg', '.jpeg': 'image/jpeg' };
+
+const positiveInt = (value: string | undefined, flag: string, fallback?: number): number | undefined => {
+  if (value === undefined) return fallback;
+  const n = Number(value);
+  if (!Number.isInteger(n) || n < 1) throw new UsageError(`${flag} expects a positive whole number, got "${value}".`);
+  return n;
+};
+
+const nonNegativeInt = (value: string | undefined, flag: string): number | undefined => {
+  if (value === undefined) return undefined;
+  const n = Number(value);
+  if (!value.trim() || !Number.isInteger(n) || n < 0) throw new UsageError(`${flag} expects a whole number of zero or more, got "${value}".`);
+  return n;
+};
+
+const createProvider = async (name: string | undefined, fixture: string | undefined): Promise<ModelProvider> => {
+  const choice = fixture ? 'replay' : name ?? process.env.MODEL_PROVIDER ?? 'gemini';
+  switch (choice) {
+    case 'replay':
+      if (!fixture) throw new UsageError('--provider replay needs --fixture <file>.');
+      return new ReplayProvider(JSON.parse(await readFile(fixture, 'utf8')));
+    case 'openai':
+      return new OpenAiCompatibleProvider({
+        baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:8080/v1',
+        apiKey: process.env.OPENAI_API_KEY,
+        model: process.env.OPENAI_MODEL || undefined
+      });
+    case 'gemini':
+      return new GeminiProvider(process.env.GEMINI_API_KEY ?? process.env.API_KEY);
+    default:
+      throw new UsageError(`Unknown provider "${choice}"; expected gemini, openai or replay.`);
+  }
+};
+
+/** A built-in preset by id, or the first preset in an exported JSON file. */
+const loadPreset = async (choice: string): Promise<PipelineConfig> => {
+  if (choice.toLowerCase().endsWith('.json')) return parsePresets(await readFile(choice, 'utf8'))[0];
+  const preset = BUILT_IN_PRESETS.find(p => p.id === choice);
+  if (!preset) throw new UsageError(`Unknown preset "${choice}"; expected ${BUILT_IN_PRESETS.map(p => p.id).join(', ')} or a .json file.`);
+  return preset;
+};
+
+const convert = async (args: string[]) => {
+  const { values, positionals } = parseArgs({
+    args,
+    allowPositionals: true,
+    options: {
+      out: { type: 'string', default: 'out' },
+      views: { type: 'string' },
+      ship: { type: 'string' },
+      prompt: { type: 'string', default: '' },
+      rounds: { type: 'string' },
+      'stop-at': { type: 'string' },
+      candidates: { type: 'string' },
+      preset: { type: 'string', default: DEFAULT_PRESET_ID },
+      padding: { type: 'string' },
+      theme: { type: 'string' },
+      provider: { type: 'string' },
+      fixture: { type: 'string' },
+      record: { type: 'string' },
+      quiet: { type: 'boolean', default: false }
+    }
+  });
+
+  const [input] = positionals;
+  if (!input || positionals.length > 1) throw new UsageError('convert expects exactly one image.');
+  const mimeType = MIME_TYPES[path.extname(input).toLowerCase()];
+  if (!mimeType) throw new UsageError(`Unsupported image "${input}"; expected PNG or JPEG.`);
+
+  const viewTypes = values.views?.split(',').map(type => type.trim()).filter(Boolean);
+  const unknown = viewTypes?.filter(type => !isViewType(type));
+  if (unknown?.length) throw new UsageError(`Unknown view type ${unknown.join(', ')}; expected ${VIEW_TYPES.join(', ')}.`);
+  if (values.ship !== undefined && !isShipType(values.ship)) throw new UsageError(`Unknown ship type "${values.ship}"; expected ${SHIP_TYPES.join(', ')}.`);
+  const stopAt = values['stop-at'] ?? DEFAULT_LOOP_OPTIONS.stopAtSeverity;
+  if (!(SEVERITIES as string[]).includes(stopAt)) throw new UsageError(`--stop-at expects ${SEVERITIES.join(', ')}.`);
+  const theme = values.theme && BUILT_IN_THEMES.find(t => t.id === values.theme);
+  if (values.theme && !theme) throw new UsageError(`Unknown theme "${values.theme}".`);
+
+  const loopOptions: PipelineLoopOptions = {
+    ...DEFAULT_LOOP_OPTIONS,
+    maxRounds: positiveInt(values.rounds, '--rounds', DEFAULT_LOOP_OPTIONS.maxRounds)!,
+    stopAtSeverity: stopAt as FindingSeverity,
+    candidateCount: positiveInt(values.candidates, '--candidates', 1),
+    candidateSelection: 'auto'
+  };
+  const padding = nonNegativeInt(values.padding, '--padding');
+  const config = await loadPreset(values.preset!);
+
+  const live = await createProvider(values.provider, values.fixture);
+  const provider = values.record ? new RecordingProvider(live) : live;
+  setDefaultProvider(provider);
+
+  const image = { data: `data:${mimeType};base64,${(await readFile(input)).toString('base64')}`, mimeType };
+  const log = (line: string) => { if (!values.quiet) console.error(line); };
+  let lastStatus = '';
+  const onStatusChange = (status: string) => {
+    if (status !== lastStatus) log(`  ${status}`);
+    lastStatus = status;
+  };
+
+  // Ctrl-C stops the model calls; views that got far enough are still written.
+  const controller = new AbortController();
+  process.once('SIGINT', () => {
+    log('Cancelling...');
+    controller.abort();
+  });
+
+  log(`Converting ${input} with ${provider.name} (${config.name})`);
+  const startedAt = Date.now();
+  let project;
+  try {
+    project = await convertSheet(image, values.prompt!, {
+      name: projectNameOf(path.basename(input)),
+      loopOptions,
+      viewTypes: viewTypes as ViewType[] | undefined,
+      shipType: values.ship as ShipType | undefined,
+      padding,
+      config,
+      signal: controller.signal
+    }, onStatusChange, provider);
+  } finally {
+    // A partial recording is still useful for reproducing the failure.
+    if (provider instanceof RecordingProvider) await writeFile(values.record!, JSON.stringify(provider.toFixture(), null, 2));
+  }
+
+  await mkdir(values.out!, { recursive: true });
+  const used = new Set<string>();
+  const views = [];
+  for (const view of project.views) {
+    let base = slug(view.label);
+    for (let n = 2; used.has(base); n++) base = `${slug(view.label)}_${n}`;
+    used.add(base);
+    const svg = currentSvgOf(view);
+    const file = svg ? `${base}.svg` : undefined;
+    if (svg) await writeFile(path.join(values.out!, file!), theme ? applyTheme(svg.content, theme, { background: true }) : svg.content);
+    if (svg?.auditReport) await writeFile(path.join(values.out!, `${base}.audit.json`), JSON.stringify(svg.auditReport, null, 2));
+    const trace = view.history && traceOf(view.history);
+    if (trace) await writeFile(path.join(values.out!, `${base}.trace.json`), traceToJson(trace));
+    const report = viewReport(view, file);
+    views.push(report);
+    log(`${report.valid && !report.error ? 'OK  ' : 'FAIL'} ${view.label} -> ${file ?? 'nothing'} (${report.error ?? report.stopReason ?? 'no loop'}, ${report.audit?.outcome ?? 'unaudited'})`);
+  }
+
+  const manifest = {
+    generatedAt: new Date().toISOString(),
+    input: path.resolve(input),
+    provider: provider.name,
+    prompt: values.prompt,
+    loopOptions,
+    config,
+    theme: theme ? theme.id : undefined,
+    durationMs: Date.now() - startedAt,
+    views
+  };
+  await writeFile(path.join(values.out!, 'manifest.json'), JSON.stringify(manifest, null, 2));
+  log(`Wrote ${views.length} views to ${values.out}`);
+  // Invalid or interrupted drawings fail the run so scripts and CI notice.
+  return views.every(view => view.valid && !view.error) ? 0 : 2;
+};
+
+const main = async (argv: string[]) => {
+  const [command, ...rest] = argv;
+  if (!command || command === '--help' || command === 'help') {
+    console.log(USAGE);
+    return 0;
+  }
+  if (command !== 'convert') throw new UsageError(`Unknown command "${command}".`);
+
+  installNodeDom();
+  setDefaultRasterizer(new NodeRasterizer());
+  return convert(rest);
+};
+
+main(process.argv.slice(2))
+  .then(code => { process.exitCode = code; })
+  .catch(err => {
+    if (err instanceof UsageError || err?.code?.startsWith?.('ERR_PARSE_ARGS')) {
+      console.error(`${err.message}\n\n${USAGE}`);
+    } else if (EXPECTED_ERRORS.includes(err?.name)) {
+      console.error(`${err.name}: ${err.message}`);
+    } else {
+      console.error(err?.stack ?? String(err));
+    }
+    process.exitCode = 1;
+  });
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ShieldAlert, CheckCircle2, CircleDot, Circle, CircleQuestionMark } from 'lucide-react';
+import { AuditReport, ChecklistItem, FindingSeverity, FindingStatus } from '../types';
+import { auditOutcome, AuditOutcome } from '../services/auditFindings';
+
+interface AuditPanelProps {
+  report?: AuditReport; // absent when the revision was never audited or its audit failed
+  viewLabel: string;
+  checklist?: ChecklistItem[]; // the ship type's features the Inspector checked this view for
+}
+
+const SEVERITY_STYLES: Record<FindingSeverity, string> = {
+  critical: 'text-red-400 border-red-500/30',
+  major: 'text-amber-400 border-amber-500/30',
+  minor: 'text-zinc-400 border-zinc-600'
+};
+
+const STATUS_ICONS: Record<FindingStatus, React.ReactNode> = {
+  resolved: <CheckCircle2 className="w-3.5 h-3.5 text-green-500" />,
+  partially_resolved: <CircleDot className="w-3.5 h-3.5 text-amber-400" />,
+  open: <Circle className="w-3.5 h-3.5 text-red-400" />
+};
+
+const OUTCOME_BADGES: Record<AuditOutcome, { label: string; className: string; icon: React.ReactNode }> = {
+  clean: { label: 'No Issues', className: 'text-green-500', icon: <CheckCircle2 className="w-3 h-3" /> },
+  resolved: { label: 'Resolved', className: 'text-green-500', icon: <CheckCircle2 className="w-3 h-3" /> },
+  partial: { label: 'Partially Resolved', className: 'text-amber-400', icon: <CircleDot className="w-3 h-3" /> },
+  open: { label: 'Unresolved', className: 'text-red-400', icon: <Circle className="w-3 h-3" /> },
+  unverified: { label: 'Unverified', className: 'text-zinc-400', icon: <CircleQuestionMark className="w-3 h-3" /> },
+  legacy: { label: 'Legacy Report', className: 'text-zinc-400', icon: <CircleQuestionMark className="w-3 h-3" /> }
+};
+
+const NOT_AUDITED = { label: 'Not Audited', className: 'text-zinc-400', icon: <CircleQuestionMark className="w-3 h-3" /> };
+
+// A checklist item only passes once a finding against it is verified resolved; no finding is no evidence either way.
+type ChecklistState = 'flagged' | 'fixed' | 'unconfirmed';
+
+const CHECKLIST_STYLES: Record<ChecklistState, { label: string; className: string }> = {
+  flagged: { label: 'flagged by the Inspector', className: 'text-red-400 border-red-500/30' },
+  fixed: { label: 'verified fixed', className: 'text-green-500 border-green-500/30' },
+  unconfirmed: { label: 'not flagged', className: 'text-zinc-500 border-zinc-700' }
+};
+
+export const AuditPanel: React.FC<AuditPanelProps> = ({ report, viewLabel, checklist = [] }) => {
+  if (!report && checklist.length === 0) return null;
+  const findings = report?.findings ?? [];
+  const outcome = report ? OUTCOME_BADGES[auditOutcome(report)] : NOT_AUDITED;
+  const resolvedCount = findings.filter(f => f.status === 'resolved').length;
+  const checklistState = (item: ChecklistItem): ChecklistState => {
+    const cited = findings.filter(f => f.checklistId === item.id);
+    if (cited.length === 0) return 'unconfirmed';
+    return cited.every(f => f.status === 'resolved') ? 'fixed' : 'flagged';
+  };
+
+  return (
+    <div className="bg-zinc-900/80 border border-zinc-800 rounded-xl p-4 flex items-start gap-4 shadow-lg mb-4">
+      <div className="p-2 bg-amber-500/10 rounded-lg">
+        <ShieldAlert className="w-4 h-4 text-amber-500" />
+      </div>
+      <div className="flex-1 min-w-0">
+        <div className="flex items-center gap-2 mb-2">
+          <span className="text-[10px] font-mono text-amber-500 uppercase tracking-widest">
+            Inspector General Report ({viewLabel.toUpperCase()})
+          </span>
+          <div className="h-px flex-1 bg-zinc-800"></div>
+          {findings.length > 0 && (
+            <span className="text-[10px] font-mono text-zinc-500">{resolvedCount}/{findings.length}</span>
+          )}
+          <span className={`text-[10px] font-mono uppercase tracking-widest flex items-center gap-1 ${outcome.className}`}>
+            {outcome.icon} {outcome.label}
+          </span>
+        </div>
+        <p className="text-[11px] text-zinc-400 leading-relaxed font-mono mb-2">
+          {report ? report.summary : 'This revision has no audit, so its checklist is unchecked.'}
+        </p>
+
+        {checklist.length > 0 && (
+          <div className="flex flex-wrap gap-1.5 mb-2">
+            {checklist.map(item => {
+              const style = CHECKLIST_STYLES[checklistState(item)];
+              return (
+                <span
+                  key={item.id}
+                  title={`${item.feature}: ${style.label}`}
+                  className={`px-1.5 py-0.5 border rounded text-[9px] font-mono uppercase ${style.className}`}
+                >
+                  {item.id}
+                </span>
+              );
+            })}
+          </div>
+        )}
+
+        {report && findings.length > 0 && (
+          <ul className="flex flex-col gap-1.5">
+            {findings.map(finding => (
+              <li key={finding.id} className="flex items-start gap-2 text-[11px] font-mono">
+                <span className="mt-0.5" title={finding.status.replace('_', ' ')}>
+                  {report.verified ? STATUS_ICONS[finding.status] : <Circle className="w-3.5 h-3.5 text-zinc-600" />}
+                </span>
+                <span className={`px-1.5 border rounded text-[9px] uppercase ${SEVERITY_STYLES[finding.severity]}`}>{finding.severity}</span>
+                <span className="text-zinc-500 uppercase text-[9px] mt-0.5">{finding.category.replace('_', ' ')}</span>
+                <span className="text-indigo-300">#{finding.groupId}</span>
+                <span className={`flex-1 ${finding.status === 'resolved' ? 'text-zinc-500 line-through' : 'text-zinc-300'}`}>
+                  {finding.description}
+                  {finding.verificationNote && <span className="block text-zinc-500 no-underline">{finding.verificationNote}</span>}
+                </span>
+              </li>
+            ))}
+          </ul>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,120 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ListOrdered, Download, Loader2, RotateCcw, FolderOpen, Trash2, AlertTriangle, CheckCircle2, Clock } from 'lucide-react';
+import { BatchJob, BatchJobStatus } from '../types';
+import { MAX_BATCH_CONCURRENCY } from '../services/batchQueue';
+
+interface BatchPanelProps {
+  jobs: BatchJob[];
+  concurrency: number;
+  onConcurrencyChange: (concurrency: number) => void;
+  onRetry: (jobId: string) => void;
+  onOpen: (projectId: string) => void;
+  onClearFinished: () => void;
+  onExport: () => void;
+}
+
+const STATUS_STYLES: Record<BatchJobStatus, string> = {
+  queued: 'text-zinc-400 border-zinc-700',
+  segmenting: 'text-sky-300 border-sky-500/40',
+  drafting: 'text-indigo-300 border-indigo-500/40',
+  auditing: 'text-amber-300 border-amber-500/40',
+  healing: 'text-violet-300 border-violet-500/40',
+  done: 'text-emerald-300 border-emerald-500/40',
+  failed: 'text-red-300 border-red-500/40'
+};
+
+const isActive = (job: BatchJob) => job.status !== 'queued' && job.status !== 'done' && job.status !== 'failed';
+
+export const BatchPanel: React.FC<BatchPanelProps> = ({
+  jobs, concurrency, onConcurrencyChange, onRetry, onOpen, onClearFinished, onExport
+}) => {
+  const done = jobs.filter((job: BatchJob) => job.status === 'done').length;
+  const failed = jobs.filter((job: BatchJob) => job.status === 'failed').length;
+  const running = jobs.some(isActive);
+
+  return (
+    <div className="w-full max-w-3xl mx-auto mt-6 px-4">
+      <div className="bg-zinc-900/80 border border-zinc-800 rounded-xl p-4 shadow-lg">
+        <div className="flex items-center gap-2 mb-3">
+          <ListOrdered className="w-4 h-4 text-indigo-400" />
+          <span className="text-[10px] font-mono text-indigo-300 uppercase tracking-widest">Batch Queue</span>
+          <div className="h-px flex-1 bg-zinc-800"></div>
+          <span className="text-[10px] font-mono text-zinc-400 uppercase tracking-widest">
+            {done}/{jobs.length} Done{failed > 0 && <span className="text-red-400"> · {failed} Failed</span>}
+          </span>
+        </div>
+
+        <div className="flex flex-wrap items-center gap-4 mb-3 text-[11px] font-mono text-zinc-400 uppercase tracking-widest">
+          <label className="flex items-center gap-2">
+            Parallel Jobs
+            <select
+              value={concurrency}
+              onChange={(e) => onConcurrencyChange(Number(e.target.value))}
+              className="bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white"
+            >
+              {Array.from({ length: MAX_BATCH_CONCURRENCY }, (_, i) => i + 1).map(n => <option key={n} value={n}>{n}</option>)}
+            </select>
+          </label>
+          <div className="flex-1" />
+          <button
+            onClick={onClearFinished}
+            disabled={done + failed === 0}
+            className="flex items-center gap-1 text-[10px] text-zinc-400 hover:text-white disabled:opacity-40"
+          >
+            <Trash2 className="w-3 h-3" /> Clear Finished
+          </button>
+          <button
+            onClick={onExport}
+            disabled={done === 0}
+            className="flex items-center gap-1 px-3 py-1 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed"
+          >
+            <Download className="w-3 h-3" /> ZIP + Manifest
+          </button>
+        </div>
+
+        <ul className="flex flex-col gap-1 max-h-80 overflow-y-auto">
+          {jobs.map((job: BatchJob) => (
+            <li key={job.id} className="flex items-center gap-3 bg-zinc-950/60 border border-white/5 rounded-lg px-3 py-2">
+              <img src={job.image.data} alt="" className="w-10 h-10 object-contain bg-zinc-900 rounded flex-shrink-0" />
+              <div className="min-w-0 flex-1">
+                <p className="text-xs text-white truncate">{job.fileName}</p>
+                <p className={`text-[10px] font-mono truncate ${job.status === 'failed' ? 'text-red-400' : 'text-zinc-500'}`}>
+                  {job.status === 'failed'
+                    ? job.error
+                    : job.status === 'done'
+                      ? `${job.project?.views.length ?? 0} views${job.startedAt && job.finishedAt ? ` in ${Math.round((job.finishedAt - job.startedAt) / 1000)}s` : ''}`
+                      : job.detail ?? ''}
+                </p>
+              </div>
+              <span className={`flex items-center gap-1 px-2 py-0.5 border rounded text-[10px] font-mono uppercase tracking-widest ${STATUS_STYLES[job.status as BatchJobStatus]}`}>
+                {isActive(job) && <Loader2 className="w-3 h-3 animate-spin" />}
+                {job.status === 'queued' && <Clock className="w-3 h-3" />}
+                {job.status === 'done' && <CheckCircle2 className="w-3 h-3" />}
+                {job.status === 'failed' && <AlertTriangle className="w-3 h-3" />}
+                {job.status}
+              </span>
+              {job.status === 'done' && job.project && (
+                <button onClick={() => onOpen(job.project!.id)} title="Open project" className="p-1 text-zinc-400 hover:text-white">
+                  <FolderOpen className="w-4 h-4" />
+                </button>
+              )}
+              {job.status === 'failed' && (
+                <button onClick={() => onRetry(job.id)} title="Retry" className="p-1 text-zinc-400 hover:text-white">
+                  <RotateCcw className="w-4 h-4" />
+                </button>
+              )}
+            </li>
+          ))}
+        </ul>
+        {running && (
+          <p className="mt-2 text-[10px] font-mono text-zinc-500">Finished projects are saved to the library as they complete.</p>
+        )}
+      </div>
+    </div>
+  );
+};
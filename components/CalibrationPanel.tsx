@@ -0,0 +1,176 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { Ruler, X } from 'lucide-react';
+import { CalibrationReference, ImageData, LengthUnit, ScaleCalibration, ViewType } from '../types';
+import { referenceKindsFor, formatLength, UNIT_LABELS } from '../services/dimensions';
+import { scanInkBounds } from '../services/fidelity';
+
+interface CalibrationPanelProps {
+  viewType: ViewType;
+  crop?: ImageData;
+  calibration?: ScaleCalibration;
+  onApply: (reference: CalibrationReference, unit: LengthUnit) => void;
+  onClear: () => void;
+  disabled?: boolean;
+}
+
+const KIND_LABELS: Record<CalibrationReference['kind'], string> = {
+  loa: 'Length Overall',
+  beam: 'Beam',
+  span: 'Span On Scan'
+};
+
+type Point = { x: number; y: number };
+
+export const CalibrationPanel: React.FC<CalibrationPanelProps> = ({ viewType, crop, calibration, onApply, onClear, disabled }) => {
+  const kinds = referenceKindsFor(viewType).filter(kind => kind !== 'span' || crop);
+  const [kind, setKind] = useState<CalibrationReference['kind']>(calibration?.reference.kind ?? kinds[0]);
+  const [length, setLength] = useState(calibration ? String(calibration.reference.length) : '');
+  const [unit, setUnit] = useState<LengthUnit>(calibration?.unit ?? 'm');
+  const [points, setPoints] = useState<Point[]>([]);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    setKind(calibration?.reference.kind ?? kinds[0]);
+    setLength(calibration ? String(calibration.reference.length) : '');
+    setUnit(calibration?.unit ?? 'm');
+    setPoints([]);
+    setError(null);
+  }, [viewType, crop, calibration]);
+
+  const value = parseFloat(length);
+  const ready = value > 0 && (kind !== 'span' || points.length === 2);
+
+  // Clicks are stored in the crop's own pixel coordinates, whatever size it is shown at.
+  const handleImageClick = (e: React.MouseEvent<HTMLImageElement>) => {
+    const img = e.currentTarget;
+    const rect = img.getBoundingClientRect();
+    const point = {
+      x: ((e.clientX - rect.left) / rect.width) * img.naturalWidth,
+      y: ((e.clientY - rect.top) / rect.height) * img.naturalHeight
+    };
+    setPoints(prev => prev.length >= 2 ? [point] : [...prev, point]);
+  };
+
+  const handleApply = async () => {
+    setError(null);
+    if (kind !== 'span') {
+      onApply({ kind, length: value }, unit);
+      return;
+    }
+    const ink = crop ? await scanInkBounds(crop).catch(() => null) : null;
+    if (!ink) {
+      setError('The scan could not be measured in this browser.');
+      return;
+    }
+    // The span is kept relative to the scan's ink so it maps onto the drawing whatever its units.
+    const pixels = Math.hypot(points[1].x - points[0].x, points[1].y - points[0].y);
+    onApply({ kind: 'span', length: value, fraction: pixels / ink.w }, unit);
+  };
+
+  if (kinds.length === 0) return null;
+
+  return (
+    <div className="bg-zinc-900/80 border border-zinc-800 rounded-xl p-4 shadow-lg mb-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Ruler className="w-4 h-4 text-indigo-400" />
+        <span className="text-[10px] font-mono text-indigo-300 uppercase tracking-widest">Scale Calibration</span>
+        <div className="h-px flex-1 bg-zinc-800"></div>
+        {calibration && (
+          <>
+            <span className="text-[10px] font-mono text-amber-300 uppercase tracking-widest">
+              1 unit = {formatLength(calibration.unitsPerSvgUnit, calibration.unit)}
+            </span>
+            <button onClick={onClear} disabled={disabled} className="flex items-center gap-1 text-[10px] font-mono uppercase text-zinc-400 hover:text-white disabled:opacity-40">
+              <X className="w-3 h-3" /> Remove
+            </button>
+          </>
+        )}
+      </div>
+
+      <div className="flex flex-wrap items-center gap-4 text-[11px] font-mono text-zinc-400 uppercase tracking-widest">
+        <label className="flex items-center gap-2">
+          Reference
+          <select
+            value={kind}
+            onChange={(e) => { setKind(e.target.value as CalibrationReference['kind']); setPoints([]); }}
+            className="bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white"
+            disabled={disabled}
+          >
+            {kinds.map(k => <option key={k} value={k}>{KIND_LABELS[k]}</option>)}
+          </select>
+        </label>
+        <label className="flex items-center gap-2">
+          Length
+          <input
+            type="number"
+            min="0"
+            step="any"
+            value={length}
+            onChange={(e) => setLength(e.target.value)}
+            className="w-24 bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white"
+            disabled={disabled}
+          />
+        </label>
+        <label className="flex items-center gap-2">
+          Unit
+          <select
+            value={unit}
+            onChange={(e) => setUnit(e.target.value as LengthUnit)}
+            className="bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white"
+            disabled={disabled}
+          >
+            {(Object.keys(UNIT_LABELS) as LengthUnit[]).map(u => <option key={u} value={u}>{UNIT_LABELS[u]}</option>)}
+          </select>
+        </label>
+        <button
+          onClick={handleApply}
+          disabled={disabled || !ready}
+          className="flex items-center gap-1 px-3 py-1 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Ruler className="w-3 h-3" /> Apply Scale
+        </button>
+      </div>
+
+      {kind === 'span' && crop && (
+        <div className="mt-3">
+          <p className="text-[10px] font-mono text-zinc-500 mb-2">
+            Click both ends of a feature of known length on the scan ({points.length}/2).
+          </p>
+          <div className="relative inline-block bg-white rounded">
+            <img
+              src={crop.data}
+              alt="Source crop"
+              onClick={handleImageClick}
+              onLoad={(e) => setImageSize({ width: e.currentTarget.naturalWidth, height: e.currentTarget.naturalHeight })}
+              className="max-h-64 w-auto block cursor-crosshair"
+            />
+            {imageSize && points.length > 0 && (
+              <svg
+                viewBox={`0 0 ${imageSize.width} ${imageSize.height}`}
+                className="absolute inset-0 w-full h-full pointer-events-none"
+              >
+                {points.length === 2 && (
+                  <line
+                    x1={points[0].x} y1={points[0].y} x2={points[1].x} y2={points[1].y}
+                    stroke="#f59e0b" strokeWidth={2} vectorEffect="non-scaling-stroke"
+                  />
+                )}
+                {points.map((p, i) => (
+                  <circle key={i} cx={p.x} cy={p.y} r={Math.max(imageSize.width, imageSize.height) / 150} fill="#f59e0b" />
+                ))}
+              </svg>
+            )}
+          </div>
+        </div>
+      )}
+
+      {error && <p className="mt-2 text-[10px] font-mono text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,80 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { LayoutGrid, Trophy, Wand2 } from 'lucide-react';
+import { DraftCandidate } from '../types';
+import { severityScore } from '../services/auditFindings';
+import { bestCandidate } from '../services/candidates';
+import { FidelityBadge } from './FidelityPanel';
+
+interface CandidateGalleryProps {
+  candidates: DraftCandidate[];
+  selectedId?: string;
+  title: string;
+  onSelect?: (id: string) => void;
+  /** Heals a candidate that was not taken forward; shown on every candidate except the selected one. */
+  onHeal?: (id: string) => void;
+  disabled?: boolean;
+}
+
+const thumbnail = (svg: string) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`;
+
+export const CandidateGallery: React.FC<CandidateGalleryProps> = ({ candidates, selectedId, title, onSelect, onHeal, disabled }) => {
+  const bestId = bestCandidate(candidates)?.id;
+
+  return (
+    <div className="bg-zinc-900/80 border border-zinc-800 rounded-xl p-4 shadow-lg mb-4">
+      <div className="flex items-center gap-2 mb-3">
+        <LayoutGrid className="w-4 h-4 text-indigo-400" />
+        <span className="text-[10px] font-mono text-indigo-300 uppercase tracking-widest">{title}</span>
+        <div className="h-px flex-1 bg-zinc-800"></div>
+        <span className="text-[10px] font-mono text-zinc-500 uppercase tracking-widest">{candidates.length} Drafts</span>
+      </div>
+      <div className="grid grid-cols-2 md:grid-cols-4 gap-3">
+        {candidates.map(candidate => {
+          const selected = candidate.id === selectedId;
+          return (
+            <div
+              key={candidate.id}
+              className={`rounded-lg border p-2 flex flex-col gap-2 ${selected ? 'border-indigo-500 bg-indigo-500/10' : 'border-zinc-800 bg-zinc-950'}`}
+            >
+              <button
+                onClick={() => onSelect?.(candidate.id)}
+                disabled={disabled || !onSelect}
+                className="bg-white rounded aspect-[4/3] flex items-center justify-center overflow-hidden disabled:cursor-default"
+              >
+                <img src={thumbnail(candidate.content)} alt={`${candidate.variant} draft`} className="max-w-full max-h-full" />
+              </button>
+              <div className="flex items-center justify-between text-[10px] font-mono uppercase tracking-widest">
+                <span className="text-zinc-300 flex items-center gap-1">
+                  {candidate.id === bestId && <Trophy className="w-3 h-3 text-amber-400" />}
+                  {candidate.variant}
+                </span>
+                <span className="text-zinc-500">T{candidate.temperature.toFixed(1)}</span>
+              </div>
+              <div className="flex items-center justify-between text-[10px] font-mono">
+                <span className="text-zinc-400" title="Outstanding audit severity">
+                  SEV {severityScore(candidate.audit.findings)}
+                </span>
+                <FidelityBadge score={candidate.fidelity} />
+                <span className="text-indigo-300" title="Rank score">{candidate.rankScore.toFixed(1)}</span>
+              </div>
+              {onHeal && !selected && (
+                <button
+                  onClick={() => onHeal(candidate.id)}
+                  disabled={disabled}
+                  className="flex items-center justify-center gap-1 px-2 py-1 text-[10px] font-bold uppercase tracking-widest rounded bg-zinc-800 text-zinc-300 hover:bg-zinc-700 disabled:opacity-40 disabled:cursor-not-allowed"
+                >
+                  <Wand2 className="w-3 h-3" /> Heal This
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
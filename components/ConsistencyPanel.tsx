@@ -0,0 +1,122 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { Ruler, Wand2, CheckCircle2, AlertTriangle } from 'lucide-react';
+import { ConsistencyReport, HullExtent, StationComparison } from '../types';
+import { validateSvg } from '../services/svgValidator';
+import { viewBoxOf } from '../services/svgGeometry';
+
+interface ConsistencyPanelProps {
+  report: ConsistencyReport;
+  sideSvg: string;
+  topSvg: string;
+  sideLabel: string;
+  topLabel: string;
+  onReconcile: () => void;
+  disabled?: boolean;
+}
+
+// Margin either side of the hull, as a fraction of hull length.
+const PAD = 0.04;
+
+const toPercent = (station: number) => `${((PAD + station) / (1 + 2 * PAD)) * 100}%`;
+
+/** Re-frames a view horizontally on its hull so both drawings share the same longitudinal scale. */
+const alignedSrc = (svg: string, hull: HullExtent): string | undefined => {
+  const safe = validateSvg(svg, []).sanitized;
+  const viewBox = safe ? viewBoxOf(safe) : null;
+  if (!safe || !viewBox) return undefined;
+  const doc = new DOMParser().parseFromString(safe, 'image/svg+xml');
+  const root = doc.documentElement;
+  root.setAttribute('viewBox', [
+    hull.start - PAD * hull.length,
+    viewBox.minY,
+    hull.length * (1 + 2 * PAD),
+    viewBox.maxY - viewBox.minY
+  ].join(' '));
+  root.removeAttribute('width');
+  root.removeAttribute('height');
+  return `data:image/svg+xml;charset=utf-8,${encodeURIComponent(new XMLSerializer().serializeToString(doc))}`;
+};
+
+const StationLines: React.FC<{ stations: StationComparison[]; view: 'side' | 'top' }> = ({ stations, view }) => (
+  <>
+    {stations.map(s => (
+      <div
+        key={s.groupId}
+        className={`absolute top-0 bottom-0 border-l ${s.mismatched ? 'border-red-500 border-dashed' : 'border-green-500/60'}`}
+        style={{ left: toPercent(s[view].center) }}
+        title={`${s.groupId}: ${(s[view].start * 100).toFixed(1)}%–${(s[view].end * 100).toFixed(1)}% of hull`}
+      />
+    ))}
+  </>
+);
+
+export const ConsistencyPanel: React.FC<ConsistencyPanelProps> = ({
+  report, sideSvg, topSvg, sideLabel, topLabel, onReconcile, disabled
+}) => {
+  const sideSrc = alignedSrc(sideSvg, report.side);
+  const topSrc = alignedSrc(topSvg, report.top);
+  const unmatched = [...report.sideOnly, ...report.topOnly];
+
+  return (
+    <div className="bg-zinc-900/80 border border-zinc-800 rounded-xl p-4 shadow-lg mb-4">
+      <div className="flex items-center gap-2 mb-3">
+        <Ruler className="w-4 h-4 text-indigo-400" />
+        <span className="text-[10px] font-mono text-indigo-300 uppercase tracking-widest">
+          Cross-View Stations ({sideLabel} / {topLabel})
+        </span>
+        <div className="h-px flex-1 bg-zinc-800"></div>
+        {report.mismatchCount === 0 ? (
+          <span className="text-[10px] font-mono uppercase tracking-widest flex items-center gap-1 text-green-500">
+            <CheckCircle2 className="w-3 h-3" /> Consistent
+          </span>
+        ) : (
+          <span className="text-[10px] font-mono uppercase tracking-widest flex items-center gap-1 text-red-400">
+            <AlertTriangle className="w-3 h-3" /> {report.mismatchCount} Mismatch{report.mismatchCount === 1 ? '' : 'es'}
+          </span>
+        )}
+        <button
+          onClick={onReconcile}
+          disabled={disabled || report.stations.every(s => !s.mismatched)}
+          className="flex items-center gap-1 px-3 py-1 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed"
+        >
+          <Wand2 className="w-3 h-3" /> Reconcile
+        </button>
+      </div>
+
+      {/* Both views framed on their hulls, so a station that agrees draws one continuous line */}
+      <div className="bg-zinc-100 rounded-lg p-2 flex flex-col gap-1">
+        <div className="relative">
+          {sideSrc && <img src={sideSrc} alt={sideLabel} className="w-full h-auto block" />}
+          <StationLines stations={report.stations} view="side" />
+        </div>
+        <div className="relative">
+          {topSrc && <img src={topSrc} alt={topLabel} className="w-full h-auto block" />}
+          <StationLines stations={report.stations} view="top" />
+        </div>
+      </div>
+
+      <ul className="mt-3 grid grid-cols-1 sm:grid-cols-2 gap-x-4 gap-y-1 text-[11px] font-mono">
+        {report.lengthDelta !== undefined && (
+          <li className={report.lengthDelta > report.tolerance ? 'text-red-400' : 'text-zinc-400'}>
+            overall length: {(report.lengthDelta * 100).toFixed(1)}% apart on the sheet
+          </li>
+        )}
+        {report.stations.map(s => (
+          <li key={s.groupId} className={s.mismatched ? 'text-red-400' : 'text-zinc-400'}>
+            {s.groupId}: Δ {(s.delta * 100).toFixed(1)}% of hull
+          </li>
+        ))}
+      </ul>
+      {unmatched.length > 0 && (
+        <p className="mt-2 text-[10px] font-mono text-zinc-500">
+          Not compared (drawn in one view only): {unmatched.join(', ')}
+        </p>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,83 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { TrendingDown, Undo2 } from 'lucide-react';
+import { PipelineRound, LoopStopReason } from '../types';
+import { validateSvg } from '../services/svgValidator';
+
+interface ConvergencePanelProps {
+  rounds: PipelineRound[];
+  stopReason?: LoopStopReason;
+}
+
+const STOP_LABELS: Record<LoopStopReason, string> = {
+  converged: 'Converged',
+  max_rounds: 'Round Limit Reached',
+  no_improvement: 'Stalled (No Improvement)',
+  regression: 'Stopped On Regression',
+  interrupted: 'Interrupted (Resumable)'
+};
+
+const thumbnail = (svg: string) => {
+  const safe = validateSvg(svg).sanitized;
+  return safe ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(safe)}` : undefined;
+};
+
+export const ConvergencePanel: React.FC<ConvergencePanelProps> = ({ rounds, stopReason }) => {
+  const maxScore = Math.max(1, ...rounds.flatMap(r => [r.scoreBefore, r.scoreAfter]));
+
+  return (
+    <div className="bg-zinc-900/80 border border-zinc-800 rounded-xl p-4 shadow-lg mb-4">
+      <div className="flex items-center gap-2 mb-3">
+        <TrendingDown className="w-4 h-4 text-indigo-400" />
+        <span className="text-[10px] font-mono text-indigo-300 uppercase tracking-widest">Adversarial Loop</span>
+        <div className="h-px flex-1 bg-zinc-800"></div>
+        {stopReason && (
+          <span className="text-[10px] font-mono text-zinc-400 uppercase tracking-widest">{STOP_LABELS[stopReason]}</span>
+        )}
+      </div>
+
+      <div className="flex gap-3 overflow-x-auto pb-1">
+        {rounds.map(round => {
+          const src = thumbnail(round.result);
+          return (
+            <div key={round.index} className="w-40 flex-shrink-0 bg-zinc-950 border border-zinc-800 rounded-lg p-2 flex flex-col gap-2">
+              <div className="flex items-center justify-between text-[10px] font-mono">
+                <span className="text-zinc-300">ROUND {round.index}</span>
+                {round.rolledBack && (
+                  <span className="flex items-center gap-1 text-red-400" title={round.rollbackReason}>
+                    <Undo2 className="w-3 h-3" /> ROLLED BACK
+                  </span>
+                )}
+              </div>
+              <div className="h-16 bg-zinc-100 rounded flex items-center justify-center">
+                {src && <img src={src} alt={`Round ${round.index}`} className="max-h-full max-w-full object-contain" />}
+              </div>
+              {/* Score bars: outstanding severity before and after this round's heal */}
+              <div className="flex flex-col gap-1">
+                <div className="h-1.5 bg-zinc-800 rounded">
+                  <div className="h-full bg-amber-500 rounded" style={{ width: `${(round.scoreBefore / maxScore) * 100}%` }}></div>
+                </div>
+                <div className="h-1.5 bg-zinc-800 rounded">
+                  <div className="h-full bg-green-500 rounded" style={{ width: `${(round.scoreAfter / maxScore) * 100}%` }}></div>
+                </div>
+              </div>
+              <p className="text-[10px] font-mono text-zinc-500">
+                {round.audit.findings.length} findings · {round.scoreBefore} → {round.scoreAfter}
+              </p>
+              {round.fidelityBefore && round.fidelityAfter && (
+                <p className="text-[10px] font-mono text-zinc-500">
+                  fidelity {(round.fidelityBefore.overall * 100).toFixed(0)}% → {(round.fidelityAfter.overall * 100).toFixed(0)}%
+                </p>
+              )}
+              {round.rollbackReason && <p className="text-[10px] font-mono text-red-400/80">{round.rollbackReason}</p>}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
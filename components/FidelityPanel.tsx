@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { ScanSearch } from 'lucide-react';
+import { FidelityScore } from '../types';
+
+const percent = (value: number) => `${(value * 100).toFixed(0)}%`;
+
+const toneOf = (overall: number) =>
+  overall >= 0.75 ? 'text-green-400' : overall >= 0.5 ? 'text-amber-400' : 'text-red-400';
+
+/** Compact overall score, used on view tabs. */
+export const FidelityBadge: React.FC<{ score?: FidelityScore }> = ({ score }) =>
+  score ? (
+    <span className={`text-[10px] font-mono ${toneOf(score.overall)}`} title="Raster fidelity against the source crop">
+      {percent(score.overall)}
+    </span>
+  ) : null;
+
+export const FidelityPanel: React.FC<{ score: FidelityScore }> = ({ score }) => {
+  const metrics: { label: string; value: string; bar: number }[] = [
+    { label: 'Edge Overlap', value: percent(score.edgeIoU), bar: score.edgeIoU },
+    { label: 'Silhouette', value: percent(score.silhouetteIoU), bar: score.silhouetteIoU },
+    // Chamfer is a distance; the bar shows closeness so that longer is better for every metric.
+    { label: 'Chamfer', value: `${(score.chamfer * 100).toFixed(2)}% diag`, bar: Math.max(0, 1 - score.chamfer / 0.05) }
+  ];
+
+  return (
+    <div className="bg-zinc-900/80 border border-zinc-800 rounded-xl p-4 shadow-lg mb-4">
+      <div className="flex items-center gap-2 mb-3">
+        <ScanSearch className="w-4 h-4 text-indigo-400" />
+        <span className="text-[10px] font-mono text-indigo-300 uppercase tracking-widest">Raster Fidelity</span>
+        <div className="h-px flex-1 bg-zinc-800"></div>
+        <span className={`text-xs font-mono font-bold ${toneOf(score.overall)}`}>{percent(score.overall)}</span>
+      </div>
+      <div className="grid grid-cols-3 gap-4">
+        {metrics.map(metric => (
+          <div key={metric.label} className="flex flex-col gap-1">
+            <div className="flex justify-between text-[10px] font-mono">
+              <span className="text-zinc-500 uppercase tracking-widest">{metric.label}</span>
+              <span className="text-zinc-300">{metric.value}</span>
+            </div>
+            <div className="h-1.5 bg-zinc-800 rounded">
+              <div className="h-full bg-indigo-500 rounded" style={{ width: `${metric.bar * 100}%` }}></div>
+            </div>
+          </div>
+        ))}
+      </div>
+      <p className="mt-2 text-[10px] font-mono text-zinc-600">
+        Compared at {score.resolution[0]}×{score.resolution[1]} after cropping both images to their ink.
+      </p>
+    </div>
+  );
+};
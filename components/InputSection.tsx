@@ -4,18 +4,39 @@
 */
 
 import React, { useState, useCallback, useRef } from 'react';
-import { Send, Loader2, Upload, X, Ship, Shield } from 'lucide-react';
-import { GenerationStatus, ImageData } from '../types';
+import { Send, Loader2, Upload, X, Ship, Shield, FolderOpen, Files } from 'lucide-react';
+import { GenerationStatus, ImageData, PipelineLoopOptions, FindingSeverity, ShipType } from '../types';
+import { DEFAULT_LOOP_OPTIONS } from '../services/geminiService';
+import { SHIP_TEMPLATES, SHIP_TYPES } from '../services/shipTemplates';
+
+export interface BatchFile {
+  name: string;
+  image: ImageData;
+}
 
 interface InputSectionProps {
-  onGenerate: (prompt: string, image?: ImageData) => void;
+  onGenerate: (prompt: string, image?: ImageData, loopOptions?: PipelineLoopOptions, shipType?: ShipType) => void;
+  onBatch?: (prompt: string, files: BatchFile[], loopOptions: PipelineLoopOptions, shipType?: ShipType) => void;
   status: GenerationStatus;
 }
 
-export const InputSection: React.FC<InputSectionProps> = ({ onGenerate, status }) => {
+const readImageFile = (file: File): Promise<ImageData> => new Promise((resolve, reject) => {
+  const reader = new FileReader();
+  reader.onload = (event) => resolve({ data: event.target?.result as string, mimeType: file.type });
+  reader.onerror = () => reject(reader.error);
+  reader.readAsDataURL(file);
+});
+
+export const InputSection: React.FC<InputSectionProps> = ({ onGenerate, onBatch, status }) => {
   const [input, setInput] = useState('');
   const [image, setImage] = useState<ImageData | null>(null);
+  const [loopOptions, setLoopOptions] = useState<PipelineLoopOptions>(DEFAULT_LOOP_OPTIONS);
+  const [shipType, setShipType] = useState<ShipType | undefined>(undefined); // detected from the scan when unset
+  const [batchMode, setBatchMode] = useState(false);
+  const [batchFiles, setBatchFiles] = useState<BatchFile[]>([]);
   const fileInputRef = useRef<HTMLInputElement>(null);
+  const batchInputRef = useRef<HTMLInputElement>(null);
+  const folderInputRef = useRef<HTMLInputElement>(null);
 
   const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
     const file = e.target.files?.[0];
@@ -31,19 +52,35 @@ export const InputSection: React.FC<InputSectionProps> = ({ onGenerate, status }
     }
   };
 
+  // Folder picks include every file in the tree; only images are queued, in path order.
+  const handleBatchChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const files = (Array.from(e.target.files ?? []) as File[])
+      .filter(file => file.type.startsWith('image/'))
+      .sort((a, b) => (a.webkitRelativePath || a.name).localeCompare(b.webkitRelativePath || b.name));
+    e.target.value = '';
+    const read = await Promise.all(files.map(async file => ({ name: file.webkitRelativePath || file.name, image: await readImageFile(file) })));
+    setBatchFiles((prev: BatchFile[]) => [...prev, ...read]);
+  };
+
   const handleSubmit = useCallback((e: React.FormEvent) => {
     e.preventDefault();
-    if (status !== GenerationStatus.LOADING) {
-      onGenerate(input.trim(), image || undefined);
+    if (batchMode) {
+      if (!onBatch || batchFiles.length === 0) return;
+      // Nobody is watching a batch, so drafts are always picked by score.
+      onBatch(input.trim(), batchFiles, { ...loopOptions, candidateSelection: 'auto' }, shipType);
+      setBatchFiles([]);
+    } else if (status !== GenerationStatus.LOADING) {
+      onGenerate(input.trim(), image || undefined, loopOptions, shipType);
     }
-  }, [input, image, status, onGenerate]);
+  }, [input, image, loopOptions, shipType, status, onGenerate, onBatch, batchMode, batchFiles]);
 
   const clearImage = () => {
     setImage(null);
     if (fileInputRef.current) fileInputRef.current.value = '';
   };
 
-  const isLoading = status === GenerationStatus.LOADING;
+  const isLoading = status === GenerationStatus.LOADING && !batchMode;
+  const canSubmit = batchMode ? batchFiles.length > 0 : !!image || !!input.trim();
 
   return (
     <div className="w-full max-w-3xl mx-auto mt-8 px-4">
@@ -62,7 +99,67 @@ export const InputSection: React.FC<InputSectionProps> = ({ onGenerate, status }
       </div>
 
       <div className="bg-zinc-900/50 rounded-2xl border border-white/5 p-6 backdrop-blur-sm shadow-xl">
-        {!image ? (
+        {onBatch && (
+          <div className="flex justify-end gap-1 mb-3 text-[10px] font-mono uppercase tracking-widest">
+            {[false, true].map(batch => (
+              <button
+                key={String(batch)}
+                type="button"
+                onClick={() => setBatchMode(batch)}
+                className={`px-3 py-1 rounded-lg border ${batchMode === batch ? 'border-indigo-500/50 text-indigo-300 bg-indigo-500/10' : 'border-white/10 text-zinc-500 hover:text-white'}`}
+              >
+                {batch ? 'Batch' : 'Single'}
+              </button>
+            ))}
+          </div>
+        )}
+
+        {batchMode ? (
+          <div className="mb-6 border-2 border-dashed border-zinc-800 rounded-xl p-6 bg-zinc-950/30 flex flex-col gap-4">
+            <div className="flex flex-wrap justify-center gap-3">
+              <button
+                type="button"
+                onClick={() => batchInputRef.current?.click()}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-zinc-900 border border-white/10 text-zinc-300 hover:text-white hover:border-indigo-500/50"
+              >
+                <Files className="w-4 h-4" /> Add Images
+              </button>
+              <button
+                type="button"
+                onClick={() => folderInputRef.current?.click()}
+                className="flex items-center gap-2 px-4 py-2 rounded-lg bg-zinc-900 border border-white/10 text-zinc-300 hover:text-white hover:border-indigo-500/50"
+              >
+                <FolderOpen className="w-4 h-4" /> Add Folder
+              </button>
+              <input type="file" ref={batchInputRef} className="hidden" accept="image/*" multiple onChange={handleBatchChange} />
+              <input type="file" ref={folderInputRef} className="hidden" webkitdirectory="" multiple onChange={handleBatchChange} />
+            </div>
+            {batchFiles.length === 0 ? (
+              <p className="text-center text-zinc-500 text-sm">Queue a whole class or fleet; each sheet runs the full pipeline unattended.</p>
+            ) : (
+              <div className="flex flex-col gap-2">
+                <div className="flex items-center justify-between text-[10px] font-mono text-zinc-400 uppercase tracking-widest">
+                  <span>{batchFiles.length} Sheets Selected</span>
+                  <button type="button" onClick={() => setBatchFiles([])} className="hover:text-red-400">Clear</button>
+                </div>
+                <div className="grid grid-cols-6 gap-2 max-h-40 overflow-y-auto">
+                  {batchFiles.map((file: BatchFile, i: number) => (
+                    <div key={`${file.name}-${i}`} className="relative group" title={file.name}>
+                      <img src={file.image.data} alt={file.name} className="w-full h-16 object-contain bg-zinc-950 rounded border border-white/5" />
+                      <button
+                        type="button"
+                        onClick={() => setBatchFiles((prev: BatchFile[]) => prev.filter((_, j) => j !== i))}
+                        className="absolute top-1 right-1 p-0.5 bg-red-500 rounded text-white opacity-0 group-hover:opacity-100 transition-opacity"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                  ))}
+                </div>
+              </div>
+            )}
+          </div>
+        ) : !image ? (
           <div 
             onClick={() => fileInputRef.current?.click()}
             className="group cursor-pointer mb-6 border-2 border-dashed border-zinc-800 hover:border-indigo-500/50 rounded-xl p-12 transition-all duration-300 bg-zinc-950/30 flex flex-col items-center justify-center gap-4"
@@ -100,11 +197,76 @@ export const InputSection: React.FC<InputSectionProps> = ({ onGenerate, status }
               disabled={isLoading}
             />
           </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-[11px] font-mono text-zinc-400 uppercase tracking-widest">
+            <label className="flex items-center gap-2">
+              Ship
+              <select
+                value={shipType ?? ''}
+                onChange={(e) => setShipType((e.target.value || undefined) as ShipType | undefined)}
+                className="bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white"
+                disabled={isLoading}
+              >
+                <option value="">Auto-Detect</option>
+                {SHIP_TYPES.map(type => <option key={type} value={type}>{SHIP_TEMPLATES[type].label}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Max Rounds
+              <select
+                value={loopOptions.maxRounds}
+                onChange={(e) => setLoopOptions({ ...loopOptions, maxRounds: Number(e.target.value) })}
+                className="bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white"
+                disabled={isLoading}
+              >
+                {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <label className="flex items-center gap-2">
+              Stop When No
+              <select
+                value={loopOptions.stopAtSeverity}
+                onChange={(e) => setLoopOptions({ ...loopOptions, stopAtSeverity: e.target.value as FindingSeverity })}
+                className="bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white"
+                disabled={isLoading}
+              >
+                <option value="critical">Critical</option>
+                <option value="major">Major+</option>
+                <option value="minor">Any</option>
+              </select>
+              Issues
+            </label>
+            <label className="flex items-center gap-2">
+              Drafts
+              <select
+                value={loopOptions.candidateCount ?? 1}
+                onChange={(e) => setLoopOptions({ ...loopOptions, candidateCount: Number(e.target.value) })}
+                className="bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white"
+                disabled={isLoading}
+              >
+                {[1, 2, 3, 4].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            {(loopOptions.candidateCount ?? 1) > 1 && !batchMode && (
+              <label className="flex items-center gap-2">
+                Pick
+                <select
+                  value={loopOptions.candidateSelection ?? 'auto'}
+                  onChange={(e) => setLoopOptions({ ...loopOptions, candidateSelection: e.target.value as 'auto' | 'manual' })}
+                  className="bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white"
+                  disabled={isLoading}
+                >
+                  <option value="auto">Best Score</option>
+                  <option value="manual">Manually</option>
+                </select>
+              </label>
+            )}
+          </div>
           
           <button
             type="submit"
-            disabled={(!image && !input.trim()) || isLoading}
-            className={`w-full flex items-center justify-center gap-3 py-4 rounded-xl font-bold uppercase tracking-widest transition-all duration-300 ${(!image && !input.trim()) || isLoading ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed opacity-50' : 'bg-indigo-600 text-white hover:bg-indigo-500 active:scale-[0.98] shadow-lg shadow-indigo-600/20'}`}
+            disabled={!canSubmit || isLoading}
+            className={`w-full flex items-center justify-center gap-3 py-4 rounded-xl font-bold uppercase tracking-widest transition-all duration-300 ${!canSubmit || isLoading ? 'bg-zinc-800 text-zinc-500 cursor-not-allowed opacity-50' : 'bg-indigo-600 text-white hover:bg-indigo-500 active:scale-[0.98] shadow-lg shadow-indigo-600/20'}`}
           >
             {isLoading ? (
               <>
@@ -114,7 +276,7 @@ export const InputSection: React.FC<InputSectionProps> = ({ onGenerate, status }
             ) : (
               <>
                 <Shield className="w-5 h-5" />
-                <span>Deploy Pipeline</span>
+                <span>{batchMode ? `Queue ${batchFiles.length} Sheets` : 'Deploy Pipeline'}</span>
                 <Send className="w-5 h-5 ml-1" />
               </>
             )}
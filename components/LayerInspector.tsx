@@ -0,0 +1,168 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { Eye, EyeOff, Lock, LockOpen, Plus, FolderInput, Group } from 'lucide-react';
+import {
+  SvgLayer, parseLayers, setLayerVisibility, setLayerLocked, renameLayer, moveLayer, groupLooseElements, createLayer
+} from '../services/svgLayers';
+
+interface LayerInspectorProps {
+  content: string;
+  onChange: (content: string) => void;
+  onHover: (key: number | null) => void;
+  disabled?: boolean;
+}
+
+const flatten = (layers: SvgLayer[], depth = 0): { layer: SvgLayer; depth: number }[] =>
+  layers.flatMap(layer => [{ layer, depth }, ...flatten(layer.children, depth + 1)]);
+
+const layerName = (layer: SvgLayer) => layer.id ?? `(unnamed ${layer.key})`;
+
+export const LayerInspector: React.FC<LayerInspectorProps> = ({ content, onChange, onHover, disabled }) => {
+  const [editingKey, setEditingKey] = useState<number | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [newLayerName, setNewLayerName] = useState('');
+  const [error, setError] = useState<string | null>(null);
+
+  const rows = useMemo(() => flatten(parseLayers(content)), [content]);
+
+  // Every edit goes through here so a rejected edit surfaces instead of silently doing nothing.
+  const apply = (edit: () => string) => {
+    try {
+      onChange(edit());
+      setError(null);
+    } catch (err: any) {
+      setError(err.message);
+    }
+  };
+
+  const commitRename = (key: number) => {
+    if (draftName.trim()) apply(() => renameLayer(content, key, draftName));
+    setEditingKey(null);
+  };
+
+  const uniqueId = (base: string) => {
+    const taken = new Set(rows.map(row => row.layer.id));
+    let id = base;
+    for (let n = 2; taken.has(id); n++) id = `${base}-${n}`;
+    return id;
+  };
+
+  return (
+    <div className="flex flex-col gap-2 text-[11px] font-mono">
+      <ul className="flex flex-col gap-0.5 max-h-[460px] overflow-y-auto pr-1">
+        {rows.map(({ layer, depth }) => (
+          <li
+            key={layer.key}
+            onMouseEnter={() => onHover(layer.key)}
+            onMouseLeave={() => onHover(null)}
+            className="flex items-center gap-1 px-1.5 py-1 rounded hover:bg-white/5 group"
+            style={{ paddingLeft: `${depth * 12 + 6}px` }}
+          >
+            <button
+              onClick={() => apply(() => setLayerVisibility(content, layer.key, layer.hidden))}
+              disabled={disabled}
+              title={layer.hidden ? 'Show layer' : 'Hide layer'}
+              className="text-zinc-500 hover:text-white disabled:opacity-40"
+            >
+              {layer.hidden ? <EyeOff className="w-3.5 h-3.5" /> : <Eye className="w-3.5 h-3.5" />}
+            </button>
+            <button
+              onClick={() => apply(() => setLayerLocked(content, layer.key, !layer.locked))}
+              disabled={disabled}
+              title={layer.locked ? 'Unlock layer' : 'Lock layer'}
+              className={`${layer.locked ? 'text-amber-400' : 'text-zinc-600'} hover:text-white disabled:opacity-40`}
+            >
+              {layer.locked ? <Lock className="w-3.5 h-3.5" /> : <LockOpen className="w-3.5 h-3.5" />}
+            </button>
+
+            {editingKey === layer.key ? (
+              <input
+                autoFocus
+                value={draftName}
+                onChange={(e) => setDraftName(e.target.value)}
+                onBlur={() => commitRename(layer.key)}
+                onKeyDown={(e) => {
+                  if (e.key === 'Enter') commitRename(layer.key);
+                  if (e.key === 'Escape') setEditingKey(null);
+                }}
+                className="flex-1 min-w-0 bg-zinc-950 border border-indigo-500/50 rounded px-1 text-white"
+              />
+            ) : (
+              <span
+                onDoubleClick={() => {
+                  if (disabled || layer.locked) return;
+                  setEditingKey(layer.key);
+                  setDraftName(layer.id ?? '');
+                }}
+                title="Double-click to rename"
+                className={`flex-1 min-w-0 truncate ${layer.hidden ? 'text-zinc-600 line-through' : layer.id ? 'text-zinc-200' : 'text-zinc-500 italic'}`}
+              >
+                {layerName(layer)}
+              </span>
+            )}
+
+            <span className="text-[10px] text-zinc-600">{layer.elementCount}</span>
+
+            {layer.looseCount > 0 && (
+              <button
+                onClick={() => apply(() => groupLooseElements(content, layer.key, uniqueId(`${layer.id ?? 'layer'}-parts`)))}
+                disabled={disabled}
+                title={`Group ${layer.looseCount} loose element(s) into a sub-layer`}
+                className="text-zinc-600 hover:text-white opacity-0 group-hover:opacity-100 disabled:opacity-40"
+              >
+                <Group className="w-3.5 h-3.5" />
+              </button>
+            )}
+
+            <label className="relative text-zinc-600 hover:text-white opacity-0 group-hover:opacity-100" title="Move into…">
+              <FolderInput className="w-3.5 h-3.5" />
+              <select
+                value=""
+                disabled={disabled}
+                onChange={(e) => {
+                  const target = e.target.value;
+                  if (target) apply(() => moveLayer(content, layer.key, target === 'root' ? null : Number(target)));
+                }}
+                className="absolute inset-0 opacity-0 cursor-pointer"
+              >
+                <option value="">Move into…</option>
+                <option value="root">Top level</option>
+                {rows
+                  .filter(row => row.layer.key !== layer.key)
+                  .map(row => <option key={row.layer.key} value={row.layer.key}>{layerName(row.layer)}</option>)}
+              </select>
+            </label>
+          </li>
+        ))}
+        {rows.length === 0 && <li className="text-zinc-600 px-1.5">NO_LAYERS_FOUND</li>}
+      </ul>
+
+      <form
+        onSubmit={(e) => {
+          e.preventDefault();
+          if (!newLayerName.trim()) return;
+          apply(() => createLayer(content, newLayerName));
+          setNewLayerName('');
+        }}
+        className="flex gap-1 border-t border-white/5 pt-2"
+      >
+        <input
+          value={newLayerName}
+          onChange={(e) => setNewLayerName(e.target.value)}
+          placeholder="new-layer-id"
+          disabled={disabled}
+          className="flex-1 min-w-0 bg-zinc-950 border border-white/10 rounded px-2 py-1 text-white placeholder-zinc-600"
+        />
+        <button type="submit" disabled={disabled || !newLayerName.trim()} className="px-2 text-zinc-400 hover:text-white disabled:opacity-40" title="Add layer">
+          <Plus className="w-4 h-4" />
+        </button>
+      </form>
+
+      {error && <p className="text-[10px] text-red-400">{error}</p>}
+    </div>
+  );
+};
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { SlidersHorizontal, ChevronDown, ChevronRight, Copy, Trash2, Upload, Download } from 'lucide-react';
+import { PipelineConfig, PipelineRole, RoleConfig } from '../types';
+import { PIPELINE_ROLES, ROLE_LABELS, ROLE_PLACEHOLDERS, exportPresets, parsePresets } from '../services/pipelineConfig';
+import { downloadBlob } from '../services/download';
+
+interface PipelineSettingsProps {
+  presets: PipelineConfig[];
+  active: PipelineConfig;
+  onSelect: (id: string) => void;
+  onChange: (preset: PipelineConfig) => void; // custom presets only
+  onDuplicate: () => void;
+  onDelete: () => void;
+  onImport: (presets: PipelineConfig[]) => void;
+  disabled?: boolean;
+}
+
+const inputClass = 'bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white normal-case tracking-normal disabled:opacity-60';
+
+/** Empty input clears the setting rather than storing 0. */
+const NumberField: React.FC<{
+  label: string; value?: number; step?: number; onChange: (value: number | undefined) => void; disabled?: boolean
+}> = ({ label, value, step = 1, onChange, disabled }) => (
+  <label className="flex items-center gap-2">
+    {label}
+    <input
+      type="number"
+      min={0}
+      step={step}
+      value={value ?? ''}
+      placeholder="default"
+      onChange={(e) => onChange(e.target.value === '' ? undefined : Math.max(0, Number(e.target.value)))}
+      disabled={disabled}
+      className={`w-24 ${inputClass}`}
+    />
+  </label>
+);
+
+/**
+ * Models, thinking budgets, temperatures and system prompts for every pipeline stage, as named presets.
+ * Built-in presets are read-only; duplicate one to edit it.
+ */
+export const PipelineSettings: React.FC<PipelineSettingsProps> = ({
+  presets, active, onSelect, onChange, onDuplicate, onDelete, onImport, disabled
+}) => {
+  const [open, setOpen] = useState(false);
+  const [expandedRole, setExpandedRole] = useState<PipelineRole | null>(null);
+  const [importError, setImportError] = useState<string | null>(null);
+  const importRef = useRef<HTMLInputElement>(null);
+  const locked = disabled || !active.custom;
+
+  const update = (patch: Partial<PipelineConfig>) => onChange({ ...active, ...patch });
+  const updateRole = (role: PipelineRole, patch: Partial<RoleConfig>) =>
+    update({ roles: { ...active.roles, [role]: { ...active.roles[role], ...patch } } });
+
+  const handleExport = () => {
+    const custom = presets.filter(preset => preset.custom);
+    const file = custom.length > 0 ? custom : [active];
+    downloadBlob(new Blob([exportPresets(file)], { type: 'application/json' }), 'pipeline-presets.json');
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      onImport(parsePresets(await file.text()));
+      setImportError(null);
+    } catch (err: any) {
+      setImportError(err.message);
+    }
+  };
+
+  return (
+    <div className="w-full max-w-3xl mx-auto mt-6 px-4">
+      <div className="bg-zinc-900/80 border border-zinc-800 rounded-xl p-4 shadow-lg flex flex-col gap-3 text-[10px] font-mono text-zinc-400 uppercase tracking-widest">
+        <div className="flex flex-wrap items-center gap-3">
+          <button onClick={() => setOpen(!open)} className="flex items-center gap-2 text-indigo-300 hover:text-white">
+            {open ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+            <SlidersHorizontal className="w-4 h-4 text-indigo-400" />
+            Pipeline Settings
+          </button>
+          <div className="h-px flex-1 bg-zinc-800"></div>
+          <select
+            value={active.id}
+            onChange={(e) => onSelect(e.target.value)}
+            disabled={disabled}
+            className={inputClass}
+          >
+            {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}{preset.custom ? '' : ' (built-in)'}</option>)}
+          </select>
+        </div>
+
+        {open && (
+          <>
+            <div className="flex flex-wrap items-center gap-4">
+              <input
+                value={active.name}
+                onChange={(e) => update({ name: e.target.value })}
+                disabled={locked}
+                className={`w-40 ${inputClass}`}
+              />
+              <NumberField
+                label="Crop Padding (px)"
+                value={active.cropPadding}
+                onChange={(cropPadding) => update({ cropPadding: Math.round(cropPadding ?? 0) })}
+                disabled={locked}
+              />
+              <div className="flex-1" />
+              {active.custom ? (
+                <button onClick={onDelete} disabled={disabled} className="flex items-center gap-1 text-zinc-400 hover:text-red-400 disabled:opacity-40">
+                  <Trash2 className="w-3 h-3" /> Delete
+                </button>
+              ) : (
+                <span className="normal-case tracking-normal text-zinc-500">Built-in presets are read-only.</span>
+              )}
+              <button onClick={onDuplicate} disabled={disabled} className="flex items-center gap-1 text-zinc-400 hover:text-white disabled:opacity-40">
+                <Copy className="w-3 h-3" /> Duplicate
+              </button>
+              <button onClick={() => importRef.current?.click()} disabled={disabled} className="flex items-center gap-1 text-zinc-400 hover:text-white disabled:opacity-40">
+                <Upload className="w-3 h-3" /> Import
+              </button>
+              <button onClick={handleExport} className="flex items-center gap-1 text-zinc-400 hover:text-white">
+                <Download className="w-3 h-3" /> Export
+              </button>
+              <input type="file" ref={importRef} className="hidden" accept="application/json,.json" onChange={handleImport} />
+            </div>
+            {importError && <p className="normal-case tracking-normal text-red-400">{importError}</p>}
+
+            <div className="flex flex-col gap-1">
+              {PIPELINE_ROLES.map(role => {
+                const config = active.roles[role];
+                const expanded = expandedRole === role;
+                return (
+                  <div key={role} className="border border-white/5 rounded-lg">
+                    <div className="flex flex-wrap items-center gap-4 px-2 py-1.5">
+                      <button
+                        onClick={() => setExpandedRole(expanded ? null : role)}
+                        disabled={config.systemPrompt === undefined}
+                        title="Show the system prompt"
+                        className="text-zinc-500 hover:text-white disabled:opacity-30"
+                      >
+                        {expanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                      </button>
+                      <span className="w-40 text-zinc-200">{ROLE_LABELS[role]}</span>
+                      <input
+                        value={config.model}
+                        onChange={(e) => updateRole(role, { model: e.target.value })}
+                        disabled={locked}
+                        className={`w-48 ${inputClass}`}
+                      />
+                      <NumberField
+                        label="Thinking"
+                        value={config.thinkingBudget}
+                        step={500}
+                        onChange={(thinkingBudget) => updateRole(role, { thinkingBudget })}
+                        disabled={locked}
+                      />
+                      <NumberField
+                        label="Temp"
+                        value={config.temperature}
+                        step={0.1}
+                        onChange={(temperature) => updateRole(role, { temperature })}
+                        disabled={locked}
+                      />
+                    </div>
+                    {expanded && config.systemPrompt !== undefined && (
+                      <div className="px-9 pb-2 flex flex-col gap-1">
+                        {ROLE_PLACEHOLDERS[role] && (
+                          <span className="normal-case tracking-normal text-zinc-500">
+                            Placeholders: {ROLE_PLACEHOLDERS[role]!.map(name => `{{${name}}}`).join(', ')}
+                          </span>
+                        )}
+                        <textarea
+                          value={config.systemPrompt}
+                          onChange={(e) => updateRole(role, { systemPrompt: e.target.value })}
+                          disabled={locked}
+                          rows={Math.min(12, config.systemPrompt.split('\n').length + 1)}
+                          className={`w-full font-mono text-[11px] ${inputClass}`}
+                        />
+                      </div>
+                    )}
+                  </div>
+                );
+              })}
+            </div>
+          </>
+        )}
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,107 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { AlertCircle, CheckCircle2, RefreshCw, RotateCcw, XCircle } from 'lucide-react';
+import { ProgressPhase, ViewProgress } from '../types';
+import { isFinished } from '../services/pipelineProgress';
+
+interface ProgressTracksProps {
+  tracks: ViewProgress[];
+}
+
+const PHASE_LABELS: Record<ProgressPhase, string> = {
+  scanning: 'TOOLING: Analyzing Layout',
+  candidates: 'ARCHITECT: Drafting Candidates',
+  drafting: 'ARCHITECT: Constructing Geometry',
+  auditing: 'ADVERSARY: Inspecting for Flaws',
+  healing: 'ARCHITECT: Performing Self-Correction',
+  repairing: 'VALIDATOR: Repairing Malformed Output',
+  verifying: 'ADVERSARY: Verifying Repairs',
+  refining: 'ARCHITECT: Rewriting Geometry',
+  reconciling: 'ARCHITECT: Reconciling Stations',
+  done: 'Complete',
+  failed: 'Failed',
+  cancelled: 'Cancelled'
+};
+
+// The loop's stages in order; a track inside the loop shows its position among them.
+const STEPS: { label: string; phases: ProgressPhase[] }[] = [
+  { label: 'Draft', phases: ['candidates', 'drafting'] },
+  { label: 'Audit', phases: ['auditing'] },
+  { label: 'Heal', phases: ['healing', 'repairing'] },
+  { label: 'Verify', phases: ['verifying'] }
+];
+
+const formatElapsed = (ms: number) => {
+  const seconds = Math.max(0, Math.floor(ms / 1000));
+  return `${Math.floor(seconds / 60)}:${String(seconds % 60).padStart(2, '0')}`;
+};
+
+const PhaseIcon: React.FC<{ phase: ProgressPhase }> = ({ phase }) => {
+  if (phase === 'done') return <CheckCircle2 className="w-4 h-4 text-green-400" />;
+  if (phase === 'failed') return <AlertCircle className="w-4 h-4 text-red-400" />;
+  if (phase === 'cancelled') return <XCircle className="w-4 h-4 text-zinc-500" />;
+  return <RefreshCw className="w-4 h-4 text-indigo-400 animate-spin" />;
+};
+
+/** One card per view running in parallel: stage, elapsed time, retries and the draft as it streams in. */
+export const ProgressTracks: React.FC<ProgressTracksProps> = ({ tracks }) => {
+  const [now, setNow] = useState(Date.now());
+
+  useEffect(() => {
+    const timer = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(timer);
+  }, []);
+
+  return (
+    <div className={`grid gap-3 ${tracks.length > 1 ? 'md:grid-cols-2' : ''}`}>
+      {tracks.map(track => {
+        const finished = isFinished(track);
+        const stepIndex = STEPS.findIndex(step => step.phases.includes(track.phase));
+        return (
+          <div key={track.id} className="bg-zinc-950 border border-zinc-800 rounded-xl p-4 flex flex-col gap-3 text-left">
+            <div className="flex items-center gap-2">
+              <PhaseIcon phase={track.phase} />
+              <span className="text-sm font-bold text-white uppercase tracking-widest truncate">{track.label}</span>
+              <div className="flex-1"></div>
+              {track.retries > 0 && (
+                <span className="flex items-center gap-1 text-[10px] font-mono text-amber-400" title="Transient model errors retried">
+                  <RotateCcw className="w-3 h-3" /> {track.retries} {track.retries === 1 ? 'retry' : 'retries'}
+                </span>
+              )}
+              <span className="text-[10px] font-mono text-zinc-400">{formatElapsed((track.finishedAt ?? now) - track.startedAt)}</span>
+            </div>
+
+            {stepIndex >= 0 && (
+              <div className="flex items-center gap-1">
+                {STEPS.map((step, i) => (
+                  <div key={step.label} className="flex-1 flex flex-col gap-1">
+                    <div className={`h-1 rounded ${i < stepIndex ? 'bg-indigo-500' : i === stepIndex ? 'bg-indigo-400 animate-pulse' : 'bg-zinc-800'}`}></div>
+                    <span className={`text-[9px] font-mono uppercase tracking-widest ${i === stepIndex ? 'text-indigo-300' : 'text-zinc-600'}`}>{step.label}</span>
+                  </div>
+                ))}
+              </div>
+            )}
+
+            <p className={`text-[10px] font-mono uppercase tracking-widest ${track.phase === 'failed' ? 'text-red-400' : 'text-indigo-300'}`}>
+              {PHASE_LABELS[track.phase]}
+              {track.round !== undefined && !finished && ` · Round ${track.round}`}
+              {!finished && ` · ${formatElapsed(now - track.phaseStartedAt)}`}
+            </p>
+            {track.error && <p className="text-[10px] font-mono text-red-400/80 break-words">{track.error}</p>}
+
+            {track.preview && (
+              <div
+                className="bg-zinc-100 rounded-lg p-2 h-48 flex items-center justify-center overflow-hidden [&>svg]:w-full [&>svg]:h-full"
+                dangerouslySetInnerHTML={{ __html: track.preview }}
+              />
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
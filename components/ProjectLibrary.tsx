@@ -0,0 +1,196 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useEffect, useState } from 'react';
+import { Archive, Search, Copy, Trash2, Pencil, Check, X, FolderOpen } from 'lucide-react';
+import { ProjectSummary } from '../types';
+import { listProjects, renameProject, duplicateProject, deleteProject } from '../services/projectStore';
+
+interface ProjectLibraryProps {
+  activeProjectId?: string;
+  refreshKey: number; // bump to re-query after the open project is saved
+  onOpen: (id: string) => void;
+  onRenamed: (id: string, name: string, shipClass?: string) => void;
+  onDeleted: (id: string) => void;
+}
+
+export const ProjectLibrary: React.FC<ProjectLibraryProps> = ({ activeProjectId, refreshKey, onOpen, onRenamed, onDeleted }) => {
+  const [projects, setProjects] = useState<ProjectSummary[]>([]);
+  const [query, setQuery] = useState('');
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draftName, setDraftName] = useState('');
+  const [draftClass, setDraftClass] = useState('');
+  const [version, setVersion] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    let cancelled = false;
+    listProjects(query)
+      .then(result => { if (!cancelled) setProjects(result); })
+      .catch(err => {
+        console.error("Could not read project library", err);
+        if (!cancelled) setError(`Could not read the project library: ${err.message}`);
+      });
+    return () => { cancelled = true; };
+  }, [query, refreshKey, version]);
+
+  const reload = () => setVersion(v => v + 1);
+
+  const startEditing = (project: ProjectSummary) => {
+    setEditingId(project.id);
+    setDraftName(project.name);
+    setDraftClass(project.shipClass ?? '');
+  };
+
+  const commitRename = async () => {
+    if (!editingId || !draftName.trim()) return;
+    const name = draftName.trim();
+    const shipClass = draftClass.trim() || undefined;
+    try {
+      await renameProject(editingId, name, shipClass);
+      onRenamed(editingId, name, shipClass);
+      setError(null);
+    } catch (err: any) {
+      console.error("Rename failed", err);
+      setError(`Could not rename "${name}": ${err.message}`);
+    } finally {
+      setEditingId(null);
+      reload();
+    }
+  };
+
+  const handleDuplicate = async (project: ProjectSummary) => {
+    try {
+      await duplicateProject(project.id);
+      setError(null);
+    } catch (err: any) {
+      console.error("Duplicate failed", err);
+      setError(`Could not duplicate "${project.name}": ${err.message}`);
+    }
+    reload();
+  };
+
+  const handleDelete = async (project: ProjectSummary) => {
+    if (!window.confirm(`Delete "${project.name}"? This cannot be undone.`)) return;
+    try {
+      await deleteProject(project.id);
+      onDeleted(project.id);
+      setError(null);
+    } catch (err: any) {
+      console.error("Delete failed", err);
+      setError(`Could not delete "${project.name}": ${err.message}`);
+    }
+    reload();
+  };
+
+  return (
+    <div className="mt-12 max-w-6xl mx-auto px-4">
+      <div className="flex items-center gap-3 mb-4">
+        <div className="bg-indigo-500/10 p-2 rounded-lg">
+          <Archive className="w-4 h-4 text-indigo-400" />
+        </div>
+        <span className="text-xs font-bold text-white uppercase tracking-widest">Project Library</span>
+        <div className="h-px flex-1 bg-zinc-800"></div>
+        <div className="relative">
+          <Search className="absolute left-3 top-1/2 -translate-y-1/2 w-3.5 h-3.5 text-zinc-500" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search name or class..."
+            className="bg-zinc-900 border border-white/10 rounded-lg pl-8 pr-3 py-1.5 text-xs text-white placeholder-zinc-600 focus:outline-none focus:ring-1 focus:ring-indigo-500/50"
+          />
+        </div>
+      </div>
+
+      {error && (
+        <div className="flex items-center gap-2 mb-4 text-[10px] font-mono text-red-400">
+          <span className="flex-1">{error}</span>
+          <button onClick={() => setError(null)} title="Dismiss" className="p-1 hover:bg-white/5 rounded">
+            <X className="w-3 h-3" />
+          </button>
+        </div>
+      )}
+
+      {projects.length === 0 ? (
+        <p className="text-xs font-mono text-zinc-600 text-center py-8">
+          {query ? 'NO_MATCHING_PROJECTS' : 'LIBRARY_EMPTY'}
+        </p>
+      ) : (
+        <div className="grid grid-cols-2 sm:grid-cols-3 lg:grid-cols-4 gap-4">
+          {projects.map(project => (
+            <div
+              key={project.id}
+              className={`bg-zinc-900/80 border rounded-xl overflow-hidden flex flex-col ${
+                project.id === activeProjectId ? 'border-indigo-500/60' : 'border-zinc-800'
+              }`}
+            >
+              <button onClick={() => onOpen(project.id)} className="h-32 bg-zinc-100 flex items-center justify-center p-2 group">
+                {project.thumbnail ? (
+                  <img src={project.thumbnail} alt={project.name} className="max-h-full max-w-full object-contain group-hover:scale-105 transition-transform" />
+                ) : (
+                  <FolderOpen className="w-8 h-8 text-zinc-400" />
+                )}
+              </button>
+
+              <div className="p-3 flex flex-col gap-2">
+                {editingId === project.id ? (
+                  <>
+                    <input
+                      value={draftName}
+                      onChange={(e) => setDraftName(e.target.value)}
+                      placeholder="Name"
+                      className="bg-zinc-950 border border-white/10 rounded px-2 py-1 text-xs text-white"
+                      autoFocus
+                    />
+                    <input
+                      value={draftClass}
+                      onChange={(e) => setDraftClass(e.target.value)}
+                      onKeyDown={(e) => e.key === 'Enter' && commitRename()}
+                      placeholder="Ship class"
+                      className="bg-zinc-950 border border-white/10 rounded px-2 py-1 text-xs text-white"
+                    />
+                  </>
+                ) : (
+                  <div>
+                    <p className="text-xs font-bold text-white truncate">{project.name}</p>
+                    <p className="text-[10px] font-mono text-zinc-500 truncate">
+                      {project.shipClass || 'UNCLASSIFIED'} · {new Date(project.updatedAt).toLocaleDateString()}
+                    </p>
+                  </div>
+                )}
+
+                <div className="flex gap-1 justify-end">
+                  {editingId === project.id ? (
+                    <>
+                      <button onClick={commitRename} title="Save" className="p-1.5 text-green-400 hover:bg-white/5 rounded">
+                        <Check className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => setEditingId(null)} title="Cancel" className="p-1.5 text-zinc-400 hover:bg-white/5 rounded">
+                        <X className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  ) : (
+                    <>
+                      <button onClick={() => startEditing(project)} title="Rename" className="p-1.5 text-zinc-400 hover:text-white hover:bg-white/5 rounded">
+                        <Pencil className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => handleDuplicate(project)} title="Duplicate" className="p-1.5 text-zinc-400 hover:text-white hover:bg-white/5 rounded">
+                        <Copy className="w-3.5 h-3.5" />
+                      </button>
+                      <button onClick={() => handleDelete(project)} title="Delete" className="p-1.5 text-zinc-400 hover:text-red-400 hover:bg-white/5 rounded">
+                        <Trash2 className="w-3.5 h-3.5" />
+                      </button>
+                    </>
+                  )}
+                </div>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
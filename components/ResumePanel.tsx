@@ -0,0 +1,57 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React from 'react';
+import { AlertTriangle, Play, X } from 'lucide-react';
+import { PipelineCheckpoint, PipelineStage } from '../types';
+
+interface ResumePanelProps {
+  checkpoint: PipelineCheckpoint;
+  viewLabel: string;
+  onResume: () => void;
+  onDismiss: () => void;
+  disabled?: boolean;
+}
+
+const STAGE_NAMES: Record<PipelineStage, string> = {
+  draft: 'Drafting',
+  audit: 'Audit',
+  heal: 'Heal',
+  verify: 'Verification'
+};
+
+/** What the interrupted run kept, in the order the pipeline produces it. */
+const progressOf = (checkpoint: PipelineCheckpoint): string => {
+  if (!checkpoint.draft) return 'Nothing was kept; resuming starts from the draft.';
+  const parts = ['Draft kept'];
+  const healed = checkpoint.rounds.filter(round => !round.rolledBack).length;
+  if (checkpoint.rounds.length > 0) parts.push(`${checkpoint.rounds.length} of ${checkpoint.loopOptions.maxRounds} rounds done (${healed} healed)`);
+  if (checkpoint.healed) parts.push('next heal ready for verification');
+  else if (checkpoint.audit) parts.push('next audit ready');
+  return `${parts.join(' · ')}.`;
+};
+
+export const ResumePanel: React.FC<ResumePanelProps> = ({ checkpoint, viewLabel, onResume, onDismiss, disabled }) => (
+  <div className="bg-amber-500/10 border border-amber-500/20 rounded-xl p-4 mb-4 flex items-start gap-3 text-amber-200">
+    <AlertTriangle className="w-5 h-5 text-amber-400 flex-shrink-0 mt-0.5" />
+    <div className="flex-1 min-w-0">
+      <h4 className="font-semibold text-amber-300">
+        {viewLabel}: {checkpoint.aborted ? 'Cancelled' : 'Stopped'} During {STAGE_NAMES[checkpoint.stage]}
+      </h4>
+      {!checkpoint.aborted && <p className="text-sm text-amber-200/70 mt-1 break-words">{checkpoint.error}</p>}
+      <p className="text-[10px] font-mono text-amber-200/60 uppercase tracking-widest mt-2">{progressOf(checkpoint)}</p>
+    </div>
+    <button
+      onClick={onResume}
+      disabled={disabled}
+      className="flex items-center gap-2 px-4 py-2 bg-amber-500 text-zinc-950 rounded-lg font-bold text-xs uppercase tracking-widest hover:bg-amber-400 disabled:opacity-40"
+    >
+      <Play className="w-4 h-4" /> Resume
+    </button>
+    <button onClick={onDismiss} disabled={disabled} title="Keep the partial result" className="p-2 text-amber-200/60 hover:text-white disabled:opacity-40">
+      <X className="w-4 h-4" />
+    </button>
+  </div>
+);
@@ -0,0 +1,78 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { Columns2, Layers2, X } from 'lucide-react';
+import { GeneratedSvg } from '../types';
+import { diffSvgs, DIFF_COLORS, DiffKind } from '../services/svgDiff';
+import { validateSvg } from '../services/svgValidator';
+
+interface RevisionDiffProps {
+  before: GeneratedSvg;
+  after: GeneratedSvg;
+  onClose: () => void;
+}
+
+const LABELS: Record<DiffKind, string> = { added: 'Added', removed: 'Removed', moved: 'Moved' };
+
+export const RevisionDiff: React.FC<RevisionDiffProps> = ({ before, after, onClose }) => {
+  const [mode, setMode] = useState<'side-by-side' | 'overlay'>('side-by-side');
+
+  const diff = useMemo(() => {
+    const a = validateSvg(before.content).sanitized;
+    const b = validateSvg(after.content).sanitized;
+    return a && b ? diffSvgs(a, b) : null;
+  }, [before, after]);
+
+  if (!diff) {
+    return <p className="text-xs font-mono text-red-400 p-4">DIFF_UNAVAILABLE: one of the revisions is not valid SVG.</p>;
+  }
+
+  const counts: Record<DiffKind, number> = { added: diff.added.length, removed: diff.removed.length, moved: diff.moved.length };
+  const panel = 'bg-zinc-100 rounded-lg p-4 flex items-center justify-center min-h-[240px] [&>svg]:max-w-full [&>svg]:h-auto';
+
+  return (
+    <div className="bg-zinc-950 border border-zinc-800 rounded-xl p-4 flex flex-col gap-3">
+      <div className="flex items-center gap-3">
+        <span className="text-[10px] font-mono text-zinc-500 uppercase tracking-widest">Visual Diff</span>
+        {(Object.keys(counts) as DiffKind[]).map(kind => (
+          <span key={kind} className="flex items-center gap-1 text-[10px] font-mono text-zinc-300">
+            <span className="w-2 h-2 rounded-full" style={{ background: DIFF_COLORS[kind] }}></span>
+            {LABELS[kind]} {counts[kind]}
+          </span>
+        ))}
+        <span className="text-[10px] font-mono text-zinc-500">Unchanged {diff.unchanged}</span>
+        <div className="flex-1"></div>
+        <button
+          onClick={() => setMode(mode === 'side-by-side' ? 'overlay' : 'side-by-side')}
+          className="flex items-center gap-1 px-2 py-1 text-[10px] font-bold uppercase tracking-widest rounded border border-zinc-700 text-zinc-300 hover:bg-white/5"
+        >
+          {mode === 'side-by-side' ? <><Layers2 className="w-3 h-3" /> Overlay</> : <><Columns2 className="w-3 h-3" /> Side by Side</>}
+        </button>
+        <button onClick={onClose} className="p-1 text-zinc-500 hover:text-white">
+          <X className="w-4 h-4" />
+        </button>
+      </div>
+
+      {mode === 'side-by-side' ? (
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <p className="text-[10px] font-mono text-zinc-500 mb-1">BEFORE · {new Date(before.timestamp).toLocaleString()}</p>
+            <div className={panel} dangerouslySetInnerHTML={{ __html: diff.beforeMarkup }} />
+          </div>
+          <div>
+            <p className="text-[10px] font-mono text-zinc-500 mb-1">AFTER · {new Date(after.timestamp).toLocaleString()}</p>
+            <div className={panel} dangerouslySetInnerHTML={{ __html: diff.afterMarkup }} />
+          </div>
+        </div>
+      ) : (
+        <div className={`${panel} relative`}>
+          <div className="absolute inset-4 flex items-center justify-center opacity-40 [&>svg]:max-w-full [&>svg]:h-auto" dangerouslySetInnerHTML={{ __html: diff.beforeMarkup }} />
+          <div className="relative w-full flex items-center justify-center [&>svg]:max-w-full [&>svg]:h-auto" dangerouslySetInnerHTML={{ __html: diff.afterMarkup }} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,108 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { History, Undo2, Redo2, GitBranch, GitCompare } from 'lucide-react';
+import { RevisionTree, RevisionStage } from '../types';
+import { flattenTree, canUndo, canRedo } from '../services/revisionHistory';
+import { RevisionDiff } from './RevisionDiff';
+
+interface RevisionHistoryProps {
+  tree: RevisionTree;
+  onUndo: () => void;
+  onRedo: () => void;
+  onCheckout: (id: string) => void;
+  disabled?: boolean;
+}
+
+const STAGE_STYLES: Record<RevisionStage, string> = {
+  draft: 'text-sky-400 border-sky-500/30',
+  healed: 'text-green-400 border-green-500/30',
+  refined: 'text-indigo-300 border-indigo-500/30',
+  reconciled: 'text-teal-400 border-teal-500/30',
+  edited: 'text-zinc-300 border-zinc-500/30',
+  dimensioned: 'text-amber-300 border-amber-500/30'
+};
+
+export const RevisionHistory: React.FC<RevisionHistoryProps> = ({ tree, onUndo, onRedo, onCheckout, disabled }) => {
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+  const rows = flattenTree(tree);
+
+  // Clicking compare on two revisions opens the diff, older revision on the left.
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id) ? prev.filter(x => x !== id) : [...prev, id].slice(-2));
+  };
+
+  const [beforeRev, afterRev] = compareIds
+    .map(id => tree.revisions[id])
+    .filter(Boolean)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+  return (
+    <div className="bg-zinc-900/80 border border-zinc-800 rounded-xl p-4 shadow-lg mb-4 flex flex-col gap-3">
+      <div className="flex items-center gap-2">
+        <History className="w-4 h-4 text-indigo-400" />
+        <span className="text-[10px] font-mono text-indigo-300 uppercase tracking-widest">Revision History</span>
+        <div className="h-px flex-1 bg-zinc-800"></div>
+        <button
+          onClick={onUndo}
+          disabled={disabled || !canUndo(tree)}
+          title="Undo"
+          className="p-1.5 rounded text-zinc-400 hover:text-white hover:bg-white/5 disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          <Undo2 className="w-4 h-4" />
+        </button>
+        <button
+          onClick={onRedo}
+          disabled={disabled || !canRedo(tree)}
+          title="Redo"
+          className="p-1.5 rounded text-zinc-400 hover:text-white hover:bg-white/5 disabled:opacity-30 disabled:cursor-not-allowed"
+        >
+          <Redo2 className="w-4 h-4" />
+        </button>
+      </div>
+
+      <ul className="flex flex-col gap-1 max-h-48 overflow-y-auto">
+        {rows.map(({ revision, depth }) => {
+          const isHead = revision.id === tree.headId;
+          const stage = revision.stage ?? 'refined';
+          return (
+            <li
+              key={revision.id}
+              style={{ paddingLeft: depth * 14 }}
+              className={`flex items-center gap-2 rounded px-2 py-1 text-[11px] font-mono ${isHead ? 'bg-indigo-500/10' : ''}`}
+            >
+              <span className={`px-1.5 py-0.5 border rounded text-[9px] uppercase ${STAGE_STYLES[stage]}`}>{stage}</span>
+              <span className={`flex-1 truncate ${isHead ? 'text-white' : 'text-zinc-400'}`} title={revision.prompt}>
+                {revision.prompt || '(no prompt)'}
+              </span>
+              {revision.config && <span className="text-zinc-600 truncate max-w-[96px]" title="Pipeline preset">{revision.config.name}</span>}
+              <span className="text-zinc-600">{new Date(revision.timestamp).toLocaleTimeString()}</span>
+              <button
+                onClick={() => toggleCompare(revision.id)}
+                title="Select for comparison"
+                className={`p-1 rounded hover:bg-white/5 ${compareIds.includes(revision.id) ? 'text-amber-400' : 'text-zinc-500'}`}
+              >
+                <GitCompare className="w-3.5 h-3.5" />
+              </button>
+              <button
+                onClick={() => onCheckout(revision.id)}
+                disabled={disabled || isHead}
+                title="Branch from this revision"
+                className="p-1 rounded text-zinc-500 hover:text-white hover:bg-white/5 disabled:opacity-30"
+              >
+                <GitBranch className="w-3.5 h-3.5" />
+              </button>
+            </li>
+          );
+        })}
+      </ul>
+
+      {beforeRev && afterRev && (
+        <RevisionDiff before={beforeRev} after={afterRev} onClose={() => setCompareIds([])} />
+      )}
+    </div>
+  );
+};
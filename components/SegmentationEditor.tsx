@@ -0,0 +1,271 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useRef, useState } from 'react';
+import { Crop, Plus, X, Play } from 'lucide-react';
+import { BoundingBox, DetectedView, Segmentation, ShipType, ViewType } from '../types';
+import { VIEW_TYPES, VIEW_TYPE_LABELS, VIEW_CONTEXT_INSTRUCTIONS } from '../services/viewTypes';
+import { SHIP_TEMPLATES, SHIP_TYPES } from '../services/shipTemplates';
+
+interface SegmentationEditorProps {
+  imageSrc: string;
+  initial: Segmentation;
+  onConfirm: (segmentation: Segmentation) => void;
+  onCancel: () => void;
+}
+
+type DragMode = 'move' | 'nw' | 'ne' | 'sw' | 'se';
+
+const VIEW_COLORS = ['#818cf8', '#34d399', '#f472b6', '#fbbf24', '#38bdf8', '#a78bfa', '#fb7185', '#4ade80'];
+
+const MIN_SIZE = 10; // smallest box edge on the 0-1000 scale
+const NEW_BOX: BoundingBox = { ymin: 350, xmin: 250, ymax: 650, xmax: 750 };
+
+const clamp = (value: number, min: number, max: number) => Math.min(max, Math.max(min, value));
+
+/** Applies a pointer delta (0-1000 units) to a box for the given drag mode, keeping it on the sheet. */
+const applyDrag = (box: BoundingBox, mode: DragMode, dx: number, dy: number): BoundingBox => {
+  if (mode === 'move') {
+    const w = box.xmax - box.xmin;
+    const h = box.ymax - box.ymin;
+    const xmin = clamp(box.xmin + dx, 0, 1000 - w);
+    const ymin = clamp(box.ymin + dy, 0, 1000 - h);
+    return { xmin, ymin, xmax: xmin + w, ymax: ymin + h };
+  }
+  const next = { ...box };
+  if (mode === 'nw' || mode === 'sw') next.xmin = clamp(box.xmin + dx, 0, box.xmax - MIN_SIZE);
+  if (mode === 'ne' || mode === 'se') next.xmax = clamp(box.xmax + dx, box.xmin + MIN_SIZE, 1000);
+  if (mode === 'nw' || mode === 'ne') next.ymin = clamp(box.ymin + dy, 0, box.ymax - MIN_SIZE);
+  if (mode === 'sw' || mode === 'se') next.ymax = clamp(box.ymax + dy, box.ymin + MIN_SIZE, 1000);
+  return next;
+};
+
+export const SegmentationEditor: React.FC<SegmentationEditorProps> = ({ imageSrc, initial, onConfirm, onCancel }) => {
+  const [views, setViews] = useState<DetectedView[]>(initial.views);
+  const [padding, setPadding] = useState(initial.padding);
+  const [selectedId, setSelectedId] = useState<string | null>(initial.views[0]?.id ?? null);
+  const overlayRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ id: string; mode: DragMode; startX: number; startY: number; startBox: BoundingBox } | null>(null);
+
+  const updateView = (id: string, patch: Partial<DetectedView>) =>
+    setViews(prev => prev.map(view => view.id === id ? { ...view, ...patch } : view));
+
+  const addView = () => {
+    const view: DetectedView = {
+      id: crypto.randomUUID(),
+      label: VIEW_TYPE_LABELS.side,
+      viewType: 'side',
+      box: NEW_BOX,
+      shipIndex: 0,
+      shipType: views.find(v => v.shipIndex === 0)?.shipType
+    };
+    setViews(prev => [...prev, view]);
+    setSelectedId(view.id);
+  };
+
+  const removeView = (id: string) => {
+    setViews(prev => prev.filter(view => view.id !== id));
+    if (selectedId === id) setSelectedId(null);
+  };
+
+  const startDrag = (e: React.PointerEvent, view: DetectedView, mode: DragMode) => {
+    e.stopPropagation();
+    e.preventDefault();
+    (e.target as Element).setPointerCapture(e.pointerId);
+    setSelectedId(view.id);
+    dragRef.current = { id: view.id, mode, startX: e.clientX, startY: e.clientY, startBox: view.box };
+  };
+
+  const onPointerMove = (e: React.PointerEvent) => {
+    const drag = dragRef.current;
+    const rect = overlayRef.current?.getBoundingClientRect();
+    if (!drag || !rect) return;
+    const dx = Math.round(((e.clientX - drag.startX) / rect.width) * 1000);
+    const dy = Math.round(((e.clientY - drag.startY) / rect.height) * 1000);
+    updateView(drag.id, { box: applyDrag(drag.startBox, drag.mode, dx, dy) });
+  };
+
+  const endDrag = () => {
+    dragRef.current = null;
+  };
+
+  const colorOf = (index: number) => VIEW_COLORS[index % VIEW_COLORS.length];
+  const selected = views.find(view => view.id === selectedId);
+
+  return (
+    <div className="max-w-6xl mx-auto mt-8 px-4">
+      <div className="bg-zinc-900 border border-white/10 rounded-2xl overflow-hidden shadow-2xl">
+        <div className="flex flex-wrap items-center gap-3 px-6 py-4 border-b border-white/5 bg-zinc-950/50">
+          <div className="bg-indigo-500/10 p-2 rounded-lg">
+            <Crop className="w-4 h-4 text-indigo-400" />
+          </div>
+          <div className="flex-1">
+            <span className="text-[10px] text-zinc-500 block font-mono uppercase leading-none mb-1">Segmentation Review</span>
+            <span className="text-xs text-white font-bold tracking-tight">Drag or resize boxes, then confirm to run the pipeline</span>
+          </div>
+          <button
+            onClick={addView}
+            className="flex items-center gap-1 px-3 py-1.5 text-xs font-bold rounded-lg border border-zinc-700 text-zinc-300 hover:bg-white/5"
+          >
+            <Plus className="w-3.5 h-3.5" /> Add View
+          </button>
+          <label className="flex items-center gap-2 text-[11px] font-mono text-zinc-400 uppercase tracking-widest">
+            Padding
+            <input
+              type="number"
+              min={0}
+              max={200}
+              value={padding}
+              onChange={(e) => setPadding(clamp(Number(e.target.value) || 0, 0, 200))}
+              className="w-16 bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white"
+            />
+            px
+          </label>
+        </div>
+
+        <div className="flex flex-col lg:flex-row">
+          <div className="flex-1 p-6 bg-zinc-950 flex justify-center">
+            <div
+              ref={overlayRef}
+              className="relative inline-block select-none touch-none"
+              onPointerMove={onPointerMove}
+              onPointerUp={endDrag}
+              onPointerCancel={endDrag}
+            >
+              <img src={imageSrc} alt="Source scan" className="max-h-[600px] max-w-full block" draggable={false} />
+              {views.map((view, index) => {
+                const { box } = view;
+                const color = colorOf(index);
+                return (
+                  <div
+                    key={view.id}
+                    onPointerDown={(e) => startDrag(e, view, 'move')}
+                    className={`absolute border-2 cursor-move ${view.id === selectedId ? 'z-10' : ''}`}
+                    style={{
+                      left: `${box.xmin / 10}%`,
+                      top: `${box.ymin / 10}%`,
+                      width: `${(box.xmax - box.xmin) / 10}%`,
+                      height: `${(box.ymax - box.ymin) / 10}%`,
+                      borderColor: color,
+                      borderStyle: view.id === selectedId ? 'solid' : 'dashed',
+                      background: `${color}1a`
+                    }}
+                  >
+                    <div className="absolute -top-6 left-0 flex items-center gap-1 px-1.5 py-0.5 rounded text-[10px] font-bold uppercase tracking-widest text-zinc-950 whitespace-nowrap" style={{ background: color }}>
+                      {index + 1}. {view.label}
+                      <button
+                        onPointerDown={(e) => e.stopPropagation()}
+                        onClick={() => removeView(view.id)}
+                        title="Remove view"
+                      >
+                        <X className="w-3 h-3" />
+                      </button>
+                    </div>
+                    {(['nw', 'ne', 'sw', 'se'] as DragMode[]).map(corner => (
+                      <div
+                        key={corner}
+                        onPointerDown={(e) => startDrag(e, view, corner)}
+                        className={`absolute w-3 h-3 border-2 bg-zinc-950 ${corner[0] === 'n' ? '-top-1.5' : '-bottom-1.5'} ${corner[1] === 'w' ? '-left-1.5' : '-right-1.5'} ${corner === 'nw' || corner === 'se' ? 'cursor-nwse-resize' : 'cursor-nesw-resize'}`}
+                        style={{ borderColor: color }}
+                      />
+                    ))}
+                  </div>
+                );
+              })}
+            </div>
+          </div>
+
+          {/* View list and per-view settings */}
+          <div className="lg:w-72 border-t lg:border-t-0 lg:border-l border-white/5 p-4 flex flex-col gap-3">
+            <ul className="flex flex-col gap-1">
+              {views.map((view, index) => (
+                <li key={view.id}>
+                  <button
+                    onClick={() => setSelectedId(view.id)}
+                    className={`w-full flex items-center gap-2 px-2 py-1.5 rounded text-left text-xs ${view.id === selectedId ? 'bg-white/5 text-white' : 'text-zinc-400 hover:text-white'}`}
+                  >
+                    <span className="w-2 h-2 rounded-full flex-shrink-0" style={{ background: colorOf(index) }}></span>
+                    <span className="flex-1 truncate">{view.label}</span>
+                    <span className="text-[10px] font-mono text-zinc-600 uppercase">{view.viewType}</span>
+                  </button>
+                </li>
+              ))}
+              {views.length === 0 && <li className="text-[11px] font-mono text-zinc-600">NO_VIEWS_SELECTED</li>}
+            </ul>
+
+            {selected && (
+              <div className="flex flex-col gap-2 border-t border-white/5 pt-3 text-[11px] font-mono text-zinc-400 uppercase tracking-widest">
+                <label className="flex flex-col gap-1">
+                  Label
+                  <input
+                    value={selected.label}
+                    onChange={(e) => updateView(selected.id, { label: e.target.value })}
+                    className="bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white normal-case tracking-normal"
+                  />
+                </label>
+                <div className="flex gap-2">
+                  <label className="flex flex-col gap-1 flex-1">
+                    Type
+                    <select
+                      value={selected.viewType}
+                      onChange={(e) => updateView(selected.id, { viewType: e.target.value as ViewType })}
+                      className="bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white normal-case tracking-normal"
+                    >
+                      {VIEW_TYPES.map(type => <option key={type} value={type}>{VIEW_TYPE_LABELS[type]}</option>)}
+                    </select>
+                  </label>
+                  <label className="flex flex-col gap-1 w-16">
+                    Ship
+                    <input
+                      type="number"
+                      min={1}
+                      value={selected.shipIndex + 1}
+                      onChange={(e) => updateView(selected.id, { shipIndex: Math.max(0, (Number(e.target.value) || 1) - 1) })}
+                      className="bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white"
+                    />
+                  </label>
+                </div>
+                <label className="flex flex-col gap-1">
+                  Ship Type
+                  <select
+                    value={selected.shipType ?? ''}
+                    onChange={(e) => updateView(selected.id, { shipType: (e.target.value || undefined) as ShipType | undefined })}
+                    className="bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white normal-case tracking-normal"
+                  >
+                    <option value="">Generic (no checklist)</option>
+                    {SHIP_TYPES.map(type => <option key={type} value={type}>{SHIP_TEMPLATES[type].label}</option>)}
+                  </select>
+                </label>
+                <label className="flex flex-col gap-1">
+                  Architect Instruction
+                  <textarea
+                    value={selected.contextInstruction ?? ''}
+                    onChange={(e) => updateView(selected.id, { contextInstruction: e.target.value || undefined })}
+                    placeholder={VIEW_CONTEXT_INSTRUCTIONS[selected.viewType]}
+                    rows={4}
+                    className="bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white normal-case tracking-normal text-[11px] placeholder-zinc-600"
+                  />
+                </label>
+              </div>
+            )}
+          </div>
+        </div>
+
+        <div className="flex justify-end gap-2 p-4 border-t border-white/5 bg-zinc-950">
+          <button onClick={onCancel} className="px-4 py-2 text-xs font-bold uppercase tracking-widest text-zinc-400 hover:text-white rounded-lg">
+            Cancel
+          </button>
+          <button
+            onClick={() => onConfirm({ views, padding })}
+            disabled={views.length === 0}
+            className="flex items-center gap-2 px-6 py-2 bg-indigo-600 text-white rounded-lg font-bold text-xs uppercase tracking-widest hover:bg-indigo-500 disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Play className="w-3.5 h-3.5" /> Confirm Crops
+          </button>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,161 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useMemo, useState } from 'react';
+import { FileText, ChevronDown, ChevronUp, Download, Loader2, AlertTriangle } from 'lucide-react';
+import { ProjectView, SheetOptions, SheetSize, TitleBlock, WarshipProject } from '../types';
+import { composeSheet, defaultSheetOptions, SHEET_SIZES } from '../services/presentationSheet';
+import { sheetToPdf, sheetToPng } from '../services/sheetExport';
+import { downloadBlob } from '../services/download';
+import { applyTheme, resolveTheme } from '../services/themes';
+
+interface SheetPanelProps {
+  project: WarshipProject;
+  onOptionsChange: (options: SheetOptions) => void;
+}
+
+type ExportFormat = 'svg' | 'png' | 'pdf';
+
+const inputClass = 'bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white normal-case tracking-normal';
+
+export const SheetPanel: React.FC<SheetPanelProps> = ({ project, onOptionsChange }) => {
+  const [open, setOpen] = useState(false);
+  const [dpi, setDpi] = useState(300);
+  const [busy, setBusy] = useState<ExportFormat | null>(null);
+  const [exportError, setExportError] = useState<string | null>(null);
+  const options = project.sheetOptions ?? defaultSheetOptions(project);
+  const ships = Array.from(new Set<number>(project.views.map((view: ProjectView) => view.shipIndex))).sort((a, b) => a - b);
+
+  const composed = useMemo(() => {
+    if (!open) return null;
+    try {
+      // The sheet takes the project's theme like every other export.
+      const sheet = composeSheet(project, options);
+      return { sheet: { ...sheet, svg: applyTheme(sheet.svg, resolveTheme(project), { background: true }) }, error: null };
+    } catch (err: any) {
+      return { sheet: null, error: err.message as string };
+    }
+  }, [open, project]);
+
+  const update = (patch: Partial<SheetOptions>) => onOptionsChange({ ...options, ...patch });
+  const updateTitle = (patch: Partial<TitleBlock>) => update({ titleBlock: { ...options.titleBlock, ...patch } });
+
+  const handleExport = async (format: ExportFormat) => {
+    const sheet = composed?.sheet;
+    if (!sheet) return;
+    const base = `sheet-${(options.titleBlock.shipName || project.name).replace(/[^\w-]+/g, '_').slice(0, 40)}`;
+    setBusy(format);
+    setExportError(null);
+    try {
+      if (format === 'svg') downloadBlob(new Blob([sheet.svg], { type: 'image/svg+xml' }), `${base}.svg`);
+      if (format === 'png') downloadBlob(await sheetToPng(sheet, dpi), `${base}.png`);
+      if (format === 'pdf') downloadBlob(await sheetToPdf(sheet, options.titleBlock.shipName || project.name, dpi), `${base}.pdf`);
+    } catch (err: any) {
+      setExportError(err.message);
+    } finally {
+      setBusy(null);
+    }
+  };
+
+  return (
+    <div className="bg-zinc-900/80 border border-zinc-800 rounded-xl p-4 shadow-lg mb-4">
+      <button onClick={() => setOpen(!open)} className="w-full flex items-center gap-2">
+        <FileText className="w-4 h-4 text-indigo-400" />
+        <span className="text-[10px] font-mono text-indigo-300 uppercase tracking-widest">Presentation Sheet</span>
+        <div className="h-px flex-1 bg-zinc-800"></div>
+        {open ? <ChevronUp className="w-4 h-4 text-zinc-500" /> : <ChevronDown className="w-4 h-4 text-zinc-500" />}
+      </button>
+
+      {open && (
+        <div className="mt-3 flex flex-col gap-3">
+          <div className="grid grid-cols-2 md:grid-cols-4 gap-3 text-[10px] font-mono text-zinc-400 uppercase tracking-widest">
+            <label className="flex flex-col gap-1">
+              Ship Name
+              <input value={options.titleBlock.shipName} onChange={(e) => updateTitle({ shipName: e.target.value })} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              Class
+              <input value={options.titleBlock.shipClass ?? ''} onChange={(e) => updateTitle({ shipClass: e.target.value || undefined })} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              Date
+              <input value={options.titleBlock.date} onChange={(e) => updateTitle({ date: e.target.value })} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              Drawn By
+              <input value={options.titleBlock.drawnBy ?? ''} onChange={(e) => updateTitle({ drawnBy: e.target.value || undefined })} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              Scale
+              <input
+                value={options.titleBlock.scale ?? ''}
+                placeholder={composed?.sheet && !options.titleBlock.scale ? composed.sheet.scale : 'Auto'}
+                onChange={(e) => updateTitle({ scale: e.target.value || undefined })}
+                className={inputClass}
+              />
+            </label>
+            <label className="flex flex-col gap-1">
+              Sheet
+              <input value={options.titleBlock.sheetNumber} onChange={(e) => updateTitle({ sheetNumber: e.target.value })} className={inputClass} />
+            </label>
+            <label className="flex flex-col gap-1">
+              Size
+              <select value={options.size} onChange={(e) => update({ size: e.target.value as SheetSize })} className={inputClass}>
+                {(Object.keys(SHEET_SIZES) as SheetSize[]).map(size => <option key={size} value={size}>{size} Landscape</option>)}
+              </select>
+            </label>
+            {ships.length > 1 ? (
+              <label className="flex flex-col gap-1">
+                Ship
+                <select value={options.shipIndex} onChange={(e) => update({ shipIndex: Number(e.target.value) })} className={inputClass}>
+                  {ships.map(index => <option key={index} value={index}>Ship {index + 1}</option>)}
+                </select>
+              </label>
+            ) : <div />}
+          </div>
+
+          <div className="flex flex-wrap items-center gap-4 text-[11px] font-mono text-zinc-400 uppercase tracking-widest">
+            <label className="flex items-center gap-2">
+              <input type="checkbox" checked={options.showLegend} onChange={(e) => update({ showLegend: e.target.checked })} />
+              Legend
+            </label>
+            <label className="flex items-center gap-2">
+              Raster DPI
+              <select value={dpi} onChange={(e) => setDpi(Number(e.target.value))} className="bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white">
+                {[150, 300, 600].map(n => <option key={n} value={n}>{n}</option>)}
+              </select>
+            </label>
+            <div className="flex-1" />
+            {(['svg', 'png', 'pdf'] as ExportFormat[]).map(format => (
+              <button
+                key={format}
+                onClick={() => handleExport(format)}
+                disabled={!composed?.sheet || busy !== null}
+                className="flex items-center gap-1 px-3 py-1 text-[10px] font-bold uppercase tracking-widest rounded-lg bg-indigo-600 text-white hover:bg-indigo-500 disabled:opacity-40 disabled:cursor-not-allowed"
+              >
+                {busy === format ? <Loader2 className="w-3 h-3 animate-spin" /> : <Download className="w-3 h-3" />} {format}
+              </button>
+            ))}
+          </div>
+
+          {(composed?.error || exportError) && (
+            <p className="flex items-center gap-2 text-[10px] font-mono text-red-400">
+              <AlertTriangle className="w-3 h-3" /> {composed?.error ?? exportError}
+            </p>
+          )}
+          {composed?.sheet && (
+            <div className="bg-zinc-100 rounded-lg p-2">
+              <img
+                src={`data:image/svg+xml;charset=utf-8,${encodeURIComponent(composed.sheet.svg)}`}
+                alt="Presentation sheet preview"
+                className="w-full h-auto block shadow"
+              />
+            </div>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
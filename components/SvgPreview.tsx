@@ -3,54 +3,209 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import React, { useEffect, useRef, useState } from 'react';
-import { Download, CheckCircle2, Code, RefreshCw, Send, Layers } from 'lucide-react';
-import { GeneratedSvg } from '../types';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Download, CheckCircle2, Code, RefreshCw, Send, Layers, AlertTriangle, ListTree, MousePointer2, ArrowUpLeft, X, Ruler, Palette } from 'lucide-react';
+import { GeneratedSvg, SvgTheme } from '../types';
+import { validateSvg, SHAPE_ELEMENTS } from '../services/svgValidator';
+import { findLayerElement } from '../services/svgLayers';
+import { elementKeyOf, findElementByKey } from '../services/scopedEdit';
+import { readCalibration, formatLength } from '../services/dimensions';
+import { exportDxf } from '../services/dxfExport';
+import { downloadBlob } from '../services/download';
+import { describePostProcess } from '../services/svgPostProcess';
+import { applyTheme, customThemeFrom, isDarkColor } from '../services/themes';
+import { LayerInspector } from './LayerInspector';
+import { ThemeEditor } from './ThemeEditor';
 
 interface SvgPreviewProps {
   data: GeneratedSvg | null;
-  onRefine: (prompt: string) => void;
+  onRefine?: (prompt: string, selection?: number[]) => void; // selection: element keys to confine the edit to; the refinement bar is hidden without it
   isLoading: boolean;
+  refinementText: string;
+  onRefinementTextChange: (text: string) => void;
+  onContentChange?: (content: string) => void; // layer edits; the inspector is hidden without it
+  theme: SvgTheme;
+  themes: SvgTheme[];
+  onThemeChange: (id: string) => void;
+  onSaveTheme: (theme: SvgTheme) => void; // adds or updates a custom theme and selects it
+  onDeleteTheme: (id: string) => void;
 }
 
-export const SvgPreview: React.FC<SvgPreviewProps> = ({ data, onRefine, isLoading }) => {
+const formatBytes = (bytes: number) => bytes < 1024 ? `${bytes} B` : `${(bytes / 1024).toFixed(1)} KB`;
+
+export const SvgPreview: React.FC<SvgPreviewProps> = ({
+  data, onRefine, isLoading, refinementText, onRefinementTextChange, onContentChange,
+  theme, themes, onThemeChange, onSaveTheme, onDeleteTheme
+}) => {
   const [copied, setCopied] = useState(false);
-  const [blueprintMode, setBlueprintMode] = useState(true);
-  const [refinementText, setRefinementText] = useState('');
+  const [exportError, setExportError] = useState<string | null>(null);
+  const [showThemeEditor, setShowThemeEditor] = useState(false);
+  const [showLayers, setShowLayers] = useState(false);
+  const [hoverLayer, setHoverLayer] = useState<number | null>(null);
+  const [selectMode, setSelectMode] = useState(false);
+  const [selection, setSelection] = useState<number[]>([]);
+  const [measureMode, setMeasureMode] = useState(false);
+  // Each point is kept in SVG user units (for the distance) and workspace pixels (for the overlay).
+  const [measurePoints, setMeasurePoints] = useState<{ user: [number, number]; screen: [number, number] }[]>([]);
+  const [dragBox, setDragBox] = useState<{ x0: number; y0: number; x1: number; y1: number } | null>(null);
   const containerRef = useRef<HTMLDivElement>(null);
+  const workspaceRef = useRef<HTMLDivElement>(null);
+  const boxSelectedRef = useRef(false); // swallows the click that ends a box-select drag
 
   useEffect(() => {
     setCopied(false);
+    setExportError(null);
+    setSelection([]);
+    setMeasurePoints([]);
   }, [data]);
 
-  if (!data) return null;
+  // Never trust stored content: re-sanitize whatever is about to reach the DOM or a file.
+  const validation = useMemo(() => data ? validateSvg(data.content) : null, [data]);
+  const calibration = useMemo(() => validation?.sanitized ? readCalibration(validation.sanitized) : undefined, [validation]);
+  // The workspace supplies the background on screen; files carry their own.
+  const themedContent = useMemo(() => validation?.sanitized ? applyTheme(validation.sanitized, theme) : null, [validation, theme]);
+  const exportContent = useMemo(() => validation?.sanitized ? applyTheme(validation.sanitized, theme, { background: true }) : null, [validation, theme]);
+
+  // Highlight the hovered layer in the rendered copy; the markup itself is never touched.
+  useEffect(() => {
+    const svg = containerRef.current?.querySelector('svg');
+    const el = svg && hoverLayer !== null ? findLayerElement(svg, hoverLayer) : undefined;
+    el?.classList.add('layer-highlight');
+    return () => el?.classList.remove('layer-highlight');
+  }, [hoverLayer, validation]);
+
+  useEffect(() => {
+    const svg = containerRef.current?.querySelector('svg');
+    const els = svg ? selection.map(key => findElementByKey(svg, key)).filter((el): el is Element => !!el) : [];
+    els.forEach(el => el.classList.add('scope-selected'));
+    return () => els.forEach(el => el.classList.remove('scope-selected'));
+  }, [selection, validation]);
+
+  if (!data || !validation) return null;
+
+  const safeContent = validation.sanitized;
+  const postProcess = data.validation?.postProcess;
+  const dark = isDarkColor(theme.background);
+
+  const saveFile = (body: string, type: string, extension: string) =>
+    downloadBlob(new Blob([body], { type }), `blueprint-${data.id.slice(0,4)}.${extension}`);
 
   const handleDownload = () => {
-    const blob = new Blob([data.content], { type: 'image/svg+xml' });
-    const url = URL.createObjectURL(blob);
-    const link = document.createElement('a');
-    link.href = url;
-    link.download = `blueprint-${data.id.slice(0,4)}.svg`;
-    document.body.appendChild(link);
-    link.click();
-    document.body.removeChild(link);
-    URL.revokeObjectURL(url);
+    if (exportContent) saveFile(exportContent, 'image/svg+xml', 'svg');
+  };
+
+  // Layers come from the semantic groups; coordinates are in real units when the drawing is calibrated.
+  const handleDownloadDxf = () => {
+    if (!safeContent) return;
+    setExportError(null);
+    try {
+      saveFile(exportDxf(safeContent, { theme }), 'application/dxf', 'dxf');
+    } catch (err: any) {
+      setExportError(`DXF export failed: ${err.message}`);
+    }
   };
 
   const handleCopyCode = () => {
-    navigator.clipboard.writeText(data.content);
+    if (!exportContent) return;
+    navigator.clipboard.writeText(exportContent);
     setCopied(true);
     setTimeout(() => setCopied(false), 2000);
   };
 
   const submitRefinement = (e: React.FormEvent) => {
     e.preventDefault();
-    if (refinementText.trim() && !isLoading) {
-      onRefine(refinementText);
-      setRefinementText('');
+    if (onRefine && refinementText.trim() && !isLoading) {
+      onRefine(refinementText, selection.length > 0 ? selection : undefined);
+      onRefinementTextChange('');
     }
   };
 
+  // --- SELECTION ---
+
+  const renderedSvg = (): SVGSVGElement | null => containerRef.current?.querySelector('svg') ?? null;
+
+  const toggleKeys = (keys: number[], additive: boolean) =>
+    setSelection(prev => additive
+      ? keys.reduce((acc, key) => acc.includes(key) ? acc.filter(k => k !== key) : [...acc, key], prev)
+      : keys);
+
+  const handleSelectClick = (e: React.MouseEvent) => {
+    if (boxSelectedRef.current) {
+      boxSelectedRef.current = false;
+      return;
+    }
+    const svg = renderedSvg();
+    const target = e.target as Element;
+    if (!svg || target === svg || !svg.contains(target)) {
+      if (!e.shiftKey) setSelection([]);
+      return;
+    }
+    toggleKeys([elementKeyOf(svg, target)], e.shiftKey);
+  };
+
+  const selectParents = () => {
+    const svg = renderedSvg();
+    if (!svg) return;
+    setSelection(prev => [...new Set(prev.map(key => {
+      const parent: Element | null | undefined = findElementByKey(svg, key)?.parentElement;
+      return parent && parent !== svg ? elementKeyOf(svg, parent) : key;
+    }))]);
+  };
+
+  const relativePoint = (e: React.MouseEvent) => {
+    const rect = workspaceRef.current!.getBoundingClientRect();
+    return { x: e.clientX - rect.left, y: e.clientY - rect.top };
+  };
+
+  const onWorkspacePointerDown = (e: React.PointerEvent) => {
+    if (!selectMode || !workspaceRef.current) return;
+    const { x, y } = relativePoint(e);
+    setDragBox({ x0: x, y0: y, x1: x, y1: y });
+  };
+
+  const onWorkspacePointerMove = (e: React.PointerEvent) => {
+    if (!dragBox) return;
+    const { x, y } = relativePoint(e);
+    setDragBox({ ...dragBox, x1: x, y1: y });
+  };
+
+  // A drag of more than a few pixels box-selects every primitive fully inside it; anything shorter is a click.
+  const onWorkspacePointerUp = (e: React.PointerEvent) => {
+    const box = dragBox;
+    setDragBox(null);
+    const svg = renderedSvg();
+    if (!box || !svg || !workspaceRef.current) return;
+    if (Math.abs(box.x1 - box.x0) < 4 && Math.abs(box.y1 - box.y0) < 4) return;
+
+    const origin = workspaceRef.current.getBoundingClientRect();
+    const [left, right] = [Math.min(box.x0, box.x1) + origin.left, Math.max(box.x0, box.x1) + origin.left];
+    const [top, bottom] = [Math.min(box.y0, box.y1) + origin.top, Math.max(box.y0, box.y1) + origin.top];
+    const keys = Array.from(svg.getElementsByTagName('*'))
+      .filter(el => SHAPE_ELEMENTS.includes(el.localName))
+      .filter(el => {
+        const r = el.getBoundingClientRect();
+        return r.left >= left && r.right <= right && r.top >= top && r.bottom <= bottom;
+      })
+      .map(el => elementKeyOf(svg, el));
+    boxSelectedRef.current = true;
+    toggleKeys(keys, e.shiftKey);
+  };
+
+  // --- MEASURE ---
+
+  const handleMeasureClick = (e: React.MouseEvent) => {
+    const ctm = renderedSvg()?.getScreenCTM();
+    if (!ctm || !workspaceRef.current) return;
+    const user = new DOMPoint(e.clientX, e.clientY).matrixTransform(ctm.inverse());
+    const { x, y } = relativePoint(e);
+    const point = { user: [user.x, user.y] as [number, number], screen: [x, y] as [number, number] };
+    setMeasurePoints(prev => prev.length >= 2 ? [point] : [...prev, point]);
+  };
+
+  const measuredUnits = measurePoints.length === 2
+    ? Math.hypot(measurePoints[1].user[0] - measurePoints[0].user[0], measurePoints[1].user[1] - measurePoints[0].user[1])
+    : null;
+
   return (
     <div className="w-full max-w-6xl mx-auto px-4 animate-fade-in">
       <div className="bg-zinc-900 border border-white/10 rounded-2xl overflow-hidden shadow-2xl flex flex-col">
@@ -63,19 +218,58 @@ export const SvgPreview: React.FC<SvgPreviewProps> = ({ data, onRefine, isLoadin
             <div>
               <span className="text-[10px] text-zinc-500 block font-mono uppercase leading-none mb-1">Vector Instance</span>
               <span className="text-xs text-white font-bold tracking-tight">SHIP_UNIT_{data.id.slice(0, 6).toUpperCase()}</span>
+              {postProcess && (
+                <span
+                  title={describePostProcess(postProcess).join('\n') || 'Already normalized'}
+                  className="text-[10px] text-emerald-400/80 block font-mono uppercase leading-none mt-1 cursor-help"
+                >
+                  Normalized {formatBytes(postProcess.bytesBefore)} → {formatBytes(postProcess.bytesAfter)}
+                  {postProcess.bytesBefore > 0 && ` (${Math.round((postProcess.bytesAfter / postProcess.bytesBefore - 1) * 100)}%)`}
+                </span>
+              )}
             </div>
           </div>
           
           <div className="flex gap-2">
+            {onRefine && (
+              <button
+                onClick={() => { setSelectMode(!selectMode); setSelection([]); setMeasureMode(false); setMeasurePoints([]); }}
+                title="Select elements to confine refinements to (shift-click to add, drag to box-select)"
+                className={`p-2 rounded-lg transition-colors ${selectMode ? 'text-cyan-300 bg-cyan-600/20' : 'text-zinc-400 hover:text-white hover:bg-white/5'}`}
+              >
+                <MousePointer2 className="w-5 h-5" />
+              </button>
+            )}
+            <button
+              onClick={() => { setMeasureMode(!measureMode); setMeasurePoints([]); setSelectMode(false); setSelection([]); }}
+              title={calibration ? 'Measure real distances between two clicked points' : 'Measure distances in SVG units (calibrate the scale for real units)'}
+              className={`p-2 rounded-lg transition-colors ${measureMode ? 'text-amber-300 bg-amber-600/20' : 'text-zinc-400 hover:text-white hover:bg-white/5'}`}
+            >
+              <Ruler className="w-5 h-5" />
+            </button>
+            {onContentChange && (
+              <button
+                onClick={() => setShowLayers(!showLayers)}
+                title="Layer inspector"
+                className={`p-2 rounded-lg transition-colors ${showLayers ? 'text-indigo-300 bg-indigo-600/20' : 'text-zinc-400 hover:text-white hover:bg-white/5'}`}
+              >
+                <ListTree className="w-5 h-5" />
+              </button>
+            )}
+            <select
+              value={theme.id}
+              onChange={(e) => onThemeChange(e.target.value)}
+              title="Theme for the preview and every export"
+              className="px-2 py-1.5 text-xs font-bold uppercase rounded-lg bg-zinc-800 border border-zinc-700 text-zinc-300"
+            >
+              {themes.map(t => <option key={t.id} value={t.id}>{t.name}</option>)}
+            </select>
             <button
-              onClick={() => setBlueprintMode(!blueprintMode)}
-              className={`px-3 py-1.5 text-xs font-bold rounded-lg transition-all border ${
-                blueprintMode 
-                ? 'bg-indigo-600/20 border-indigo-500/50 text-indigo-300' 
-                : 'bg-zinc-800 border-zinc-700 text-zinc-400'
-              }`}
+              onClick={() => setShowThemeEditor(!showThemeEditor)}
+              title="Edit themes"
+              className={`p-2 rounded-lg transition-colors ${showThemeEditor ? 'text-indigo-300 bg-indigo-600/20' : 'text-zinc-400 hover:text-white hover:bg-white/5'}`}
             >
-              {blueprintMode ? 'CYANOTYPE' : 'LIGHTBOX'}
+              <Palette className="w-5 h-5" />
             </button>
             <button
               onClick={handleCopyCode}
@@ -85,47 +279,148 @@ export const SvgPreview: React.FC<SvgPreviewProps> = ({ data, onRefine, isLoadin
             </button>
             <button
               onClick={handleDownload}
-              className="flex items-center gap-2 px-4 py-2 text-xs font-bold text-zinc-950 bg-white rounded-lg hover:bg-zinc-200 transition-colors uppercase tracking-widest"
+              disabled={!safeContent}
+              className="flex items-center gap-2 px-4 py-2 text-xs font-bold text-zinc-950 bg-white rounded-lg hover:bg-zinc-200 disabled:opacity-50 transition-colors uppercase tracking-widest"
             >
               <Download className="w-4 h-4" />
               Export
             </button>
+            <button
+              onClick={handleDownloadDxf}
+              disabled={!safeContent}
+              title={calibration ? `DXF in ${calibration.unit}` : 'DXF in SVG units (calibrate the scale for real units)'}
+              className="flex items-center gap-2 px-3 py-2 text-xs font-bold text-white bg-zinc-800 border border-zinc-700 rounded-lg hover:bg-zinc-700 disabled:opacity-50 transition-colors uppercase tracking-widest"
+            >
+              DXF
+            </button>
           </div>
         </div>
 
-        {/* Workspace */}
-        <div className={`p-8 sm:p-16 flex items-center justify-center min-h-[500px] relative transition-all duration-500 ${
-          blueprintMode 
-            ? 'bg-[#003366] bg-[linear-gradient(#ffffff08_1px,transparent_1px),linear-gradient(90deg,#ffffff08_1px,transparent_1px)] bg-[size:30px_30px]' 
-            : 'bg-zinc-100 bg-[linear-gradient(#00000008_1px,transparent_1px),linear-gradient(90deg,#00000008_1px,transparent_1px)] bg-[size:30px_30px]'
-        }`}>
-          <div 
-            ref={containerRef}
-            className={`w-full h-auto transition-all duration-700 filter drop-shadow-2xl flex justify-center ${
-              blueprintMode ? 'invert brightness-[5] contrast-[2] saturate-0' : 'brightness-90 contrast-125'
-            }`}
-            dangerouslySetInnerHTML={{ __html: data.content }} 
+        {showThemeEditor && (
+          <ThemeEditor
+            theme={theme}
+            onChange={onSaveTheme}
+            onDuplicate={() => onSaveTheme(customThemeFrom(theme, `${theme.name} Copy`))}
+            onDelete={() => onDeleteTheme(theme.id)}
+            disabled={isLoading}
           />
-          
-          {/* Viewport Marks */}
-          <div className={`absolute inset-6 border pointer-events-none transition-colors ${blueprintMode ? 'border-white/10' : 'border-black/5'}`}>
-            <div className={`absolute -top-1 -left-1 w-2 h-2 border-t-2 border-l-2 ${blueprintMode ? 'border-indigo-400' : 'border-zinc-400'}`}></div>
-            <div className={`absolute -top-1 -right-1 w-2 h-2 border-t-2 border-r-2 ${blueprintMode ? 'border-indigo-400' : 'border-zinc-400'}`}></div>
-            <div className={`absolute -bottom-1 -left-1 w-2 h-2 border-b-2 border-l-2 ${blueprintMode ? 'border-indigo-400' : 'border-zinc-400'}`}></div>
-            <div className={`absolute -bottom-1 -right-1 w-2 h-2 border-b-2 border-r-2 ${blueprintMode ? 'border-indigo-400' : 'border-zinc-400'}`}></div>
+        )}
+
+        <div className="flex">
+          {/* Workspace */}
+          <div
+            ref={workspaceRef}
+            onPointerDown={onWorkspacePointerDown}
+            onPointerMove={onWorkspacePointerMove}
+            onPointerUp={onWorkspacePointerUp}
+            onClick={selectMode ? handleSelectClick : measureMode ? handleMeasureClick : undefined}
+            style={{ backgroundColor: theme.background }}
+            className={`flex-1 min-w-0 p-8 sm:p-16 flex items-center justify-center min-h-[500px] relative transition-all duration-500 bg-[size:30px_30px] ${
+            dark
+              ? 'bg-[linear-gradient(#ffffff08_1px,transparent_1px),linear-gradient(90deg,#ffffff08_1px,transparent_1px)]'
+              : 'bg-[linear-gradient(#00000008_1px,transparent_1px),linear-gradient(90deg,#00000008_1px,transparent_1px)]'
+          } ${selectMode || measureMode ? 'cursor-crosshair select-none' : ''}`}>
+            {themedContent ? (
+              <div 
+                ref={containerRef}
+                className="w-full h-auto flex justify-center"
+                dangerouslySetInnerHTML={{ __html: themedContent }} 
+              />
+            ) : (
+              <div className="flex flex-col items-center gap-3 text-center max-w-md">
+                <AlertTriangle className="w-8 h-8 text-amber-400" />
+                <p className="text-sm font-bold text-white uppercase tracking-widest">Output Rejected</p>
+                <p className="text-xs font-mono text-zinc-300">{validation.issues.map(issue => issue.message).join(' ')}</p>
+              </div>
+            )}
+            
+            {dragBox && (
+              <div
+                className="absolute border border-cyan-400 bg-cyan-400/10 pointer-events-none"
+                style={{
+                  left: Math.min(dragBox.x0, dragBox.x1),
+                  top: Math.min(dragBox.y0, dragBox.y1),
+                  width: Math.abs(dragBox.x1 - dragBox.x0),
+                  height: Math.abs(dragBox.y1 - dragBox.y0)
+                }}
+              />
+            )}
+
+            {measurePoints.length > 0 && (
+              <svg className="absolute inset-0 w-full h-full pointer-events-none">
+                {measurePoints.length === 2 && (
+                  <line
+                    x1={measurePoints[0].screen[0]} y1={measurePoints[0].screen[1]}
+                    x2={measurePoints[1].screen[0]} y2={measurePoints[1].screen[1]}
+                    stroke="#f59e0b" strokeWidth={1.5} strokeDasharray="4 3"
+                  />
+                )}
+                {measurePoints.map((p, i) => <circle key={i} cx={p.screen[0]} cy={p.screen[1]} r={3} fill="#f59e0b" />)}
+              </svg>
+            )}
+
+            {/* Viewport Marks */}
+            <div className={`absolute inset-6 border pointer-events-none transition-colors ${dark ? 'border-white/10' : 'border-black/5'}`}>
+              <div className={`absolute -top-1 -left-1 w-2 h-2 border-t-2 border-l-2 ${dark ? 'border-indigo-400' : 'border-zinc-400'}`}></div>
+              <div className={`absolute -top-1 -right-1 w-2 h-2 border-t-2 border-r-2 ${dark ? 'border-indigo-400' : 'border-zinc-400'}`}></div>
+              <div className={`absolute -bottom-1 -left-1 w-2 h-2 border-b-2 border-l-2 ${dark ? 'border-indigo-400' : 'border-zinc-400'}`}></div>
+              <div className={`absolute -bottom-1 -right-1 w-2 h-2 border-b-2 border-r-2 ${dark ? 'border-indigo-400' : 'border-zinc-400'}`}></div>
+            </div>
           </div>
+
+          {/* Layer Inspector */}
+          {showLayers && onContentChange && safeContent && (
+            <div className="w-64 flex-shrink-0 border-l border-white/5 bg-zinc-950 p-3">
+              <span className="text-[10px] text-zinc-500 block font-mono uppercase tracking-widest mb-2">Layers</span>
+              <LayerInspector
+                content={safeContent}
+                onChange={onContentChange}
+                onHover={setHoverLayer}
+                disabled={isLoading}
+              />
+            </div>
+          )}
         </div>
         
         {/* Refinement Interface */}
         <div className="p-4 bg-zinc-950 border-t border-white/5">
-          <form onSubmit={submitRefinement} className="flex gap-2">
+          {exportError && (
+            <div className="flex items-center gap-2 mb-2 text-[10px] font-mono uppercase tracking-widest text-red-400">
+              <AlertTriangle className="w-3 h-3" /> {exportError}
+            </div>
+          )}
+          {measureMode && (
+            <div className="flex items-center gap-2 mb-2 text-[10px] font-mono uppercase tracking-widest text-amber-300">
+              <Ruler className="w-3 h-3" />
+              {measuredUnits === null
+                ? `Click two points to measure (${measurePoints.length}/2)`
+                : calibration
+                  ? `Distance ${formatLength(measuredUnits * calibration.unitsPerSvgUnit, calibration.unit)}`
+                  : `Distance ${measuredUnits.toFixed(2)} SVG units (uncalibrated)`}
+            </div>
+          )}
+          {selection.length > 0 && (
+            <div className="flex items-center gap-2 mb-2 text-[10px] font-mono uppercase tracking-widest text-cyan-300">
+              <MousePointer2 className="w-3 h-3" />
+              Scoped to {selection.length} selected element{selection.length === 1 ? '' : 's'}
+              <button onClick={selectParents} className="flex items-center gap-1 text-zinc-400 hover:text-white" title="Expand selection to parent groups">
+                <ArrowUpLeft className="w-3 h-3" /> Parent
+              </button>
+              <button onClick={() => setSelection([])} className="flex items-center gap-1 text-zinc-400 hover:text-white">
+                <X className="w-3 h-3" /> Clear
+              </button>
+            </div>
+          )}
+          {onRefine && <form onSubmit={submitRefinement} className="flex gap-2">
             <div className="relative flex-1">
               <RefreshCw className={`absolute left-3 top-1/2 -translate-y-1/2 w-4 h-4 text-zinc-500 ${isLoading ? 'animate-spin' : ''}`} />
               <input
                 type="text"
                 value={refinementText}
-                onChange={(e) => setRefinementText(e.target.value)}
-                placeholder="Request specific refinements (e.g. 'Add primary armament labels', 'Improve hull curve')..."
+                onChange={(e) => onRefinementTextChange(e.target.value)}
+                placeholder={selection.length > 0
+                  ? "Describe the change to the selected elements only (e.g. 'Rotate this turret to face aft')..."
+                  : "Request specific refinements (e.g. 'Add primary armament labels', 'Improve hull curve')..."}
                 className="w-full bg-zinc-900 border border-white/10 rounded-xl pl-10 pr-4 py-3 text-sm text-white placeholder-zinc-600 focus:outline-none focus:ring-1 focus:ring-indigo-500/50"
                 disabled={isLoading}
               />
@@ -137,7 +432,7 @@ export const SvgPreview: React.FC<SvgPreviewProps> = ({ data, onRefine, isLoadin
             >
               {isLoading ? 'Processing...' : <><Send className="w-3.5 h-3.5" /> Refine</>}
             </button>
-          </form>
+          </form>}
         </div>
       </div>
     </div>
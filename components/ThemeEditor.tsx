@@ -0,0 +1,103 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Palette, Trash2, Plus, Copy } from 'lucide-react';
+import { SvgTheme } from '../types';
+import { LAYER_PALETTE } from '../services/themes';
+
+interface ThemeEditorProps {
+  theme: SvgTheme;
+  onChange: (theme: SvgTheme) => void; // custom themes only
+  onDuplicate: () => void;
+  onDelete: () => void;
+  disabled?: boolean;
+}
+
+const ColorField: React.FC<{ label: string; value: string; onChange: (value: string) => void; disabled?: boolean }> = ({ label, value, onChange, disabled }) => (
+  <label className="flex items-center gap-2">
+    <input
+      type="color"
+      value={value}
+      onChange={(e) => onChange(e.target.value)}
+      disabled={disabled}
+      className="w-6 h-6 bg-transparent border border-white/10 rounded cursor-pointer disabled:cursor-not-allowed"
+    />
+    {label}
+  </label>
+);
+
+export const ThemeEditor: React.FC<ThemeEditorProps> = ({ theme, onChange, onDuplicate, onDelete, disabled }) => {
+  const [newLayer, setNewLayer] = useState('');
+  const locked = disabled || !theme.custom;
+  const update = (patch: Partial<SvgTheme>) => onChange({ ...theme, ...patch });
+  const setLayerColor = (layer: string, color: string) => update({ layerColors: { ...theme.layerColors, [layer]: color } });
+
+  const addLayer = (e: React.FormEvent) => {
+    e.preventDefault();
+    const id = newLayer.trim().toLowerCase();
+    if (!id) return;
+    setLayerColor(id, theme.ink);
+    setNewLayer('');
+  };
+
+  return (
+    <div className="px-6 py-3 border-b border-white/5 bg-zinc-950/30 flex flex-col gap-3 text-[10px] font-mono text-zinc-400 uppercase tracking-widest">
+      <div className="flex flex-wrap items-center gap-4">
+        <Palette className="w-4 h-4 text-indigo-400" />
+        <input
+          value={theme.name}
+          onChange={(e) => update({ name: e.target.value })}
+          disabled={locked}
+          className="w-40 bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white normal-case tracking-normal disabled:opacity-60"
+        />
+        <ColorField label="Background" value={theme.background} onChange={(background) => update({ background })} disabled={locked} />
+        <ColorField label="Ink" value={theme.ink} onChange={(ink) => update({ ink })} disabled={locked} />
+        <ColorField label="Text" value={theme.text} onChange={(text) => update({ text })} disabled={locked} />
+        <label className="flex items-center gap-2">
+          <input
+            type="checkbox"
+            checked={!!theme.layerColors}
+            onChange={(e) => update({ layerColors: e.target.checked ? { ...LAYER_PALETTE } : undefined })}
+            disabled={locked}
+          />
+          Colour By Layer
+        </label>
+        <div className="flex-1" />
+        {theme.custom ? (
+          <button onClick={onDelete} disabled={disabled} className="flex items-center gap-1 text-zinc-400 hover:text-red-400 disabled:opacity-40">
+            <Trash2 className="w-3 h-3" /> Delete
+          </button>
+        ) : (
+          <span className="normal-case tracking-normal text-zinc-500">Built-in themes are read-only.</span>
+        )}
+        <button onClick={onDuplicate} disabled={disabled} className="flex items-center gap-1 text-zinc-400 hover:text-white disabled:opacity-40">
+          <Copy className="w-3 h-3" /> Duplicate
+        </button>
+      </div>
+
+      {theme.layerColors && (
+        <div className="flex flex-wrap items-center gap-4">
+          {Object.entries(theme.layerColors).map(([layer, color]) => (
+            <ColorField key={layer} label={layer} value={color} onChange={(value) => setLayerColor(layer, value)} disabled={locked} />
+          ))}
+          {!locked && (
+            <form onSubmit={addLayer} className="flex items-center gap-1">
+              <input
+                value={newLayer}
+                onChange={(e) => setNewLayer(e.target.value)}
+                placeholder="group id"
+                className="w-24 bg-zinc-950 border border-white/10 rounded-lg px-2 py-1 text-white normal-case tracking-normal"
+              />
+              <button type="submit" disabled={!newLayer.trim()} className="p-1 text-zinc-400 hover:text-white disabled:opacity-40">
+                <Plus className="w-3 h-3" />
+              </button>
+            </form>
+          )}
+        </div>
+      )}
+    </div>
+  );
+};
@@ -0,0 +1,179 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import React, { useState } from 'react';
+import { Activity, AlertCircle, ChevronDown, ChevronRight, Download, Eye, GitCompare } from 'lucide-react';
+import { PipelineStage, PipelineTrace, TokenUsage, TraceCall, TraceStep } from '../types';
+import { stepRevision, stepUsage, traceToJson, traceTotals } from '../services/pipelineTrace';
+import { downloadBlob } from '../services/download';
+import { RevisionDiff } from './RevisionDiff';
+
+interface TracePanelProps {
+  trace: PipelineTrace;
+  openStepId?: string; // step currently shown in the preview
+  onOpen: (step: TraceStep) => void;
+}
+
+const STAGE_LABELS: Record<PipelineStage, string> = { draft: 'Draft', audit: 'Audit', heal: 'Heal', verify: 'Verify' };
+
+const STAGE_COLORS: Record<PipelineStage, string> = {
+  draft: 'bg-indigo-500',
+  audit: 'bg-amber-500',
+  heal: 'bg-green-500',
+  verify: 'bg-cyan-500'
+};
+
+const formatDuration = (ms: number) =>
+  ms < 1000 ? `${ms} ms` : ms < 60000 ? `${(ms / 1000).toFixed(1)} s` : `${Math.floor(ms / 60000)}m ${String(Math.round(ms / 1000) % 60).padStart(2, '0')}s`;
+
+const formatTokens = (n?: number) => n === undefined ? '–' : n >= 1000 ? `${(n / 1000).toFixed(1)}k` : String(n);
+
+const usageLine = (usage: TokenUsage) =>
+  usage.inputTokens === undefined && usage.outputTokens === undefined
+    ? 'no usage reported'
+    : `${formatTokens(usage.inputTokens)} in · ${formatTokens(usage.outputTokens)} out · ${formatTokens(usage.thinkingTokens)} thinking`;
+
+const CallDetails: React.FC<{ call: TraceCall; index: number }> = ({ call, index }) => (
+  <div className="bg-zinc-900 border border-zinc-800 rounded-lg p-3 flex flex-col gap-2">
+    <div className="flex flex-wrap items-center gap-3 text-[10px] font-mono text-zinc-400">
+      <span className="text-zinc-200">CALL {index + 1}</span>
+      <span>{call.model}</span>
+      <span>{formatDuration(call.durationMs)}</span>
+      <span>{usageLine(call.usage ?? {})}</span>
+      {call.temperature !== undefined && <span>temp {call.temperature}</span>}
+      {call.thinkingBudget !== undefined && <span>thinking budget {call.thinkingBudget}</span>}
+      {call.images > 0 && <span>{call.images} image{call.images === 1 ? '' : 's'}</span>}
+    </div>
+    {call.error && <p className="text-[10px] font-mono text-red-400 break-words">{call.error}</p>}
+    {call.systemInstruction && (
+      <details>
+        <summary className="text-[10px] font-mono text-zinc-500 uppercase tracking-widest cursor-pointer">System Instruction</summary>
+        <pre className="mt-1 max-h-40 overflow-auto text-[10px] text-zinc-300 whitespace-pre-wrap break-words">{call.systemInstruction.trim()}</pre>
+      </details>
+    )}
+    <details>
+      <summary className="text-[10px] font-mono text-zinc-500 uppercase tracking-widest cursor-pointer">Prompt</summary>
+      <pre className="mt-1 max-h-48 overflow-auto text-[10px] text-zinc-300 whitespace-pre-wrap break-words">{call.prompt}</pre>
+    </details>
+    {call.response !== undefined && (
+      <details>
+        <summary className="text-[10px] font-mono text-zinc-500 uppercase tracking-widest cursor-pointer">Response</summary>
+        <pre className="mt-1 max-h-48 overflow-auto text-[10px] text-zinc-300 whitespace-pre-wrap break-words">{call.response}</pre>
+      </details>
+    )}
+  </div>
+);
+
+/**
+ * Timeline of a pipeline run: one row per stage with its timing, token usage and output.
+ * SVG outputs open in the preview or diff against the next stage that produced one.
+ */
+export const TracePanel: React.FC<TracePanelProps> = ({ trace, openStepId, onOpen }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [diffFromId, setDiffFromId] = useState<string | null>(null);
+
+  const totals = traceTotals(trace);
+  const longest = Math.max(1, ...trace.steps.map(step => step.durationMs));
+  const nextWithSvg = (index: number) => trace.steps.slice(index + 1).find(step => step.svg);
+
+  const diffIndex = trace.steps.findIndex(step => step.id === diffFromId);
+  const diffBefore = diffIndex >= 0 ? stepRevision(trace, trace.steps[diffIndex]) : null;
+  const diffNext = diffIndex >= 0 ? nextWithSvg(diffIndex) : undefined;
+  const diffAfter = diffNext ? stepRevision(trace, diffNext) : null;
+
+  const handleExport = () => {
+    const stamp = new Date(trace.startedAt).toISOString().slice(0, 19).replace(/[:T]/g, '-');
+    downloadBlob(new Blob([traceToJson(trace)], { type: 'application/json' }), `trace-${trace.viewType}-${stamp}.json`);
+  };
+
+  return (
+    <div className="bg-zinc-900/80 border border-zinc-800 rounded-xl p-4 shadow-lg mb-4">
+      <div className="flex flex-wrap items-center gap-3 mb-3">
+        <Activity className="w-4 h-4 text-indigo-400" />
+        <span className="text-[10px] font-mono text-indigo-300 uppercase tracking-widest">Run Trace</span>
+        <span className="text-[10px] font-mono text-zinc-500">{trace.provider}</span>
+        <div className="h-px flex-1 bg-zinc-800"></div>
+        <span className="text-[10px] font-mono text-zinc-400">
+          {formatDuration(totals.durationMs)} · {totals.calls} call{totals.calls === 1 ? '' : 's'}
+          {totals.failedCalls > 0 && ` (${totals.failedCalls} failed)`} · {usageLine(totals.usage)}
+        </span>
+        <button
+          onClick={handleExport}
+          className="flex items-center gap-1 px-2 py-1 text-[10px] font-bold uppercase tracking-widest rounded border border-zinc-700 text-zinc-300 hover:bg-white/5"
+        >
+          <Download className="w-3 h-3" /> JSON
+        </button>
+      </div>
+
+      <div className="flex flex-col gap-1">
+        {trace.steps.map((step, index) => {
+          const expanded = expandedId === step.id;
+          const usage = stepUsage(step);
+          const hasNext = !!step.svg && !!nextWithSvg(index);
+          return (
+            <div key={step.id} className={`rounded-lg border ${openStepId === step.id ? 'border-indigo-500/50 bg-indigo-500/5' : 'border-transparent'}`}>
+              <div className="flex items-center gap-3 px-2 py-1.5">
+                <button
+                  onClick={() => setExpandedId(expanded ? null : step.id)}
+                  disabled={step.calls.length === 0}
+                  className="text-zinc-500 hover:text-white disabled:opacity-30"
+                >
+                  {expanded ? <ChevronDown className="w-3.5 h-3.5" /> : <ChevronRight className="w-3.5 h-3.5" />}
+                </button>
+                <span className="w-24 flex items-center gap-2 text-[10px] font-mono uppercase tracking-widest text-zinc-200">
+                  <span className={`w-2 h-2 rounded-full ${STAGE_COLORS[step.stage]}`}></span>
+                  {STAGE_LABELS[step.stage]}{step.round !== undefined && ` R${step.round}`}
+                </span>
+                <div className="flex-1 h-1.5 bg-zinc-800 rounded min-w-[60px]">
+                  <div className={`h-full rounded ${STAGE_COLORS[step.stage]}`} style={{ width: `${(step.durationMs / longest) * 100}%` }}></div>
+                </div>
+                <span className="w-16 text-right text-[10px] font-mono text-zinc-400">{formatDuration(step.durationMs)}</span>
+                <span className="w-44 text-right text-[10px] font-mono text-zinc-500 hidden md:inline">
+                  {step.calls.length === 0 ? 'reused' : usageLine(usage)}
+                </span>
+                <span className="w-24 text-right text-[10px] font-mono text-zinc-400">
+                  {step.audit ? `${step.audit.findings.length} findings` : step.fidelity ? `fidelity ${(step.fidelity.overall * 100).toFixed(0)}%` : ''}
+                </span>
+                <button
+                  onClick={() => onOpen(step)}
+                  disabled={!step.svg}
+                  title="Show this stage's SVG in the preview"
+                  className="p-1 text-zinc-500 hover:text-white disabled:opacity-20"
+                >
+                  <Eye className="w-3.5 h-3.5" />
+                </button>
+                <button
+                  onClick={() => setDiffFromId(diffFromId === step.id ? null : step.id)}
+                  disabled={!hasNext}
+                  title="Diff against the next stage's SVG"
+                  className={`p-1 disabled:opacity-20 ${diffFromId === step.id ? 'text-indigo-400' : 'text-zinc-500 hover:text-white'}`}
+                >
+                  <GitCompare className="w-3.5 h-3.5" />
+                </button>
+              </div>
+              {(step.error || step.note) && (
+                <p className={`px-9 pb-1.5 text-[10px] font-mono break-words ${step.error ? 'text-red-400' : 'text-zinc-500'}`}>
+                  {step.error && <AlertCircle className="inline w-3 h-3 mr-1 -mt-0.5" />}
+                  {step.error ?? step.note}
+                </p>
+              )}
+              {expanded && (
+                <div className="px-9 pb-2 flex flex-col gap-2">
+                  {step.calls.map((call, i) => <CallDetails key={i} call={call} index={i} />)}
+                </div>
+              )}
+            </div>
+          );
+        })}
+      </div>
+
+      {diffBefore && diffAfter && (
+        <div className="mt-3">
+          <RevisionDiff before={diffBefore} after={diffAfter} onClose={() => setDiffFromId(null)} />
+        </div>
+      )}
+    </div>
+  );
+};
@@ -6,15 +6,29 @@
 import React from 'react';
 import ReactDOM from 'react-dom/client';
 import App from './App';
+import { setDefaultProvider } from './services/modelProvider';
+import { ReplayProvider, loadReplayFixture } from './services/providers/replayProvider';
 
 const rootElement = document.getElementById('root');
 if (!rootElement) {
   throw new Error("Could not find root element to mount to");
 }
 
-const root = ReactDOM.createRoot(rootElement);
-root.render(
-  <React.StrictMode>
-    <App />
-  </React.StrictMode>
-);
+const mount = () => {
+  const root = ReactDOM.createRoot(rootElement);
+  root.render(
+    <React.StrictMode>
+      <App />
+    </React.StrictMode>
+  );
+};
+
+// Offline mode: serve every model call from a recorded fixture instead of the network.
+if (process.env.REPLAY_FIXTURE) {
+  loadReplayFixture(process.env.REPLAY_FIXTURE)
+    .then(fixture => setDefaultProvider(new ReplayProvider(fixture)))
+    .catch(err => console.error("Replay fixture unavailable, falling back to live provider", err))
+    .finally(mount);
+} else {
+  mount();
+}
@@ -0,0 +1,44 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { AuditFinding, AuditReport } from '../types';
+import { auditOutcome, migrateAuditReport, normalizeFindings } from './auditFindings';
+
+const finding = (status: AuditFinding['status']): AuditFinding =>
+  ({ id: 'F1', severity: 'major', category: 'missing_feature', groupId: 'hull', description: 'No bow.', status });
+
+describe('normalizeFindings', () => {
+  it('drops findings without a description and defaults fields of the wrong type', () => {
+    // The OpenAI-compatible backend does not enforce the response schema.
+    const raw = [
+      { description: ' Bow too blunt. ', groupId: 7, severity: 'fatal', category: 'vibes', checklistId: 3 },
+      { description: '' },
+      { description: 'Mast missing.', groupId: ' mast ', severity: 'minor', category: 'topology' }
+    ] as unknown as Partial<AuditFinding>[];
+    expect(normalizeFindings(raw)).toEqual([
+      { id: 'F1', severity: 'major', category: 'missing_feature', groupId: 'root', description: 'Bow too blunt.', checklistId: undefined, status: 'open' },
+      { id: 'F2', severity: 'minor', category: 'topology', groupId: 'mast', description: 'Mast missing.', checklistId: undefined, status: 'open' }
+    ]);
+  });
+});
+
+describe('auditOutcome', () => {
+  it.each<[string, AuditReport, string]>([
+    ['an audit with no findings', { summary: '', findings: [], verified: false }, 'clean'],
+    ['findings not yet verified', { summary: '', findings: [finding('open')], verified: false }, 'unverified'],
+    ['every finding resolved', { summary: '', findings: [finding('resolved')], verified: true }, 'resolved'],
+    ['some progress', { summary: '', findings: [finding('partially_resolved'), finding('open')], verified: true }, 'partial'],
+    ['nothing fixed', { summary: '', findings: [finding('open')], verified: true }, 'open']
+  ])('reports %s', (_, report, outcome) => {
+    expect(auditOutcome(report)).toBe(outcome);
+  });
+
+  it('never reports a migrated prose report as clean', () => {
+    const report = migrateAuditReport('Hull lacks a bulbous bow; funnels are misplaced.')!;
+    expect(report).toMatchObject({ summary: 'Hull lacks a bulbous bow; funnels are misplaced.', findings: [], legacy: true });
+    expect(auditOutcome(report)).toBe('legacy');
+  });
+});
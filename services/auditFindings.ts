@@ -0,0 +1,98 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AuditFinding, AuditReport, FindingCategory, FindingSeverity, FindingStatus } from "../types";
+
+export const SEVERITIES: FindingSeverity[] = ['critical', 'major', 'minor'];
+export const CATEGORIES: FindingCategory[] = ['missing_feature', 'proportion_error', 'topology', 'style_violation'];
+export const STATUSES: FindingStatus[] = ['open', 'partially_resolved', 'resolved'];
+
+export const SEVERITY_RANK: Record<FindingSeverity, number> = { critical: 3, major: 2, minor: 1 };
+
+// Weights for the convergence score; one critical outweighs a handful of minor nits.
+const SEVERITY_WEIGHT: Record<FindingSeverity, number> = { critical: 5, major: 2, minor: 1 };
+const STATUS_WEIGHT: Record<FindingStatus, number> = { open: 1, partially_resolved: 0.5, resolved: 0 };
+
+/** Weighted sum of outstanding findings. Lower is better; 0 means nothing left to fix. */
+export const severityScore = (findings: AuditFinding[]): number =>
+  findings.reduce((sum, f) => sum + SEVERITY_WEIGHT[f.severity] * STATUS_WEIGHT[f.status], 0);
+
+/** Findings still outstanding at or above the given severity. */
+export const blockingFindings = (findings: AuditFinding[], threshold: FindingSeverity): AuditFinding[] =>
+  findings.filter(f => f.status !== 'resolved' && SEVERITY_RANK[f.severity] >= SEVERITY_RANK[threshold]);
+
+export class AuditResponseError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'AuditResponseError';
+  }
+}
+
+const stripFences = (text: string): string => text.replace(/```(json)?/g, '').trim();
+
+/** Parses a model's JSON reply, tolerating markdown fences around it. */
+export const parseJsonResponse = <T>(text: string, fallback: T): T => {
+  try {
+    return JSON.parse(stripFences(text)) as T;
+  } catch {
+    return fallback;
+  }
+};
+
+/**
+ * Parses an Inspector reply that must carry a `field` list. Unlike parseJsonResponse there is no fallback:
+ * an empty list would read as a clean audit, so an unreadable reply throws an AuditResponseError.
+ */
+export const parseInspectorResponse = <T extends object>(text: string, field: keyof T & string): T => {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(stripFences(text));
+  } catch {
+    throw new AuditResponseError('Inspector reply was not valid JSON.');
+  }
+  if (!parsed || typeof parsed !== 'object' || !Array.isArray((parsed as Record<string, unknown>)[field])) {
+    throw new AuditResponseError(`Inspector reply has no "${field}" list.`);
+  }
+  return parsed as T;
+};
+
+/** Coerces loosely-typed model output into a well-formed finding list. */
+export const normalizeFindings = (raw: Partial<AuditFinding>[]): AuditFinding[] =>
+  raw
+    .filter(f => f && typeof f.description === 'string' && f.description.trim())
+    .map((f, i) => ({
+      id: `F${i + 1}`,
+      severity: SEVERITIES.includes(f.severity as FindingSeverity) ? f.severity as FindingSeverity : 'major',
+      category: CATEGORIES.includes(f.category as FindingCategory) ? f.category as FindingCategory : 'missing_feature',
+      groupId: typeof f.groupId === 'string' && f.groupId.trim() ? f.groupId.trim() : 'root',
+      description: f.description!.trim(),
+      checklistId: typeof f.checklistId === 'string' && f.checklistId.trim() ? f.checklistId.trim() : undefined,
+      status: 'open'
+    }));
+
+/** Renders findings as the numbered checklist the Healer and verifier work through. */
+export const formatFindings = (findings: AuditFinding[]): string =>
+  findings
+    .map(f => `[${f.id}] (${f.severity.toUpperCase()} / ${f.category}) group="${f.groupId}": ${f.description}`)
+    .join('\n');
+
+export type AuditOutcome = 'legacy' | 'unverified' | 'clean' | 'resolved' | 'partial' | 'open';
+
+/** Overall state shown next to the report, derived from the findings rather than assumed. */
+export const auditOutcome = (report: AuditReport): AuditOutcome => {
+  if (report.legacy) return 'legacy';
+  if (report.findings.length === 0) return 'clean';
+  if (!report.verified) return 'unverified';
+  if (report.findings.every(f => f.status === 'resolved')) return 'resolved';
+  if (report.findings.some(f => f.status !== 'open')) return 'partial';
+  return 'open';
+};
+
+/**
+ * Reports written before findings were structured were free prose.
+ * They are kept as the summary with no findings, marked legacy so the empty list is not read as clean.
+ */
+export const migrateAuditReport = (report: AuditReport | string | undefined): AuditReport | undefined =>
+  typeof report === 'string' ? { summary: report, findings: [], verified: false, legacy: true } : report;
@@ -0,0 +1,156 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BatchJob, BatchJobStatus, ImageData, PipelineConfig, PipelineLoopOptions, ShipType, WarshipProject } from "../types";
+import { ModelProvider, getDefaultProvider } from "./modelProvider";
+import { currentSvgOf } from "./revisionHistory";
+import { saveProject } from "./projectStore";
+import { applyTheme, resolveTheme } from "./themes";
+import { createZip, ZipEntry } from "./zipArchive";
+import { convertSheet, projectNameOf, slug, viewReport } from "./sheetConversion";
+
+// Queues many sheets through the unattended conversion. A failed job is recorded and the queue moves on.
+
+export const MAX_BATCH_CONCURRENCY = 4;
+
+export const createBatchJob = (
+  fileName: string,
+  image: ImageData,
+  prompt: string,
+  loopOptions?: PipelineLoopOptions,
+  config?: PipelineConfig,
+  shipType?: ShipType
+): BatchJob => ({
+  id: crypto.randomUUID(),
+  fileName,
+  image,
+  prompt,
+  loopOptions,
+  config,
+  shipType,
+  status: 'queued'
+});
+
+/** Maps the pipeline's status lines onto the coarse stages the queue reports. */
+const stageOf = (status: string): BatchJobStatus | null => {
+  if (status === 'SCANNING_LAYOUT') return 'segmenting';
+  if (status.startsWith('DRAFTING')) return 'drafting';
+  if (status.startsWith('AUDITING')) return 'auditing';
+  if (/^(HEALING|VERIFYING|REPAIRING)/.test(status)) return 'healing';
+  return null;
+};
+
+/** Converts one job's sheet and saves the project to the library. */
+export const processBatchJob = async (
+  job: BatchJob,
+  onUpdate: (patch: Partial<BatchJob>) => void,
+  provider: ModelProvider = getDefaultProvider()
+): Promise<WarshipProject> => {
+  const onStatusChange = (detail: string) => {
+    const status = stageOf(detail);
+    onUpdate(status ? { status, detail } : { detail });
+  };
+  const project = await convertSheet(job.image, job.prompt, { name: projectNameOf(job.fileName), loopOptions: job.loopOptions, config: job.config, shipType: job.shipType }, onStatusChange, provider);
+  return saveProject(project);
+};
+
+export interface BatchQueue {
+  enqueue: (jobs: BatchJob[]) => void;
+  setConcurrency: (concurrency: number) => void;
+}
+
+const clampConcurrency = (n: number) => Math.max(1, Math.min(MAX_BATCH_CONCURRENCY, Math.floor(n) || 1));
+
+/**
+ * A work queue running at most `concurrency` jobs at once. Jobs can be added while it runs;
+ * every outcome, including failure, is reported through `onUpdate` and never stops the queue.
+ */
+export const createBatchQueue = (
+  onUpdate: (jobId: string, patch: Partial<BatchJob>) => void,
+  concurrency: number = 1,
+  provider?: ModelProvider
+): BatchQueue => {
+  const pending: BatchJob[] = [];
+  let limit = clampConcurrency(concurrency);
+  let active = 0;
+
+  const run = async (job: BatchJob) => {
+    const update = (patch: Partial<BatchJob>) => onUpdate(job.id, patch);
+    update({ startedAt: Date.now(), finishedAt: undefined, error: undefined });
+    try {
+      const project = await processBatchJob(job, update, provider ?? getDefaultProvider());
+      update({ status: 'done', detail: undefined, project, finishedAt: Date.now() });
+    } catch (err: any) {
+      console.error(`Batch job ${job.fileName} failed`, err);
+      update({ status: 'failed', detail: undefined, error: err?.message ?? String(err), finishedAt: Date.now() });
+    }
+  };
+
+  const pump = () => {
+    while (active < limit && pending.length > 0) {
+      const job = pending.shift()!;
+      active++;
+      run(job).finally(() => {
+        active--;
+        pump();
+      });
+    }
+  };
+
+  return {
+    enqueue: (jobs) => {
+      pending.push(...jobs);
+      pump();
+    },
+    setConcurrency: (n) => {
+      limit = clampConcurrency(n);
+      pump();
+    }
+  };
+};
+
+// --- EXPORT ---
+
+/**
+ * ZIP of every finished drawing, themed like any other export, plus manifest.json with each
+ * job's outcome and, per view, its validation, audit findings and fidelity score.
+ */
+export const exportBatchZip = (jobs: BatchJob[]): Blob => {
+  const entries: ZipEntry[] = [];
+  const folders = new Set<string>();
+
+  const manifest = jobs.map(job => {
+    const base = slug(projectNameOf(job.fileName));
+    let folder = base;
+    for (let n = 2; folders.has(folder); n++) folder = `${base}_${n}`;
+    folders.add(folder);
+
+    const project = job.project;
+    const files = new Set<string>();
+    const views = (project?.views ?? []).map(view => {
+      const svg = currentSvgOf(view);
+      let file: string | undefined;
+      if (svg && project) {
+        file = `${folder}/${slug(view.label)}.svg`;
+        for (let n = 2; files.has(file); n++) file = `${folder}/${slug(view.label)}_${n}.svg`;
+        files.add(file);
+        entries.push({ name: file, data: applyTheme(svg.content, resolveTheme(project), { background: true }) });
+      }
+      return viewReport(view, file);
+    });
+
+    return {
+      file: job.fileName,
+      status: job.status,
+      error: job.error,
+      projectId: project?.id,
+      durationMs: job.startedAt && job.finishedAt ? job.finishedAt - job.startedAt : undefined,
+      views
+    };
+  });
+
+  entries.push({ name: 'manifest.json', data: JSON.stringify({ generatedAt: new Date().toISOString(), jobs: manifest }, null, 2) });
+  return createZip(entries);
+};
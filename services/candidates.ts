@@ -0,0 +1,34 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { AuditReport, DraftCandidate, FidelityScore, ProjectView, WarshipProject } from "../types";
+import { severityScore } from "./auditFindings";
+
+// One full point of raster fidelity is worth this many severity points (ten minor findings).
+const FIDELITY_WEIGHT = 10;
+
+/** Higher is better: raster fidelity counts for the candidate, outstanding audit severity against it. */
+export const candidateRankScore = (audit: AuditReport, fidelity?: FidelityScore): number =>
+  (fidelity?.overall ?? 0) * FIDELITY_WEIGHT - severityScore(audit.findings);
+
+/** Best first. Ties go to the lower temperature, which is the more conservative draft. */
+export const rankCandidates = (candidates: DraftCandidate[]): DraftCandidate[] =>
+  [...candidates].sort((a, b) => b.rankScore - a.rankScore || a.temperature - b.temperature);
+
+export const bestCandidate = (candidates: DraftCandidate[]): DraftCandidate | undefined => rankCandidates(candidates)[0];
+
+/** The candidate the view's current drawing was healed from, if it was drafted best-of-N. */
+export const selectedCandidateOf = (view: ProjectView): DraftCandidate | undefined =>
+  view.candidates?.find(candidate => candidate.id === view.selectedCandidateId);
+
+export const withCandidates = (
+  project: WarshipProject,
+  viewId: string,
+  candidates: DraftCandidate[],
+  selectedCandidateId?: string
+): WarshipProject => ({
+  ...project,
+  views: project.views.map(view => view.id === viewId ? { ...view, candidates, selectedCandidateId } : view)
+});
@@ -0,0 +1,244 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { CalibrationReference, LengthUnit, ScaleCalibration, ViewType } from "../types";
+import { Bounds, elementBounds, parseSvgDocument } from "./svgGeometry";
+
+// Scale calibration maps SVG user units onto a real-world length. The dimension lines and scale bar
+// live in their own <g id="dimensions"> layer, and the calibration is written into the SVG itself
+// (root data attributes plus a JSON <metadata> block) so exported files carry their scale.
+
+export const DIMENSIONS_GROUP = 'dimensions';
+const METADATA_ID = 'scale-calibration';
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+export const UNIT_LABELS: Record<LengthUnit, string> = { m: 'Metres', ft: 'Feet' };
+
+export class CalibrationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'CalibrationError';
+  }
+}
+
+// Which hull extent each reference measures, per view type.
+const LOA_VIEWS: ViewType[] = ['side', 'top', 'inboard'];
+const BEAM_ACROSS_VIEWS: ViewType[] = ['bow', 'stern', 'section']; // beam runs along x in these views
+
+export const referenceKindsFor = (viewType: ViewType): CalibrationReference['kind'][] => [
+  ...(LOA_VIEWS.includes(viewType) ? ['loa' as const] : []),
+  ...(viewType === 'top' || BEAM_ACROSS_VIEWS.includes(viewType) ? ['beam' as const] : []),
+  'span'
+];
+
+export const formatLength = (value: number, unit: LengthUnit): string =>
+  `${value.toFixed(Math.abs(value) >= 100 ? 1 : 2)} ${unit}`;
+
+const width = (b: Bounds) => b.maxX - b.minX;
+const height = (b: Bounds) => b.maxY - b.minY;
+
+const hullOf = (doc: Document): Bounds | null => {
+  const hull = Array.from(doc.getElementsByTagName('g')).find(g => g.getAttribute('id')?.toLowerCase() === 'hull');
+  return hull ? elementBounds(hull) : null;
+};
+
+/** Removes the dimensions layer and calibration metadata, restoring the viewBox they widened. */
+const stripDocument = (doc: Document) => {
+  const root = doc.documentElement;
+  const group = Array.from(doc.getElementsByTagName('g')).find(g => g.getAttribute('id') === DIMENSIONS_GROUP);
+  if (group) {
+    ['viewBox', 'width', 'height'].forEach(name => {
+      const base = group.getAttribute(`data-base-${name.toLowerCase()}`);
+      if (base !== null) root.setAttribute(name, base);
+    });
+    group.parentNode?.removeChild(group);
+  }
+  Array.from(doc.getElementsByTagName('metadata'))
+    .filter(el => el.getAttribute('id') === METADATA_ID)
+    .forEach(el => el.parentNode?.removeChild(el));
+  root.removeAttribute('data-unit');
+  root.removeAttribute('data-units-per-svg-unit');
+};
+
+/** The drawing without any dimensioning, as the Architect produced it. Used for scoring and comparison. */
+export const stripDimensions = (content: string): string => {
+  const doc = parseSvgDocument(content);
+  if (!doc) return content;
+  stripDocument(doc);
+  return new XMLSerializer().serializeToString(doc);
+};
+
+/** Length in SVG user units that the reference's real-world length spans in this drawing. */
+export const referenceSpan = (content: string, viewType: ViewType, reference: CalibrationReference): number => {
+  const doc = parseSvgDocument(content);
+  if (!doc) throw new CalibrationError('SVG could not be parsed.');
+  stripDocument(doc);
+
+  if (reference.kind === 'span') {
+    const drawing = elementBounds(doc.documentElement);
+    if (!drawing || width(drawing) <= 0) throw new CalibrationError('The drawing has no measurable extent.');
+    return reference.fraction * width(drawing);
+  }
+
+  const hull = hullOf(doc);
+  if (!hull) throw new CalibrationError('The drawing has no <g id="hull"> to measure.');
+  if (!referenceKindsFor(viewType).includes(reference.kind)) {
+    throw new CalibrationError(`${reference.kind.toUpperCase()} cannot be measured in a ${viewType} view.`);
+  }
+  return reference.kind === 'beam' && viewType === 'top' ? height(hull) : width(hull);
+};
+
+export const calibrate = (
+  content: string,
+  viewType: ViewType,
+  reference: CalibrationReference,
+  unit: LengthUnit
+): ScaleCalibration => {
+  if (!(reference.length > 0)) throw new CalibrationError('Reference length must be positive.');
+  const span = referenceSpan(content, viewType, reference);
+  if (!(span > 0)) throw new CalibrationError('The reference spans no distance in the drawing.');
+  return { unit, reference, unitsPerSvgUnit: reference.length / span };
+};
+
+/** 1, 2 or 5 times a power of ten, no larger than the target. */
+const niceLength = (target: number): number => {
+  const base = 10 ** Math.floor(Math.log10(target));
+  return [5, 2, 1].map(step => step * base).find(value => value <= target) ?? base;
+};
+
+const AXIS_LABELS: Partial<Record<ViewType, [string, string]>> = {
+  side: ['LOA', 'DEPTH'],
+  inboard: ['LOA', 'DEPTH'],
+  top: ['LOA', 'BEAM'],
+  bow: ['BEAM', 'HEIGHT'],
+  stern: ['BEAM', 'HEIGHT'],
+  section: ['BEAM', 'HEIGHT']
+};
+
+/**
+ * Rewrites the drawing with a fresh dimensions layer (overall hull dimensions and a scale bar)
+ * and the calibration metadata. Any previous dimensioning is replaced; the viewBox grows to fit.
+ */
+export const applyDimensions = (content: string, viewType: ViewType, calibration: ScaleCalibration): string => {
+  const doc = parseSvgDocument(content);
+  if (!doc) throw new CalibrationError('SVG could not be parsed.');
+  stripDocument(doc);
+  const root = doc.documentElement;
+  const drawing = elementBounds(root);
+  if (!drawing) throw new CalibrationError('The drawing has no measurable extent.');
+
+  const { unit, unitsPerSvgUnit: scale } = calibration;
+  const size = Math.max(width(drawing), height(drawing));
+  const stroke = size * 0.0015;
+  const fontSize = size * 0.018;
+  const gap = size * 0.04;
+  const tick = fontSize * 0.4;
+
+  const group = doc.createElementNS(SVG_NS, 'g');
+  group.setAttribute('id', DIMENSIONS_GROUP);
+  group.setAttribute('fill', 'none');
+  group.setAttribute('stroke', '#000000');
+  group.setAttribute('stroke-width', stroke.toFixed(3));
+  ['viewBox', 'width', 'height'].forEach(name => {
+    const value = root.getAttribute(name);
+    if (value !== null) group.setAttribute(`data-base-${name.toLowerCase()}`, value);
+  });
+
+  const add = (tag: string, attrs: Record<string, string | number>, text?: string) => {
+    const el = doc.createElementNS(SVG_NS, tag);
+    Object.entries(attrs).forEach(([name, value]) => el.setAttribute(name, typeof value === 'number' ? value.toFixed(3) : value));
+    if (text !== undefined) el.textContent = text;
+    group.appendChild(el);
+  };
+  const line = (x1: number, y1: number, x2: number, y2: number) => add('line', { x1, y1, x2, y2 });
+  const label = (x: number, y: number, text: string, rotate = false) => add('text', {
+    x, y,
+    'font-family': 'monospace',
+    'font-size': fontSize,
+    'text-anchor': 'middle',
+    fill: '#000000',
+    stroke: 'none',
+    ...(rotate ? { transform: `rotate(-90 ${x.toFixed(3)} ${y.toFixed(3)})` } : {})
+  }, text);
+
+  const hull = hullOf(doc);
+  const labels = AXIS_LABELS[viewType];
+  let bottom = drawing.maxY;
+
+  if (hull && labels) {
+    // Overall length below the drawing, with extension lines down from the hull ends.
+    const y = drawing.maxY + gap;
+    line(hull.minX, hull.maxY + tick, hull.minX, y + tick);
+    line(hull.maxX, hull.maxY + tick, hull.maxX, y + tick);
+    line(hull.minX, y, hull.maxX, y);
+    [hull.minX, hull.maxX].forEach(x => line(x - tick, y + tick, x + tick, y - tick));
+    label((hull.minX + hull.maxX) / 2, y - tick, `${labels[0]} ${formatLength(width(hull) * scale, unit)}`);
+    bottom = y + tick;
+
+    // Overall height (beam in a deck plan) to the right of the drawing.
+    const x = drawing.maxX + gap;
+    line(hull.maxX + tick, hull.minY, x + tick, hull.minY);
+    line(hull.maxX + tick, hull.maxY, x + tick, hull.maxY);
+    line(x, hull.minY, x, hull.maxY);
+    [hull.minY, hull.maxY].forEach(yy => line(x - tick, yy + tick, x + tick, yy - tick));
+    label(x - tick, (hull.minY + hull.maxY) / 2, `${labels[1]} ${formatLength(height(hull) * scale, unit)}`, true);
+  }
+
+  // Projected views have no single scale, so they get the metadata but no scale bar.
+  if (viewType !== 'isometric') {
+    const barReal = niceLength((width(drawing) * scale) / 4);
+    const barLength = barReal / scale;
+    const y = bottom + gap;
+    const barHeight = fontSize * 0.5;
+    for (let i = 0; i < 4; i++) {
+      add('rect', {
+        x: drawing.minX + (i * barLength) / 4, y, width: barLength / 4, height: barHeight,
+        fill: i % 2 === 0 ? '#000000' : '#ffffff'
+      });
+    }
+    label(drawing.minX, y - tick, '0');
+    label(drawing.minX + barLength, y - tick, `${barReal} ${unit}`);
+  }
+
+  root.appendChild(group);
+
+  // Grow the viewBox to take in the new layer.
+  const dims = elementBounds(group);
+  const viewBox = (root.getAttribute('viewBox') ?? '').trim().split(/[\s,]+/).map(Number);
+  if (dims && viewBox.length === 4 && viewBox.every(Number.isFinite)) {
+    const margin = fontSize * 1.5;
+    const minX = Math.min(viewBox[0], dims.minX - margin);
+    const minY = Math.min(viewBox[1], dims.minY - margin);
+    const maxX = Math.max(viewBox[0] + viewBox[2], dims.maxX + margin);
+    const maxY = Math.max(viewBox[1] + viewBox[3], dims.maxY + margin);
+    root.setAttribute('viewBox', [minX, minY, maxX - minX, maxY - minY].map(n => n.toFixed(3)).join(' '));
+    // Keep explicit pixel sizes proportional so the drawing is not squashed.
+    const w = parseFloat(root.getAttribute('width') ?? '');
+    const h = parseFloat(root.getAttribute('height') ?? '');
+    if (Number.isFinite(w) && /^[\d.]+(px)?$/.test(root.getAttribute('width')!)) root.setAttribute('width', (w * (maxX - minX) / viewBox[2]).toFixed(1));
+    if (Number.isFinite(h) && /^[\d.]+(px)?$/.test(root.getAttribute('height')!)) root.setAttribute('height', (h * (maxY - minY) / viewBox[3]).toFixed(1));
+  }
+
+  root.setAttribute('data-unit', unit);
+  root.setAttribute('data-units-per-svg-unit', String(scale));
+  const metadata = doc.createElementNS(SVG_NS, 'metadata');
+  metadata.setAttribute('id', METADATA_ID);
+  metadata.textContent = JSON.stringify(calibration);
+  root.insertBefore(metadata, root.firstChild);
+
+  return new XMLSerializer().serializeToString(doc);
+};
+
+/** The calibration written into an SVG by applyDimensions, if any. */
+export const readCalibration = (content: string): ScaleCalibration | undefined => {
+  const doc = parseSvgDocument(content);
+  const metadata = doc ? Array.from(doc.getElementsByTagName('metadata')).find(el => el.getAttribute('id') === METADATA_ID) : undefined;
+  try {
+    const parsed = JSON.parse(metadata?.textContent ?? '');
+    return parsed && (parsed.unit === 'm' || parsed.unit === 'ft') && parsed.unitsPerSvgUnit > 0 ? parsed : undefined;
+  } catch {
+    return undefined;
+  }
+};
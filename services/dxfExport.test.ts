@@ -0,0 +1,194 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { ScaleCalibration } from '../types';
+import { installNodeDom } from '../cli/nodeDom';
+import { DxfExportError, exportDxf } from './dxfExport';
+
+interface DxfEntity {
+  type: string;
+  codes: [number, string][];
+}
+
+/**
+ * Reads an ASCII DXF back into its sections' entities as (group code, value) pairs.
+ * Codes before a section's first entity, such as header variables, go in an untyped first entry.
+ */
+const parseDxf = (dxf: string) => {
+  const lines = dxf.trimEnd().split('\n');
+  expect(lines.length % 2).toBe(0);
+  const pairs: [number, string][] = [];
+  for (let i = 0; i < lines.length; i += 2) pairs.push([Number(lines[i]), lines[i + 1]]);
+
+  const sections: Record<string, DxfEntity[]> = {};
+  let section: DxfEntity[] | null = null;
+  let entity: DxfEntity | null = null;
+  for (let i = 0; i < pairs.length; i++) {
+    const [code, value] = pairs[i];
+    if (code === 0 && value === 'SECTION') {
+      entity = { type: '', codes: [] };
+      section = sections[pairs[++i][1]] = [entity];
+    } else if (code === 0 && value === 'ENDSEC') {
+      section = entity = null;
+    } else if (code === 0) {
+      entity = { type: value, codes: [] };
+      section?.push(entity);
+    } else {
+      entity?.codes.push([code, value]);
+    }
+  }
+  return sections;
+};
+
+const value = (entity: DxfEntity, code: number) => entity.codes.find(([c]) => c === code)?.[1];
+const num = (entity: DxfEntity, code: number) => Number(value(entity, code));
+
+/** A header variable's value as its (group code, value) pair. */
+const headerVariable = (header: DxfEntity[], name: string) => {
+  const codes = header[0].codes;
+  return codes[codes.findIndex(([code, v]) => code === 9 && v === name) + 1];
+};
+
+/** Polylines as their layer, closed flag and VERTEX entities, which follow them up to SEQEND. */
+const polylines = (entities: DxfEntity[]) => entities.flatMap((entity, index) => {
+  if (entity.type !== 'POLYLINE') return [];
+  const end = entities.findIndex((e, k) => k > index && e.type === 'SEQEND');
+  return [{
+    layer: value(entity, 8),
+    closed: num(entity, 70) === 1,
+    vertices: entities.slice(index + 1, end).map(v => ({ x: num(v, 10), y: num(v, 20), bulge: value(v, 42) === undefined ? undefined : num(v, 42) }))
+  }];
+});
+
+const svg = (body: string, attrs = '') => `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 200 100"${attrs}>${body}</svg>`;
+
+const calibration = (unit: 'm' | 'ft', unitsPerSvgUnit: number): ScaleCalibration => ({
+  unit,
+  reference: { kind: 'loa', length: 200 * unitsPerSvgUnit },
+  unitsPerSvgUnit
+});
+
+beforeAll(() => installNodeDom());
+
+describe('exportDxf', () => {
+  it('names a layer after each identified group and puts its entities on it', () => {
+    const { TABLES, ENTITIES } = parseDxf(exportDxf(svg(
+      '<g id="hull"><line x1="0" y1="0" x2="10" y2="0"/></g><g id="superstructure"><g><line x1="0" y1="0" x2="0" y2="5"/></g></g><line x1="1" y1="1" x2="2" y2="2"/>'
+    )));
+    const layers = TABLES.filter(e => e.type === 'LAYER').map(e => value(e, 2));
+    expect(layers).toEqual(['0', 'hull', 'superstructure']);
+    expect(ENTITIES.filter(e => e.type === 'LINE').map(e => value(e, 8))).toEqual(['hull', 'superstructure', '0']);
+  });
+
+  it('replaces characters DXF does not allow in layer names', () => {
+    const { TABLES } = parseDxf(exportDxf(svg('<g id="main turret:A"><line x1="0" y1="0" x2="1" y2="1"/></g>')));
+    expect(TABLES.filter(e => e.type === 'LAYER').map(e => value(e, 2))).toContain('main_turret_A');
+  });
+
+  it('flattens nested transforms into world coordinates with y pointing up', () => {
+    const { ENTITIES } = parseDxf(exportDxf(svg(
+      '<g id="hull" transform="translate(10 20)"><g transform="scale(2)"><line x1="1" y1="2" x2="3" y2="4"/></g></g>'
+    )));
+    const line = ENTITIES.find(e => e.type === 'LINE')!;
+    expect([num(line, 10), num(line, 20), num(line, 11), num(line, 21)]).toEqual([12, -24, 16, -28]);
+  });
+
+  it('applies a rotation to polyline vertices', () => {
+    const { ENTITIES } = parseDxf(exportDxf(svg('<polyline transform="rotate(90)" points="10,0 20,0"/>')));
+    const [poly] = polylines(ENTITIES);
+    expect(poly.vertices[0].x).toBeCloseTo(0);
+    expect(poly.vertices[0].y).toBeCloseTo(-10);
+    expect(poly.vertices[1].y).toBeCloseTo(-20);
+  });
+
+  it('writes circles as CIRCLE entities with the transformed radius', () => {
+    const { ENTITIES } = parseDxf(exportDxf(svg('<g id="armament" transform="scale(3)"><circle cx="10" cy="5" r="2"/></g>')));
+    const circle = ENTITIES.find(e => e.type === 'CIRCLE')!;
+    expect(value(circle, 8)).toBe('armament');
+    expect([num(circle, 10), num(circle, 20), num(circle, 40)]).toEqual([30, -15, 6]);
+  });
+
+  it('samples circles under a non-uniform scale as closed polylines', () => {
+    const { ENTITIES } = parseDxf(exportDxf(svg('<circle transform="scale(2 1)" cx="0" cy="0" r="5"/>')));
+    expect(ENTITIES.some(e => e.type === 'CIRCLE')).toBe(false);
+    const [poly] = polylines(ENTITIES);
+    expect(poly.closed).toBe(true);
+    expect(Math.max(...poly.vertices.map(v => v.x))).toBeCloseTo(10);
+    expect(Math.max(...poly.vertices.map(v => v.y))).toBeCloseTo(5);
+  });
+
+  it('writes polygons and rects as closed polylines and polylines as open ones', () => {
+    const { ENTITIES } = parseDxf(exportDxf(svg(
+      '<polyline points="0,0 10,0 10,10"/><polygon points="0,0 5,0 5,5"/><rect x="1" y="2" width="3" height="4"/>'
+    )));
+    const [open, polygon, rect] = polylines(ENTITIES);
+    expect(open.closed).toBe(false);
+    expect(open.vertices.map(v => [v.x, v.y])).toEqual([[0, 0], [10, 0], [10, -10]]);
+    expect(polygon.closed).toBe(true);
+    expect(rect.closed).toBe(true);
+    expect(rect.vertices.map(v => [v.x, v.y])).toEqual([[1, -2], [4, -2], [4, -6], [1, -6]]);
+  });
+
+  it('keeps circular path arcs as bulges, reversed by the y flip', () => {
+    const { ENTITIES } = parseDxf(exportDxf(svg('<path d="M 0 0 A 10 10 0 0 1 20 0"/>')));
+    const [poly] = polylines(ENTITIES);
+    expect(poly.vertices).toHaveLength(2);
+    // A half circle has a bulge of magnitude 1; sweep-flag 1 is clockwise on screen, counter-clockwise once y points up.
+    expect(Math.abs(poly.vertices[0].bulge!)).toBeCloseTo(1);
+    expect(poly.vertices[0].bulge!).toBeLessThan(0);
+    expect(poly.vertices[1].bulge).toBeUndefined();
+  });
+
+  it('resamples arcs without bulges under a non-uniform transform', () => {
+    const { ENTITIES } = parseDxf(exportDxf(svg('<path transform="scale(1 2)" d="M 0 0 A 10 10 0 0 1 20 0"/>')));
+    const [poly] = polylines(ENTITIES);
+    expect(poly.vertices.length).toBeGreaterThan(4);
+    expect(poly.vertices.every(v => v.bulge === undefined)).toBe(true);
+    expect(Math.max(...poly.vertices.map(v => Math.abs(v.y)))).toBeCloseTo(20, 0);
+  });
+
+  it('flattens Bézier curves into the requested number of segments', () => {
+    const { ENTITIES } = parseDxf(exportDxf(svg('<path d="M0 0 C 0 10 10 10 10 0 Z"/>'), { curveSegments: 8 }));
+    const [poly] = polylines(ENTITIES);
+    expect(poly.closed).toBe(true);
+    expect(poly.vertices).toHaveLength(9);
+    expect(poly.vertices[8]).toMatchObject({ x: 10, y: 0 });
+  });
+
+  it('writes calibrated coordinates in real-world units and sets $INSUNITS', () => {
+    const dxf = exportDxf(svg('<line x1="0" y1="0" x2="100" y2="0"/>'), { calibration: calibration('m', 0.5) });
+    const { HEADER, ENTITIES } = parseDxf(dxf);
+    const line = ENTITIES.find(e => e.type === 'LINE')!;
+    expect(num(line, 11)).toBe(50);
+    expect(headerVariable(HEADER, '$INSUNITS')).toEqual([70, '6']);
+    expect(headerVariable(HEADER, '$MEASUREMENT')).toEqual([70, '1']);
+  });
+
+  it('reports feet and scales circle radii with the calibration', () => {
+    const dxf = exportDxf(svg('<circle cx="10" cy="10" r="4"/>'), { calibration: calibration('ft', 2) });
+    const { HEADER, ENTITIES } = parseDxf(dxf);
+    expect(headerVariable(HEADER, '$INSUNITS')).toEqual([70, '2']);
+    expect(headerVariable(HEADER, '$MEASUREMENT')).toEqual([70, '0']);
+    const circle = ENTITIES.find(e => e.type === 'CIRCLE')!;
+    expect([num(circle, 10), num(circle, 20), num(circle, 40)]).toEqual([20, -20, 8]);
+  });
+
+  it('leaves units unset without a calibration', () => {
+    const { HEADER } = parseDxf(exportDxf(svg('<line x1="0" y1="0" x2="1" y2="0"/>')));
+    expect(headerVariable(HEADER, '$INSUNITS')).toEqual([70, '0']);
+  });
+
+  it('skips hidden and non-rendered elements', () => {
+    const { ENTITIES } = parseDxf(exportDxf(svg(
+      '<defs><line x1="0" y1="0" x2="1" y2="1"/></defs><g display="none"><line x1="0" y1="0" x2="1" y2="1"/></g><line x1="0" y1="0" x2="2" y2="2"/>'
+    )));
+    expect(ENTITIES.filter(e => e.type === 'LINE')).toHaveLength(1);
+  });
+
+  it('rejects drawings with nothing to export', () => {
+    expect(() => exportDxf(svg('<g id="hull"/>'))).toThrow(DxfExportError);
+  });
+});
@@ -0,0 +1,447 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { LengthUnit, ScaleCalibration, SvgTheme } from "../types";
+import { Matrix, IDENTITY, NON_RENDERED, applyMatrix, multiply, numbersIn, parseSvgDocument, parseTransform } from "./svgGeometry";
+import { readCalibration } from "./dimensions";
+import { parseColor } from "./themes";
+
+// ASCII DXF (R12) writer. Transforms are flattened into world coordinates, the y axis is flipped
+// to DXF's y-up convention, and each identified <g> becomes a named layer. Circles and circular
+// arcs survive as CIRCLE entities and polyline bulges when the transform keeps them circular;
+// everything else curved is flattened into polyline vertices.
+
+export class DxfExportError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'DxfExportError';
+  }
+}
+
+export interface DxfOptions {
+  calibration?: ScaleCalibration; // defaults to the calibration stored in the SVG, if any
+  curveSegments?: number; // line segments per Bézier curve
+  theme?: SvgTheme; // layer colours; without one each layer gets the next colour index
+}
+
+interface Vertex {
+  x: number;
+  y: number;
+  bulge?: number; // arc to the next vertex: tan(sweep / 4), positive counter-clockwise
+}
+
+const DEFAULT_CURVE_SEGMENTS = 16;
+const ELLIPSE_SEGMENTS = 64;
+const DEFAULT_FONT_SIZE = 16;
+
+// $INSUNITS codes.
+const INSUNITS: Record<LengthUnit, number> = { m: 6, ft: 2 };
+
+// AutoCAD colour indices handed out to layers in order of first use.
+const LAYER_COLORS = [7, 1, 5, 3, 2, 6, 4, 8, 30, 140, 200, 40];
+
+// The fully saturated colour indices, by hue: red, yellow, green, cyan, blue, magenta.
+const HUE_COLORS = [1, 2, 3, 4, 5, 6];
+
+/**
+ * Nearest AutoCAD colour index. Near-black and near-white both map to 7, which CAD
+ * programs draw in whichever of the two contrasts with their background.
+ */
+const aciColor = (value: string): number => {
+  const [r, g, b] = (parseColor(value) ?? [0, 0, 0]).map(c => c / 255);
+  const [max, min] = [Math.max(r, g, b), Math.min(r, g, b)];
+  if (max - min < 0.25) {
+    const lightness = (max + min) / 2;
+    return lightness < 0.3 || lightness > 0.8 ? 7 : lightness < 0.5 ? 8 : 9;
+  }
+  const hue = max === r ? ((g - b) / (max - min) + 6) % 6 : max === g ? (b - r) / (max - min) + 2 : (r - g) / (max - min) + 4;
+  return HUE_COLORS[Math.round(hue) % 6];
+};
+
+/** Layer names may not contain <>/\":;?*|=` in DXF. */
+const layerName = (id: string) => id.replace(/[<>/\\":;?*|=`\s]/g, '_').slice(0, 255) || '0';
+
+/** Rotation plus uniform scale (optionally mirrored): circles stay circles. */
+const isSimilarity = (m: Matrix) => {
+  const scale = Math.hypot(m[0], m[1]);
+  const eps = 1e-6 * Math.max(1, scale);
+  return (Math.abs(m[0] - m[3]) < eps && Math.abs(m[1] + m[2]) < eps) ||
+    (Math.abs(m[0] + m[3]) < eps && Math.abs(m[1] - m[2]) < eps);
+};
+
+const determinant = (m: Matrix) => m[0] * m[3] - m[1] * m[2];
+
+const attr = (el: Element, name: string) => Number(el.getAttribute(name) ?? 0) || 0;
+
+/** Inherited presentation value, read from the attribute or the inline style. */
+const inherited = (el: Element, name: string): string | null => {
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    const style = node.getAttribute('style')?.match(new RegExp(`(?:^|;)\\s*${name}\\s*:\\s*([^;]+)`))?.[1];
+    const value = style ?? node.getAttribute(name);
+    if (value) return value.trim();
+  }
+  return null;
+};
+
+const isHidden = (el: Element) =>
+  el.getAttribute('display') === 'none' || /(?:^|;)\s*display\s*:\s*none/.test(el.getAttribute('style') ?? '');
+
+/**
+ * Centre parameterization of an SVG arc (SVG 1.1 appendix F.6.5), with out-of-range radii scaled up.
+ * Returns null for degenerate arcs, which are drawn as straight lines.
+ */
+const arcCenter = (
+  x1: number, y1: number, x2: number, y2: number,
+  rx: number, ry: number, phiDeg: number, largeArc: boolean, sweep: boolean
+) => {
+  if (rx === 0 || ry === 0 || (x1 === x2 && y1 === y2)) return null;
+  const phi = (phiDeg * Math.PI) / 180;
+  const [cos, sin] = [Math.cos(phi), Math.sin(phi)];
+  const dx = (x1 - x2) / 2;
+  const dy = (y1 - y2) / 2;
+  const x1p = cos * dx + sin * dy;
+  const y1p = -sin * dx + cos * dy;
+  [rx, ry] = [Math.abs(rx), Math.abs(ry)];
+  const lambda = (x1p * x1p) / (rx * rx) + (y1p * y1p) / (ry * ry);
+  if (lambda > 1) [rx, ry] = [rx * Math.sqrt(lambda), ry * Math.sqrt(lambda)];
+
+  const num = rx * rx * ry * ry - rx * rx * y1p * y1p - ry * ry * x1p * x1p;
+  const den = rx * rx * y1p * y1p + ry * ry * x1p * x1p;
+  const coef = (largeArc === sweep ? -1 : 1) * Math.sqrt(Math.max(0, num / den));
+  const cxp = (coef * rx * y1p) / ry;
+  const cyp = (-coef * ry * x1p) / rx;
+  const cx = cos * cxp - sin * cyp + (x1 + x2) / 2;
+  const cy = sin * cxp + cos * cyp + (y1 + y2) / 2;
+
+  const angle = (ux: number, uy: number, vx: number, vy: number) => Math.atan2(ux * vy - uy * vx, ux * vx + uy * vy);
+  const theta = angle(1, 0, (x1p - cxp) / rx, (y1p - cyp) / ry);
+  let delta = angle((x1p - cxp) / rx, (y1p - cyp) / ry, (-x1p - cxp) / rx, (-y1p - cyp) / ry);
+  if (!sweep && delta > 0) delta -= 2 * Math.PI;
+  if (sweep && delta < 0) delta += 2 * Math.PI;
+
+  const at = (t: number): [number, number] => [
+    cx + rx * Math.cos(t) * cos - ry * Math.sin(t) * sin,
+    cy + rx * Math.cos(t) * sin + ry * Math.sin(t) * cos
+  ];
+  return { rx, ry, theta, delta, at };
+};
+
+/** Splits path data into subpaths of vertices in the path's own user space. */
+const pathSubpaths = (d: string, curveSegments: number): { vertices: Vertex[]; closed: boolean; circularArcs: boolean }[] => {
+  const tokens = d.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? [];
+  const subpaths: { vertices: Vertex[]; closed: boolean; circularArcs: boolean }[] = [];
+  let current: { vertices: Vertex[]; closed: boolean; circularArcs: boolean } | null = null;
+  let i = 0;
+  let cmd = '';
+  let [x, y] = [0, 0];
+  let [startX, startY] = [0, 0];
+  let lastControl: [number, number] | null = null; // for S and T reflections
+  let lastCmd = '';
+  const next = () => Number(tokens[i++]);
+
+  const push = (px: number, py: number) => current!.vertices.push({ x: px, y: py });
+  const ensureSubpath = () => {
+    if (!current) {
+      current = { vertices: [{ x, y }], closed: false, circularArcs: true };
+      subpaths.push(current);
+    }
+  };
+  const sampleCurve = (point: (t: number) => [number, number]) => {
+    for (let s = 1; s <= curveSegments; s++) push(...point(s / curveSegments));
+  };
+
+  while (i < tokens.length) {
+    if (/[a-zA-Z]/.test(tokens[i])) cmd = tokens[i++];
+    if (!cmd) { i++; continue; }
+    const upper = cmd.toUpperCase();
+    const rel = cmd !== upper;
+    const [ox, oy] = rel ? [x, y] : [0, 0];
+    let control: [number, number] | null = null;
+
+    if (upper === 'M') {
+      x = ox + next(); y = oy + next();
+      [startX, startY] = [x, y];
+      current = null;
+      ensureSubpath();
+      cmd = rel ? 'l' : 'L';
+    } else if (upper === 'Z') {
+      ensureSubpath();
+      current!.closed = true;
+      [x, y] = [startX, startY];
+      current = null;
+      cmd = '';
+    } else {
+      ensureSubpath();
+      switch (upper) {
+        case 'L':
+          x = ox + next(); y = oy + next();
+          push(x, y);
+          break;
+        case 'H':
+          x = ox + next();
+          push(x, y);
+          break;
+        case 'V':
+          y = oy + next();
+          push(x, y);
+          break;
+        case 'C':
+        case 'S': {
+          const [x0, y0] = [x, y];
+          const c1: [number, number] = upper === 'C'
+            ? [ox + next(), oy + next()]
+            : lastControl && /[CS]/i.test(lastCmd) ? [2 * x0 - lastControl[0], 2 * y0 - lastControl[1]] : [x0, y0];
+          const c2: [number, number] = [ox + next(), oy + next()];
+          x = ox + next(); y = oy + next();
+          const [x3, y3] = [x, y];
+          sampleCurve(t => {
+            const u = 1 - t;
+            return [
+              u * u * u * x0 + 3 * u * u * t * c1[0] + 3 * u * t * t * c2[0] + t * t * t * x3,
+              u * u * u * y0 + 3 * u * u * t * c1[1] + 3 * u * t * t * c2[1] + t * t * t * y3
+            ];
+          });
+          control = c2;
+          break;
+        }
+        case 'Q':
+        case 'T': {
+          const [x0, y0] = [x, y];
+          const c: [number, number] = upper === 'Q'
+            ? [ox + next(), oy + next()]
+            : lastControl && /[QT]/i.test(lastCmd) ? [2 * x0 - lastControl[0], 2 * y0 - lastControl[1]] : [x0, y0];
+          x = ox + next(); y = oy + next();
+          const [x2, y2] = [x, y];
+          sampleCurve(t => {
+            const u = 1 - t;
+            return [u * u * x0 + 2 * u * t * c[0] + t * t * x2, u * u * y0 + 2 * u * t * c[1] + t * t * y2];
+          });
+          control = c;
+          break;
+        }
+        case 'A': {
+          const [rx, ry, rotation, largeArc, sweep] = [next(), next(), next(), next(), next()];
+          const [x0, y0] = [x, y];
+          x = ox + next(); y = oy + next();
+          const arc = arcCenter(x0, y0, x, y, rx, ry, rotation, !!largeArc, !!sweep);
+          if (!arc) {
+            push(x, y);
+          } else if (Math.abs(arc.rx - arc.ry) < 1e-9 * Math.max(1, arc.rx)) {
+            // Circular: the bulge on the start vertex carries the whole arc.
+            current!.vertices[current!.vertices.length - 1].bulge = Math.tan(arc.delta / 4);
+            push(x, y);
+          } else {
+            current!.circularArcs = false;
+            const steps = Math.max(4, Math.ceil((Math.abs(arc.delta) / (2 * Math.PI)) * ELLIPSE_SEGMENTS));
+            for (let s = 1; s <= steps; s++) push(...arc.at(arc.theta + (arc.delta * s) / steps));
+          }
+          break;
+        }
+        default:
+          i++;
+      }
+    }
+    lastControl = control;
+    lastCmd = upper;
+    if (Number.isNaN(x) || Number.isNaN(y)) break;
+  }
+  return subpaths.filter(sub => sub.vertices.length > 1);
+};
+
+/**
+ * Converts an SVG to an ASCII DXF. With a calibration (passed in or stored in the SVG)
+ * coordinates are written in real-world units and $INSUNITS is set accordingly.
+ */
+export const exportDxf = (content: string, options: DxfOptions = {}): string => {
+  const doc = parseSvgDocument(content);
+  if (!doc) throw new DxfExportError('SVG could not be parsed.');
+  const calibration = options.calibration ?? readCalibration(content);
+  const scale = calibration?.unitsPerSvgUnit ?? 1;
+  const curveSegments = Math.max(1, options.curveSegments ?? DEFAULT_CURVE_SEGMENTS);
+
+  const entities: string[] = [];
+  const layers: string[] = ['0'];
+  const extent = { minX: Infinity, minY: Infinity, maxX: -Infinity, maxY: -Infinity };
+
+  const pair = (code: number, value: string | number) =>
+    entities.push(String(code), typeof value === 'number' ? String(Number(value.toFixed(6))) : value);
+  const world = (m: Matrix, px: number, py: number): [number, number] => {
+    const [wx, wy] = applyMatrix(m, px, py);
+    const point: [number, number] = [wx * scale, -wy * scale];
+    extent.minX = Math.min(extent.minX, point[0]);
+    extent.maxX = Math.max(extent.maxX, point[0]);
+    extent.minY = Math.min(extent.minY, point[1]);
+    extent.maxY = Math.max(extent.maxY, point[1]);
+    return point;
+  };
+  // The y flip reverses orientation, and so does a mirroring transform.
+  const bulgeSign = (m: Matrix) => (determinant(m) < 0 ? 1 : -1);
+
+  const polyline = (layer: string, m: Matrix, vertices: Vertex[], closed: boolean) => {
+    if (vertices.length < 2) return;
+    pair(0, 'POLYLINE'); pair(8, layer); pair(66, 1);
+    pair(10, 0); pair(20, 0); pair(30, 0);
+    pair(70, closed ? 1 : 0);
+    vertices.forEach(v => {
+      const [x, y] = world(m, v.x, v.y);
+      pair(0, 'VERTEX'); pair(8, layer);
+      pair(10, x); pair(20, y); pair(30, 0);
+      if (v.bulge) pair(42, v.bulge * bulgeSign(m));
+    });
+    pair(0, 'SEQEND'); pair(8, layer);
+  };
+
+  const ellipse = (layer: string, m: Matrix, cx: number, cy: number, rx: number, ry: number) => {
+    if (rx <= 0 || ry <= 0) return;
+    if (rx === ry && isSimilarity(m)) {
+      const [x, y] = world(m, cx, cy);
+      const r = rx * Math.sqrt(Math.abs(determinant(m))) * scale;
+      pair(0, 'CIRCLE'); pair(8, layer);
+      pair(10, x); pair(20, y); pair(30, 0); pair(40, r);
+      world(m, cx - rx, cy - ry);
+      world(m, cx + rx, cy + ry);
+      return;
+    }
+    const vertices = Array.from({ length: ELLIPSE_SEGMENTS }, (_, k) => {
+      const t = (2 * Math.PI * k) / ELLIPSE_SEGMENTS;
+      return { x: cx + rx * Math.cos(t), y: cy + ry * Math.sin(t) };
+    });
+    polyline(layer, m, vertices, true);
+  };
+
+  const text = (layer: string, m: Matrix, el: Element) => {
+    const value = (el.textContent ?? '').replace(/\s+/g, ' ').trim();
+    if (!value) return;
+    const fontSize = parseFloat(inherited(el, 'font-size') ?? '') || DEFAULT_FONT_SIZE;
+    const [x, y] = world(m, attr(el, 'x'), attr(el, 'y'));
+    const height = fontSize * Math.sqrt(Math.abs(determinant(m))) * scale;
+    const rotation = (Math.atan2(-m[1], m[0]) * 180) / Math.PI;
+    const justify = ({ middle: 1, end: 2 } as Record<string, number>)[inherited(el, 'text-anchor') ?? ''] ?? 0;
+    // R12 text is 7-bit; anything else is written as a \U+XXXX escape.
+    const encoded = value.replace(/[^\x20-\x7e]/g, ch => `\\U+${ch.codePointAt(0)!.toString(16).toUpperCase().padStart(4, '0')}`);
+    pair(0, 'TEXT'); pair(8, layer);
+    pair(10, x); pair(20, y); pair(30, 0);
+    pair(40, height); pair(1, encoded);
+    if (rotation) pair(50, rotation);
+    if (justify) {
+      pair(72, justify);
+      pair(11, x); pair(21, y); pair(31, 0);
+    }
+  };
+
+  const visit = (el: Element, parentMatrix: Matrix, parentLayer: string) => {
+    if (NON_RENDERED.includes(el.localName) || isHidden(el)) return;
+    const m = multiply(parentMatrix, parseTransform(el.getAttribute('transform')));
+    const id = el.localName === 'g' ? el.getAttribute('id') : null;
+    const layer = id ? layerName(id) : parentLayer;
+    if (!layers.includes(layer)) layers.push(layer);
+
+    switch (el.localName) {
+      case 'line': {
+        const [x1, y1] = world(m, attr(el, 'x1'), attr(el, 'y1'));
+        const [x2, y2] = world(m, attr(el, 'x2'), attr(el, 'y2'));
+        pair(0, 'LINE'); pair(8, layer);
+        pair(10, x1); pair(20, y1); pair(30, 0);
+        pair(11, x2); pair(21, y2); pair(31, 0);
+        break;
+      }
+      case 'rect': {
+        const [x, y, w, h] = [attr(el, 'x'), attr(el, 'y'), attr(el, 'width'), attr(el, 'height')];
+        if (w > 0 && h > 0) polyline(layer, m, [{ x, y }, { x: x + w, y }, { x: x + w, y: y + h }, { x, y: y + h }], true);
+        break;
+      }
+      case 'polyline':
+      case 'polygon': {
+        const nums = numbersIn(el.getAttribute('points'));
+        const vertices: Vertex[] = [];
+        for (let k = 0; k + 1 < nums.length; k += 2) vertices.push({ x: nums[k], y: nums[k + 1] });
+        polyline(layer, m, vertices, el.localName === 'polygon');
+        break;
+      }
+      case 'circle':
+        ellipse(layer, m, attr(el, 'cx'), attr(el, 'cy'), attr(el, 'r'), attr(el, 'r'));
+        break;
+      case 'ellipse':
+        ellipse(layer, m, attr(el, 'cx'), attr(el, 'cy'), attr(el, 'rx'), attr(el, 'ry'));
+        break;
+      case 'path':
+        pathSubpaths(el.getAttribute('d') ?? '', curveSegments).forEach(sub => {
+          if (sub.circularArcs && isSimilarity(m)) {
+            polyline(layer, m, sub.vertices, sub.closed);
+          } else {
+            // A non-uniform transform turns circular arcs elliptical, so they are resampled without bulges.
+            polyline(layer, m, flattenBulges(sub.vertices, sub.closed), sub.closed);
+          }
+        });
+        break;
+      case 'text':
+        text(layer, m, el);
+        return; // tspans are part of the text entity
+    }
+    Array.from(el.children).forEach(child => visit(child, m, layer));
+  };
+
+  visit(doc.documentElement, IDENTITY, '0');
+  if (entities.length === 0) throw new DxfExportError('The drawing has no exportable geometry.');
+
+  const out: string[] = [];
+  const emit = (code: number, value: string | number) =>
+    out.push(String(code), typeof value === 'number' ? String(Number(value.toFixed(6))) : value);
+
+  emit(0, 'SECTION'); emit(2, 'HEADER');
+  emit(9, '$ACADVER'); emit(1, 'AC1009');
+  emit(9, '$INSUNITS'); emit(70, calibration ? INSUNITS[calibration.unit] : 0);
+  emit(9, '$MEASUREMENT'); emit(70, calibration?.unit === 'ft' ? 0 : 1);
+  emit(9, '$EXTMIN'); emit(10, extent.minX); emit(20, extent.minY); emit(30, 0);
+  emit(9, '$EXTMAX'); emit(10, extent.maxX); emit(20, extent.maxY); emit(30, 0);
+  emit(0, 'ENDSEC');
+
+  emit(0, 'SECTION'); emit(2, 'TABLES');
+  emit(0, 'TABLE'); emit(2, 'LTYPE'); emit(70, 1);
+  emit(0, 'LTYPE'); emit(2, 'CONTINUOUS'); emit(70, 0); emit(3, 'Solid line'); emit(72, 65); emit(73, 0); emit(40, 0);
+  emit(0, 'ENDTAB');
+  emit(0, 'TABLE'); emit(2, 'LAYER'); emit(70, layers.length);
+  layers.forEach((name, index) => {
+    emit(0, 'LAYER'); emit(2, name); emit(70, 0);
+    const color = options.theme
+      ? aciColor(options.theme.layerColors?.[name.toLowerCase()] ?? options.theme.ink)
+      : LAYER_COLORS[index % LAYER_COLORS.length];
+    emit(62, color); emit(6, 'CONTINUOUS');
+  });
+  emit(0, 'ENDTAB');
+  emit(0, 'ENDSEC');
+
+  emit(0, 'SECTION'); emit(2, 'ENTITIES');
+  out.push(...entities);
+  emit(0, 'ENDSEC');
+  emit(0, 'EOF');
+
+  return out.join('\n') + '\n';
+};
+
+/** Replaces bulged (circular arc) segments with sampled vertices. */
+const flattenBulges = (vertices: Vertex[], closed: boolean): Vertex[] => {
+  const result: Vertex[] = [];
+  vertices.forEach((v, k) => {
+    result.push({ x: v.x, y: v.y });
+    const next = vertices[k + 1] ?? (closed ? vertices[0] : undefined);
+    if (!v.bulge || !next) return;
+    // Sweep is 4·atan(bulge); the centre sits off the chord's midpoint along its normal.
+    const sweep = 4 * Math.atan(v.bulge);
+    const [dx, dy] = [next.x - v.x, next.y - v.y];
+    const chord = Math.hypot(dx, dy);
+    const radius = chord / (2 * Math.sin(Math.abs(sweep) / 2));
+    const offset = Math.sqrt(Math.max(0, radius * radius - (chord / 2) ** 2)) * Math.sign(v.bulge) * (Math.abs(sweep) > Math.PI ? -1 : 1);
+    const cx = (v.x + next.x) / 2 - (dy / chord) * offset;
+    const cy = (v.y + next.y) / 2 + (dx / chord) * offset;
+    const start = Math.atan2(v.y - cy, v.x - cx);
+    const steps = Math.max(4, Math.ceil((Math.abs(sweep) / (2 * Math.PI)) * ELLIPSE_SEGMENTS));
+    for (let s = 1; s < steps; s++) {
+      const t = start + (sweep * s) / steps;
+      result.push({ x: cx + radius * Math.cos(t), y: cy + radius * Math.sin(t) });
+    }
+  });
+  return result;
+};
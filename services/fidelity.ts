@@ -0,0 +1,253 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { FidelityScore, ImageData } from "../types";
+import { GrayImage, Rasterizer, getDefaultRasterizer } from "./rasterizer";
+import { stripDimensions } from "./dimensions";
+
+// Deterministic, model-free fidelity metrics. Both images are cropped to their ink and
+// resampled to a common working size, so the padding around the crop and the SVG's
+// viewBox framing do not count against the drawing.
+
+const WORK_SIZE = 256; // longest side of the comparison grid
+const RASTER_LIMIT = 1024; // longest side the SVG is rasterized at
+const EDGE_THRESHOLD = 0.2; // Sobel magnitude (normalized to 0-1) that counts as an edge
+const EDGE_TOLERANCE = 2; // pixels an edge may be off and still overlap
+const CHAMFER_SCALE = 0.05; // chamfer distance (fraction of diagonal) that scores zero
+
+type Mask = Uint8Array;
+
+const otsuThreshold = (img: GrayImage): number => {
+  const bins = new Array(256).fill(0);
+  img.data.forEach(v => bins[Math.min(255, Math.floor(v * 256))]++);
+  const total = img.data.length;
+  const sumAll = bins.reduce((acc, count, i) => acc + i * count, 0);
+  let [sumBack, weightBack, best, threshold] = [0, 0, -1, 128];
+  for (let t = 0; t < 256; t++) {
+    weightBack += bins[t];
+    if (weightBack === 0 || weightBack === total) continue;
+    sumBack += t * bins[t];
+    const meanBack = sumBack / weightBack;
+    const meanFore = (sumAll - sumBack) / (total - weightBack);
+    const between = weightBack * (total - weightBack) * (meanBack - meanFore) ** 2;
+    if (between > best) [best, threshold] = [between, t];
+  }
+  return (threshold + 0.5) / 256;
+};
+
+const inkMask = (img: GrayImage, threshold: number): Mask => Uint8Array.from(img.data, v => v < threshold ? 1 : 0);
+
+const inkBounds = (mask: Mask, width: number, height: number) => {
+  let [minX, minY, maxX, maxY] = [width, height, -1, -1];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  return maxX < 0 ? null : { x: minX, y: minY, w: maxX - minX + 1, h: maxY - minY + 1 };
+};
+
+/**
+ * Resamples a sub-rectangle of the image onto a width x height grid. When shrinking, each target
+ * pixel takes the darkest pixel of its footprint so thin drawn lines survive; when enlarging it is bilinear.
+ */
+const resample = (img: GrayImage, rect: { x: number; y: number; w: number; h: number }, width: number, height: number): GrayImage => {
+  const data = new Float32Array(width * height);
+  const at = (x: number, y: number) =>
+    img.data[Math.min(img.height - 1, Math.max(0, y)) * img.width + Math.min(img.width - 1, Math.max(0, x))];
+  const [stepX, stepY] = [rect.w / width, rect.h / height];
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (stepX > 1 || stepY > 1) {
+        let darkest = 1;
+        const [x0, x1] = [Math.floor(rect.x + x * stepX), Math.ceil(rect.x + (x + 1) * stepX)];
+        const [y0, y1] = [Math.floor(rect.y + y * stepY), Math.ceil(rect.y + (y + 1) * stepY)];
+        for (let sy = y0; sy < y1; sy++) for (let sx = x0; sx < x1; sx++) darkest = Math.min(darkest, at(sx, sy));
+        data[y * width + x] = darkest;
+        continue;
+      }
+      const sx = rect.x + (x + 0.5) * stepX - 0.5;
+      const sy = rect.y + (y + 0.5) * stepY - 0.5;
+      const [x0, y0] = [Math.floor(sx), Math.floor(sy)];
+      const [fx, fy] = [sx - x0, sy - y0];
+      data[y * width + x] =
+        at(x0, y0) * (1 - fx) * (1 - fy) + at(x0 + 1, y0) * fx * (1 - fy) +
+        at(x0, y0 + 1) * (1 - fx) * fy + at(x0 + 1, y0 + 1) * fx * fy;
+    }
+  }
+  return { width, height, data };
+};
+
+export const sobelEdges = (img: GrayImage, threshold: number = EDGE_THRESHOLD): Mask => {
+  const { width, height, data } = img;
+  const mask = new Uint8Array(width * height);
+  for (let y = 1; y < height - 1; y++) {
+    for (let x = 1; x < width - 1; x++) {
+      const p = (dx: number, dy: number) => data[(y + dy) * width + x + dx];
+      const gx = p(1, -1) + 2 * p(1, 0) + p(1, 1) - p(-1, -1) - 2 * p(-1, 0) - p(-1, 1);
+      const gy = p(-1, 1) + 2 * p(0, 1) + p(1, 1) - p(-1, -1) - 2 * p(0, -1) - p(1, -1);
+      if (Math.hypot(gx, gy) / 4 > threshold) mask[y * width + x] = 1;
+    }
+  }
+  return mask;
+};
+
+const dilate = (mask: Mask, width: number, height: number, radius: number): Mask => {
+  const out = new Uint8Array(mask.length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!mask[y * width + x]) continue;
+      for (let dy = -radius; dy <= radius; dy++) {
+        for (let dx = -radius; dx <= radius; dx++) {
+          const [nx, ny] = [x + dx, y + dy];
+          if (nx >= 0 && ny >= 0 && nx < width && ny < height) out[ny * width + nx] = 1;
+        }
+      }
+    }
+  }
+  return out;
+};
+
+const invert = (mask: Mask): Mask => mask.map(v => 1 - v) as Mask;
+
+const count = (mask: Mask) => mask.reduce((acc, v) => acc + v, 0);
+
+/** Two-pass 3-4 chamfer distance transform: distance in pixels from each pixel to the nearest set pixel. */
+const distanceTransform = (mask: Mask, width: number, height: number): Float32Array => {
+  const INF = 1e9;
+  const d = new Float32Array(mask.length).map((_, i) => mask[i] ? 0 : INF);
+  const relax = (i: number, j: number, cost: number) => { if (d[j] + cost < d[i]) d[i] = d[j] + cost; };
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = y * width + x;
+      if (x > 0) relax(i, i - 1, 3);
+      if (y > 0) {
+        relax(i, i - width, 3);
+        if (x > 0) relax(i, i - width - 1, 4);
+        if (x < width - 1) relax(i, i - width + 1, 4);
+      }
+    }
+  }
+  for (let y = height - 1; y >= 0; y--) {
+    for (let x = width - 1; x >= 0; x--) {
+      const i = y * width + x;
+      if (x < width - 1) relax(i, i + 1, 3);
+      if (y < height - 1) {
+        relax(i, i + width, 3);
+        if (x < width - 1) relax(i, i + width + 1, 4);
+        if (x > 0) relax(i, i + width - 1, 4);
+      }
+    }
+  }
+  return d.map(v => v / 3);
+};
+
+/** Ink closed over small gaps, with everything the border can reach without crossing ink removed. */
+const silhouette = (ink: Mask, width: number, height: number): Mask => {
+  const closed = invert(dilate(invert(dilate(ink, width, height, 2)), width, height, 2));
+  const outside = new Uint8Array(ink.length);
+  const stack: number[] = [];
+  const push = (x: number, y: number) => {
+    const i = y * width + x;
+    if (!closed[i] && !outside[i]) { outside[i] = 1; stack.push(i); }
+  };
+  for (let x = 0; x < width; x++) { push(x, 0); push(x, height - 1); }
+  for (let y = 0; y < height; y++) { push(0, y); push(width - 1, y); }
+  while (stack.length) {
+    const i = stack.pop()!;
+    const [x, y] = [i % width, Math.floor(i / width)];
+    if (x > 0) push(x - 1, y);
+    if (x < width - 1) push(x + 1, y);
+    if (y > 0) push(x, y - 1);
+    if (y < height - 1) push(x, y + 1);
+  }
+  return invert(outside);
+};
+
+/** Compares two grayscale images that depict the same drawing. */
+export const compareImages = (scan: GrayImage, render: GrayImage): FidelityScore => {
+  const scanInk = inkMask(scan, otsuThreshold(scan));
+  const renderInk = inkMask(render, 0.5);
+  const scanBox = inkBounds(scanInk, scan.width, scan.height);
+  const renderBox = inkBounds(renderInk, render.width, render.height);
+  if (!scanBox || !renderBox) {
+    return { edgeIoU: 0, chamfer: 1, silhouetteIoU: 0, overall: 0, resolution: [0, 0] };
+  }
+
+  const scale = WORK_SIZE / Math.max(scanBox.w, scanBox.h);
+  const width = Math.max(8, Math.round(scanBox.w * scale));
+  const height = Math.max(8, Math.round(scanBox.h * scale));
+  const a = resample(scan, scanBox, width, height);
+  const b = resample(render, renderBox, width, height);
+
+  const edgesA = sobelEdges(a);
+  const edgesB = sobelEdges(b);
+  const countA = count(edgesA);
+  const countB = count(edgesB);
+
+  // Tolerant overlap: edges of each image that land near an edge of the other.
+  const nearA = dilate(edgesA, width, height, EDGE_TOLERANCE);
+  const nearB = dilate(edgesB, width, height, EDGE_TOLERANCE);
+  let matched = 0;
+  for (let i = 0; i < edgesA.length; i++) matched += (edgesA[i] & nearB[i]) + (edgesB[i] & nearA[i]);
+  const edgeIoU = countA + countB > 0 ? matched / (countA + countB) : 0;
+
+  const distA = distanceTransform(edgesA, width, height);
+  const distB = distanceTransform(edgesB, width, height);
+  let [sumAB, sumBA] = [0, 0];
+  for (let i = 0; i < edgesA.length; i++) {
+    if (edgesA[i]) sumAB += distB[i];
+    if (edgesB[i]) sumBA += distA[i];
+  }
+  const diagonal = Math.hypot(width, height);
+  const chamfer = countA && countB ? Math.min(1, ((sumAB / countA + sumBA / countB) / 2) / diagonal) : 1;
+
+  const silA = silhouette(inkMask(a, otsuThreshold(a)), width, height);
+  const silB = silhouette(inkMask(b, 0.5), width, height);
+  let [inter, union] = [0, 0];
+  for (let i = 0; i < silA.length; i++) {
+    inter += silA[i] & silB[i];
+    union += silA[i] | silB[i];
+  }
+  const silhouetteIoU = union > 0 ? inter / union : 0;
+
+  const overall = 0.4 * edgeIoU + 0.3 * silhouetteIoU + 0.3 * Math.max(0, 1 - chamfer / CHAMFER_SCALE);
+  return { edgeIoU, chamfer, silhouetteIoU, overall, resolution: [width, height] };
+};
+
+/**
+ * Rasterizes the SVG at the crop's resolution and scores it against the crop.
+ * Returns undefined when no rasterizer is available in this environment.
+ */
+export const scoreFidelity = async (
+  svg: string,
+  crop: ImageData,
+  rasterizer: Rasterizer | null = getDefaultRasterizer()
+): Promise<FidelityScore | undefined> => {
+  if (!rasterizer) return undefined;
+  const scan = await rasterizer.decodeImage(crop);
+  const scale = Math.min(1, RASTER_LIMIT / Math.max(scan.width, scan.height));
+  // Dimension lines are annotation added after the fact; they have no counterpart in the scan.
+  const render = await rasterizer.rasterizeSvg(stripDimensions(svg), Math.round(scan.width * scale), Math.round(scan.height * scale));
+  return compareImages(scan, render);
+};
+
+/** Bounding box of the drawn ink in a scan, in image pixels. Null when nothing is drawn or no rasterizer is available. */
+export const scanInkBounds = async (
+  image: ImageData,
+  rasterizer: Rasterizer | null = getDefaultRasterizer()
+): Promise<{ x: number; y: number; w: number; h: number } | null> => {
+  if (!rasterizer) return null;
+  const scan = await rasterizer.decodeImage(image);
+  return inkBounds(inkMask(scan, otsuThreshold(scan)), scan.width, scan.height);
+};
+
+/** Change in overall fidelity from one revision to the next; positive means the drawing got closer to the scan. */
+export const fidelityDelta = (before?: FidelityScore, after?: FidelityScore): number | undefined =>
+  before && after ? after.overall - before.overall : undefined;
@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { AuditReport } from '../types';
+import { GenerateContentRequest, ModelProvider } from './modelProvider';
+import { SHIP_TYPES } from './shipTemplates';
+import { AuditResponseError } from './auditFindings';
+import { installNodeDom } from '../cli/nodeDom';
+import { auditDraft, detectViews, runViewPipeline, verifyRepairs } from './geminiService';
+
+const IMAGE = { data: 'data:image/png;base64,AAAA', mimeType: 'image/png' };
+
+/** Answers every call with the next canned text and keeps the requests it was sent. */
+const fakeProvider = (...responses: string[]) => {
+  const requests: GenerateContentRequest[] = [];
+  const provider: ModelProvider = {
+    name: 'fake',
+    generateContent: async (request) => {
+      requests.push(request);
+      return { text: responses[Math.min(requests.length, responses.length) - 1] };
+    }
+  };
+  return { provider, requests };
+};
+
+const promptText = (request: GenerateContentRequest) =>
+  request.parts.map(part => 'text' in part ? part.text : '').join('\n');
+
+describe('detectViews', () => {
+  it('lists every ship type in the prompt', async () => {
+    const { provider, requests } = fakeProvider(JSON.stringify({ views: [] }));
+    await detectViews(IMAGE, provider);
+    const text = promptText(requests[0]);
+    expect(text).not.toContain('${');
+    for (const type of SHIP_TYPES) expect(text).toContain(type);
+  });
+});
+
+describe('auditDraft', () => {
+  it('reads structured findings', async () => {
+    const { provider } = fakeProvider('```json\n' + JSON.stringify({
+      summary: 'Funnel missing.',
+      findings: [
+        { severity: 'critical', category: 'missing_feature', groupId: 'superstructure', description: 'No funnel.', checklistId: ' funnels ' },
+        { severity: 'minor', category: 'style_violation', groupId: 'root', description: 'Stroke too thick.' }
+      ]
+    }) + '\n```');
+    const report = await auditDraft(provider, IMAGE, '<svg/>');
+    expect(report.summary).toBe('Funnel missing.');
+    expect(report.findings).toMatchObject([
+      { id: 'F1', severity: 'critical', groupId: 'superstructure', checklistId: 'funnels', status: 'open' },
+      { id: 'F2', checklistId: undefined }
+    ]);
+  });
+
+  it('throws on a reply that is not JSON instead of reporting a clean audit', async () => {
+    const { provider } = fakeProvider('The drawing looks mostly fine.');
+    await expect(auditDraft(provider, IMAGE, '<svg/>')).rejects.toThrow(AuditResponseError);
+  });
+
+  it('throws on a reply without a findings list', async () => {
+    const { provider } = fakeProvider(JSON.stringify({ summary: 'Looks fine.' }));
+    await expect(auditDraft(provider, IMAGE, '<svg/>')).rejects.toThrow(AuditResponseError);
+  });
+});
+
+describe('verifyRepairs', () => {
+  const audit: AuditReport = {
+    summary: 'Two issues.',
+    verified: false,
+    findings: [
+      { id: 'F1', severity: 'major', category: 'missing_feature', groupId: 'hull', description: 'No bulbous bow.', status: 'open' },
+      { id: 'F2', severity: 'minor', category: 'style_violation', groupId: 'root', description: 'Stroke too thick.', status: 'open' }
+    ]
+  };
+
+  it('applies statuses and keeps findings the verifier skipped open', async () => {
+    const { provider } = fakeProvider(JSON.stringify({ results: [{ id: 'F1', status: 'resolved' }] }));
+    const report = await verifyRepairs(provider, IMAGE, '<svg/>', audit);
+    expect(report.verified).toBe(true);
+    expect(report.findings.map(f => f.status)).toEqual(['resolved', 'open']);
+  });
+
+  it('throws on a reply that is not JSON instead of marking the findings checked', async () => {
+    const { provider } = fakeProvider('All fixed!');
+    await expect(verifyRepairs(provider, IMAGE, '<svg/>', audit)).rejects.toThrow(AuditResponseError);
+  });
+});
+
+describe('runViewPipeline', () => {
+  beforeAll(() => installNodeDom());
+
+  const drawing = (hull: string) =>
+    `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 20"><g id="hull">${hull}</g><g id="superstructure"><rect x="40" y="2" width="10" height="6"/></g></svg>`;
+  const DRAFT = drawing('<rect x="0" y="8" width="100" height="10"/>');
+  const HEALED = drawing('<path d="M0 8 L100 8 L95 18 L5 18 Z"/>');
+  const finding = (description: string) => ({ severity: 'major', category: 'missing_feature', groupId: 'hull', description });
+  const VIEW = { label: 'Side Profile', viewType: 'side' as const };
+
+  /** Drafts DRAFT, heals to HEALED, and audits each drawing with the given findings. */
+  const pipelineProvider = (healedFindings: string[]) => {
+    const audits: string[] = [];
+    const provider: ModelProvider = {
+      name: 'fake',
+      generateContent: async (request) => {
+        const text = promptText(request);
+        if (text.includes('VECTOR_DRAFT_CODE')) {
+          audits.push(text);
+          const findings = text.includes('<path') ? healedFindings.map(finding) : [finding('Hull has no sheer.')];
+          return { text: JSON.stringify({ summary: `${findings.length} issues.`, findings }) };
+        }
+        if (text.includes('FINDINGS_TO_VERIFY')) return { text: JSON.stringify({ results: [{ id: 'F1', status: 'resolved' }] }) };
+        if (text.includes('DRAFT_SVG')) return { text: HEALED };
+        return { text: DRAFT };
+      }
+    };
+    return { provider, audits };
+  };
+  const options = { maxRounds: 3, stopAtSeverity: 'major' as const, minImprovement: 1 };
+
+  it('scores a heal with a fresh audit and stops when the new defects cancel out the fixes', async () => {
+    const { provider, audits } = pipelineProvider(['Bow is missing its anchor.']);
+    const result = await runViewPipeline('', IMAGE, VIEW, () => {}, provider, options);
+    expect(audits).toHaveLength(2);
+    expect(result.stopReason).toBe('no_improvement');
+    expect(result.rounds).toMatchObject([{ scoreBefore: 2, scoreAfter: 2, rolledBack: false }]);
+    expect(result.rounds[0].audit.findings[0].status).toBe('resolved');
+  });
+
+  it('rolls back a heal that the fresh audit scores worse', async () => {
+    const { provider } = pipelineProvider(['Bow is missing its anchor.', 'Stern is truncated.']);
+    const result = await runViewPipeline('', IMAGE, VIEW, () => {}, provider, options);
+    expect(result.stopReason).toBe('regression');
+    expect(result.rounds).toMatchObject([{ scoreBefore: 2, scoreAfter: 4, rolledBack: true }]);
+    expect(result.content).not.toContain('<path');
+  });
+
+  it('converges when the fresh audit has nothing blocking', async () => {
+    const { provider, audits } = pipelineProvider([]);
+    const result = await runViewPipeline('', IMAGE, VIEW, () => {}, provider, options);
+    expect(audits).toHaveLength(2);
+    expect(result.stopReason).toBe('converged');
+    expect(result.rounds).toMatchObject([{ scoreBefore: 2, scoreAfter: 0 }]);
+    expect(result.content).toContain('<path');
+  });
+});
@@ -3,238 +3,801 @@
  * SPDX-License-Identifier: Apache-2.0
 */
 
-import { GoogleGenAI, Type } from "@google/genai";
-import { ImageData, DetectedViews, BoundingBox, ViewType } from "../types";
-
-const PRO_MODEL = 'gemini-3-pro-preview';
-const FLASH_MODEL = 'gemini-3-flash-preview';
+import {
+  ImageData, DetectedView, BoundingBox, ViewType, SvgValidationReport, AuditReport, AuditFinding, FindingStatus,
+  PipelineLoopOptions, PipelineRound, LoopStopReason, ViewPipelineResult, ConsistencyReport, DraftCandidate,
+  PipelineCheckpoint, PipelineStage, WarshipProject, FidelityScore, PipelineConfig
+} from "../types";
+import { validateSvg, describeIssues, requiredGroupsFor, SvgValidationError } from "./svgValidator";
+import { validateAndNormalize } from "./svgPostProcess";
+import { VIEW_TYPES, VIEW_TYPE_LABELS, contextInstructionFor, isViewType } from "./viewTypes";
+import { ModelProvider, ModelPart, ResponseSchema, generateWithRetry, getDefaultProvider, imagePart, isAbortError } from "./modelProvider";
+import {
+  SEVERITIES, CATEGORIES, STATUSES, parseJsonResponse, parseInspectorResponse, normalizeFindings, formatFindings, severityScore, blockingFindings
+} from "./auditFindings";
+import { formatStationTargets } from "./viewConsistency";
+import { scoreFidelity } from "./fidelity";
+import { Rasterizer, getDefaultRasterizer } from "./rasterizer";
+import { candidateRankScore, rankCandidates } from "./candidates";
+import { buildScopedRequest, spliceFragments, ScopedFragment } from "./scopedEdit";
+import { annotateStep, createTrace, recordStep, traceStep } from "./pipelineTrace";
+import { DEFAULT_PIPELINE_CONFIG, roleRequest } from "./pipelineConfig";
+import { lockedLayerIds } from "./svgLayers";
+import { SHIP_TYPES, formatChecklist, isShipType, reconcileShipTypes, shipInstructionFor } from "./shipTemplates";
 
 // --- IMAGE PROCESSING TOOLING ---
 
-const cropImage = async (base64Data: string, box: BoundingBox): Promise<ImageData> => {
-  return new Promise((resolve, reject) => {
-    const img = new Image();
-    img.onload = () => {
-      const canvas = document.createElement('canvas');
-      // Bounding box is 0-1000 scale from Gemini
-      const width = img.naturalWidth;
-      const height = img.naturalHeight;
-
-      const x = (box.xmin / 1000) * width;
-      const y = (box.ymin / 1000) * height;
-      const w = ((box.xmax - box.xmin) / 1000) * width;
-      const h = ((box.ymax - box.ymin) / 1000) * height;
-
-      // Add small padding
-      const padding = 20;
-      canvas.width = w + (padding * 2);
-      canvas.height = h + (padding * 2);
-
-      const ctx = canvas.getContext('2d');
-      if (!ctx) {
-        reject(new Error("Could not get canvas context"));
-        return;
-      }
+export const DEFAULT_CROP_PADDING = DEFAULT_PIPELINE_CONFIG.cropPadding;
 
-      // White background for cleaner vectorization
-      ctx.fillStyle = '#FFFFFF';
-      ctx.fillRect(0, 0, canvas.width, canvas.height);
-      
-      // Draw cropped portion
-      ctx.drawImage(img, x, y, w, h, padding, padding, w, h);
+/** Crops a 0-1000 box out of a data-URL image with whichever image backend is installed. */
+export const cropImage = async (
+  base64Data: string,
+  box: BoundingBox,
+  padding: number = DEFAULT_CROP_PADDING,
+  rasterizer: Rasterizer | null = getDefaultRasterizer()
+): Promise<ImageData> => {
+  if (!rasterizer) throw new Error("No image backend is available to crop views; install one with setDefaultRasterizer.");
+  const mimeType = base64Data.match(/^data:([^;,]+)/)?.[1] ?? 'image/png';
+  return rasterizer.cropImage({ data: base64Data, mimeType }, box, padding);
+};
 
-      resolve({
-        data: canvas.toDataURL('image/jpeg', 0.95),
-        mimeType: 'image/jpeg'
-      });
-    };
-    img.onerror = (e) => reject(e);
-    img.src = base64Data;
-  });
+const BOX_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    ymin: { type: 'integer' },
+    xmin: { type: 'integer' },
+    ymax: { type: 'integer' },
+    xmax: { type: 'integer' },
+  }
 };
 
-export const detectAndCropViews = async (imageData: ImageData): Promise<{ side?: ImageData, top?: ImageData }> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  
-  const response = await ai.models.generateContent({
-    model: FLASH_MODEL,
-    contents: {
-      parts: [
-        { inlineData: { data: imageData.data.split(',')[1], mimeType: imageData.mimeType } },
-        { text: "Identify the bounding boxes [0-1000] for the 'Side Profile View' and the 'Overhead/Top Deck View' of the ship in this schematic." }
-      ]
-    },
-    config: {
-      responseMimeType: "application/json",
-      responseSchema: {
-        type: Type.OBJECT,
-        properties: {
-          sideViewFound: { type: Type.BOOLEAN },
-          sideViewBox: {
-            type: Type.OBJECT,
-            properties: {
-              ymin: { type: Type.INTEGER },
-              xmin: { type: Type.INTEGER },
-              ymax: { type: Type.INTEGER },
-              xmax: { type: Type.INTEGER },
-            }
-          },
-          topViewFound: { type: Type.BOOLEAN },
-          topViewBox: {
-            type: Type.OBJECT,
+/**
+ * Asks Flash for every distinct view on the sheet, in reading order, and the type of each ship. Boxes are on a 0-1000 scale.
+ */
+export const detectViews = async (
+  imageData: ImageData,
+  provider: ModelProvider = getDefaultProvider(),
+  signal?: AbortSignal,
+  config: PipelineConfig = DEFAULT_PIPELINE_CONFIG
+): Promise<DetectedView[]> => {
+  const response = await generateWithRetry(provider, {
+    ...roleRequest(config, 'detect'),
+    parts: [
+      imagePart(imageData),
+      { text: `Identify the bounding boxes [0-1000] of every distinct view in this schematic: side profiles, overhead deck plans, bow and stern elevations, midship cross-sections, inboard profiles and any other drawings. If the sheet shows several ships, number them with shipIndex starting at 0. List views in reading order, top to bottom then left to right, with a short descriptive label for each. Classify each ship's type as ${SHIP_TYPES.join(', ')}, or unknown when the drawing does not make it clear.` }
+    ],
+    responseSchema: {
+      type: 'object',
+      properties: {
+        views: {
+          type: 'array',
+          items: {
+            type: 'object',
             properties: {
-              ymin: { type: Type.INTEGER },
-              xmin: { type: Type.INTEGER },
-              ymax: { type: Type.INTEGER },
-              xmax: { type: Type.INTEGER },
-            }
+              label: { type: 'string' },
+              viewType: { type: 'string', enum: VIEW_TYPES },
+              shipIndex: { type: 'integer' },
+              shipType: { type: 'string', enum: [...SHIP_TYPES, 'unknown'] },
+              box: BOX_SCHEMA
+            },
+            required: ['label', 'viewType', 'box']
           }
         }
-      }
-    }
+      },
+      required: ['views']
+    },
+    signal
   });
 
-  const result = JSON.parse(response.text || "{}");
-  const crops: { side?: ImageData, top?: ImageData } = {};
+  const { views = [] } = parseJsonResponse<{ views?: Partial<DetectedView>[] }>(response.text, {});
+  return reconcileShipTypes(views
+    .filter(v => v.box && v.box.xmax > v.box.xmin && v.box.ymax > v.box.ymin)
+    .map(v => {
+      const viewType = isViewType(v.viewType) ? v.viewType : 'unknown';
+      return {
+        id: crypto.randomUUID(),
+        label: v.label?.trim() || VIEW_TYPE_LABELS[viewType],
+        viewType,
+        box: v.box!,
+        shipIndex: v.shipIndex ?? 0,
+        shipType: isShipType(v.shipType) ? v.shipType : undefined
+      };
+    }));
+};
 
-  if (result.sideViewFound && result.sideViewBox) {
-    crops.side = await cropImage(imageData.data, result.sideViewBox);
-  }
-  
-  if (result.topViewFound && result.topViewBox) {
-    crops.top = await cropImage(imageData.data, result.topViewBox);
+/** Crops every view, keyed by view id. */
+export const cropViews = async (
+  imageData: ImageData,
+  views: DetectedView[],
+  padding: number = DEFAULT_CROP_PADDING,
+  signal?: AbortSignal
+): Promise<Record<string, ImageData>> => {
+  const crops: Record<string, ImageData> = {};
+  for (const view of views) {
+    signal?.throwIfAborted();
+    crops[view.id] = await cropImage(imageData.data, view.box, padding);
   }
-
   return crops;
 };
 
+/**
+ * Detection and cropping in one step, for callers that do not review the boxes.
+ */
+export const detectAndCropViews = async (
+  imageData: ImageData,
+  provider: ModelProvider = getDefaultProvider(),
+  signal?: AbortSignal,
+  config: PipelineConfig = DEFAULT_PIPELINE_CONFIG
+): Promise<{ views: DetectedView[], crops: Record<string, ImageData> }> => {
+  const views = await detectViews(imageData, provider, signal, config);
+  return { views, crops: await cropViews(imageData, views, config.cropPadding, signal) };
+};
+
 // --- GENERATION PIPELINE ---
 
+/** What the pipeline needs to know about the view it is converting. */
+export type ViewSpec = Pick<DetectedView, 'label' | 'viewType' | 'contextInstruction' | 'shipType'>;
+
+export interface DraftVariant {
+  label: string;
+  temperature: number;
+  emphasis?: string;
+}
+
+/** Best-of-N runs cycle through these so candidates differ in more than sampling noise. */
+export const DRAFT_VARIANTS: DraftVariant[] = [
+  { label: 'Baseline', temperature: 0.2 },
+  { label: 'Proportions', temperature: 0.4, emphasis: 'Prioritize exact outline and proportions over fine detail.' },
+  { label: 'Detail', temperature: 0.6, emphasis: 'Prioritize completeness: capture every fitting, opening and small fixture visible in the scan.' },
+  { label: 'Minimal', temperature: 0.3, emphasis: 'Prefer few, clean primitives; merge fragmented strokes into continuous paths.' },
+  { label: 'Exploratory', temperature: 0.9 }
+];
+
 /**
- * Stage 1: The Lead Architect (Pro) creates the initial draft.
+ * Stage 1: The Lead Architect (Pro) creates the initial draft. Without a variant it samples at the configured temperature.
  */
-const generateDraft = async (ai: any, prompt: string, imageData: ImageData, viewType: ViewType): Promise<string> => {
-  const contextInstruction = viewType === 'side' 
-    ? "FOCUS: Side Profile. Pay attention to mast heights, funnel rakes, hull sheer lines, and freeboard." 
-    : "FOCUS: Top/Overhead Deck Plan. Pay attention to beam width, turret rotation circles, deck planking patterns, and lifeboats.";
-
-  const systemPrompt = `
-    You are the Lead Naval Architect. Your goal is to reconstruct technical drawings into semantic SVG schematics.
-    ${contextInstruction}
-    
-    CORE DIRECTIVES:
-    1. **Semantic Grouping**: Use <g> tags with descriptive IDs (e.g., <g id="hull">, <g id="superstructure">).
-    2. **Geometric Logic**: "Hallucinate" the perfect engineering geometry behind the fuzzy pixels.
-    3. **Viewport**: Ensure the viewBox perfectly frames the ship.
-    4. **Style**: Use stroke="black" fill="none" stroke-width="1" vector-effect="non-scaling-stroke".
-  `;
-
-  const response = await ai.models.generateContent({
-    model: PRO_MODEL,
-    contents: {
-      parts: [
-        { inlineData: { data: imageData.data.split(',')[1], mimeType: imageData.mimeType } },
-        { text: `Reconstruct this ${viewType} view. ${prompt}` }
-      ]
-    },
-    config: {
-      systemInstruction: systemPrompt,
-      thinkingConfig: { thinkingBudget: 16000 },
-      temperature: 0.2
-    }
+const generateDraft = async (
+  provider: ModelProvider,
+  prompt: string,
+  imageData: ImageData,
+  view: ViewSpec,
+  variant?: DraftVariant,
+  signal?: AbortSignal,
+  onText?: (textSoFar: string) => void,
+  config: PipelineConfig = DEFAULT_PIPELINE_CONFIG
+): Promise<string> => {
+  const viewContext = [contextInstructionFor(view.viewType, view.contextInstruction), shipInstructionFor(view.shipType)].filter(Boolean).join('\n    ');
+  const role = roleRequest(config, 'draft', { viewContext });
+
+  const response = await generateWithRetry(provider, {
+    ...role,
+    parts: [
+      imagePart(imageData),
+      { text: `Reconstruct this ${view.label} (${view.viewType} view). ${prompt}${variant?.emphasis ? `\n\n${variant.emphasis}` : ''}` }
+    ],
+    temperature: variant?.temperature ?? role.temperature,
+    signal,
+    onText
   });
   return extractSvg(response.text);
 };
 
+const AUDIT_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    summary: { type: 'string', description: 'One or two sentence overall assessment.' },
+    findings: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          severity: { type: 'string', enum: SEVERITIES },
+          category: { type: 'string', enum: CATEGORIES },
+          groupId: { type: 'string', description: 'id of the affected <g>, or "root" if document-wide.' },
+          description: { type: 'string' },
+          checklistId: { type: 'string', description: 'id of the FEATURE_CHECKLIST item this finding reports; omit for anything else.' }
+        },
+        required: ['severity', 'category', 'groupId', 'description']
+      }
+    }
+  },
+  required: ['summary', 'findings']
+};
+
+const VERIFICATION_SCHEMA: ResponseSchema = {
+  type: 'object',
+  properties: {
+    results: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          status: { type: 'string', enum: STATUSES },
+          note: { type: 'string' }
+        },
+        required: ['id', 'status']
+      }
+    }
+  },
+  required: ['results']
+};
+
 /**
- * Stage 2: The Inspector (Flash) performs an adversarial audit.
+ * Stage 2: The Inspector (Flash) performs an adversarial audit, working through the ship type's feature checklist when there is one.
+ * A reply that cannot be read throws an AuditResponseError rather than passing as a clean audit.
  */
-export const auditDraft = async (ai: any, originalImage: ImageData, draftSvg: string): Promise<string> => {
-  const response = await ai.models.generateContent({
-    model: FLASH_MODEL,
-    contents: {
-      parts: [
-        { inlineData: { data: originalImage.data.split(',')[1], mimeType: originalImage.mimeType } },
-        { text: `SOURCE_IMAGE: (Attached)\n\nVECTOR_DRAFT_CODE:\n${draftSvg.slice(0, 50000)}... \n\nConduct a technical audit. List missing features or distortions.` }
-      ]
-    },
-    config: {
-      systemInstruction: "You are the Inspector General. Find flaws in the vector conversion.",
-      thinkingConfig: { thinkingBudget: 4000 },
-    }
+export const auditDraft = async (
+  provider: ModelProvider,
+  originalImage: ImageData,
+  draftSvg: string,
+  signal?: AbortSignal,
+  config: PipelineConfig = DEFAULT_PIPELINE_CONFIG,
+  checklist: string = '' // see formatChecklist
+): Promise<AuditReport> => {
+  const response = await generateWithRetry(provider, {
+    ...roleRequest(config, 'audit'),
+    parts: [
+      imagePart(originalImage),
+      { text: `SOURCE_IMAGE: (Attached)\n\nVECTOR_DRAFT_CODE:\n${draftSvg.slice(0, 50000)}... \n\nConduct a technical audit. Report each missing feature, proportion error, topology defect or style violation as a separate finding.${checklist ? `\n\n${checklist}` : ''}` }
+    ],
+    responseSchema: AUDIT_SCHEMA,
+    signal
   });
-  return response.text || "No major issues found.";
+  const raw = parseInspectorResponse<{ summary?: string, findings: Partial<AuditFinding>[] }>(response.text, 'findings');
+  return {
+    summary: raw.summary || "No major issues found.",
+    findings: normalizeFindings(raw.findings),
+    verified: false
+  };
 };
 
 /**
  * Stage 3: The Healer (Pro) fixes the draft based on the audit.
  */
-const healDraft = async (ai: any, originalImage: ImageData, draftSvg: string, auditReport: string): Promise<string> => {
-  const response = await ai.models.generateContent({
-    model: PRO_MODEL,
-    contents: {
-      parts: [
-        { inlineData: { data: originalImage.data.split(',')[1], mimeType: originalImage.mimeType } },
-        { text: `DRAFT_SVG:\n${draftSvg}\n\nINSPECTOR_AUDIT_REPORT:\n${auditReport}\n\nExecute the repairs.` }
-      ]
-    },
-    config: {
-      systemInstruction: "You are the Senior Correction Engineer. Fix the SVG based on the audit without regression.",
-      thinkingConfig: { thinkingBudget: 24000 },
-      temperature: 0.1
-    }
+const healDraft = async (
+  provider: ModelProvider,
+  originalImage: ImageData,
+  draftSvg: string,
+  audit: AuditReport,
+  signal?: AbortSignal,
+  config: PipelineConfig = DEFAULT_PIPELINE_CONFIG
+): Promise<string> => {
+  const response = await generateWithRetry(provider, {
+    ...roleRequest(config, 'heal'),
+    parts: [
+      imagePart(originalImage),
+      { text: `DRAFT_SVG:\n${draftSvg}\n\nINSPECTOR_AUDIT_REPORT:\n${audit.summary}\n\nFINDINGS:\n${formatFindings(audit.findings)}\n\nExecute the repairs.` }
+    ],
+    signal
+  });
+  return extractSvg(response.text);
+};
+
+/**
+ * Stage 4: The Inspector (Flash) checks the healed SVG against each original finding.
+ * Like the audit, an unreadable reply throws instead of leaving the findings unchecked.
+ */
+export const verifyRepairs = async (
+  provider: ModelProvider,
+  originalImage: ImageData,
+  healedSvg: string,
+  audit: AuditReport,
+  signal?: AbortSignal,
+  config: PipelineConfig = DEFAULT_PIPELINE_CONFIG
+): Promise<AuditReport> => {
+  if (audit.findings.length === 0) return { ...audit, verified: true };
+
+  const response = await generateWithRetry(provider, {
+    ...roleRequest(config, 'verify'),
+    parts: [
+      imagePart(originalImage),
+      { text: `HEALED_SVG:\n${healedSvg.slice(0, 50000)}\n\nFINDINGS_TO_VERIFY:\n${formatFindings(audit.findings)}\n\nFor each finding id, state whether the healed SVG resolved it, partially resolved it, or left it open.` }
+    ],
+    responseSchema: VERIFICATION_SCHEMA,
+    signal
+  });
+  const { results } = parseInspectorResponse<{ results: { id: string, status: FindingStatus, note?: string }[] }>(response.text, 'results');
+  const byId = new Map(results.map(r => [r.id, r]));
+
+  return {
+    ...audit,
+    verified: true,
+    findings: audit.findings.map(f => {
+      const result = byId.get(f.id);
+      // A finding the verifier skipped is not assumed fixed.
+      if (!result || !STATUSES.includes(result.status)) return { ...f, status: 'open', verificationNote: 'Not confirmed by verification pass.' };
+      return { ...f, status: result.status, verificationNote: result.note };
+    })
+  };
+};
+
+/**
+ * Stage 3b: The Healer (Pro) repairs output that failed structural validation.
+ */
+const repairSvg = async (
+  provider: ModelProvider,
+  originalImage: ImageData,
+  brokenSvg: string,
+  report: SvgValidationReport,
+  requiredGroups: string[],
+  signal?: AbortSignal,
+  config: PipelineConfig = DEFAULT_PIPELINE_CONFIG
+): Promise<string> => {
+  const response = await generateWithRetry(provider, {
+    ...roleRequest(config, 'repair'),
+    parts: [
+      imagePart(originalImage),
+      { text: `BROKEN_SVG:\n${brokenSvg.slice(0, 50000)}\n\nVALIDATION_ERRORS:\n${describeIssues(report)}\n\nReturn a single complete, well-formed <svg> with a valid viewBox and these groups: ${requiredGroups.map(id => `<g id="${id}">`).join(', ')}. No scripts, event handlers or external references.` }
+    ],
+    signal
   });
   return extractSvg(response.text);
 };
 
+/**
+ * Validates and normalizes a stage's output and, if it is unusable, gives the Healer one chance to repair it.
+ */
+const ensureValidSvg = async (
+  provider: ModelProvider,
+  originalImage: ImageData,
+  svg: string,
+  onStatusChange: (status: string) => void,
+  viewType: ViewType,
+  signal?: AbortSignal,
+  config: PipelineConfig = DEFAULT_PIPELINE_CONFIG
+): Promise<SvgValidationReport> => {
+  const requiredGroups = requiredGroupsFor(viewType);
+  const report = validateAndNormalize(svg, requiredGroups);
+  if (report.valid) return report;
+
+  onStatusChange(`REPAIRING_${viewType.toUpperCase()}`);
+  return validateAndNormalize(await repairSvg(provider, originalImage, report.sanitized ?? svg, report, requiredGroups, signal, config), requiredGroups);
+};
+
 const extractSvg = (text: string): string => {
   const match = text.match(/<svg[\s\S]*?<\/svg>/i);
   return match ? match[0] : text.replace(/```(xml|svg)?/g, '').trim();
 };
 
+export const DEFAULT_LOOP_OPTIONS: PipelineLoopOptions = {
+  maxRounds: 3,
+  stopAtSeverity: 'major',
+  minImprovement: 1,
+  maxFidelityDrop: 0.05
+};
+
+export class PipelineStageError extends Error {
+  constructor(message: string, public readonly checkpoint: PipelineCheckpoint, options?: { cause?: unknown }) {
+    super(message, options);
+    this.name = 'PipelineStageError';
+  }
+}
+
+export interface PipelineControl {
+  signal?: AbortSignal;
+  resume?: PipelineCheckpoint; // continue an interrupted run instead of starting over
+  onDraft?: (textSoFar: string) => void; // the Architect's raw draft as it streams in
+  config?: PipelineConfig; // models and prompts for every stage; a resumed run keeps its checkpoint's
+}
+
+const STAGE_LABELS: Record<PipelineStage, string> = { draft: 'Drafting', audit: 'Audit', heal: 'Heal', verify: 'Verification' };
+
 /**
  * Orchestrates the full adversarial pipeline for a SPECIFIC view.
+ * After the draft, audit -> heal -> verify repeats until the Inspector has nothing blocking left,
+ * a round fails to improve the score, a heal regresses, or the round budget runs out.
+ * Each heal is scored by a fresh audit, which becomes the next round's audit.
+ * Model calls retry transient errors on their own; a stage that still fails, or a cancelled run,
+ * throws a PipelineStageError whose checkpoint holds every stage completed so far.
+ * Every stage is recorded in the result's trace: the calls it made, their timing and usage, and its output.
  */
 export const runViewPipeline = async (
   prompt: string, 
   imageData: ImageData,
-  viewType: ViewType,
-  onStatusChange: (status: string) => void
-): Promise<{ content: string, auditReport: string }> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
+  view: ViewSpec,
+  onStatusChange: (status: string) => void,
+  provider: ModelProvider = getDefaultProvider(),
+  loopOptions: PipelineLoopOptions = DEFAULT_LOOP_OPTIONS,
+  candidate?: DraftCandidate, // start healing from this already-audited draft instead of drafting
+  control: PipelineControl = {}
+): Promise<ViewPipelineResult> => {
+  const { viewType } = view;
+  const tag = viewType.toUpperCase();
+  const checklist = formatChecklist(view.shipType, viewType);
+  const { signal, resume } = control;
+  if (resume) ({ prompt, loopOptions } = resume);
+  const config = resume?.config ?? control.config ?? DEFAULT_PIPELINE_CONFIG;
+
+  // Progress is recorded as each stage completes so an interruption can hand it back.
+  const state: Omit<PipelineCheckpoint, 'stage' | 'error' | 'aborted' | 'updatedAt'> = resume
+    ? { ...resume, rounds: [...resume.rounds], config }
+    : { prompt, loopOptions, rounds: [], config };
+  const trace = state.trace = state.trace
+    ? { ...state.trace, steps: [...state.trace.steps], finishedAt: undefined }
+    : createTrace(view.label, viewType, provider.name);
+  let stage: PipelineStage = 'draft';
+
+  // Raster fidelity is advisory: environments without a rasterizer, or renders that fail, just skip it.
+  const measure = (svg: string) => scoreFidelity(svg, imageData).catch(() => undefined);
+
+  // Validates a draft or heal (repairing it if needed) and scores the usable result.
+  const finishSvg = async (traced: ModelProvider, svg: string) => {
+    const report = await ensureValidSvg(traced, imageData, svg, onStatusChange, viewType, signal, config);
+    return { report, fidelity: report.valid ? await measure(report.sanitized!) : undefined };
+  };
+  const svgOutput = ({ report, fidelity }: { report: SvgValidationReport, fidelity?: FidelityScore }) => ({
+    svg: report.sanitized, fidelity, note: report.valid ? undefined : describeIssues(report)
+  });
+
+  try {
+    if (!state.draft) {
+      let draft: { report: SvgValidationReport, fidelity?: FidelityScore };
+      if (candidate?.validation) {
+        draft = { report: candidate.validation, fidelity: candidate.fidelity };
+        recordStep(trace, 'draft', undefined, {
+          svg: candidate.content, fidelity: candidate.fidelity, note: `Candidate "${candidate.variant}" from best-of-N drafting.`
+        });
+      } else {
+        onStatusChange(`DRAFTING_${tag}`);
+        draft = await traceStep(trace, 'draft', undefined, provider,
+          async traced => finishSvg(traced, await generateDraft(traced, prompt, imageData, view, undefined, signal, control.onDraft, config)), svgOutput);
+      }
+      if (!draft.report.valid) {
+        throw new SvgValidationError(`Architect could not produce a valid ${view.label} SVG:\n${describeIssues(draft.report)}`, draft.report);
+      }
+      state.draft = draft.report;
+      state.current = draft.report;
+      state.currentFidelity = draft.fidelity;
+    }
+    const { rounds } = state;
+    let stopReason: LoopStopReason = 'max_rounds';
+
+    for (let index = rounds.length + 1; index <= Math.max(1, loopOptions.maxRounds); index++) {
+      const current = state.current!.sanitized!;
+      const currentFidelity = state.currentFidelity;
+
+      if (!state.audit) {
+        stage = 'audit';
+        onStatusChange(`AUDITING_${tag}_R${index}`);
+        // A candidate was audited when it was ranked; reuse that audit for the first round.
+        if (index === 1 && candidate) {
+          state.audit = candidate.audit;
+          recordStep(trace, 'audit', index, { audit: candidate.audit, note: 'Reused from candidate ranking.' });
+        } else {
+          state.audit = await traceStep(trace, 'audit', index, provider, traced => auditDraft(traced, imageData, current, signal, config, checklist), audit => ({ audit }));
+        }
+        state.draftAudit ??= state.audit;
+      }
+      const audit = state.audit;
+      const scoreBefore = severityScore(audit.findings);
+
+      if (blockingFindings(audit.findings, loopOptions.stopAtSeverity).length === 0) {
+        rounds.push({
+          index, input: current, audit, result: current, scoreBefore, scoreAfter: scoreBefore, rolledBack: false,
+          fidelityBefore: currentFidelity, fidelityAfter: currentFidelity
+        });
+        state.audit = undefined;
+        stopReason = 'converged';
+        break;
+      }
+
+      if (!state.healed) {
+        stage = 'heal';
+        onStatusChange(`HEALING_${tag}_R${index}`);
+        const healed = await traceStep(trace, 'heal', index, provider,
+          async traced => finishSvg(traced, await healDraft(traced, imageData, current, audit, signal, config)), svgOutput);
+        state.healedFidelity = healed.fidelity;
+        state.healed = healed.report;
+      }
+      const healedReport = state.healed;
+      const healedFidelity = state.healedFidelity;
+
+      // Roll back heals that are unusable or that drop semantic groups the input already had.
+      const lostGroups = healedReport.valid
+        ? state.current!.groupIds.filter(id => !healedReport.groupIds.includes(id))
+        : [];
+      const fidelityDrop = currentFidelity && healedFidelity ? currentFidelity.overall - healedFidelity.overall : 0;
+      let rollbackReason = !healedReport.valid
+        ? 'Heal output was invalid and was discarded.'
+        : lostGroups.length > 0 ? `Heal dropped groups: ${lostGroups.join(', ')}.`
+        : loopOptions.maxFidelityDrop !== undefined && fidelityDrop > loopOptions.maxFidelityDrop
+          ? `Heal reduced raster fidelity from ${(currentFidelity!.overall * 100).toFixed(0)}% to ${(healedFidelity!.overall * 100).toFixed(0)}%.`
+          : undefined;
+
+      // A fresh audit scores the heal, so defects it introduced count against it; it also seeds the next round.
+      if (!rollbackReason && !state.healedAudit) {
+        stage = 'audit';
+        onStatusChange(`AUDITING_${tag}_R${index}`);
+        state.healedAudit = await traceStep(trace, 'audit', index, provider,
+          traced => auditDraft(traced, imageData, healedReport.sanitized!, signal, config, checklist), audit => ({ audit, note: 'Audit of the healed draft.' }));
+      }
+      const healedAudit = state.healedAudit;
+      const scoreAfter = healedAudit ? severityScore(healedAudit.findings) : scoreBefore;
+      if (!rollbackReason && scoreAfter > scoreBefore) {
+        rollbackReason = `Heal raised the severity score from ${scoreBefore} to ${scoreAfter}.`;
+      }
 
-  onStatusChange(`DRAFTING_${viewType.toUpperCase()}`);
-  const draft = await generateDraft(ai, prompt, imageData, viewType);
+      if (rollbackReason) {
+        annotateStep(trace, 'heal', `Rolled back: ${rollbackReason}`);
+        const openAudit: AuditReport = {
+          ...audit,
+          verified: true,
+          findings: audit.findings.map(f => ({ ...f, status: 'open', verificationNote: rollbackReason }))
+        };
+        rounds.push({
+          index, input: current, audit: openAudit, result: current, scoreBefore, scoreAfter, rolledBack: true, rollbackReason,
+          fidelityBefore: currentFidelity, fidelityAfter: healedFidelity
+        });
+        state.audit = state.healed = state.healedFidelity = state.healedAudit = undefined;
+        stopReason = 'regression';
+        break;
+      }
 
-  onStatusChange(`AUDITING_${viewType.toUpperCase()}`);
-  const audit = await auditDraft(ai, imageData, draft);
+      stage = 'verify';
+      onStatusChange(`VERIFYING_${tag}_R${index}`);
+      const verified = await traceStep(trace, 'verify', index, provider,
+        traced => verifyRepairs(traced, imageData, healedReport.sanitized!, audit, signal, config), result => ({ audit: result }));
+      rounds.push({
+        index, input: current, audit: verified, result: healedReport.sanitized!, scoreBefore, scoreAfter, rolledBack: false,
+        fidelityBefore: currentFidelity, fidelityAfter: healedFidelity
+      });
 
-  onStatusChange(`HEALING_${viewType.toUpperCase()}`);
-  const healed = await healDraft(ai, imageData, draft, audit);
+      state.current = healedReport;
+      state.currentFidelity = healedFidelity;
+      state.audit = healedAudit;
+      state.healed = state.healedFidelity = state.healedAudit = undefined;
 
-  return { content: healed, auditReport: audit };
+      if (blockingFindings(healedAudit!.findings, loopOptions.stopAtSeverity).length === 0) {
+        stopReason = 'converged';
+        break;
+      }
+      if (scoreBefore - scoreAfter < loopOptions.minImprovement) {
+        stopReason = 'no_improvement';
+        break;
+      }
+    }
+
+    trace.finishedAt = Date.now();
+    return {
+      draft: state.draft.sanitized!,
+      content: state.current!.sanitized!,
+      draftAudit: state.draftAudit!,
+      auditReport: rounds[rounds.length - 1].audit,
+      validation: state.current!,
+      rounds,
+      stopReason,
+      fidelity: state.currentFidelity,
+      trace,
+      config
+    };
+  } catch (err: any) {
+    trace.finishedAt = Date.now();
+    const aborted = isAbortError(err) || !!signal?.aborted;
+    const message = aborted ? 'Cancelled.' : err?.message ?? String(err);
+    throw new PipelineStageError(
+      `${STAGE_LABELS[stage]} of ${view.label} ${aborted ? 'was cancelled' : `failed: ${message}`}`,
+      { ...state, stage, error: message, aborted, updatedAt: Date.now() },
+      { cause: err }
+    );
+  }
+};
+
+/**
+ * What an interrupted run completed, shaped as a pipeline result so it can seed the view's history:
+ * the draft plus every heal that was verified. Null when the run stopped before a valid draft.
+ */
+export const partialResult = (checkpoint: PipelineCheckpoint): ViewPipelineResult | null => {
+  if (!checkpoint.draft?.valid || !checkpoint.current) return null;
+  return {
+    draft: checkpoint.draft.sanitized!,
+    content: checkpoint.current.sanitized!,
+    draftAudit: checkpoint.draftAudit,
+    auditReport: checkpoint.rounds[checkpoint.rounds.length - 1]?.audit ?? checkpoint.audit,
+    validation: checkpoint.current,
+    rounds: checkpoint.rounds,
+    stopReason: 'interrupted',
+    fidelity: checkpoint.currentFidelity,
+    trace: checkpoint.trace,
+    config: checkpoint.config
+  };
+};
+
+/** Records or clears a view's interrupted run. */
+export const withCheckpoint = (project: WarshipProject, viewId: string, checkpoint: PipelineCheckpoint | undefined): WarshipProject => ({
+  ...project,
+  views: project.views.map(view => view.id === viewId ? { ...view, checkpoint } : view)
+});
+
+/**
+ * A failed or cancelled best-of-N run for one view, as a draft-stage PipelineStageError so the view
+ * keeps a checkpoint like any interrupted pipeline. Resuming it drafts from scratch.
+ */
+export const candidateFailure = (
+  err: unknown,
+  view: ViewSpec,
+  prompt: string,
+  config: PipelineConfig = DEFAULT_PIPELINE_CONFIG,
+  loopOptions: PipelineLoopOptions = DEFAULT_LOOP_OPTIONS
+): PipelineStageError => {
+  const aborted = isAbortError(err);
+  const message = aborted ? 'Cancelled.' : err instanceof Error ? err.message : String(err);
+  return new PipelineStageError(
+    `Drafting of ${view.label} ${aborted ? 'was cancelled' : `failed: ${message}`}`,
+    { prompt, loopOptions, stage: 'draft', error: message, aborted, rounds: [], config, updatedAt: Date.now() },
+    { cause: err }
+  );
+};
+
+/**
+ * Best-of-N drafting: runs `count` Architect drafts in parallel across DRAFT_VARIANTS, then audits
+ * and scores each valid one. Returned best first; drafts that could not be made valid are dropped.
+ */
+export const generateCandidates = async (
+  prompt: string,
+  imageData: ImageData,
+  view: ViewSpec,
+  count: number,
+  onStatusChange: (status: string) => void,
+  provider: ModelProvider = getDefaultProvider(),
+  signal?: AbortSignal,
+  config: PipelineConfig = DEFAULT_PIPELINE_CONFIG
+): Promise<DraftCandidate[]> => {
+  const tag = view.viewType.toUpperCase();
+  onStatusChange(`DRAFTING_${tag}_CANDIDATES`);
+
+  const settled = await Promise.allSettled(
+    Array.from({ length: Math.max(1, count) }, async (_, i): Promise<DraftCandidate | null> => {
+      const variant = DRAFT_VARIANTS[i % DRAFT_VARIANTS.length];
+      const validation = await ensureValidSvg(
+        provider, imageData, await generateDraft(provider, prompt, imageData, view, variant, signal, undefined, config),
+        onStatusChange, view.viewType, signal, config
+      );
+      if (!validation.valid) return null;
+      const content = validation.sanitized!;
+      const [audit, fidelity] = await Promise.all([
+        auditDraft(provider, imageData, content, signal, config, formatChecklist(view.shipType, view.viewType)),
+        scoreFidelity(content, imageData).catch(() => undefined)
+      ]);
+      return {
+        id: crypto.randomUUID(),
+        content,
+        variant: variant.label,
+        temperature: variant.temperature,
+        audit,
+        validation,
+        fidelity,
+        rankScore: candidateRankScore(audit, fidelity)
+      };
+    })
+  );
+
+  signal?.throwIfAborted();
+  const candidates = settled
+    .map(result => result.status === 'fulfilled' ? result.value : null)
+    .filter((c): c is DraftCandidate => !!c);
+  if (candidates.length === 0) {
+    const failure = settled.find((r): r is PromiseRejectedResult => r.status === 'rejected');
+    throw failure?.reason ?? new Error(`Architect could not produce a valid ${view.label} SVG in ${count} attempts.`);
+  }
+  return rankCandidates(candidates);
+};
+
+// --- CROSS-VIEW RECONCILIATION ---
+
+export interface ReconcileInput {
+  image: ImageData;
+  svg: string;
+  viewType: ViewType;
+}
+
+/**
+ * Joint healing pass: both views are corrected together towards the stations they should share.
+ * Each Healer sees the other view for reference; a view whose heal is invalid or drops groups is left unchanged.
+ */
+export const reconcileViews = async (
+  side: ReconcileInput,
+  top: ReconcileInput,
+  report: ConsistencyReport,
+  onStatusChange: (status: string) => void,
+  provider: ModelProvider = getDefaultProvider(),
+  config: PipelineConfig = DEFAULT_PIPELINE_CONFIG
+): Promise<{ side: string; top: string }> => {
+  const heal = async (own: ReconcileInput, other: ReconcileInput, which: 'side' | 'top'): Promise<string> => {
+    const targets = formatStationTargets(report, which);
+    if (!targets) return own.svg;
+
+    const response = await generateWithRetry(provider, {
+      ...roleRequest(config, 'reconcile'),
+      parts: [
+        imagePart(own.image),
+        { text: `SVG_TO_CORRECT (${own.viewType} view):\n${own.svg}\n\nREFERENCE_SVG (${other.viewType} view of the same ship, do not output):\n${other.svg.slice(0, 30000)}\n\nThe two views disagree on where these features sit along the hull. Move or resize each listed group to its target extent; leave everything else in place:\n${targets}` }
+      ]
+    });
+
+    const before = validateSvg(own.svg, requiredGroupsFor(own.viewType));
+    const after = await ensureValidSvg(provider, own.image, extractSvg(response.text), onStatusChange, own.viewType, undefined, config);
+    const lostGroups = before.groupIds.filter(id => !after.groupIds.includes(id));
+    return after.valid && lostGroups.length === 0 ? after.sanitized! : own.svg;
+  };
+
+  onStatusChange('RECONCILING_VIEWS');
+  const [sideSvg, topSvg] = await Promise.all([heal(side, top, 'side'), heal(top, side, 'top')]);
+  return { side: sideSvg, top: topSvg };
 };
 
 /**
  * Standard refinement (legacy support for user direct chat)
+ * The model is told which layers are locked; callers check them with assertLockedLayersKept.
  */
-export const generateWarshipSvg = async (prompt: string, imageData?: ImageData, previousSvg?: string, iteration: number = 1): Promise<string> => {
-  const ai = new GoogleGenAI({ apiKey: process.env.API_KEY });
-  const parts: any[] = [];
-  
-  const systemPrompt = `Refine this SVG. Iteration ${iteration}.`;
+export const generateWarshipSvg = async (
+  prompt: string,
+  imageData?: ImageData,
+  previousSvg?: string,
+  iteration: number = 1,
+  provider: ModelProvider = getDefaultProvider(),
+  config: PipelineConfig = DEFAULT_PIPELINE_CONFIG
+): Promise<string> => {
+  const parts: ModelPart[] = [];
 
-  if (imageData) parts.push({ inlineData: { data: imageData.data.split(',')[1], mimeType: imageData.mimeType } });
+  if (imageData) parts.push(imagePart(imageData));
   if (previousSvg) parts.push({ text: `CURRENT_SVG_STATE:\n${previousSvg}` });
+  const locked = previousSvg ? lockedLayerIds(previousSvg) : [];
+  if (locked.length) {
+    parts.push({ text: `LOCKED_LAYERS: ${locked.join(', ')}. Copy these groups from CURRENT_SVG_STATE exactly as they are, including data-locked="true"; change nothing inside them.` });
+  }
   parts.push({ text: `User Instruction: ${prompt}` });
 
-  const response = await ai.models.generateContent({
-    model: PRO_MODEL,
-    contents: { parts },
-    config: { 
-      systemInstruction: systemPrompt, 
-      thinkingConfig: { thinkingBudget: 20000 } 
-    }
+  const response = await generateWithRetry(provider, {
+    ...roleRequest(config, 'refine', { iteration }),
+    parts
   });
   return extractSvg(response.text);
 };
+
+/**
+ * Scoped refinement: only the selected subtrees are sent for rewriting, with a description of
+ * their surroundings, and the replacements are spliced back over the originals.
+ */
+export const refineSelection = async (
+  prompt: string,
+  imageData: ImageData | undefined,
+  svg: string,
+  selection: number[],
+  viewType: ViewType,
+  provider: ModelProvider = getDefaultProvider(),
+  config: PipelineConfig = DEFAULT_PIPELINE_CONFIG
+): Promise<{ content: string; validation: SvgValidationReport }> => {
+  const request = buildScopedRequest(svg, selection);
+  const parts: ModelPart[] = [];
+  if (imageData) parts.push(imagePart(imageData));
+  parts.push({
+    text: `DRAWING_CONTEXT:\n${request.context}\n\nSELECTED_FRAGMENTS:\n${request.fragments.map(f => `[fragment ${f.ref}]\n${f.markup}`).join('\n\n')}\n\nUser Instruction: ${prompt}\n\nReturn one replacement per fragment, keyed by its fragment number. Each replacement is a single element in the same coordinate system as the original; keep its root tag, id and transform.`
+  });
+
+  const response = await generateWithRetry(provider, {
+    ...roleRequest(config, 'refineSelection'),
+    parts,
+    responseSchema: {
+      type: 'object',
+      properties: {
+        fragments: {
+          type: 'array',
+          items: {
+            type: 'object',
+            properties: {
+              ref: { type: 'integer' },
+              markup: { type: 'string' }
+            },
+            required: ['ref', 'markup']
+          }
+        }
+      },
+      required: ['fragments']
+    }
+  });
+
+  const { fragments = [] } = parseJsonResponse<{ fragments?: ScopedFragment[] }>(response.text, {});
+  const result = spliceFragments(svg, selection, fragments, requiredGroupsFor(viewType));
+  return { content: result.content, validation: result.validation };
+};
@@ -0,0 +1,141 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ImageData, TokenUsage } from "../types";
+import { GeminiProvider } from "./providers/geminiProvider";
+import { OpenAiCompatibleProvider } from "./providers/openAiCompatibleProvider";
+
+// --- PROVIDER CONTRACT ---
+
+export type ModelPart =
+  | { text: string }
+  | { inlineData: { data: string; mimeType: string } }; // data is raw base64, no data: prefix
+
+/** Provider-neutral subset of JSON Schema used for structured responses. */
+export interface ResponseSchema {
+  type: 'object' | 'array' | 'string' | 'number' | 'integer' | 'boolean';
+  description?: string;
+  properties?: Record<string, ResponseSchema>;
+  items?: ResponseSchema;
+  enum?: string[];
+  required?: string[];
+}
+
+export interface GenerateContentRequest {
+  model: string;
+  parts: ModelPart[];
+  systemInstruction?: string;
+  thinkingBudget?: number;
+  temperature?: number;
+  responseSchema?: ResponseSchema; // implies a JSON response
+  signal?: AbortSignal; // cancels the call; providers reject with the signal's reason
+  onText?: (textSoFar: string) => void; // streams the response as it arrives; providers that cannot stream call it once
+}
+
+export interface GenerateContentResult {
+  text: string;
+  usage?: TokenUsage;
+}
+
+export interface ModelProvider {
+  readonly name: string;
+  generateContent(request: GenerateContentRequest): Promise<GenerateContentResult>;
+}
+
+export const imagePart = (imageData: ImageData): ModelPart => ({
+  inlineData: { data: imageData.data.split(',')[1] ?? imageData.data, mimeType: imageData.mimeType }
+});
+
+// --- RETRIES ---
+
+export interface RetryOptions {
+  attempts: number; // including the first
+  baseDelayMs: number; // doubled after every failed attempt
+  maxDelayMs: number;
+}
+
+export const DEFAULT_RETRY: RetryOptions = { attempts: 4, baseDelayMs: 2000, maxDelayMs: 30000 };
+
+/** A property of a thrown value, which may be anything; undefined unless it is an object. */
+const errorField = (err: unknown, key: string): unknown =>
+  typeof err === 'object' && err !== null ? (err as Record<string, unknown>)[key] : undefined;
+
+export const isAbortError = (err: unknown): boolean => errorField(err, 'name') === 'AbortError';
+
+/** Rate limits, overloads, timeouts and dropped connections. Anything else fails on the first attempt. */
+export const isTransientError = (err: unknown): boolean => {
+  if (isAbortError(err)) return false;
+  const status = errorField(err, 'status');
+  if (typeof status === 'number') return status === 408 || status === 429 || status >= 500;
+  return /\b(408|429|5\d\d)\b|RESOURCE_EXHAUSTED|UNAVAILABLE|DEADLINE_EXCEEDED|overloaded|rate.?limit|timed? ?out|fetch failed|network|ECONNRESET|ETIMEDOUT|socket hang up/i
+    .test(String(errorField(err, 'message') ?? err));
+};
+
+const wait = (ms: number, signal?: AbortSignal): Promise<void> =>
+  new Promise((resolve, reject) => {
+    if (signal?.aborted) return reject(signal.reason);
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(signal!.reason);
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/**
+ * Calls the provider, retrying transient failures with jittered exponential backoff.
+ * Cancelling the request's signal ends any pending wait immediately.
+ */
+export const generateWithRetry = async (
+  provider: ModelProvider,
+  request: GenerateContentRequest,
+  retry: RetryOptions = DEFAULT_RETRY
+): Promise<GenerateContentResult> => {
+  for (let attempt = 1; ; attempt++) {
+    request.signal?.throwIfAborted();
+    try {
+      return await provider.generateContent(request);
+    } catch (err) {
+      if (attempt >= retry.attempts || request.signal?.aborted || !isTransientError(err)) throw err;
+      const delay = Math.min(retry.maxDelayMs, retry.baseDelayMs * 2 ** (attempt - 1));
+      console.warn(`${provider.name} call failed (attempt ${attempt}/${retry.attempts}), retrying`, err);
+      await wait(delay * (0.5 + Math.random() / 2), request.signal);
+    }
+  }
+};
+
+// --- DEFAULT PROVIDER SELECTION ---
+
+let defaultProvider: ModelProvider | null = null;
+
+/**
+ * Overrides the provider used when service functions are called without one.
+ * Tests and offline runs install a replay provider here.
+ */
+export const setDefaultProvider = (provider: ModelProvider | null) => {
+  defaultProvider = provider;
+};
+
+/**
+ * Resolves the provider from the build environment (MODEL_PROVIDER=gemini|openai).
+ * Replay providers need fixture data and must be installed with setDefaultProvider.
+ */
+export const getDefaultProvider = (): ModelProvider => {
+  if (defaultProvider) return defaultProvider;
+
+  if (process.env.MODEL_PROVIDER === 'openai') {
+    defaultProvider = new OpenAiCompatibleProvider({
+      baseUrl: process.env.OPENAI_BASE_URL || 'http://localhost:8080/v1',
+      apiKey: process.env.OPENAI_API_KEY,
+      model: process.env.OPENAI_MODEL || undefined
+    });
+  } else {
+    defaultProvider = new GeminiProvider(process.env.API_KEY);
+  }
+  return defaultProvider;
+};
@@ -0,0 +1,76 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  BUILT_IN_PRESETS, DEFAULT_PIPELINE_CONFIG, DEFAULT_PRESET_ID, PipelineConfigError, exportPresets, loadPresetState, parsePresets, savePresetState
+} from './pipelineConfig';
+
+describe('parsePresets', () => {
+  it('reads back exported presets as new custom presets', () => {
+    const [preset] = parsePresets(exportPresets([BUILT_IN_PRESETS[0]]));
+    expect(preset).toMatchObject({ name: BUILT_IN_PRESETS[0].name, custom: true, roles: BUILT_IN_PRESETS[0].roles });
+    expect(preset.id).not.toBe(BUILT_IN_PRESETS[0].id);
+  });
+
+  it('accepts a single bare preset and fills in the roles it leaves out', () => {
+    const [preset] = parsePresets(JSON.stringify({ name: ' Local ', roles: { audit: { model: 'qwen', temperature: 0.2 } } }));
+    expect(preset.name).toBe('Local');
+    expect(preset.roles.audit).toEqual({ model: 'qwen', temperature: 0.2, thinkingBudget: undefined, systemPrompt: undefined });
+    expect(preset.roles.heal).toEqual(DEFAULT_PIPELINE_CONFIG.roles.heal);
+    expect(preset.cropPadding).toBe(DEFAULT_PIPELINE_CONFIG.cropPadding);
+  });
+
+  it.each([
+    ['not JSON', '{', 'not valid JSON'],
+    ['not an object', '[1, 2]', 'No presets found'],
+    ['a preset that is not an object', '{"presets": ["fast"]}', 'Preset 1 is not an object'],
+    ['a preset without a name', '{"presets": [{"roles": {}}]}', 'Preset 1 has no name'],
+    ['a role without a model', '{"presets": [{"name": "A", "roles": {"heal": {}}}]}', 'heal needs a model name'],
+    ['a role that is not an object', '{"presets": [{"name": "A", "roles": {"heal": "pro"}}]}', 'heal needs a model name'],
+    ['a negative temperature', '{"presets": [{"name": "A", "roles": {"heal": {"model": "m", "temperature": -1}}}]}', 'non-negative number'],
+    ['a system prompt that is not text', '{"presets": [{"name": "A", "roles": {"heal": {"model": "m", "systemPrompt": 3}}}]}', 'systemPrompt must be text'],
+    ['a fractional crop padding', '{"presets": [{"name": "A", "cropPadding": 2.3}]}', 'cropPadding must be a whole number'],
+    ['an unknown version', '{"version": 2, "presets": []}', 'Unsupported preset file version 2']
+  ])('rejects %s', (_, json, message) => {
+    expect(() => parsePresets(json)).toThrow(PipelineConfigError);
+    expect(() => parsePresets(json)).toThrow(message);
+  });
+});
+
+describe('loadPresetState', () => {
+  const storage = (saved: unknown) => {
+    const items = new Map<string, string>(saved === undefined ? [] : [['warship-svg:pipeline-presets', JSON.stringify(saved)]]);
+    vi.stubGlobal('localStorage', {
+      getItem: (key: string) => items.get(key) ?? null,
+      setItem: (key: string, value: string) => { items.set(key, value); }
+    });
+  };
+  afterEach(() => {
+    vi.unstubAllGlobals();
+    vi.restoreAllMocks();
+  });
+
+  it('round-trips saved presets with their ids', () => {
+    storage(undefined);
+    const preset = { ...BUILT_IN_PRESETS[0], id: 'mine', name: 'Mine', custom: true };
+    savePresetState([preset], 'mine');
+    expect(loadPresetState()).toEqual({ custom: [preset], activeId: 'mine' });
+  });
+
+  it('checks saved presets, filling in missing roles and dropping broken entries', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    storage({ custom: [{ id: 'partial', name: 'Partial', roles: {} }, { id: 'broken', roles: { heal: {} } }, 'junk'], activeId: 'broken' });
+    const { custom, activeId } = loadPresetState();
+    expect(custom.map(preset => preset.id)).toEqual(['partial']);
+    expect(custom[0].roles).toEqual(DEFAULT_PIPELINE_CONFIG.roles);
+    expect(activeId).toBe('broken');
+  });
+
+  it('starts empty when nothing usable is saved', () => {
+    storage({ custom: 'nope' });
+    expect(loadPresetState()).toEqual({ custom: [], activeId: DEFAULT_PRESET_ID });
+  });
+});
@@ -0,0 +1,277 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PipelineConfig, PipelineRole, RoleConfig } from "../types";
+
+// Models, thinking budgets, temperatures and system prompts for every kind of model call.
+// Prompts may contain {{placeholders}} that the calling stage fills in.
+
+const PRO_MODEL = 'gemini-3-pro-preview';
+const FLASH_MODEL = 'gemini-3-flash-preview';
+
+export const PIPELINE_ROLES: PipelineRole[] = ['detect', 'draft', 'audit', 'heal', 'verify', 'repair', 'reconcile', 'refine', 'refineSelection'];
+
+export const ROLE_LABELS: Record<PipelineRole, string> = {
+  detect: 'Layout Detection',
+  draft: 'Architect Draft',
+  audit: 'Inspector Audit',
+  heal: 'Healer',
+  verify: 'Repair Verification',
+  repair: 'Validation Repair',
+  reconcile: 'Cross-View Reconcile',
+  refine: 'Refinement',
+  refineSelection: 'Selection Refinement'
+};
+
+/** Placeholders each role's system prompt can use. */
+export const ROLE_PLACEHOLDERS: Partial<Record<PipelineRole, string[]>> = {
+  draft: ['viewContext'],
+  refine: ['iteration']
+};
+
+export const DEFAULT_PRESET_ID = 'standard';
+
+export const DEFAULT_PIPELINE_CONFIG: PipelineConfig = {
+  id: DEFAULT_PRESET_ID,
+  name: 'Standard',
+  cropPadding: 20,
+  roles: {
+    detect: { model: FLASH_MODEL },
+    draft: {
+      model: PRO_MODEL,
+      thinkingBudget: 16000,
+      temperature: 0.2,
+      systemPrompt: `
+    You are the Lead Naval Architect. Your goal is to reconstruct technical drawings into semantic SVG schematics.
+    {{viewContext}}
+    
+    CORE DIRECTIVES:
+    1. **Semantic Grouping**: Use <g> tags with descriptive IDs (e.g., <g id="hull">, <g id="superstructure">).
+    2. **Geometric Logic**: "Hallucinate" the perfect engineering geometry behind the fuzzy pixels.
+    3. **Viewport**: Ensure the viewBox perfectly frames the ship.
+    4. **Style**: Use stroke="black" fill="none" stroke-width="1" vector-effect="non-scaling-stroke".
+  `
+    },
+    audit: {
+      model: FLASH_MODEL,
+      thinkingBudget: 4000,
+      systemPrompt: "You are the Inspector General. Find flaws in the vector conversion."
+    },
+    heal: {
+      model: PRO_MODEL,
+      thinkingBudget: 24000,
+      temperature: 0.1,
+      systemPrompt: "You are the Senior Correction Engineer. Fix the SVG based on the audit without regression."
+    },
+    verify: {
+      model: FLASH_MODEL,
+      thinkingBudget: 2000,
+      systemPrompt: "You are the Inspector General. Verify repairs strictly; do not give credit for changes you cannot see in the SVG."
+    },
+    repair: {
+      model: PRO_MODEL,
+      thinkingBudget: 8000,
+      temperature: 0.1,
+      systemPrompt: "You are the Senior Correction Engineer. Repair the SVG so it passes validation without losing geometry."
+    },
+    reconcile: {
+      model: PRO_MODEL,
+      thinkingBudget: 16000,
+      temperature: 0.1,
+      systemPrompt: "You are the Senior Correction Engineer. Align this view with its companion view so both drawings agree on longitudinal stations, without regressing other geometry."
+    },
+    refine: {
+      model: PRO_MODEL,
+      thinkingBudget: 20000,
+      systemPrompt: "Refine this SVG. Iteration {{iteration}}."
+    },
+    refineSelection: {
+      model: PRO_MODEL,
+      thinkingBudget: 12000,
+      temperature: 0.1,
+      systemPrompt: "You are the Senior Correction Engineer. Edit only the fragments you are given; everything else in the drawing is fixed and must keep fitting around them."
+    }
+  }
+};
+
+/** A built-in preset: the standard settings with some roles changed. */
+const variantOf = (id: string, name: string, changes: Partial<Record<PipelineRole, Partial<RoleConfig>>>, cropPadding?: number): PipelineConfig => ({
+  id,
+  name,
+  cropPadding: cropPadding ?? DEFAULT_PIPELINE_CONFIG.cropPadding,
+  roles: Object.fromEntries(PIPELINE_ROLES.map(role => [role, { ...DEFAULT_PIPELINE_CONFIG.roles[role], ...changes[role] }])) as Record<PipelineRole, RoleConfig>
+});
+
+export const BUILT_IN_PRESETS: PipelineConfig[] = [
+  DEFAULT_PIPELINE_CONFIG,
+  // Flash throughout with small budgets: a quick look at the sheet before committing to a full run.
+  variantOf('fast-preview', 'Fast Preview', {
+    draft: { model: FLASH_MODEL, thinkingBudget: 4000 },
+    audit: { thinkingBudget: 1000 },
+    heal: { model: FLASH_MODEL, thinkingBudget: 4000 },
+    verify: { thinkingBudget: 500 },
+    repair: { model: FLASH_MODEL, thinkingBudget: 2000 },
+    reconcile: { model: FLASH_MODEL, thinkingBudget: 4000 },
+    refine: { model: FLASH_MODEL, thinkingBudget: 4000 },
+    refineSelection: { model: FLASH_MODEL, thinkingBudget: 2000 }
+  }),
+  // Pro for the Inspector too, with larger budgets and a wider crop margin.
+  variantOf('max-fidelity', 'Max Fidelity', {
+    draft: { thinkingBudget: 32000 },
+    audit: { model: PRO_MODEL, thinkingBudget: 8000 },
+    heal: { thinkingBudget: 32000 },
+    verify: { model: PRO_MODEL, thinkingBudget: 4000 },
+    repair: { thinkingBudget: 16000 },
+    reconcile: { thinkingBudget: 24000 },
+    refine: { thinkingBudget: 24000 },
+    refineSelection: { thinkingBudget: 16000 }
+  }, 32),
+  // Pro drafts and heals on tight budgets, Flash checks: the least per sheet that still heals properly.
+  variantOf('cheap-batch', 'Cheap Batch', {
+    draft: { thinkingBudget: 8000 },
+    audit: { thinkingBudget: 1000 },
+    heal: { thinkingBudget: 8000 },
+    verify: { thinkingBudget: 500 },
+    repair: { model: FLASH_MODEL, thinkingBudget: 4000 }
+  })
+];
+
+export const presetsOf = (custom: PipelineConfig[]): PipelineConfig[] => [...BUILT_IN_PRESETS, ...custom];
+
+export const resolvePreset = (custom: PipelineConfig[], id: string | undefined): PipelineConfig =>
+  presetsOf(custom).find(preset => preset.id === id) ?? DEFAULT_PIPELINE_CONFIG;
+
+export const duplicatePreset = (preset: PipelineConfig): PipelineConfig => ({
+  ...structuredClone(preset),
+  id: crypto.randomUUID(),
+  name: `${preset.name} Copy`,
+  custom: true
+});
+
+// --- REQUESTS ---
+
+/** Replaces {{name}} placeholders; unknown ones are left as written. */
+export const fillPrompt = (template: string, values: Record<string, string | number> = {}): string =>
+  template.replace(/\{\{(\w+)\}\}/g, (match, name) => name in values ? String(values[name]) : match);
+
+/** The request fields a role controls, ready to spread into a GenerateContentRequest. */
+export const roleRequest = (config: PipelineConfig, role: PipelineRole, values?: Record<string, string | number>) => {
+  const { model, thinkingBudget, temperature, systemPrompt } = config.roles[role];
+  return { model, thinkingBudget, temperature, systemInstruction: systemPrompt ? fillPrompt(systemPrompt, values) : undefined };
+};
+
+// --- IMPORT / EXPORT ---
+
+export class PipelineConfigError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'PipelineConfigError';
+  }
+}
+
+const isRecord = (value: unknown): value is Record<string, unknown> =>
+  typeof value === 'object' && value !== null && !Array.isArray(value);
+
+const optionalNumber = (value: unknown, where: string): number | undefined => {
+  if (value === undefined || value === null) return undefined;
+  if (typeof value !== 'number' || !Number.isFinite(value) || value < 0) throw new PipelineConfigError(`${where} must be a non-negative number.`);
+  return value;
+};
+
+const optionalWholeNumber = (value: unknown, where: string): number | undefined => {
+  const n = optionalNumber(value, where);
+  if (n !== undefined && !Number.isInteger(n)) throw new PipelineConfigError(`${where} must be a whole number.`);
+  return n;
+};
+
+const optionalText = (value: unknown, where: string): string | undefined => {
+  if (value === undefined) return undefined;
+  if (typeof value !== 'string') throw new PipelineConfigError(`${where} must be text.`);
+  return value;
+};
+
+/** Checks one imported preset. Roles it leaves out fall back to the standard settings. */
+const parsePreset = (raw: unknown, index: number): PipelineConfig => {
+  const where = `Preset ${index + 1}`;
+  if (!isRecord(raw)) throw new PipelineConfigError(`${where} is not an object.`);
+  const { name } = raw;
+  if (typeof name !== 'string' || !name.trim()) throw new PipelineConfigError(`${where} has no name.`);
+  const roles = {} as Record<PipelineRole, RoleConfig>;
+  for (const role of PIPELINE_ROLES) {
+    const value = isRecord(raw.roles) ? raw.roles[role] : undefined;
+    if (value === undefined) {
+      roles[role] = { ...DEFAULT_PIPELINE_CONFIG.roles[role] };
+      continue;
+    }
+    if (!isRecord(value) || typeof value.model !== 'string' || !value.model.trim()) throw new PipelineConfigError(`${where}: ${role} needs a model name.`);
+    roles[role] = {
+      model: value.model.trim(),
+      thinkingBudget: optionalNumber(value.thinkingBudget, `${where}: ${role} thinkingBudget`),
+      temperature: optionalNumber(value.temperature, `${where}: ${role} temperature`),
+      systemPrompt: optionalText(value.systemPrompt, `${where}: ${role} systemPrompt`)
+    };
+  }
+  return {
+    id: crypto.randomUUID(), // imports never replace an existing preset
+    name: name.trim().slice(0, 60),
+    custom: true,
+    cropPadding: optionalWholeNumber(raw.cropPadding, `${where} cropPadding`) ?? DEFAULT_PIPELINE_CONFIG.cropPadding,
+    roles
+  };
+};
+
+export const exportPresets = (presets: PipelineConfig[]): string =>
+  JSON.stringify({ version: 1, presets: presets.map(({ id, custom, ...preset }) => preset) }, null, 2);
+
+/** Reads presets exported by exportPresets, or a single bare preset object. */
+export const parsePresets = (json: string): PipelineConfig[] => {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch {
+    throw new PipelineConfigError('The file is not valid JSON.');
+  }
+  const list: unknown[] | null = !isRecord(data) ? null : Array.isArray(data.presets) ? data.presets : data.roles ? [data] : null;
+  if (!isRecord(data) || !list) throw new PipelineConfigError('No presets found; expected { "presets": [...] } or a single preset.');
+  if (data.version !== undefined && data.version !== 1) throw new PipelineConfigError(`Unsupported preset file version ${data.version}.`);
+  return list.map(parsePreset);
+};
+
+// --- LOCAL PERSISTENCE ---
+
+const STORAGE_KEY = 'warship-svg:pipeline-presets';
+
+/** A saved preset, checked like an import but keeping its id; null when it no longer parses. */
+const restorePreset = (raw: unknown, index: number): PipelineConfig | null => {
+  try {
+    const preset = parsePreset(raw, index);
+    return isRecord(raw) && typeof raw.id === 'string' && raw.id ? { ...preset, id: raw.id } : preset;
+  } catch (err) {
+    console.error("Dropped a saved pipeline preset", err);
+    return null;
+  }
+};
+
+/** Custom presets and the selected preset id, as saved in this browser. Saved presets that fail the import checks are dropped. */
+export const loadPresetState = (): { custom: PipelineConfig[]; activeId: string } => {
+  try {
+    const saved: unknown = JSON.parse(localStorage.getItem(STORAGE_KEY) ?? 'null');
+    if (isRecord(saved) && Array.isArray(saved.custom)) {
+      const custom = saved.custom.map(restorePreset).filter((preset): preset is PipelineConfig => preset !== null);
+      return { custom, activeId: typeof saved.activeId === 'string' ? saved.activeId : DEFAULT_PRESET_ID };
+    }
+  } catch (err) {
+    console.error("Could not read saved pipeline presets", err);
+  }
+  return { custom: [], activeId: DEFAULT_PRESET_ID };
+};
+
+export const savePresetState = (custom: PipelineConfig[], activeId: string) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify({ custom, activeId }));
+  } catch (err) {
+    console.error("Could not save pipeline presets", err);
+  }
+};
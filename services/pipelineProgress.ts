@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ProgressPhase, ViewProgress } from "../types";
+import { GenerateContentRequest, GenerateContentResult, ModelProvider, isTransientError } from "./modelProvider";
+import { validateSvg } from "./svgValidator";
+
+// Pipelines report progress as status codes (DRAFTING_SIDE, AUDITING_TOP_R2...). Each view gets
+// its own track built from them, so parallel pipelines no longer overwrite one another's status.
+
+export const SHEET_TRACK_ID = 'sheet';
+
+// --- TRACKS ---
+
+export const startTrack = (id: string, label: string, phase: ProgressPhase): ViewProgress => {
+  const now = Date.now();
+  return { id, label, phase, startedAt: now, phaseStartedAt: now, retries: 0 };
+};
+
+const STATUS_PHASES: [RegExp, ProgressPhase][] = [
+  [/^SCANNING_/, 'scanning'],
+  [/^DRAFTING_.*_CANDIDATES$/, 'candidates'],
+  [/^DRAFTING_/, 'drafting'],
+  [/^AUDITING_/, 'auditing'],
+  [/^HEALING_/, 'healing'],
+  [/^REPAIRING_/, 'repairing'],
+  [/^VERIFYING_/, 'verifying'],
+  [/^REFINING_/, 'refining'],
+  [/^RECONCILING_/, 'reconciling']
+];
+
+/** Phase and loop round named by a status code; null for codes it does not recognise. */
+export const parseStatus = (status: string): { phase: ProgressPhase; round?: number } | null => {
+  const phase = STATUS_PHASES.find(([pattern]) => pattern.test(status))?.[1];
+  if (!phase) return null;
+  const round = status.match(/_R(\d+)$/)?.[1];
+  return { phase, round: round ? Number(round) : undefined };
+};
+
+/** Moves a track to the phase a status code names. Repeating the current phase keeps its timer running. */
+export const withStatus = (track: ViewProgress, status: string): ViewProgress => {
+  const parsed = parseStatus(status);
+  if (!parsed) return track;
+  const round = parsed.round ?? track.round; // repairs happen within the current round
+  if (parsed.phase === track.phase && round === track.round) return track;
+  return { ...track, phase: parsed.phase, round, phaseStartedAt: Date.now() };
+};
+
+export const finishTrack = (track: ViewProgress, outcome: 'done' | 'failed' | 'cancelled', error?: string): ViewProgress => {
+  const now = Date.now();
+  return { ...track, phase: outcome, error, phaseStartedAt: now, finishedAt: now };
+};
+
+export const isFinished = (track: ViewProgress) => track.finishedAt !== undefined;
+
+export const updateTrack = (tracks: ViewProgress[], id: string, update: (track: ViewProgress) => ViewProgress): ViewProgress[] =>
+  tracks.map(track => track.id === id ? update(track) : track);
+
+/**
+ * Reports each failed attempt that generateWithRetry will retry (transient errors only).
+ * The last attempt of a call that runs out of retries is counted too; its run fails right after.
+ */
+export class RetryCountingProvider implements ModelProvider {
+  readonly name: string;
+
+  constructor(private inner: ModelProvider, private onRetry: (error: unknown) => void) {
+    this.name = inner.name;
+  }
+
+  async generateContent(request: GenerateContentRequest): Promise<GenerateContentResult> {
+    try {
+      return await this.inner.generateContent(request);
+    } catch (err) {
+      if (!request.signal?.aborted && isTransientError(err)) this.onRetry(err);
+      throw err;
+    }
+  }
+}
+
+// --- STREAMED DRAFTS ---
+
+const TAG = /<!--[\s\S]*?-->|<(\/?)([A-Za-z][\w:.-]*)(?:\s[^>]*?)?(\/?)>/g;
+
+/**
+ * Cuts a partly streamed response back to its last complete tag and closes every element still open,
+ * so it parses as XML. Null until the opening <svg> tag has arrived.
+ */
+export const closePartialSvg = (text: string): string | null => {
+  const start = text.search(/<svg[\s>]/i);
+  if (start < 0) return null;
+  let markup = text.slice(start);
+  const end = markup.search(/<\/svg\s*>/i);
+  if (end >= 0) return markup.slice(0, markup.indexOf('>', end) + 1);
+
+  const cut = markup.lastIndexOf('<');
+  if (cut > markup.lastIndexOf('>')) markup = markup.slice(0, cut);
+  const open: string[] = [];
+  for (const [, closing, name, selfClosing] of markup.matchAll(TAG)) {
+    if (!name || selfClosing) continue;
+    if (!closing) open.push(name);
+    else if (open[open.length - 1] === name) open.pop();
+  }
+  if (open[0]?.toLowerCase() !== 'svg') return null;
+  return markup + open.reverse().map(name => `</${name}>`).join('');
+};
+
+/** Sanitized, renderable form of a streamed draft; null while nothing parseable has arrived. */
+export const previewOfPartial = (text: string): string | null => {
+  const markup = closePartialSvg(text);
+  return markup ? validateSvg(markup).sanitized : null;
+};
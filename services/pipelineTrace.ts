@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GeneratedSvg, PipelineStage, PipelineTrace, TokenUsage, TraceCall, TraceStep, ViewType } from "../types";
+import { GenerateContentRequest, GenerateContentResult, ModelProvider } from "./modelProvider";
+
+// --- RECORDING ---
+
+export const createTrace = (viewLabel: string, viewType: ViewType, provider: string): PipelineTrace => ({
+  id: crypto.randomUUID(),
+  viewLabel,
+  viewType,
+  provider,
+  startedAt: Date.now(),
+  steps: []
+});
+
+/**
+ * Passes calls through to the inner provider and appends each attempt to `calls`,
+ * failed ones included, so retries show up in the trace.
+ */
+export class TracingProvider implements ModelProvider {
+  readonly name: string;
+
+  constructor(private inner: ModelProvider, private calls: TraceCall[]) {
+    this.name = inner.name;
+  }
+
+  async generateContent(request: GenerateContentRequest): Promise<GenerateContentResult> {
+    const call: TraceCall = {
+      model: request.model,
+      systemInstruction: request.systemInstruction,
+      prompt: request.parts.map(part => ('text' in part ? part.text : '[image]')).join('\n\n'),
+      images: request.parts.filter(part => 'inlineData' in part).length,
+      temperature: request.temperature,
+      thinkingBudget: request.thinkingBudget,
+      startedAt: Date.now(),
+      durationMs: 0
+    };
+    this.calls.push(call);
+    try {
+      const result = await this.inner.generateContent(request);
+      call.response = result.text;
+      call.usage = result.usage;
+      return result;
+    } catch (err: any) {
+      call.error = err?.message ?? String(err);
+      throw err;
+    } finally {
+      call.durationMs = Date.now() - call.startedAt;
+    }
+  }
+}
+
+/**
+ * Runs one pipeline stage against a tracing wrapper of `provider` and records it as a step.
+ * `describe` picks the stage's output; a stage that throws keeps its calls and the error.
+ */
+export const traceStep = async <T>(
+  trace: PipelineTrace,
+  stage: PipelineStage,
+  round: number | undefined,
+  provider: ModelProvider,
+  run: (traced: ModelProvider) => Promise<T>,
+  describe: (result: T) => Partial<TraceStep>
+): Promise<T> => {
+  const step: TraceStep = { id: crypto.randomUUID(), stage, round, startedAt: Date.now(), durationMs: 0, calls: [] };
+  trace.steps.push(step);
+  try {
+    const result = await run(new TracingProvider(provider, step.calls));
+    Object.assign(step, describe(result));
+    return result;
+  } catch (err: any) {
+    step.error = err?.message ?? String(err);
+    throw err;
+  } finally {
+    step.durationMs = Date.now() - step.startedAt;
+  }
+};
+
+/** Records a stage whose output was reused rather than generated, such as a ranked candidate. */
+export const recordStep = (trace: PipelineTrace, stage: PipelineStage, round: number | undefined, output: Partial<TraceStep>) => {
+  trace.steps.push({ id: crypto.randomUUID(), stage, round, startedAt: Date.now(), durationMs: 0, calls: [], ...output });
+};
+
+/** Adds a note to the most recent step of a stage, e.g. when a heal is later rolled back. */
+export const annotateStep = (trace: PipelineTrace, stage: PipelineStage, note: string) => {
+  const step = [...trace.steps].reverse().find(s => s.stage === stage);
+  if (step) step.note = step.note ? `${step.note} ${note}` : note;
+};
+
+// --- SUMMARIES ---
+
+const USAGE_KEYS: (keyof TokenUsage)[] = ['inputTokens', 'outputTokens', 'thinkingTokens', 'totalTokens'];
+
+/** Field-wise sum; a field stays unset unless some call reported it. */
+export const sumUsage = (usages: (TokenUsage | undefined)[]): TokenUsage => {
+  const total: TokenUsage = {};
+  for (const usage of usages) {
+    for (const key of USAGE_KEYS) {
+      if (usage?.[key] !== undefined) total[key] = (total[key] ?? 0) + usage[key]!;
+    }
+  }
+  return total;
+};
+
+export const stepUsage = (step: TraceStep): TokenUsage => sumUsage(step.calls.map(call => call.usage));
+
+/** Time spent across all stages, number of model calls and total token usage. */
+export const traceTotals = (trace: PipelineTrace) => {
+  const calls = trace.steps.flatMap(step => step.calls);
+  return {
+    durationMs: trace.steps.reduce((sum, step) => sum + step.durationMs, 0),
+    calls: calls.length,
+    failedCalls: calls.filter(call => call.error).length,
+    usage: sumUsage(calls.map(call => call.usage))
+  };
+};
+
+/** A step's SVG shaped as a revision so the preview and diff can show it. Null for steps without one. */
+export const stepRevision = (trace: PipelineTrace, step: TraceStep, prompt = ''): GeneratedSvg | null =>
+  step.svg
+    ? { id: step.id, content: step.svg, prompt, timestamp: step.startedAt, viewType: trace.viewType, fidelity: step.fidelity }
+    : null;
+
+/** The trace as a standalone JSON document, with its totals up front. */
+export const traceToJson = (trace: PipelineTrace): string =>
+  JSON.stringify({ version: 1, totals: traceTotals(trace), ...trace }, null, 2);
@@ -0,0 +1,264 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { LengthUnit, ProjectView, SheetOptions, SheetSize, WarshipProject } from "../types";
+import { Bounds, elementBounds, parseSvgDocument } from "./svgGeometry";
+import { stripDimensions } from "./dimensions";
+import { currentSvgOf } from "./revisionHistory";
+import { validateSvg } from "./svgValidator";
+
+// A print sheet laid out in millimetres: the ship's views stacked on a common longitudinal axis
+// (every hull spans the same sheet x range), a border, a legend and a title block.
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+/** Landscape sheet sizes in millimetres. */
+export const SHEET_SIZES: Record<SheetSize, [number, number]> = {
+  A4: [297, 210],
+  A3: [420, 297],
+  A2: [594, 420],
+  A1: [841, 594]
+};
+
+const MARGIN = 10;
+const INSET = 8; // clear space between the border and the drawings
+const TITLE_BLOCK: [number, number] = [150, 36];
+const LEGEND_WIDTH = 100;
+const VIEW_GAP = 14; // between stacked views, room for each view's caption
+const FONT = 'Helvetica, Arial, sans-serif';
+
+const MM_PER_UNIT: Record<LengthUnit, number> = { m: 1000, ft: 304.8 };
+
+// Preferred ratios for a calibrated sheet; the smallest one the drawings fit at is used.
+const STANDARD_SCALES = [10, 20, 25, 50, 75, 100, 150, 192, 200, 250, 300, 400, 500, 600, 750, 1000, 1250, 1500, 2000, 2500, 5000];
+
+export class SheetError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SheetError';
+  }
+}
+
+export interface ComposedSheet {
+  svg: string;
+  widthMm: number;
+  heightMm: number;
+  scale: string; // "1:200", or "NTS" when the views are not calibrated
+}
+
+/** The views placed on a ship's sheet: side profile first, then deck plan, then any other orthographic views. */
+export const sheetViews = (project: WarshipProject, shipIndex: number): ProjectView[] => {
+  const order = ['side', 'inboard', 'top', 'bow', 'stern', 'section'];
+  return project.views
+    .filter(view => view.shipIndex === shipIndex && view.history && order.includes(view.viewType))
+    .sort((a, b) => order.indexOf(a.viewType) - order.indexOf(b.viewType));
+};
+
+export const defaultSheetOptions = (project: WarshipProject): SheetOptions => ({
+  size: 'A3',
+  shipIndex: project.views[0]?.shipIndex ?? 0,
+  showLegend: true,
+  titleBlock: {
+    shipName: project.name,
+    shipClass: project.shipClass,
+    date: new Date().toISOString().slice(0, 10),
+    sheetNumber: '1 of 1'
+  }
+});
+
+interface PlacedView {
+  view: ProjectView;
+  doc: Document;
+  hull: Bounds;
+  content: Bounds;
+}
+
+/** Prefixes every id in the document and the references to them, so embedded views cannot collide. */
+const prefixIds = (doc: Document, prefix: string) => {
+  const all = Array.from(doc.getElementsByTagName('*'));
+  const ids = new Set(all.map(el => el.getAttribute('id')).filter((id): id is string => !!id));
+  if (ids.size === 0) return;
+  const rewrite = (value: string) => value
+    .replace(/url\(\s*#([^)\s]+)\s*\)/g, (match, id) => ids.has(id) ? `url(#${prefix}${id})` : match)
+    .replace(/^#(.+)$/, (match, id) => ids.has(id) ? `#${prefix}${id}` : match);
+  all.forEach(el => Array.from(el.attributes).forEach(attr => {
+    if (attr.name === 'id') el.setAttribute('id', `${prefix}${attr.value}`);
+    else if (/url\(|^#/.test(attr.value)) el.setAttribute(attr.name, rewrite(attr.value));
+  }));
+};
+
+const placeView = (view: ProjectView, index: number): PlacedView | null => {
+  const svg = currentSvgOf(view);
+  const safe = svg ? validateSvg(stripDimensions(svg.content), []).sanitized : null;
+  const doc = safe ? parseSvgDocument(safe) : null;
+  if (!doc) return null;
+  const hullGroup = Array.from(doc.getElementsByTagName('g')).find(g => g.getAttribute('id')?.toLowerCase() === 'hull');
+  const hull = hullGroup ? elementBounds(hullGroup) : null;
+  const content = elementBounds(doc.documentElement);
+  if (!hull || !content || hull.maxX <= hull.minX) return null;
+  prefixIds(doc, `v${index}-`);
+  return { view, doc, hull, content };
+};
+
+/**
+ * Lays out the ship's views on one sheet. Every hull is scaled to the same sheet length and starts
+ * at the same x, so frames and stations line up vertically between views.
+ */
+export const composeSheet = (project: WarshipProject, options: SheetOptions): ComposedSheet => {
+  const placed = sheetViews(project, options.shipIndex)
+    .map(placeView)
+    .filter((p): p is PlacedView => !!p);
+  if (placed.length === 0) throw new SheetError('This ship has no view with a measurable hull to place on a sheet.');
+
+  const [width, height] = SHEET_SIZES[options.size];
+  const areaLeft = MARGIN + INSET;
+  const areaRight = width - MARGIN - INSET;
+  const areaTop = MARGIN + INSET;
+  const areaBottom = height - MARGIN - TITLE_BLOCK[1] - INSET - 10; // room for the station scale
+
+  // Work in hull lengths: each view's extent relative to its own hull start, divided by hull length.
+  const rel = placed.map(p => {
+    const length = p.hull.maxX - p.hull.minX;
+    return {
+      left: (p.content.minX - p.hull.minX) / length,
+      right: (p.content.maxX - p.hull.minX) / length,
+      height: (p.content.maxY - p.content.minY) / length,
+      length
+    };
+  });
+  const minLeft = Math.min(...rel.map(r => r.left));
+  const maxRight = Math.max(...rel.map(r => r.right));
+  const totalHeight = rel.reduce((acc, r) => acc + r.height, 0);
+  const fitLength = Math.min(
+    (areaRight - areaLeft) / (maxRight - minLeft),
+    (areaBottom - areaTop - VIEW_GAP * (placed.length - 1)) / totalHeight
+  );
+
+  // Calibrated views snap the hull length to a standard scale; otherwise the sheet is not to scale.
+  const calibrated = placed.find(p => p.view.calibration);
+  let hullLength = fitLength;
+  let scale = 'NTS';
+  if (calibrated) {
+    const { unitsPerSvgUnit, unit } = calibrated.view.calibration!;
+    const realHull = (calibrated.hull.maxX - calibrated.hull.minX) * unitsPerSvgUnit * MM_PER_UNIT[unit];
+    const ratio = STANDARD_SCALES.find(n => realHull / n <= fitLength) ?? Math.ceil(realHull / fitLength);
+    hullLength = realHull / ratio;
+    scale = `1:${ratio}`;
+  }
+
+  const doc = document.implementation.createDocument(SVG_NS, 'svg', null);
+  const root = doc.documentElement;
+  root.setAttribute('viewBox', `0 0 ${width} ${height}`);
+  root.setAttribute('width', `${width}mm`);
+  root.setAttribute('height', `${height}mm`);
+  const el = (parent: Element, tag: string, attrs: Record<string, string | number>, text?: string) => {
+    const node = doc.createElementNS(SVG_NS, tag);
+    Object.entries(attrs).forEach(([name, value]) => node.setAttribute(name, typeof value === 'number' ? String(Number(value.toFixed(3))) : value));
+    if (text !== undefined) node.textContent = text;
+    parent.appendChild(node);
+    return node;
+  };
+  const label = (parent: Element, x: number, y: number, size: number, text: string, extra: Record<string, string | number> = {}) =>
+    el(parent, 'text', { x, y, 'font-family': FONT, 'font-size': size, fill: '#000000', ...extra }, text);
+
+  el(root, 'rect', { x: 0, y: 0, width, height, fill: '#ffffff' });
+  el(root, 'rect', { x: MARGIN, y: MARGIN, width: width - 2 * MARGIN, height: height - 2 * MARGIN, fill: 'none', stroke: '#000000', 'stroke-width': 0.7 });
+
+  // --- VIEWS ---
+  const hullStart = areaLeft + (areaRight - areaLeft - (maxRight - minLeft) * hullLength) / 2 - minLeft * hullLength;
+  const views = el(root, 'g', { id: 'views' });
+  let y = areaTop + (areaBottom - areaTop - totalHeight * hullLength - VIEW_GAP * (placed.length - 1)) / 2;
+  placed.forEach((p, i) => {
+    const k = hullLength / rel[i].length; // sheet mm per SVG unit for this view
+    const frame = el(views, 'svg', {
+      x: hullStart + (p.content.minX - p.hull.minX) * k,
+      y,
+      width: (p.content.maxX - p.content.minX) * k,
+      height: (p.content.maxY - p.content.minY) * k,
+      viewBox: `${p.content.minX} ${p.content.minY} ${p.content.maxX - p.content.minX} ${p.content.maxY - p.content.minY}`,
+      overflow: 'visible'
+    });
+    // Presentation attributes on the source root still have to cascade to the drawing.
+    const wrapper = el(frame, 'g', {});
+    Array.from(p.doc.documentElement.attributes)
+      .filter(attr => !/^(xmlns|viewBox|width|height|x|y|id|data-|preserveAspectRatio|version)/.test(attr.name))
+      .forEach(attr => wrapper.setAttribute(attr.name, attr.value));
+    Array.from(p.doc.documentElement.childNodes).forEach(node => wrapper.appendChild(doc.importNode(node, true)));
+
+    const captionY = y + (p.content.maxY - p.content.minY) * k + 6;
+    label(views, hullStart, captionY, 3.5, `${String.fromCharCode(65 + i)}  ${p.view.label.toUpperCase()}`, { 'font-weight': 'bold' });
+    y = captionY - 6 + VIEW_GAP;
+  });
+
+  // --- COMMON AXIS: perpendiculars and a ten-station scale ---
+  const axis = el(root, 'g', { id: 'stations', stroke: '#000000', 'stroke-width': 0.25, fill: 'none' });
+  const stationsY = areaBottom + 6;
+  [0, 10].forEach(station => {
+    const x = hullStart + hullLength * station / 10;
+    el(axis, 'line', { x1: x, y1: areaTop, x2: x, y2: stationsY, 'stroke-dasharray': '6 1.5 1 1.5' });
+  });
+  el(axis, 'line', { x1: hullStart, y1: stationsY, x2: hullStart + hullLength, y2: stationsY });
+  for (let station = 0; station <= 10; station++) {
+    const x = hullStart + hullLength * station / 10;
+    el(axis, 'line', { x1: x, y1: stationsY - 1.5, x2: x, y2: stationsY + 1.5 });
+    label(axis, x, stationsY + 5, 2.5, String(station), { 'text-anchor': 'middle', stroke: 'none' });
+  }
+
+  // --- LEGEND ---
+  const blockTop = height - MARGIN - TITLE_BLOCK[1];
+  if (options.showLegend) {
+    const legend = el(root, 'g', { id: 'legend' });
+    el(legend, 'rect', { x: MARGIN, y: blockTop, width: LEGEND_WIDTH, height: TITLE_BLOCK[1], fill: 'none', stroke: '#000000', 'stroke-width': 0.5 });
+    label(legend, MARGIN + 3, blockTop + 5, 2.5, 'LEGEND', { 'font-weight': 'bold' });
+    const lines = [
+      ...placed.map((p, i) => `${String.fromCharCode(65 + i)}  ${p.view.label}`),
+      'Dash-dot lines: hull ends (stations 0 and 10)'
+    ];
+    lines.slice(0, 5).forEach((line, i) => label(legend, MARGIN + 3, blockTop + 10 + i * 4, 2.5, line));
+
+    if (calibrated) {
+      // A scale bar in real units at the sheet scale.
+      const { unit } = calibrated.view.calibration!;
+      const ratio = Number(scale.slice(2));
+      const mmPerUnit = MM_PER_UNIT[unit] / ratio;
+      const target = 40 / mmPerUnit;
+      const base = 10 ** Math.floor(Math.log10(target));
+      const real = [5, 2, 1].map(n => n * base).find(n => n <= target) ?? base;
+      const barX = MARGIN + LEGEND_WIDTH - 50;
+      const barY = blockTop + TITLE_BLOCK[1] - 8;
+      for (let i = 0; i < 4; i++) {
+        el(legend, 'rect', {
+          x: barX + (i * real * mmPerUnit) / 4, y: barY, width: (real * mmPerUnit) / 4, height: 1.5,
+          fill: i % 2 === 0 ? '#000000' : '#ffffff', stroke: '#000000', 'stroke-width': 0.2
+        });
+      }
+      label(legend, barX, barY - 1.5, 2.2, '0', { 'text-anchor': 'middle' });
+      label(legend, barX + real * mmPerUnit, barY - 1.5, 2.2, `${real} ${unit}`, { 'text-anchor': 'middle' });
+    }
+  }
+
+  // --- TITLE BLOCK ---
+  const tb = options.titleBlock;
+  const [tbWidth, tbHeight] = TITLE_BLOCK;
+  const tbX = width - MARGIN - tbWidth;
+  const block = el(root, 'g', { id: 'title-block' });
+  el(block, 'rect', { x: tbX, y: blockTop, width: tbWidth, height: tbHeight, fill: 'none', stroke: '#000000', 'stroke-width': 0.5 });
+  const rows = [14, 11, 11];
+  const cell = (x: number, top: number, w: number, h: number, caption: string, value: string, size: number) => {
+    el(block, 'rect', { x, y: top, width: w, height: h, fill: 'none', stroke: '#000000', 'stroke-width': 0.25 });
+    label(block, x + 1.5, top + 3, 2, caption.toUpperCase());
+    label(block, x + 1.5, top + h - 2.5, size, value);
+  };
+  cell(tbX, blockTop, tbWidth, rows[0], 'Ship', tb.shipName || project.name, 6);
+  cell(tbX, blockTop + rows[0], tbWidth * 0.6, rows[1], 'Class', tb.shipClass ?? '', 4);
+  cell(tbX + tbWidth * 0.6, blockTop + rows[0], tbWidth * 0.4, rows[1], 'Date', tb.date, 4);
+  const third = tbWidth / 3;
+  const lastTop = blockTop + rows[0] + rows[1];
+  cell(tbX, lastTop, third, rows[2], 'Scale', tb.scale?.trim() || scale, 4);
+  cell(tbX + third, lastTop, third, rows[2], 'Sheet', tb.sheetNumber, 4);
+  cell(tbX + 2 * third, lastTop, third, rows[2], 'Drawn', tb.drawnBy ?? '', 4);
+
+  return { svg: new XMLSerializer().serializeToString(doc), widthMm: width, heightMm: height, scale: tb.scale?.trim() || scale };
+};
@@ -0,0 +1,195 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { WarshipProject, ProjectSummary, GeneratedSvg, RevisionTree, ProjectView, ImageData, BoundingBox, DetectedView, Segmentation } from "../types";
+import { validateSvg } from "./svgValidator";
+import { migrateAuditReport } from "./auditFindings";
+import { createTree, currentSvgOf } from "./revisionHistory";
+import { VIEW_TYPE_LABELS } from "./viewTypes";
+import { renderThumbnail } from "./rasterizer";
+
+const DB_NAME = 'warship-architect';
+const DB_VERSION = 1;
+const PROJECTS = 'projects';   // full projects, including image data
+const SUMMARIES = 'summaries'; // lightweight rows for the library browser
+const THUMBNAIL_SIZE = 240; // px on the longest side
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDb = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const db = request.result;
+        if (!db.objectStoreNames.contains(PROJECTS)) db.createObjectStore(PROJECTS, { keyPath: 'id' });
+        if (!db.objectStoreNames.contains(SUMMARIES)) db.createObjectStore(SUMMARIES, { keyPath: 'id' });
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null;
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const transactionDone = (tx: IDBTransaction): Promise<void> =>
+  new Promise((resolve, reject) => {
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+    tx.onabort = () => reject(tx.error);
+  });
+
+/**
+ * Small JPEG of the first view's drawing, or of the sheet before anything is drawn, so summaries stay light.
+ * Left out when it cannot be rendered.
+ */
+const buildThumbnail = async (project: WarshipProject): Promise<string | undefined> => {
+  const svg = project.views.map(currentSvgOf).find(Boolean);
+  const safe = svg ? validateSvg(svg.content).sanitized : null;
+  const src = safe ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(safe)}` : project.originalImage.data;
+  try {
+    return await renderThumbnail(src, THUMBNAIL_SIZE);
+  } catch {
+    return undefined;
+  }
+};
+
+const toSummary = async (project: WarshipProject): Promise<ProjectSummary> => ({
+  id: project.id,
+  name: project.name,
+  shipClass: project.shipClass,
+  thumbnail: await buildThumbnail(project),
+  createdAt: project.createdAt,
+  updatedAt: project.updatedAt
+});
+
+export const saveProject = async (project: WarshipProject): Promise<WarshipProject> => {
+  const stored = { ...project, updatedAt: Date.now() };
+  // Rendered before the transaction opens; it would auto-commit while waiting on the canvas.
+  const summary = await toSummary(stored);
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, SUMMARIES], 'readwrite');
+  tx.objectStore(PROJECTS).put(stored);
+  tx.objectStore(SUMMARIES).put(summary);
+  await transactionDone(tx);
+  return stored;
+};
+
+// --- SCHEMA MIGRATION ---
+
+const migrateSvg = (svg: GeneratedSvg | undefined): GeneratedSvg | undefined =>
+  svg && { ...svg, auditReport: migrateAuditReport(svg.auditReport) };
+
+const migrateTree = (tree: RevisionTree | undefined): RevisionTree | undefined =>
+  tree && {
+    ...tree,
+    revisions: Object.fromEntries(Object.entries(tree.revisions).map(([id, rev]) => [id, migrateSvg(rev)!]))
+  };
+
+type LegacyViewKey = 'side' | 'top';
+
+/** Shape written before views were generalized from a fixed side/top pair. */
+interface LegacyProject extends Omit<WarshipProject, 'views' | 'segmentation'> {
+  views?: ProjectView[];
+  sideView?: GeneratedSvg;
+  topView?: GeneratedSvg;
+  crops?: Partial<Record<LegacyViewKey, ImageData>>;
+  history?: Partial<Record<LegacyViewKey, RevisionTree>>;
+  activeView?: LegacyViewKey;
+  segmentation?: Segmentation | { views: Partial<Record<LegacyViewKey, BoundingBox>>; padding: number };
+}
+
+const migrateLegacyViews = (legacy: LegacyProject): Pick<WarshipProject, 'views' | 'segmentation' | 'activeViewId'> => {
+  const keys: LegacyViewKey[] = ['side', 'top'];
+  const legacyBoxes = legacy.segmentation && !Array.isArray(legacy.segmentation.views)
+    ? legacy.segmentation.views as Partial<Record<LegacyViewKey, BoundingBox>>
+    : {};
+  const ids = Object.fromEntries(keys.map(key => [key, crypto.randomUUID()])) as Record<LegacyViewKey, string>;
+
+  const views: ProjectView[] = keys
+    .filter(key => legacy.history?.[key] || legacy[key === 'side' ? 'sideView' : 'topView'] || legacy.crops?.[key])
+    .map(key => {
+      const svg = legacy[key === 'side' ? 'sideView' : 'topView'];
+      return {
+        id: ids[key],
+        label: VIEW_TYPE_LABELS[key],
+        viewType: key,
+        shipIndex: 0,
+        crop: legacy.crops?.[key],
+        history: legacy.history?.[key] ?? (svg ? createTree(svg) : undefined)
+      };
+    });
+
+  const detected: DetectedView[] = keys
+    .filter(key => legacyBoxes[key])
+    .map(key => ({ id: ids[key], label: VIEW_TYPE_LABELS[key], viewType: key, box: legacyBoxes[key]!, shipIndex: 0 }));
+
+  return {
+    views,
+    segmentation: legacy.segmentation ? { views: detected, padding: legacy.segmentation.padding } : undefined,
+    activeViewId: legacy.activeView ? ids[legacy.activeView] : undefined
+  };
+};
+
+/** Upgrades projects saved by earlier versions of the app to the current shape. */
+const migrateProject = (stored: LegacyProject): WarshipProject => {
+  const { sideView, topView, crops, history, activeView, segmentation, views, ...rest } = stored;
+  const base: WarshipProject = views
+    ? { ...rest, views, segmentation: segmentation as Segmentation | undefined }
+    : { ...rest, ...migrateLegacyViews(stored) };
+  return {
+    ...base,
+    views: base.views.map(view => ({ ...view, history: migrateTree(view.history) }))
+  };
+};
+
+export const loadProject = async (id: string): Promise<WarshipProject | undefined> => {
+  const db = await openDb();
+  const stored = await promisify<LegacyProject | undefined>(db.transaction(PROJECTS).objectStore(PROJECTS).get(id));
+  return stored && migrateProject(stored);
+};
+
+/**
+ * Lists saved projects, most recently edited first.
+ * The query matches case-insensitively against name and ship class.
+ */
+export const listProjects = async (query: string = ''): Promise<ProjectSummary[]> => {
+  const db = await openDb();
+  const all = await promisify<ProjectSummary[]>(db.transaction(SUMMARIES).objectStore(SUMMARIES).getAll());
+  const needle = query.trim().toLowerCase();
+  return all
+    .filter(p => !needle || p.name.toLowerCase().includes(needle) || (p.shipClass ?? '').toLowerCase().includes(needle))
+    .sort((a, b) => b.updatedAt - a.updatedAt);
+};
+
+export const renameProject = async (id: string, name: string, shipClass?: string): Promise<WarshipProject | undefined> => {
+  const project = await loadProject(id);
+  if (!project) return undefined;
+  return saveProject({ ...project, name, shipClass });
+};
+
+export const duplicateProject = async (id: string): Promise<WarshipProject | undefined> => {
+  const project = await loadProject(id);
+  if (!project) return undefined;
+  const now = Date.now();
+  return saveProject({ ...project, id: crypto.randomUUID(), name: `${project.name} (copy)`, createdAt: now });
+};
+
+export const deleteProject = async (id: string): Promise<void> => {
+  const db = await openDb();
+  const tx = db.transaction([PROJECTS, SUMMARIES], 'readwrite');
+  tx.objectStore(PROJECTS).delete(id);
+  tx.objectStore(SUMMARIES).delete(id);
+  await transactionDone(tx);
+};
@@ -0,0 +1,68 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerateContentResponseUsageMetadata, GoogleGenAI, Schema, Type } from "@google/genai";
+import { GenerateContentRequest, GenerateContentResult, ModelProvider, ResponseSchema } from "../modelProvider";
+
+const toGeminiSchema = (schema: ResponseSchema): Schema => ({
+  type: schema.type.toUpperCase() as Type,
+  description: schema.description,
+  enum: schema.enum,
+  required: schema.required,
+  items: schema.items ? toGeminiSchema(schema.items) : undefined,
+  properties: schema.properties
+    ? Object.fromEntries(Object.entries(schema.properties).map(([key, value]) => [key, toGeminiSchema(value)]))
+    : undefined
+});
+
+const toUsage = (usage?: GenerateContentResponseUsageMetadata) => usage && {
+  inputTokens: usage.promptTokenCount,
+  outputTokens: usage.candidatesTokenCount,
+  thinkingTokens: usage.thoughtsTokenCount,
+  totalTokens: usage.totalTokenCount
+};
+
+/**
+ * Google Gemini backend via the @google/genai SDK.
+ */
+export class GeminiProvider implements ModelProvider {
+  readonly name = 'gemini';
+  private ai: GoogleGenAI;
+
+  constructor(apiKey?: string) {
+    this.ai = new GoogleGenAI({ apiKey });
+  }
+
+  async generateContent(request: GenerateContentRequest): Promise<GenerateContentResult> {
+    const params = {
+      model: request.model,
+      contents: { parts: request.parts },
+      config: {
+        systemInstruction: request.systemInstruction,
+        thinkingConfig: request.thinkingBudget !== undefined ? { thinkingBudget: request.thinkingBudget } : undefined,
+        temperature: request.temperature,
+        abortSignal: request.signal,
+        ...(request.responseSchema && {
+          responseMimeType: "application/json",
+          responseSchema: toGeminiSchema(request.responseSchema)
+        })
+      }
+    };
+
+    if (request.onText) {
+      let text = '';
+      let usage: GenerateContentResponseUsageMetadata | undefined;
+      for await (const chunk of await this.ai.models.generateContentStream(params)) {
+        text += chunk.text ?? '';
+        usage = chunk.usageMetadata ?? usage;
+        request.onText(text);
+      }
+      return { text, usage: toUsage(usage) };
+    }
+
+    const response = await this.ai.models.generateContent(params);
+    return { text: response.text || '', usage: toUsage(response.usageMetadata) };
+  }
+}
@@ -0,0 +1,46 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { OpenAiCompatibleProvider } from './openAiCompatibleProvider';
+
+/** Answers the chat-completions call with the given stream, split into the given pieces. */
+const serveStream = (...pieces: string[]) => {
+  const encoder = new TextEncoder();
+  const body = new ReadableStream<Uint8Array>({
+    start(controller) {
+      pieces.forEach(piece => controller.enqueue(encoder.encode(piece)));
+      controller.close();
+    }
+  });
+  vi.stubGlobal('fetch', async () => new Response(body, { status: 200 }));
+};
+
+const event = (chunk: object) => `data: ${JSON.stringify(chunk)}`;
+
+describe('OpenAiCompatibleProvider streaming', () => {
+  afterEach(() => vi.unstubAllGlobals());
+
+  const stream = (onText: (textSoFar: string) => void = () => {}) =>
+    new OpenAiCompatibleProvider({ baseUrl: 'http://localhost:8080/v1' })
+      .generateContent({ model: 'm', parts: [{ text: 'Draw.' }], onText });
+
+  it('reads a final event that has no trailing newline', async () => {
+    serveStream(
+      event({ choices: [{ delta: { content: 'Hel' } }] }) + '\n\n' + event({ choices: [{ delta: { content: 'l' } }] }),
+      '\n' + event({ choices: [{ delta: { content: 'o' } }], usage: { prompt_tokens: 3, completion_tokens: 2, total_tokens: 5 } })
+    );
+    const seen: string[] = [];
+    const result = await stream(text => { seen.push(text); });
+    expect(result.text).toBe('Hello');
+    expect(seen).toEqual(['Hel', 'Hell', 'Hello']);
+    expect(result.usage).toMatchObject({ inputTokens: 3, outputTokens: 2, totalTokens: 5 });
+  });
+
+  it('skips events that are not JSON', async () => {
+    serveStream(`data: keep-alive\n${event({ choices: [{ delta: { content: 'ok' } }] })}\ndata: [DONE]\n`);
+    expect((await stream()).text).toBe('ok');
+  });
+});
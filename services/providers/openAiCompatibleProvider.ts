@@ -0,0 +1,130 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { TokenUsage } from "../../types";
+import { GenerateContentRequest, GenerateContentResult, ModelProvider } from "../modelProvider";
+
+export interface OpenAiCompatibleOptions {
+  baseUrl: string; // e.g. http://localhost:8080/v1
+  apiKey?: string;
+  model?: string; // replaces every requested model when set
+  modelMap?: Record<string, string>; // maps pipeline model names to server model names
+}
+
+// The parts of the chat-completions responses this provider reads; servers differ in what else they send.
+interface ChatUsage {
+  prompt_tokens?: number;
+  completion_tokens?: number;
+  total_tokens?: number;
+  completion_tokens_details?: { reasoning_tokens?: number };
+}
+
+interface ChatCompletion {
+  choices?: { message?: { content?: string | null } }[];
+  usage?: ChatUsage | null;
+}
+
+interface ChatCompletionChunk {
+  choices?: { delta?: { content?: string | null } }[];
+  usage?: ChatUsage | null;
+}
+
+const toUsage = (usage: ChatUsage | null | undefined): TokenUsage | undefined => usage ? {
+  inputTokens: usage.prompt_tokens,
+  outputTokens: usage.completion_tokens,
+  thinkingTokens: usage.completion_tokens_details?.reasoning_tokens,
+  totalTokens: usage.total_tokens
+} : undefined;
+
+/** Reads a server-sent event stream of chat-completion chunks, reporting the text as it grows. */
+const readStream = async (response: Response, onText: (textSoFar: string) => void): Promise<GenerateContentResult> => {
+  const reader = response.body!.getReader();
+  const decoder = new TextDecoder();
+  let buffer = '';
+  let text = '';
+  let usage: ChatUsage | null | undefined;
+  const readLine = (line: string) => {
+    const data = line.match(/^data:\s*(.*)$/)?.[1]?.trim();
+    if (!data || data === '[DONE]') return;
+    let chunk: ChatCompletionChunk;
+    try {
+      chunk = JSON.parse(data) as ChatCompletionChunk;
+    } catch {
+      return; // keep-alives and vendor extras that are not JSON carry no text
+    }
+    usage = chunk.usage ?? usage;
+    const delta = chunk.choices?.[0]?.delta?.content;
+    if (delta) {
+      text += delta;
+      onText(text);
+    }
+  };
+  for (;;) {
+    const { done, value } = await reader.read();
+    if (done) break;
+    buffer += decoder.decode(value, { stream: true });
+    const lines = buffer.split('\n');
+    buffer = lines.pop()!;
+    lines.forEach(readLine);
+  }
+  // The last event may end without a newline.
+  (buffer + decoder.decode()).split('\n').forEach(readLine);
+  return { text, usage: toUsage(usage) };
+};
+
+/**
+ * Any server speaking the OpenAI chat-completions protocol (vLLM, llama.cpp, Ollama, LM Studio...).
+ * Thinking budgets have no portable equivalent and are not forwarded.
+ */
+export class OpenAiCompatibleProvider implements ModelProvider {
+  readonly name = 'openai-compatible';
+
+  constructor(private options: OpenAiCompatibleOptions) {}
+
+  async generateContent(request: GenerateContentRequest): Promise<GenerateContentResult> {
+    const content = request.parts.map(part =>
+      'text' in part
+        ? { type: 'text', text: part.text }
+        : { type: 'image_url', image_url: { url: `data:${part.inlineData.mimeType};base64,${part.inlineData.data}` } }
+    );
+
+    const messages: object[] = [];
+    if (request.systemInstruction) messages.push({ role: 'system', content: request.systemInstruction });
+    messages.push({ role: 'user', content });
+
+    const body: Record<string, unknown> = {
+      model: this.options.model || this.options.modelMap?.[request.model] || request.model,
+      messages,
+      temperature: request.temperature
+    };
+    if (request.responseSchema) {
+      body.response_format = {
+        type: 'json_schema',
+        json_schema: { name: 'response', schema: request.responseSchema }
+      };
+    }
+    if (request.onText) {
+      body.stream = true;
+      body.stream_options = { include_usage: true };
+    }
+
+    const response = await fetch(`${this.options.baseUrl.replace(/\/$/, '')}/chat/completions`, {
+      method: 'POST',
+      headers: {
+        'Content-Type': 'application/json',
+        ...(this.options.apiKey && { Authorization: `Bearer ${this.options.apiKey}` })
+      },
+      body: JSON.stringify(body),
+      signal: request.signal
+    });
+
+    if (!response.ok) {
+      throw new Error(`Model server returned ${response.status}: ${(await response.text()).slice(0, 500)}`);
+    }
+    if (request.onText) return readStream(response, request.onText);
+    const json = await response.json() as ChatCompletion;
+    return { text: json.choices?.[0]?.message?.content ?? '', usage: toUsage(json.usage) };
+  }
+}
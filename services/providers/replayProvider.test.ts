@@ -0,0 +1,32 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { describe, expect, it } from 'vitest';
+import { GenerateContentRequest } from '../modelProvider';
+import { RecordingProvider, ReplayProvider, requestKeys } from './replayProvider';
+
+const request = (temperature: number, thinkingBudget?: number): GenerateContentRequest =>
+  ({ model: 'm', parts: [{ text: 'Draw.' }], temperature, thinkingBudget });
+
+describe('ReplayProvider', () => {
+  it('keys requests by their sampling settings', () => {
+    expect(requestKeys(request(0.2))).not.toEqual(requestKeys(request(0.9)));
+    expect(requestKeys(request(0.2))).not.toEqual(requestKeys(request(0.2, 1024)));
+    expect(requestKeys(request(0.2, 1024))).toEqual(requestKeys(request(0.2, 1024)));
+  });
+
+  it('replays each variant its own answer whatever order they run in', async () => {
+    const recorder = new RecordingProvider({
+      name: 'live',
+      generateContent: async ({ temperature }) => ({ text: `t=${temperature}` })
+    });
+    await recorder.generateContent(request(0.2));
+    await recorder.generateContent(request(0.9));
+
+    const replay = new ReplayProvider(recorder.toFixture());
+    expect((await replay.generateContent(request(0.9))).text).toBe('t=0.9');
+    expect((await replay.generateContent(request(0.2))).text).toBe('t=0.2');
+  });
+});
@@ -0,0 +1,111 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GenerateContentRequest, GenerateContentResult, ModelProvider } from "../modelProvider";
+
+export interface ReplayEntry {
+  key: string; // hash of the full request, images included
+  looseKey: string; // hash without image bytes; survives re-encoded crops
+  model: string;
+  promptPreview: string;
+  response: GenerateContentResult;
+}
+
+export interface ReplayFixture {
+  version: 1;
+  entries: ReplayEntry[];
+}
+
+// FNV-1a, run twice with different offsets for a 64-bit-ish key. Not cryptographic, just stable.
+const fnv1a = (input: string, seed: number): string => {
+  let hash = seed >>> 0;
+  for (let i = 0; i < input.length; i++) {
+    hash ^= input.charCodeAt(i);
+    hash = Math.imul(hash, 0x01000193) >>> 0;
+  }
+  return hash.toString(16).padStart(8, '0');
+};
+
+const hashString = (input: string) => fnv1a(input, 0x811c9dc5) + fnv1a(input, 0x050c5d1f);
+
+// Sampling settings are part of the key so variants that differ only in them replay their own answers.
+const describeRequest = (request: GenerateContentRequest, includeImages: boolean) => JSON.stringify({
+  model: request.model,
+  temperature: request.temperature ?? null,
+  thinkingBudget: request.thinkingBudget ?? null,
+  systemInstruction: request.systemInstruction ?? null,
+  schema: request.responseSchema ?? null,
+  parts: request.parts.map(part =>
+    'text' in part ? part.text : includeImages ? `image:${hashString(part.inlineData.data)}` : 'image'
+  )
+});
+
+export const requestKeys = (request: GenerateContentRequest) => ({
+  key: hashString(describeRequest(request, true)),
+  looseKey: hashString(describeRequest(request, false))
+});
+
+const promptPreview = (request: GenerateContentRequest) =>
+  request.parts.map(part => ('text' in part ? part.text : '[image]')).join(' ').slice(0, 200);
+
+export class ReplayMissError extends Error {
+  constructor(request: GenerateContentRequest) {
+    super(`No recorded response for ${request.model} request: "${promptPreview(request)}"`);
+    this.name = 'ReplayMissError';
+  }
+}
+
+/**
+ * Wraps a live provider and captures every exchange so it can be saved as a fixture.
+ */
+export class RecordingProvider implements ModelProvider {
+  readonly name: string;
+  private entries: ReplayEntry[] = [];
+
+  constructor(private inner: ModelProvider) {
+    this.name = `recording(${inner.name})`;
+  }
+
+  async generateContent(request: GenerateContentRequest): Promise<GenerateContentResult> {
+    const response = await this.inner.generateContent(request);
+    this.entries.push({ ...requestKeys(request), model: request.model, promptPreview: promptPreview(request), response });
+    return response;
+  }
+
+  toFixture(): ReplayFixture {
+    return { version: 1, entries: [...this.entries] };
+  }
+}
+
+/**
+ * Plays back recorded responses without touching the network.
+ * Exact matches win; otherwise the earliest unused entry with the same image-agnostic key is used,
+ * so identical runs replay in recorded order even when crops are re-encoded differently.
+ */
+export class ReplayProvider implements ModelProvider {
+  readonly name = 'replay';
+  private used = new Set<ReplayEntry>();
+
+  constructor(private fixture: ReplayFixture) {
+    if (fixture.version !== 1) throw new Error(`Unsupported replay fixture version ${fixture.version}`);
+  }
+
+  async generateContent(request: GenerateContentRequest): Promise<GenerateContentResult> {
+    request.signal?.throwIfAborted();
+    const { key, looseKey } = requestKeys(request);
+    const unused = this.fixture.entries.filter(entry => !this.used.has(entry));
+    const entry = unused.find(e => e.key === key) ?? unused.find(e => e.looseKey === looseKey);
+    if (!entry) throw new ReplayMissError(request);
+    this.used.add(entry);
+    request.onText?.(entry.response.text);
+    return entry.response;
+  }
+}
+
+export const loadReplayFixture = async (url: string): Promise<ReplayFixture> => {
+  const response = await fetch(url);
+  if (!response.ok) throw new Error(`Could not load replay fixture ${url}: ${response.status}`);
+  return response.json();
+};
@@ -0,0 +1,124 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BoundingBox, ImageData } from "../types";
+
+/** Single-channel image with luminance in 0 (black) .. 1 (white), row-major. */
+export interface GrayImage {
+  width: number;
+  height: number;
+  data: Float32Array;
+}
+
+/**
+ * Turns SVG markup and encoded raster images into pixels, and cuts views out of a sheet.
+ * The browser implementation uses a canvas; other environments install their own with setDefaultRasterizer.
+ */
+export interface Rasterizer {
+  readonly name: string;
+  rasterizeSvg(svg: string, width: number, height: number): Promise<GrayImage>;
+  decodeImage(image: ImageData): Promise<GrayImage>;
+  /** Crops a 0-1000 box out of the image onto white, with `padding` pixels of margin. */
+  cropImage(image: ImageData, box: BoundingBox, padding: number): Promise<ImageData>;
+}
+
+/** Pixel rectangle of a 0-1000 box in an image of the given size. */
+export const boxToPixels = (box: BoundingBox, width: number, height: number) => ({
+  x: (box.xmin / 1000) * width,
+  y: (box.ymin / 1000) * height,
+  w: ((box.xmax - box.xmin) / 1000) * width,
+  h: ((box.ymax - box.ymin) / 1000) * height
+});
+
+export const toGray = (rgba: Uint8ClampedArray, width: number, height: number): GrayImage => {
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    const alpha = rgba[i * 4 + 3] / 255;
+    const lum = (0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2]) / 255;
+    // Transparent areas count as paper.
+    data[i] = lum * alpha + (1 - alpha);
+  }
+  return { width, height, data };
+};
+
+const loadImage = (src: string): Promise<HTMLImageElement> =>
+  new Promise((resolve, reject) => {
+    const img = new Image();
+    img.onload = () => resolve(img);
+    img.onerror = () => reject(new Error("Image could not be decoded for rasterization."));
+    img.src = src;
+  });
+
+const drawToGray = (img: HTMLImageElement, width: number, height: number): GrayImage => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return toGray(ctx.getImageData(0, 0, width, height).data, width, height);
+};
+
+export class CanvasRasterizer implements Rasterizer {
+  readonly name = 'canvas';
+
+  async rasterizeSvg(svg: string, width: number, height: number): Promise<GrayImage> {
+    const img = await loadImage(`data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`);
+    return drawToGray(img, width, height);
+  }
+
+  async decodeImage(image: ImageData): Promise<GrayImage> {
+    const img = await loadImage(image.data);
+    return drawToGray(img, img.naturalWidth, img.naturalHeight);
+  }
+
+  async cropImage(image: ImageData, box: BoundingBox, padding: number): Promise<ImageData> {
+    const img = await loadImage(image.data);
+    const { x, y, w, h } = boxToPixels(box, img.naturalWidth, img.naturalHeight);
+    const canvas = document.createElement('canvas');
+    canvas.width = w + (padding * 2);
+    canvas.height = h + (padding * 2);
+    const ctx = canvas.getContext('2d');
+    if (!ctx) throw new Error("Could not get canvas context");
+
+    // White background for cleaner vectorization
+    ctx.fillStyle = '#FFFFFF';
+    ctx.fillRect(0, 0, canvas.width, canvas.height);
+    ctx.drawImage(img, x, y, w, h, padding, padding, w, h);
+    return { data: canvas.toDataURL('image/jpeg', 0.95), mimeType: 'image/jpeg' };
+  }
+}
+
+/** Downscales an image or SVG data URL to fit `maxSize` pixels on its longest side, as a JPEG data URL. */
+export const renderThumbnail = async (src: string, maxSize: number): Promise<string> => {
+  const img = await loadImage(src);
+  const scale = Math.min(1, maxSize / Math.max(img.naturalWidth, img.naturalHeight, 1));
+  const canvas = document.createElement('canvas');
+  canvas.width = Math.max(1, Math.round(img.naturalWidth * scale));
+  canvas.height = Math.max(1, Math.round(img.naturalHeight * scale));
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, canvas.width, canvas.height);
+  ctx.drawImage(img, 0, 0, canvas.width, canvas.height);
+  return canvas.toDataURL('image/jpeg', 0.8);
+};
+
+// --- DEFAULT RASTERIZER SELECTION ---
+
+let defaultRasterizer: Rasterizer | null = null;
+
+export const setDefaultRasterizer = (rasterizer: Rasterizer | null) => {
+  defaultRasterizer = rasterizer;
+};
+
+/** The installed rasterizer, or a canvas one when running in a browser; null when neither is available. */
+export const getDefaultRasterizer = (): Rasterizer | null => {
+  if (defaultRasterizer) return defaultRasterizer;
+  if (typeof document !== 'undefined') defaultRasterizer = new CanvasRasterizer();
+  return defaultRasterizer;
+};
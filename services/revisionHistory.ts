@@ -0,0 +1,149 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { GeneratedSvg, PipelineTrace, ProjectView, RevisionTree, ViewPipelineResult, ViewType, WarshipProject } from "../types";
+
+// All operations are pure: they return a new tree and never mutate the one passed in.
+
+export const createTree = (root: GeneratedSvg): RevisionTree => ({
+  revisions: { [root.id]: { ...root, parentId: undefined } },
+  headId: root.id,
+  redoIds: []
+});
+
+/** Appends a revision as a child of the current head and makes it the new head. */
+export const commitRevision = (tree: RevisionTree, svg: GeneratedSvg): RevisionTree => ({
+  revisions: { ...tree.revisions, [svg.id]: { ...svg, parentId: tree.headId } },
+  headId: svg.id,
+  redoIds: []
+});
+
+export const canUndo = (tree: RevisionTree) => !!tree.revisions[tree.headId]?.parentId;
+export const canRedo = (tree: RevisionTree) => tree.redoIds.length > 0;
+
+export const undo = (tree: RevisionTree): RevisionTree => {
+  const parentId = tree.revisions[tree.headId]?.parentId;
+  if (!parentId) return tree;
+  return { ...tree, headId: parentId, redoIds: [...tree.redoIds, tree.headId] };
+};
+
+export const redo = (tree: RevisionTree): RevisionTree => {
+  if (!canRedo(tree)) return tree;
+  return { ...tree, headId: tree.redoIds[tree.redoIds.length - 1], redoIds: tree.redoIds.slice(0, -1) };
+};
+
+/**
+ * Moves the head to any earlier revision. The next commit branches from there,
+ * leaving the abandoned line intact in the tree.
+ */
+export const checkout = (tree: RevisionTree, id: string): RevisionTree => {
+  if (!tree.revisions[id] || id === tree.headId) return tree;
+  return { ...tree, headId: id, redoIds: [] };
+};
+
+export const headOf = (tree: RevisionTree): GeneratedSvg => tree.revisions[tree.headId];
+
+/** Attaches derived data (such as scores) to an existing revision without moving the head. */
+export const patchRevision = (tree: RevisionTree, id: string, patch: Partial<GeneratedSvg>): RevisionTree =>
+  tree.revisions[id]
+    ? { ...tree, revisions: { ...tree.revisions, [id]: { ...tree.revisions[id], ...patch, id } } }
+    : tree;
+
+/** Updates the head in place instead of committing; only used to coalesce a run of small manual edits. */
+export const amendHead = (tree: RevisionTree, patch: Partial<GeneratedSvg>): RevisionTree =>
+  patchRevision(tree, tree.headId, patch);
+
+/**
+ * Adds every revision of another tree alongside this one's (typically as a new root branch)
+ * and moves the head to the other tree's head.
+ */
+export const graftTree = (tree: RevisionTree, other: RevisionTree): RevisionTree => ({
+  revisions: { ...tree.revisions, ...other.revisions },
+  headId: other.headId,
+  redoIds: []
+});
+
+export const childrenOf = (tree: RevisionTree, id: string): GeneratedSvg[] =>
+  Object.values(tree.revisions)
+    .filter(rev => rev.parentId === id)
+    .sort((a, b) => a.timestamp - b.timestamp);
+
+/** Trace of the pipeline run behind a revision: its own, or that of the nearest ancestor a run produced. */
+export const traceOf = (tree: RevisionTree, id: string = tree.headId): PipelineTrace | undefined => {
+  for (let rev: GeneratedSvg | undefined = tree.revisions[id]; rev; rev = rev.parentId ? tree.revisions[rev.parentId] : undefined) {
+    if (rev.trace) return rev.trace;
+  }
+  return undefined;
+};
+
+/** Depth-first listing used to draw the tree, oldest branch first. */
+export const flattenTree = (tree: RevisionTree): { revision: GeneratedSvg; depth: number }[] => {
+  const roots = Object.values(tree.revisions)
+    .filter(rev => !rev.parentId || !tree.revisions[rev.parentId])
+    .sort((a, b) => a.timestamp - b.timestamp);
+  const rows: { revision: GeneratedSvg; depth: number }[] = [];
+  const visit = (revision: GeneratedSvg, depth: number) => {
+    rows.push({ revision, depth });
+    childrenOf(tree, revision.id).forEach(child => visit(child, depth + 1));
+  };
+  roots.forEach(root => visit(root, 0));
+  return rows;
+};
+
+// --- PROJECT INTEGRATION ---
+
+/** The view's current drawing: the head of its revision tree. */
+export const currentSvgOf = (view: ProjectView | undefined): GeneratedSvg | undefined =>
+  view?.history ? headOf(view.history) : undefined;
+
+export const withTree = (project: WarshipProject, viewId: string, tree: RevisionTree): WarshipProject => ({
+  ...project,
+  views: project.views.map(view => view.id === viewId ? { ...view, history: tree } : view)
+});
+
+/**
+ * Seeds a view's revision tree with the Architect's draft followed by every heal the loop kept.
+ * The head carries the loop's final verdict, round history and run trace.
+ */
+export const historyFromPipeline = (res: ViewPipelineResult, prompt: string, viewType: ViewType): RevisionTree => {
+  let tree = createTree({
+    id: crypto.randomUUID(),
+    content: res.draft,
+    prompt,
+    timestamp: Date.now(),
+    auditReport: res.draftAudit,
+    viewType,
+    stage: 'draft',
+    fidelity: res.rounds[0]?.fidelityBefore,
+    config: res.config
+  });
+  res.rounds
+    .filter(round => !round.rolledBack && round.result !== round.input)
+    .forEach(round => {
+      tree = commitRevision(tree, {
+        id: crypto.randomUUID(),
+        content: round.result,
+        prompt,
+        timestamp: Date.now(),
+        auditReport: round.audit,
+        viewType,
+        stage: 'healed',
+        fidelity: round.fidelityAfter,
+        config: res.config
+      });
+    });
+
+  const head = headOf(tree);
+  return {
+    ...tree,
+    revisions: {
+      ...tree.revisions,
+      [head.id]: {
+        ...head, auditReport: res.auditReport, validation: res.validation, rounds: res.rounds, stopReason: res.stopReason, fidelity: res.fidelity,
+        trace: res.trace
+      }
+    }
+  };
+};
@@ -0,0 +1,55 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { installNodeDom } from '../cli/nodeDom';
+import { ScopeViolationError, buildScopedRequest, spliceFragments } from './scopedEdit';
+
+// Element keys count every element in document order, the root <svg> being 0.
+const SVG = '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 20">' +
+  '<g id="hull" data-locked="true"><path id="waterline" d="M0 8 L100 8"/></g>' + // 1, 2
+  '<g id="superstructure"><rect id="bridge" x="40" y="2" width="10" height="6" transform="translate(1 0)"/><rect id="funnel" x="60" y="0" width="4" height="8"/></g>' + // 3, 4, 5
+  '</svg>';
+
+beforeAll(() => installNodeDom());
+
+describe('spliceFragments', () => {
+  const BRIDGE = 4;
+  const parse = (content: string) => new DOMParser().parseFromString(content, 'image/svg+xml');
+
+  it('keeps the original id and transform on a conforming replacement', () => {
+    const { content, replaced } = spliceFragments(SVG, [BRIDGE], [
+      { ref: 0, markup: '<rect id="renamed" x="38" y="1" width="14" height="7" transform="scale(2)"/>' }
+    ]);
+    expect(replaced).toBe(1);
+    const bridge = parse(content).getElementById('bridge')!;
+    expect(bridge.getAttribute('width')).toBe('14');
+    expect(bridge.getAttribute('transform')).toBe('translate(1 0)');
+    expect(content).not.toContain('renamed');
+    expect(content).not.toContain('data-scope');
+  });
+
+  it('rejects a fragment that edits a sibling outside the selection', () => {
+    const { fragments } = buildScopedRequest(SVG, [BRIDGE]);
+    expect(fragments).toHaveLength(1);
+    const markup = '<g><rect x="38" y="1" width="14" height="7"/></g><rect id="funnel" x="70" y="0" width="4" height="8"/>';
+    expect(() => spliceFragments(SVG, [BRIDGE], [{ ref: 0, markup }])).toThrow(ScopeViolationError);
+  });
+
+  it('rejects a reply with no usable fragments', () => {
+    expect(() => spliceFragments(SVG, [BRIDGE], [{ ref: 7, markup: '<rect/>' }])).toThrow('no usable replacement fragments');
+  });
+});
+
+describe('locked layers', () => {
+  it.each([
+    ['inside a locked layer', [2]],
+    ['that is a locked layer', [1]],
+    ['that contains a locked layer', [0, 1, 3]]
+  ])('rejects a selection %s', (_, keys) => {
+    expect(() => buildScopedRequest(SVG, keys)).toThrow(ScopeViolationError);
+    expect(() => spliceFragments(SVG, keys, [{ ref: 0, markup: '<path d="M0 0 L1 1"/>' }])).toThrow('locked layer "hull"');
+  });
+});
@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SvgValidationReport } from "../types";
+import { parseSvgDocument, elementBounds } from "./svgGeometry";
+import { validateSvg } from "./svgValidator";
+import { lockedLayerOf } from "./svgLayers";
+
+// Elements are addressed by their index among all elements of the document in document order
+// (the root <svg> is 0). The same index finds the element in the rendered copy of the markup.
+
+const SCOPE_ATTR = 'data-scope-ref';
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+export class ScopeViolationError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ScopeViolationError';
+  }
+}
+
+export interface ScopedFragment {
+  ref: number;
+  markup: string;
+}
+
+export interface ScopedRequest {
+  fragments: ScopedFragment[];
+  context: string; // description of where the fragments sit in the drawing
+}
+
+const allElements = (root: Element | Document): Element[] => {
+  const rootEl = 'documentElement' in root ? root.documentElement : root;
+  return [rootEl, ...Array.from(rootEl.getElementsByTagName('*'))];
+};
+
+export const elementKeyOf = (root: Element, el: Element): number => allElements(root).indexOf(el);
+
+export const findElementByKey = (root: Element, key: number): Element | undefined => allElements(root)[key];
+
+/** Drops the root, unknown keys, and any key nested inside another selected element. */
+const selectedElements = (doc: Document, keys: number[]): Element[] => {
+  const all = allElements(doc);
+  const picked = [...new Set(keys)]
+    .filter(key => key > 0)
+    .map(key => all[key])
+    .filter((el): el is Element => !!el);
+  return picked.filter(el => !picked.some(other => other !== el && other.contains(el)));
+};
+
+const describe = (el: Element) => {
+  const id = el.getAttribute('id');
+  const transform = el.getAttribute('transform');
+  return `<${el.localName}${id ? ` id="${id}"` : ''}${transform ? ` transform="${transform}"` : ''}>`;
+};
+
+/** Everything outside the scoped fragments, with each fragment replaced by a placeholder slot. */
+const outsideSignature = (doc: Document): string => {
+  const clone = doc.cloneNode(true) as Document;
+  Array.from(clone.querySelectorAll(`[${SCOPE_ATTR}]`)).forEach(el => {
+    const slot = clone.createElementNS(SVG_NS, 'scope-slot');
+    slot.setAttribute('ref', el.getAttribute(SCOPE_ATTR)!);
+    el.parentNode?.replaceChild(slot, el);
+  });
+  return new XMLSerializer().serializeToString(clone);
+};
+
+const markSelection = (content: string, keys: number[]): Document => {
+  // Start from sanitized markup so the outside comparison is not tripped by sanitization itself.
+  const safe = validateSvg(content, []).sanitized;
+  const doc = safe ? parseSvgDocument(safe) : null;
+  if (!doc) throw new ScopeViolationError('SVG could not be parsed.');
+  const selected = selectedElements(doc, keys);
+  if (selected.length === 0) throw new ScopeViolationError('Nothing is selected.');
+  const locked = selected.map(lockedLayerOf).find(id => id !== null);
+  if (locked) throw new ScopeViolationError(`The selection touches locked layer "${locked}".`);
+  selected.forEach((el, i) => el.setAttribute(SCOPE_ATTR, String(i)));
+  return doc;
+};
+
+/**
+ * Extracts the selected subtrees and a plain-text description of their surroundings:
+ * the viewBox, each fragment's ancestors and position, and the neighbouring groups.
+ */
+export const buildScopedRequest = (content: string, keys: number[]): ScopedRequest => {
+  const doc = markSelection(content, keys);
+  const serializer = new XMLSerializer();
+  const marked = Array.from(doc.querySelectorAll(`[${SCOPE_ATTR}]`));
+
+  const fragments = marked.map(el => ({ ref: Number(el.getAttribute(SCOPE_ATTR)), markup: serializer.serializeToString(el) }));
+
+  const lines = [`viewBox: ${doc.documentElement.getAttribute('viewBox') ?? 'none'}`];
+  marked.forEach(el => {
+    const ancestors: string[] = [];
+    for (let node = el.parentElement; node && node !== doc.documentElement; node = node.parentElement) ancestors.unshift(describe(node));
+    const b = elementBounds(el);
+    lines.push(`fragment ${el.getAttribute(SCOPE_ATTR)}: inside ${ancestors.join(' > ') || '<svg>'}` +
+      (b ? `, occupies x=${b.minX.toFixed(1)}..${b.maxX.toFixed(1)} y=${b.minY.toFixed(1)}..${b.maxY.toFixed(1)}` : ''));
+  });
+
+  const neighbours = Array.from(doc.getElementsByTagName('g'))
+    .filter(g => g.getAttribute('id') && !g.closest(`[${SCOPE_ATTR}]`) && !marked.some(el => g.contains(el)))
+    .map(g => {
+      const b = elementBounds(g);
+      return `<g id="${g.getAttribute('id')}">${b ? ` at x=${b.minX.toFixed(1)}..${b.maxX.toFixed(1)} y=${b.minY.toFixed(1)}..${b.maxY.toFixed(1)}` : ''}`;
+    });
+  if (neighbours.length) lines.push(`untouched neighbours: ${neighbours.join(', ')}`);
+
+  return { fragments, context: lines.join('\n') };
+};
+
+/** The fragment's top-level elements, or null when it does not parse. */
+const parseFragment = (markup: string): Element[] | null => {
+  const wrapped = new DOMParser().parseFromString(`<svg xmlns="${SVG_NS}" xmlns:xlink="http://www.w3.org/1999/xlink">${markup}</svg>`, 'image/svg+xml');
+  if (wrapped.getElementsByTagName('parsererror').length > 0) return null;
+  return Array.from(wrapped.documentElement.children);
+};
+
+/**
+ * Splices replacement fragments back over the selection. Each replacement keeps the original's
+ * id and transform, and the result is rejected if anything outside the selection differs.
+ */
+export const spliceFragments = (
+  content: string,
+  keys: number[],
+  replacements: ScopedFragment[],
+  requiredGroups?: string[]
+): { content: string; validation: SvgValidationReport; replaced: number } => {
+  const doc = markSelection(content, keys);
+  const before = outsideSignature(doc);
+  let replaced = 0;
+
+  replacements.forEach(({ ref, markup }) => {
+    const original = doc.querySelector(`[${SCOPE_ATTR}="${ref}"]`);
+    const [fragment, ...extra] = parseFragment(markup) ?? [];
+    if (!original || !fragment) return;
+    // Anything after the replacement element would land beside the selection, among its siblings.
+    if (extra.length > 0) throw new ScopeViolationError(`Fragment ${ref} adds elements outside the selection.`);
+    const node = doc.importNode(fragment, true) as Element;
+    ['id', 'transform'].forEach(name => {
+      const value = original.getAttribute(name);
+      if (value === null) node.removeAttribute(name);
+      else node.setAttribute(name, value);
+    });
+    node.setAttribute(SCOPE_ATTR, String(ref));
+    original.parentNode?.replaceChild(node, original);
+    replaced++;
+  });
+  if (replaced === 0) throw new ScopeViolationError('The model returned no usable replacement fragments.');
+
+  // Sanitize with the markers still in place so the outside can be compared after any stripping.
+  const validation = validateSvg(new XMLSerializer().serializeToString(doc), requiredGroups);
+  const sanitizedDoc = validation.sanitized ? parseSvgDocument(validation.sanitized) : null;
+  if (!sanitizedDoc) throw new ScopeViolationError('Spliced SVG could not be parsed.');
+  if (outsideSignature(sanitizedDoc) !== before) {
+    throw new ScopeViolationError('The edit changed elements outside the selection.');
+  }
+
+  Array.from(sanitizedDoc.querySelectorAll(`[${SCOPE_ATTR}]`)).forEach(el => el.removeAttribute(SCOPE_ATTR));
+  const result = new XMLSerializer().serializeToString(sanitizedDoc);
+  return { content: result, validation: validateSvg(result, requiredGroups), replaced };
+};
@@ -0,0 +1,138 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ImageData, PipelineConfig, PipelineLoopOptions, ProjectView, ShipType, ViewType, WarshipProject } from "../types";
+import {
+  DEFAULT_LOOP_OPTIONS, PipelineStageError, candidateFailure, cropViews, detectViews, generateCandidates, partialResult, runViewPipeline,
+  withCheckpoint
+} from "./geminiService";
+import { ModelProvider, getDefaultProvider } from "./modelProvider";
+import { currentSvgOf, historyFromPipeline, traceOf, withTree } from "./revisionHistory";
+import { selectedCandidateOf, withCandidates } from "./candidates";
+import { auditOutcome, severityScore } from "./auditFindings";
+import { traceTotals } from "./pipelineTrace";
+import { DEFAULT_PIPELINE_CONFIG } from "./pipelineConfig";
+import { withShipType } from "./shipTemplates";
+
+// Unattended conversion of a whole sheet, shared by the batch queue and the command line.
+// Nothing is reviewed: detected boxes are accepted as-is and the best-ranked candidate is always taken.
+
+export interface SheetConversionOptions {
+  name: string;
+  loopOptions?: PipelineLoopOptions;
+  viewTypes?: ViewType[]; // only convert views of these types
+  padding?: number; // overrides the configuration's crop padding
+  config?: PipelineConfig;
+  shipType?: ShipType; // overrides the detected ship type of every view
+  signal?: AbortSignal;
+}
+
+export class SheetConversionError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'SheetConversionError';
+  }
+}
+
+/**
+ * Runs a sheet through segmentation, drafting and the audit/heal loop. The project is not saved.
+ * A view whose pipeline fails keeps what it completed and its checkpoint; the conversion only
+ * fails when no view produced anything.
+ */
+export const convertSheet = async (
+  image: ImageData,
+  prompt: string,
+  options: SheetConversionOptions,
+  onStatusChange: (status: string) => void = () => {},
+  provider: ModelProvider = getDefaultProvider()
+): Promise<WarshipProject> => {
+  const loopOptions = options.loopOptions ?? DEFAULT_LOOP_OPTIONS;
+  const { signal, config = DEFAULT_PIPELINE_CONFIG } = options;
+
+  onStatusChange('SCANNING_LAYOUT');
+  const found = withShipType(await detectViews(image, provider, signal, config), options.shipType);
+  if (found.length === 0) throw new SheetConversionError('No views were detected on the sheet.');
+  const detected = options.viewTypes ? found.filter(view => options.viewTypes!.includes(view.viewType)) : found;
+  if (detected.length === 0) {
+    throw new SheetConversionError(`None of the requested views (${options.viewTypes!.join(', ')}) were detected; found ${found.map(view => view.viewType).join(', ')}.`);
+  }
+  const segmentation = { views: detected, padding: options.padding ?? config.cropPadding };
+  const crops = await cropViews(image, detected, segmentation.padding, signal);
+
+  const now = Date.now();
+  const views: ProjectView[] = detected.map(({ box, ...view }) => ({ ...view, crop: crops[view.id] }));
+  let project: WarshipProject = {
+    id: crypto.randomUUID(),
+    name: options.name,
+    createdAt: now,
+    updatedAt: now,
+    originalImage: image,
+    segmentation,
+    views
+  };
+
+  const interrupted: PipelineStageError[] = [];
+  const candidateCount = loopOptions.candidateCount ?? 1;
+  if (candidateCount > 1) {
+    // A view whose drafting fails keeps a checkpoint and is left out of healing.
+    await Promise.all(views.map(view =>
+      generateCandidates(prompt, view.crop!, view, candidateCount, onStatusChange, provider, signal, config)
+        .then(candidates => { if (candidates.length > 0) project = withCandidates(project, view.id, candidates, candidates[0].id); })
+        .catch(err => {
+          const failure = candidateFailure(err, view, prompt, config, loopOptions);
+          interrupted.push(failure);
+          project = withCheckpoint(project, view.id, failure.checkpoint);
+        })
+    ));
+  }
+
+  await Promise.all(project.views.filter(view => !view.checkpoint).map(view =>
+    runViewPipeline(prompt, view.crop!, view, onStatusChange, provider, loopOptions, selectedCandidateOf(view), { signal, config })
+      .then(res => { project = withTree(project, view.id, historyFromPipeline(res, prompt, view.viewType)); })
+      .catch(err => {
+        if (!(err instanceof PipelineStageError)) throw err;
+        interrupted.push(err);
+        const partial = partialResult(err.checkpoint);
+        if (partial) project = withTree(project, view.id, historyFromPipeline(partial, prompt, view.viewType));
+        project = withCheckpoint(project, view.id, err.checkpoint);
+      })
+  ));
+  if (!project.views.some(view => view.history)) throw interrupted[0];
+  return project;
+};
+
+/** Machine-readable summary of a converted view: validation, loop outcome, audit, fidelity and run cost. */
+export const viewReport = (view: ProjectView, file?: string) => {
+  const svg = currentSvgOf(view);
+  const trace = view.history && traceOf(view.history);
+  return {
+    id: view.id,
+    label: view.label,
+    viewType: view.viewType,
+    shipIndex: view.shipIndex,
+    shipType: view.shipType,
+    file,
+    error: view.checkpoint?.error,
+    valid: svg?.validation?.valid,
+    issues: svg?.validation?.issues.map(issue => `${issue.code}: ${issue.message}`),
+    stopReason: svg?.stopReason,
+    rounds: svg?.rounds?.length,
+    fidelity: svg?.fidelity?.overall,
+    preset: svg?.config?.name,
+    run: trace && traceTotals(trace),
+    audit: svg?.auditReport && {
+      outcome: auditOutcome(svg.auditReport),
+      severityScore: severityScore(svg.auditReport.findings),
+      summary: svg.auditReport.summary,
+      findings: svg.auditReport.findings
+    }
+  };
+};
+
+/** Name of a project made from an image file: the file name without its extension. */
+export const projectNameOf = (fileName: string) => fileName.replace(/\.[^.]+$/, '').slice(0, 60) || fileName;
+
+/** File-name-safe form of a label. */
+export const slug = (text: string) => text.replace(/[^\w-]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 60) || 'item';
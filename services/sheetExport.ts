@@ -0,0 +1,113 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ComposedSheet } from "./presentationSheet";
+
+// Raster and print output for a composed sheet. The PNG comes straight from a canvas; the PDF is a
+// single page, sized to the sheet, holding that raster as a Flate-compressed image.
+
+const MM_PER_INCH = 25.4;
+const POINTS_PER_INCH = 72;
+const MAX_PIXELS = 64_000_000; // beyond this some browsers refuse to allocate the canvas
+
+/** Rasterizes the sheet at the requested resolution, lowered if needed to stay within canvas limits. */
+export const renderSheet = async (sheet: ComposedSheet, dpi: number): Promise<HTMLCanvasElement> => {
+  let width = Math.round((sheet.widthMm / MM_PER_INCH) * dpi);
+  let height = Math.round((sheet.heightMm / MM_PER_INCH) * dpi);
+  if (width * height > MAX_PIXELS) {
+    const shrink = Math.sqrt(MAX_PIXELS / (width * height));
+    [width, height] = [Math.floor(width * shrink), Math.floor(height * shrink)];
+  }
+
+  const img = await new Promise<HTMLImageElement>((resolve, reject) => {
+    const image = new Image();
+    image.onload = () => resolve(image);
+    image.onerror = () => reject(new Error("Sheet could not be rendered."));
+    image.src = `data:image/svg+xml;charset=utf-8,${encodeURIComponent(sheet.svg)}`;
+  });
+
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Could not get canvas context");
+  ctx.fillStyle = '#FFFFFF';
+  ctx.fillRect(0, 0, width, height);
+  ctx.drawImage(img, 0, 0, width, height);
+  return canvas;
+};
+
+export const sheetToPng = async (sheet: ComposedSheet, dpi: number = 300): Promise<Blob> => {
+  const canvas = await renderSheet(sheet, dpi);
+  return new Promise((resolve, reject) =>
+    canvas.toBlob(blob => blob ? resolve(blob) : reject(new Error("PNG encoding failed.")), 'image/png'));
+};
+
+const deflate = async (bytes: Uint8Array): Promise<Uint8Array> => {
+  // 'deflate' is the zlib format, which is exactly what PDF's FlateDecode expects.
+  const stream = new Blob([bytes]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** PDF literal string: 7-bit, with the delimiters escaped. */
+const pdfString = (value: string) =>
+  `(${value.replace(/[^\x20-\x7e]/g, '?').replace(/([()\\])/g, '\\$1')})`;
+
+const pdfDate = (date: Date) =>
+  `D:${date.toISOString().replace(/[-:T]/g, '').slice(0, 14)}Z`;
+
+export const sheetToPdf = async (sheet: ComposedSheet, title: string, dpi: number = 300): Promise<Blob> => {
+  const canvas = await renderSheet(sheet, dpi);
+  const { width, height } = canvas;
+  const rgba = canvas.getContext('2d')!.getImageData(0, 0, width, height).data;
+  const rgb = new Uint8Array(width * height * 3);
+  for (let i = 0, j = 0; i < rgba.length; i += 4, j += 3) {
+    rgb[j] = rgba[i];
+    rgb[j + 1] = rgba[i + 1];
+    rgb[j + 2] = rgba[i + 2];
+  }
+  const pixels = await deflate(rgb);
+
+  const pageWidth = (sheet.widthMm / MM_PER_INCH) * POINTS_PER_INCH;
+  const pageHeight = (sheet.heightMm / MM_PER_INCH) * POINTS_PER_INCH;
+  const content = `q ${pageWidth.toFixed(2)} 0 0 ${pageHeight.toFixed(2)} 0 0 cm /Im0 Do Q`;
+
+  const encoder = new TextEncoder();
+  const chunks: Uint8Array[] = [];
+  const offsets: number[] = [];
+  let length = 0;
+  const write = (part: string | Uint8Array) => {
+    const bytes = typeof part === 'string' ? encoder.encode(part) : part;
+    chunks.push(bytes);
+    length += bytes.length;
+  };
+  const object = (body: string, stream?: Uint8Array) => {
+    offsets.push(length);
+    write(`${offsets.length} 0 obj\n${body}\n`);
+    if (stream) {
+      write('stream\n');
+      write(stream);
+      write('\nendstream\n');
+    }
+    write('endobj\n');
+  };
+
+  write('%PDF-1.4\n%\xE2\xE3\xCF\xD3\n');
+  object('<< /Type /Catalog /Pages 2 0 R >>');
+  object('<< /Type /Pages /Kids [3 0 R] /Count 1 >>');
+  object(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 ${pageWidth.toFixed(2)} ${pageHeight.toFixed(2)}] ` +
+    '/Resources << /XObject << /Im0 5 0 R >> >> /Contents 4 0 R >>');
+  object(`<< /Length ${content.length} >>`, encoder.encode(content));
+  object(`<< /Type /XObject /Subtype /Image /Width ${width} /Height ${height} /ColorSpace /DeviceRGB ` +
+    `/BitsPerComponent 8 /Filter /FlateDecode /Length ${pixels.length} >>`, pixels);
+  object(`<< /Title ${pdfString(title)} /Producer (Warship Architect) /CreationDate ${pdfDate(new Date())} >>`);
+
+  const xref = length;
+  write(`xref\n0 ${offsets.length + 1}\n0000000000 65535 f \n`);
+  offsets.forEach(offset => write(`${String(offset).padStart(10, '0')} 00000 n \n`));
+  write(`trailer\n<< /Size ${offsets.length + 1} /Root 1 0 R /Info 6 0 R >>\nstartxref\n${xref}\n%%EOF\n`);
+
+  return new Blob(chunks, { type: 'application/pdf' });
+};
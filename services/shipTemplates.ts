@@ -0,0 +1,164 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ChecklistItem, DetectedView, ShipTemplate, ShipType, ViewType } from "../types";
+
+// Per ship type: what the Architect should pay attention to, which semantic groups the drawing
+// should be split into, and a checklist of features the Inspector audits every draft against.
+// Every template keeps the required hull and superstructure groups so validation is unchanged.
+
+const PROFILE_VIEWS: ViewType[] = ['side', 'inboard', 'isometric'];
+const PLAN_VIEWS: ViewType[] = ['top', 'isometric'];
+const OUTLINE_VIEWS: ViewType[] = ['side', 'top', 'bow', 'stern', 'isometric'];
+
+export const SHIP_TEMPLATES: Record<ShipType, ShipTemplate> = {
+  battleship: {
+    shipType: 'battleship',
+    label: 'Battleship',
+    instructions: "SHIP TYPE: Battleship or pre-dreadnought. Main battery turrets sit on the centreline fore and aft, with barbettes beneath them; secondary guns may be in casemates along the hull side or in small turrets. Show the armour belt line, the conning tower, heavy tripod or pole masts, and ram bows where the drawing has one.",
+    groups: ['hull', 'superstructure', 'armament', 'funnels', 'masts', 'boats', 'details'],
+    checklist: [
+      { id: 'main-turrets', feature: 'Every main battery turret, with its barbette and the correct number of guns per turret' },
+      { id: 'secondary-battery', feature: 'Secondary battery: casemate ports along the hull side or secondary turrets', views: ['side', 'top', 'isometric'] },
+      { id: 'armour-belt', feature: 'Armour belt line along the waterline', views: ['side', 'section', 'isometric'] },
+      { id: 'conning-tower', feature: 'Armoured conning tower at the forward superstructure', views: OUTLINE_VIEWS },
+      { id: 'funnels', feature: 'Each funnel, with its rake and cap', views: OUTLINE_VIEWS },
+      { id: 'masts', feature: 'Masts with fighting tops or spotting tops', views: PROFILE_VIEWS },
+      { id: 'turret-arcs', feature: 'Turret rotation circles on the deck plan', views: PLAN_VIEWS }
+    ]
+  },
+  cruiser: {
+    shipType: 'cruiser',
+    label: 'Cruiser',
+    instructions: "SHIP TYPE: Cruiser. A long, fine hull with a high length-to-beam ratio; main battery in twin or triple turrets, often superfiring, with a lighter secondary and anti-aircraft battery around the superstructure. Show aircraft catapults and cranes amidships or aft when present.",
+    groups: ['hull', 'superstructure', 'armament', 'funnels', 'masts', 'aircraft', 'boats', 'details'],
+    checklist: [
+      { id: 'main-turrets', feature: 'Every main battery turret, including superfiring turrets and their barbettes' },
+      { id: 'secondary-aa', feature: 'Secondary and anti-aircraft mounts around the superstructure', views: ['side', 'top', 'isometric'] },
+      { id: 'funnels', feature: 'Each funnel, with its rake and cap', views: OUTLINE_VIEWS },
+      { id: 'aircraft-facilities', feature: 'Aircraft catapults, hangar and cranes, where the drawing shows them', views: ['side', 'top', 'isometric'] },
+      { id: 'torpedo-tubes', feature: 'Torpedo tube mounts along the deck edge, where fitted', views: PLAN_VIEWS },
+      { id: 'masts', feature: 'Masts and director towers', views: PROFILE_VIEWS }
+    ]
+  },
+  destroyer: {
+    shipType: 'destroyer',
+    label: 'Destroyer',
+    instructions: "SHIP TYPE: Destroyer or escort. A small, slender hull with a raised forecastle and low freeboard aft; single or twin gun mounts fore and aft, centreline torpedo tube mounts amidships, and depth charge racks or throwers at the stern. Keep the fine detail small: these ships are often drawn at a small scale.",
+    groups: ['hull', 'superstructure', 'armament', 'torpedoes', 'funnels', 'masts', 'boats', 'details'],
+    checklist: [
+      { id: 'forecastle-break', feature: 'The step from the raised forecastle down to the main deck', views: ['side', 'inboard', 'isometric'] },
+      { id: 'gun-mounts', feature: 'Every gun mount fore and aft, with its shield or gunhouse' },
+      { id: 'torpedo-tubes', feature: 'Centreline torpedo tube mounts amidships', views: ['side', 'top', 'isometric'] },
+      { id: 'depth-charges', feature: 'Depth charge racks or throwers at the stern', views: ['side', 'top', 'stern', 'isometric'] },
+      { id: 'funnels', feature: 'Each funnel, with its rake and cap', views: OUTLINE_VIEWS },
+      { id: 'bridge', feature: 'Bridge and director above the forward gun', views: PROFILE_VIEWS }
+    ]
+  },
+  carrier: {
+    shipType: 'carrier',
+    label: 'Aircraft Carrier',
+    instructions: "SHIP TYPE: Aircraft carrier. The flight deck dominates: draw its outline, overhangs, elevators, centreline and landing markings precisely, and keep the island offset to starboard. Show the hangar deck openings and galleries below the flight deck in profile, and the sponsons carrying guns or boats along the hull sides.",
+    groups: ['hull', 'superstructure', 'flight-deck', 'elevators', 'armament', 'funnels', 'masts', 'boats', 'details'],
+    checklist: [
+      { id: 'flight-deck', feature: 'Flight deck outline, including any overhang fore and aft or an angled deck' },
+      { id: 'island', feature: 'Island superstructure offset to starboard, with its funnel and mast', views: OUTLINE_VIEWS },
+      { id: 'elevators', feature: 'Each aircraft elevator, inboard or deck-edge', views: PLAN_VIEWS },
+      { id: 'deck-markings', feature: 'Flight deck centreline and landing markings, where drawn', views: PLAN_VIEWS },
+      { id: 'hangar-openings', feature: 'Hangar deck openings and galleries below the flight deck', views: ['side', 'inboard', 'isometric'] },
+      { id: 'sponsons', feature: 'Gun and boat sponsons along the hull sides', views: ['side', 'top', 'bow', 'stern', 'isometric'] },
+      { id: 'catapults', feature: 'Catapults and arresting gear, where the drawing shows them', views: PLAN_VIEWS }
+    ]
+  },
+  submarine: {
+    shipType: 'submarine',
+    label: 'Submarine',
+    instructions: "SHIP TYPE: Submarine. A cylindrical pressure hull, often inside a lighter outer casing; draw the sail or conning tower as <g id=\"superstructure\">. Show the hydroplanes (bow or sail, and stern), the rudder and propeller, the casing deck line, periscopes and masts above the sail, and any deck gun. The waterline sits high on the hull.",
+    groups: ['hull', 'superstructure', 'hydroplanes', 'masts', 'armament', 'details'],
+    checklist: [
+      { id: 'sail', feature: 'Sail or conning tower, drawn as the superstructure group', views: OUTLINE_VIEWS },
+      { id: 'hydroplanes', feature: 'Bow or sail hydroplanes and stern hydroplanes' },
+      { id: 'rudder-propeller', feature: 'Rudder and propeller at the stern', views: ['side', 'stern', 'isometric'] },
+      { id: 'casing', feature: 'Casing deck line and the pressure hull inside it, where both are drawn', views: ['side', 'section', 'inboard'] },
+      { id: 'periscopes', feature: 'Periscopes and masts above the sail', views: ['side', 'bow', 'stern', 'isometric'] },
+      { id: 'torpedo-tubes', feature: 'Torpedo tube doors or muzzles at the bow', views: ['side', 'bow', 'inboard'] }
+    ]
+  },
+  auxiliary: {
+    shipType: 'auxiliary',
+    label: 'Auxiliary',
+    instructions: "SHIP TYPE: Auxiliary (tanker, supply ship, tender, transport). A full, boxy hull with a long parallel midbody; cargo or replenishment gear dominates the deck. Show the hatches, kingposts, derricks and cranes, replenishment rigs, and the bridge and accommodation block, whether amidships or aft.",
+    groups: ['hull', 'superstructure', 'cargo', 'masts', 'funnels', 'armament', 'boats', 'details'],
+    checklist: [
+      { id: 'parallel-midbody', feature: 'Full hull form with a long parallel midbody', views: ['side', 'top', 'isometric'] },
+      { id: 'cargo-gear', feature: 'Cargo hatches, kingposts, derricks and cranes', views: OUTLINE_VIEWS },
+      { id: 'replenishment', feature: 'Replenishment-at-sea rigs and stations, where fitted', views: OUTLINE_VIEWS },
+      { id: 'accommodation', feature: 'Bridge and accommodation block in the right position', views: OUTLINE_VIEWS },
+      { id: 'funnels', feature: 'Funnel or uptakes', views: OUTLINE_VIEWS },
+      { id: 'defensive-guns', feature: 'Defensive gun tubs, where fitted', views: ['side', 'top', 'isometric'] }
+    ]
+  },
+  'age-of-sail': {
+    shipType: 'age-of-sail',
+    label: 'Age of Sail',
+    instructions: "SHIP TYPE: Age-of-sail warship (ship of the line, frigate, sloop). Put the forecastle, quarterdeck and poop in <g id=\"superstructure\">. Show the gunports as evenly spaced rows on each gun deck, the wales and channels, the head and beakhead at the bow, the stern galleries and quarter galleries, and the masts, bowsprit and yards with their standing rigging.",
+    groups: ['hull', 'superstructure', 'gunports', 'masts', 'rigging', 'boats', 'details'],
+    checklist: [
+      { id: 'gunports', feature: 'Gunports on every gun deck, evenly spaced and in the correct count', views: ['side', 'inboard', 'isometric'] },
+      { id: 'wales', feature: 'Wales and channels along the hull side', views: ['side', 'isometric'] },
+      { id: 'masts-yards', feature: 'Each mast, the bowsprit and the yards, at the correct rake', views: ['side', 'bow', 'stern', 'isometric'] },
+      { id: 'rigging', feature: 'Standing rigging: shrouds, stays and backstays, where drawn', views: ['side', 'bow', 'stern', 'isometric'] },
+      { id: 'head', feature: 'Head, beakhead and figurehead at the bow', views: ['side', 'top', 'bow', 'isometric'] },
+      { id: 'stern-galleries', feature: 'Stern and quarter galleries', views: ['side', 'stern', 'isometric'] },
+      { id: 'deck-openings', feature: 'Hatches, gratings and capstans on the deck plan', views: PLAN_VIEWS }
+    ]
+  }
+};
+
+export const SHIP_TYPES = Object.keys(SHIP_TEMPLATES) as ShipType[];
+
+export const isShipType = (value: unknown): value is ShipType =>
+  typeof value === 'string' && (SHIP_TYPES as string[]).includes(value);
+
+/** Architect guidance for a view of this ship type, naming the groups to draw; empty without a ship type. */
+export const shipInstructionFor = (shipType: ShipType | undefined): string => {
+  if (!shipType) return '';
+  const { instructions, groups } = SHIP_TEMPLATES[shipType];
+  return `${instructions}\n    EXPECTED GROUPS: ${groups.map(id => `<g id="${id}">`).join(', ')}. Omit groups the drawing does not show.`;
+};
+
+export const checklistFor = (shipType: ShipType | undefined, viewType: ViewType): ChecklistItem[] =>
+  shipType ? SHIP_TEMPLATES[shipType].checklist.filter(item => !item.views || item.views.includes(viewType)) : [];
+
+/** The checklist as an Inspector prompt section; empty when the view has nothing to check. */
+export const formatChecklist = (shipType: ShipType | undefined, viewType: ViewType): string => {
+  const items = checklistFor(shipType, viewType);
+  if (items.length === 0) return '';
+  return `FEATURE_CHECKLIST (${SHIP_TEMPLATES[shipType!].label}, ${viewType} view):\n${items.map(item => `- [${item.id}] ${item.feature}`).join('\n')}\n\nReport every checklist feature that is visible in the source but missing or misdrawn in the SVG as its own finding, with its checklistId set to the item's id.`;
+};
+
+/**
+ * Gives every view of a ship the type most of its views were detected as,
+ * so one misread view does not get a different template from its companions.
+ */
+export const reconcileShipTypes = <T extends Pick<DetectedView, 'shipIndex' | 'shipType'>>(views: T[]): T[] => {
+  const votes = new Map<number, Map<ShipType, number>>();
+  for (const { shipIndex, shipType } of views) {
+    if (!shipType) continue;
+    const tally = votes.get(shipIndex) ?? new Map<ShipType, number>();
+    tally.set(shipType, (tally.get(shipType) ?? 0) + 1);
+    votes.set(shipIndex, tally);
+  }
+  return views.map(view => {
+    const tally = votes.get(view.shipIndex);
+    if (!tally) return view;
+    const [shipType] = [...tally.entries()].sort((a, b) => b[1] - a[1])[0];
+    return { ...view, shipType };
+  });
+};
+
+/** Applies a ship type chosen by the user to every view, overriding detection. */
+export const withShipType = <T extends Pick<DetectedView, 'shipType'>>(views: T[], shipType: ShipType | undefined): T[] =>
+  shipType ? views.map(view => ({ ...view, shipType })) : views;
@@ -0,0 +1,197 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+export type DiffKind = 'added' | 'removed' | 'moved';
+
+export interface SvgDiffEntry {
+  kind: DiffKind;
+  tag: string;
+  id?: string;
+  group?: string; // nearest ancestor <g id>
+}
+
+export interface SvgDiff {
+  added: SvgDiffEntry[];
+  removed: SvgDiffEntry[];
+  moved: SvgDiffEntry[];
+  unchanged: number;
+  beforeMarkup: string; // before SVG with removed/moved elements highlighted
+  afterMarkup: string;  // after SVG with added/moved elements highlighted
+}
+
+export const DIFF_COLORS: Record<DiffKind, string> = {
+  added: '#16a34a',
+  removed: '#dc2626',
+  moved: '#d97706'
+};
+
+const SHAPE_SELECTOR = 'path, line, polyline, polygon, rect, circle, ellipse, text, use';
+
+// Attributes that place a shape without changing its form.
+const POSITION_ATTRS = ['x', 'y', 'cx', 'cy', 'x1', 'y1', 'transform'];
+
+interface ShapeRecord {
+  element: Element;
+  id?: string;
+  group?: string;
+  shapeSig: string;
+  fullSig: string;
+}
+
+const relativePoints = (points: string): string => {
+  const nums = points.trim().split(/[\s,]+/).map(Number);
+  if (nums.length < 2) return points;
+  return nums.map((n, i) => (n - nums[i % 2]).toFixed(2)).join(',');
+};
+
+const shapeSignature = (el: Element): string => {
+  const attr = (name: string) => el.getAttribute(name) ?? '';
+  switch (el.localName) {
+    case 'path': return `path:${attr('d').replace(/\s+/g, ' ').trim()}`;
+    case 'rect': return `rect:${attr('width')}x${attr('height')}:${attr('rx')}`;
+    case 'circle': return `circle:${attr('r')}`;
+    case 'ellipse': return `ellipse:${attr('rx')}x${attr('ry')}`;
+    case 'line': {
+      const dx = Number(attr('x2')) - Number(attr('x1'));
+      const dy = Number(attr('y2')) - Number(attr('y1'));
+      return `line:${dx.toFixed(2)},${dy.toFixed(2)}`;
+    }
+    case 'polyline':
+    case 'polygon': return `${el.localName}:${relativePoints(attr('points'))}`;
+    case 'text': return `text:${(el.textContent ?? '').trim()}`;
+    case 'use': return `use:${attr('href') || attr('xlink:href')}`;
+    default: return el.localName;
+  }
+};
+
+const ancestry = (el: Element): { group?: string; chain: string } => {
+  let group: string | undefined;
+  const chain: string[] = [];
+  for (let node = el.parentElement; node && node.localName !== 'svg'; node = node.parentElement) {
+    const id = node.getAttribute('id');
+    if (!group && id) group = id;
+    chain.unshift(`${node.localName}#${id ?? ''}[${node.getAttribute('transform') ?? ''}]`);
+  }
+  return { group, chain: chain.join('/') };
+};
+
+const collectShapes = (doc: Document): ShapeRecord[] =>
+  Array.from(doc.querySelectorAll(SHAPE_SELECTOR)).map(element => {
+    const { group, chain } = ancestry(element);
+    const shapeSig = shapeSignature(element);
+    const position = POSITION_ATTRS.map(name => element.getAttribute(name) ?? '').join('|');
+    const firstPoint = (element.getAttribute('points') ?? '').trim().split(/[\s,]+/).slice(0, 2).join(',');
+    return {
+      element,
+      id: element.getAttribute('id') ?? undefined,
+      group,
+      shapeSig,
+      fullSig: `${chain}::${shapeSig}::${position}::${firstPoint}`
+    };
+  });
+
+const toEntry = (kind: DiffKind, record: ShapeRecord): SvgDiffEntry => ({
+  kind,
+  tag: record.element.localName,
+  id: record.id,
+  group: record.group
+});
+
+/** Pairs records across the two sides by key, consuming matches in document order. */
+const matchBy = (
+  before: ShapeRecord[],
+  after: ShapeRecord[],
+  key: (r: ShapeRecord) => string | undefined,
+  onMatch: (a: ShapeRecord, b: ShapeRecord) => void
+) => {
+  const pool = new Map<string, ShapeRecord[]>();
+  after.forEach(record => {
+    const k = key(record);
+    if (k === undefined) return;
+    pool.set(k, [...(pool.get(k) ?? []), record]);
+  });
+  const matchedBefore = new Set<ShapeRecord>();
+  const matchedAfter = new Set<ShapeRecord>();
+  before.forEach(record => {
+    const k = key(record);
+    const candidates = k === undefined ? undefined : pool.get(k);
+    if (!candidates?.length) return;
+    const partner = candidates.shift()!;
+    onMatch(record, partner);
+    matchedBefore.add(record);
+    matchedAfter.add(partner);
+  });
+  return {
+    before: before.filter(r => !matchedBefore.has(r)),
+    after: after.filter(r => !matchedAfter.has(r))
+  };
+};
+
+const annotate = (doc: Document, marks: Map<Element, DiffKind>): string => {
+  marks.forEach((kind, element) => element.setAttribute('data-diff', kind));
+  const style = doc.createElementNS('http://www.w3.org/2000/svg', 'style');
+  style.textContent = (Object.keys(DIFF_COLORS) as DiffKind[])
+    .map(kind => `[data-diff="${kind}"] { stroke: ${DIFF_COLORS[kind]} !important; stroke-width: 2.5px !important; }`)
+    .join('\n');
+  doc.documentElement.appendChild(style);
+  return new XMLSerializer().serializeToString(doc);
+};
+
+/**
+ * Element-level comparison of two revisions.
+ * Shapes are paired by id first, then by identical geometry and placement, then by identical
+ * geometry alone (a move). Whatever is left over was removed from `before` or added in `after`.
+ */
+export const diffSvgs = (before: string, after: string): SvgDiff => {
+  const parser = new DOMParser();
+  const beforeDoc = parser.parseFromString(before, 'image/svg+xml');
+  const afterDoc = parser.parseFromString(after, 'image/svg+xml');
+
+  const moved: [ShapeRecord, ShapeRecord][] = [];
+  const removedById: ShapeRecord[] = [];
+  const addedById: ShapeRecord[] = [];
+  let unchanged = 0;
+
+  // 1. Same id on both sides.
+  let remaining = matchBy(collectShapes(beforeDoc), collectShapes(afterDoc), r => r.id, (a, b) => {
+    if (a.fullSig === b.fullSig) unchanged++;
+    else if (a.shapeSig === b.shapeSig) moved.push([a, b]);
+    else {
+      removedById.push(a);
+      addedById.push(b);
+    }
+  });
+
+  // 2. Identical shape in the identical place.
+  remaining = matchBy(remaining.before, remaining.after, r => r.fullSig, () => {
+    unchanged++;
+  });
+
+  // 3. Identical shape somewhere else.
+  remaining = matchBy(remaining.before, remaining.after, r => r.shapeSig, (a, b) => {
+    moved.push([a, b]);
+  });
+
+  const removed = [...removedById, ...remaining.before];
+  const added = [...addedById, ...remaining.after];
+
+  const beforeMarks = new Map<Element, DiffKind>();
+  const afterMarks = new Map<Element, DiffKind>();
+  removed.forEach(r => beforeMarks.set(r.element, 'removed'));
+  added.forEach(r => afterMarks.set(r.element, 'added'));
+  moved.forEach(([a, b]) => {
+    beforeMarks.set(a.element, 'moved');
+    afterMarks.set(b.element, 'moved');
+  });
+
+  return {
+    added: added.map(r => toEntry('added', r)),
+    removed: removed.map(r => toEntry('removed', r)),
+    moved: moved.map(([, b]) => toEntry('moved', b)),
+    unchanged,
+    beforeMarkup: annotate(beforeDoc, beforeMarks),
+    afterMarkup: annotate(afterDoc, afterMarks)
+  };
+};
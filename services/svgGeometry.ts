@@ -0,0 +1,241 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Static geometry for generated SVGs: bounding boxes computed from the markup alone,
+// so they work on documents that were never mounted in the page.
+
+export interface Bounds {
+  minX: number;
+  minY: number;
+  maxX: number;
+  maxY: number;
+}
+
+/** Affine matrix in SVG order: [a, b, c, d, e, f]. */
+export type Matrix = [number, number, number, number, number, number];
+
+export const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+
+export const multiply = (m: Matrix, n: Matrix): Matrix => [
+  m[0] * n[0] + m[2] * n[1],
+  m[1] * n[0] + m[3] * n[1],
+  m[0] * n[2] + m[2] * n[3],
+  m[1] * n[2] + m[3] * n[3],
+  m[0] * n[4] + m[2] * n[5] + m[4],
+  m[1] * n[4] + m[3] * n[5] + m[5]
+];
+
+export const applyMatrix = (m: Matrix, x: number, y: number): [number, number] => [
+  m[0] * x + m[2] * y + m[4],
+  m[1] * x + m[3] * y + m[5]
+];
+
+export const numbersIn = (value: string | null): number[] =>
+  (value?.match(/-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? []).map(Number);
+
+/** Parses a transform attribute into a single matrix. Unknown functions are ignored. */
+export const parseTransform = (value: string | null): Matrix => {
+  if (!value) return IDENTITY;
+  let result = IDENTITY;
+  const re = /(matrix|translate|scale|rotate|skewX|skewY)\s*\(([^)]*)\)/g;
+  let match: RegExpExecArray | null;
+  while ((match = re.exec(value))) {
+    const args = numbersIn(match[2]);
+    let m: Matrix = IDENTITY;
+    switch (match[1]) {
+      case 'matrix':
+        if (args.length === 6) m = args as Matrix;
+        break;
+      case 'translate':
+        m = [1, 0, 0, 1, args[0] ?? 0, args[1] ?? 0];
+        break;
+      case 'scale':
+        m = [args[0] ?? 1, 0, 0, args[1] ?? args[0] ?? 1, 0, 0];
+        break;
+      case 'rotate': {
+        const rad = ((args[0] ?? 0) * Math.PI) / 180;
+        const [cx, cy] = [args[1] ?? 0, args[2] ?? 0];
+        const cos = Math.cos(rad);
+        const sin = Math.sin(rad);
+        m = multiply(multiply([1, 0, 0, 1, cx, cy], [cos, sin, -sin, cos, 0, 0]), [1, 0, 0, 1, -cx, -cy]);
+        break;
+      }
+      case 'skewX':
+        m = [1, 0, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 1, 0, 0];
+        break;
+      case 'skewY':
+        m = [1, Math.tan(((args[0] ?? 0) * Math.PI) / 180), 0, 1, 0, 0];
+        break;
+    }
+    result = multiply(result, m);
+  }
+  return result;
+};
+
+/**
+ * Every point a path passes through or is pulled towards. Control points are included,
+ * which keeps the bounds conservative; arcs contribute their end points and radii.
+ */
+const pathPoints = (d: string): [number, number][] => {
+  const points: [number, number][] = [];
+  const tokens = d.match(/[a-zA-Z]|-?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?/gi) ?? [];
+  let i = 0;
+  let cmd = '';
+  let [x, y] = [0, 0];
+  let [startX, startY] = [0, 0];
+  const next = () => Number(tokens[i++]);
+
+  while (i < tokens.length) {
+    if (/[a-zA-Z]/.test(tokens[i])) cmd = tokens[i++];
+    if (!cmd) { i++; continue; } // stray number after a closepath
+    const rel = cmd === cmd.toLowerCase();
+    const ox = rel ? x : 0;
+    const oy = rel ? y : 0;
+
+    switch (cmd.toUpperCase()) {
+      case 'M':
+      case 'L':
+      case 'T':
+        x = ox + next(); y = oy + next();
+        if (cmd.toUpperCase() === 'M') {
+          [startX, startY] = [x, y];
+          // Further pairs after a moveto are implicit linetos.
+          cmd = rel ? 'l' : 'L';
+        }
+        break;
+      case 'H':
+        x = ox + next();
+        break;
+      case 'V':
+        y = oy + next();
+        break;
+      case 'C':
+        points.push([ox + next(), oy + next()], [ox + next(), oy + next()]);
+        x = ox + next(); y = oy + next();
+        break;
+      case 'S':
+      case 'Q':
+        points.push([ox + next(), oy + next()]);
+        x = ox + next(); y = oy + next();
+        break;
+      case 'A': {
+        const rx = Math.abs(next());
+        const ry = Math.abs(next());
+        i += 3; // rotation and flags
+        const [px, py] = [x, y];
+        x = ox + next(); y = oy + next();
+        // The arc stays within its radii of the chord's midpoint.
+        const [mx, my] = [(px + x) / 2, (py + y) / 2];
+        points.push([mx - rx, my - ry], [mx + rx, my + ry]);
+        break;
+      }
+      case 'Z':
+        [x, y] = [startX, startY];
+        cmd = '';
+        break;
+      default:
+        i++;
+    }
+    if (Number.isNaN(x) || Number.isNaN(y)) break;
+    points.push([x, y]);
+  }
+  return points;
+};
+
+const attr = (el: Element, name: string) => Number(el.getAttribute(name) ?? 0) || 0;
+
+/** Points outlining a single drawing primitive in its own user space. */
+const shapePoints = (el: Element): [number, number][] => {
+  switch (el.localName) {
+    case 'rect':
+    case 'image':
+    case 'use': {
+      const [x, y, w, h] = [attr(el, 'x'), attr(el, 'y'), attr(el, 'width'), attr(el, 'height')];
+      return [[x, y], [x + w, y + h]];
+    }
+    case 'circle': {
+      const [cx, cy, r] = [attr(el, 'cx'), attr(el, 'cy'), attr(el, 'r')];
+      return [[cx - r, cy - r], [cx + r, cy + r], [cx - r, cy + r], [cx + r, cy - r]];
+    }
+    case 'ellipse': {
+      const [cx, cy, rx, ry] = [attr(el, 'cx'), attr(el, 'cy'), attr(el, 'rx'), attr(el, 'ry')];
+      return [[cx - rx, cy - ry], [cx + rx, cy + ry], [cx - rx, cy + ry], [cx + rx, cy - ry]];
+    }
+    case 'line':
+      return [[attr(el, 'x1'), attr(el, 'y1')], [attr(el, 'x2'), attr(el, 'y2')]];
+    case 'polyline':
+    case 'polygon': {
+      const nums = numbersIn(el.getAttribute('points'));
+      const points: [number, number][] = [];
+      for (let i = 0; i + 1 < nums.length; i += 2) points.push([nums[i], nums[i + 1]]);
+      return points;
+    }
+    case 'path':
+      return pathPoints(el.getAttribute('d') ?? '');
+    case 'text':
+      return [[attr(el, 'x'), attr(el, 'y')]];
+    default:
+      return [];
+  }
+};
+
+export const NON_RENDERED = ['defs', 'clipPath', 'mask', 'marker', 'pattern', 'symbol', 'title', 'desc', 'metadata', 'style'];
+
+/** Matrix from an element's user space to the root <svg>'s user space. */
+export const ctmOf = (el: Element): Matrix => {
+  const chain: Matrix[] = [];
+  for (let node: Element | null = el; node && node.localName !== 'svg'; node = node.parentElement) {
+    chain.unshift(parseTransform(node.getAttribute('transform')));
+  }
+  return chain.reduce(multiply, IDENTITY);
+};
+
+const extend = (bounds: Bounds | null, x: number, y: number): Bounds =>
+  bounds
+    ? { minX: Math.min(bounds.minX, x), minY: Math.min(bounds.minY, y), maxX: Math.max(bounds.maxX, x), maxY: Math.max(bounds.maxY, y) }
+    : { minX: x, minY: y, maxX: x, maxY: y };
+
+/** Bounds of an element and everything drawn inside it, in root coordinates. Null if it draws nothing. */
+export const elementBounds = (el: Element): Bounds | null => {
+  let bounds: Bounds | null = null;
+  const visit = (node: Element, parentMatrix: Matrix) => {
+    if (NON_RENDERED.includes(node.localName)) return;
+    const matrix = multiply(parentMatrix, parseTransform(node.getAttribute('transform')));
+    shapePoints(node).forEach(([px, py]) => {
+      const [x, y] = applyMatrix(matrix, px, py);
+      bounds = extend(bounds, x, y);
+    });
+    Array.from(node.children).forEach(child => visit(child, matrix));
+  };
+  const parent = el.parentElement;
+  visit(el, parent ? ctmOf(parent) : IDENTITY);
+  return bounds;
+};
+
+export const parseSvgDocument = (content: string): Document | null => {
+  const doc = new DOMParser().parseFromString(content, 'image/svg+xml');
+  if (doc.getElementsByTagName('parsererror').length > 0) return null;
+  return doc.documentElement.localName === 'svg' ? doc : null;
+};
+
+/** Bounds of every identified <g> in the document, keyed by lower-cased id. */
+export const groupBounds = (content: string): Record<string, Bounds> => {
+  const doc = parseSvgDocument(content);
+  if (!doc) return {};
+  const result: Record<string, Bounds> = {};
+  Array.from(doc.getElementsByTagName('g')).forEach(g => {
+    const id = g.getAttribute('id')?.toLowerCase();
+    const bounds = id ? elementBounds(g) : null;
+    if (id && bounds) result[id] = bounds;
+  });
+  return result;
+};
+
+export const viewBoxOf = (content: string): Bounds | null => {
+  const doc = parseSvgDocument(content);
+  const nums = numbersIn(doc?.documentElement.getAttribute('viewBox') ?? null);
+  if (nums.length !== 4 || nums[2] <= 0 || nums[3] <= 0) return null;
+  return { minX: nums[0], minY: nums[1], maxX: nums[0] + nums[2], maxY: nums[1] + nums[3] };
+};
@@ -0,0 +1,41 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { installNodeDom } from '../cli/nodeDom';
+import { validateAndNormalize } from './svgPostProcess';
+import { LayerEditError, assertLockedLayersKept, lockedLayerIds, setLayerLocked } from './svgLayers';
+
+const drawing = (hull: string, superstructure = '<rect x="40" y="2" width="10" height="6"/>') =>
+  `<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 20"><g id="hull" data-locked="true">${hull}</g><g id="superstructure">${superstructure}</g></svg>`;
+const HULL = '<path d="M0 8 L100 8 L95 18 L5 18 Z"/>';
+
+beforeAll(() => installNodeDom());
+
+describe('locked layers', () => {
+  it('lists the outermost locked layers', () => {
+    const nested = setLayerLocked(drawing(`<g id="keel">${HULL}</g>`), 1, true);
+    expect(lockedLayerIds(nested)).toEqual(['hull']);
+  });
+
+  it('accepts a rewrite that only touches unlocked layers', () => {
+    const before = drawing(HULL);
+    expect(() => assertLockedLayersKept(before, drawing(HULL, '<rect x="30" y="1" width="20" height="7"/>'))).not.toThrow();
+  });
+
+  it('accepts its own normalized output', () => {
+    const before = validateAndNormalize(drawing(HULL), ['hull', 'superstructure']).sanitized!;
+    const again = validateAndNormalize(before, ['hull', 'superstructure']).sanitized!;
+    expect(() => assertLockedLayersKept(before, again)).not.toThrow();
+  });
+
+  it.each([
+    ['redraws a locked layer', drawing('<rect x="0" y="8" width="100" height="10"/>')],
+    ['unlocks it', drawing(HULL).replace(' data-locked="true"', '')],
+    ['drops it', '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 100 20"><g id="superstructure"/></svg>']
+  ])('rejects a rewrite that %s', (_, after) => {
+    expect(() => assertLockedLayersKept(drawing(HULL), after)).toThrow(LayerEditError);
+  });
+});
@@ -0,0 +1,181 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SHAPE_ELEMENTS } from "./svgValidator";
+import { parseSvgDocument } from "./svgGeometry";
+
+// Layers are the SVG's <g> elements. A layer is addressed by its position among all <g>
+// elements in document order, which is identical in the stored markup and the rendered copy.
+
+export interface SvgLayer {
+  key: number;
+  id: string | null;
+  elementCount: number; // drawing primitives anywhere inside the group
+  looseCount: number; // primitives that are direct children, outside any sub-group
+  hidden: boolean;
+  locked: boolean;
+  children: SvgLayer[];
+}
+
+export class LayerEditError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'LayerEditError';
+  }
+}
+
+const LOCK_ATTR = 'data-locked';
+const VALID_ID = /^[A-Za-z_][\w.-]*$/;
+
+const isShape = (el: Element) => SHAPE_ELEMENTS.includes(el.localName);
+
+const groupsOf = (root: Element | Document): Element[] => Array.from(root.getElementsByTagName('g'));
+
+export const isHidden = (el: Element) =>
+  el.getAttribute('display') === 'none' || el.getAttribute('visibility') === 'hidden';
+
+/** Whether the group, or any group containing it, is locked. */
+const isLockedTree = (el: Element): boolean => {
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    if (node.getAttribute(LOCK_ATTR) === 'true') return true;
+  }
+  return false;
+};
+
+/** Layer tree of the document, top-level groups first. */
+export const parseLayers = (content: string): SvgLayer[] => {
+  const doc = parseSvgDocument(content);
+  if (!doc) return [];
+  const groups = groupsOf(doc);
+  const keyOf = new Map(groups.map((g, i) => [g, i]));
+
+  const build = (g: Element): SvgLayer => ({
+    key: keyOf.get(g)!,
+    id: g.getAttribute('id'),
+    elementCount: Array.from(g.getElementsByTagName('*')).filter(isShape).length,
+    looseCount: Array.from(g.children).filter(isShape).length,
+    hidden: isHidden(g),
+    locked: g.getAttribute(LOCK_ATTR) === 'true',
+    children: Array.from(g.children).filter(child => child.localName === 'g').map(build)
+  });
+
+  return groups.filter(g => g.parentElement?.localName !== 'g').map(build);
+};
+
+/** Finds a layer in the rendered copy of the document (e.g. for hover highlighting). */
+export const findLayerElement = (root: Element, key: number): Element | undefined => groupsOf(root)[key];
+
+/** Parses the content, applies an edit to one layer, and serializes the result. */
+const editLayer = (content: string, key: number, edit: (g: Element, doc: Document) => void, allowLocked = false): string => {
+  const doc = parseSvgDocument(content);
+  if (!doc) throw new LayerEditError('SVG could not be parsed.');
+  const g = groupsOf(doc)[key];
+  if (!g) throw new LayerEditError('Layer no longer exists.');
+  if (!allowLocked && isLockedTree(g)) throw new LayerEditError(`Layer "${g.getAttribute('id') ?? key}" is locked.`);
+  edit(g, doc);
+  return new XMLSerializer().serializeToString(doc);
+};
+
+const assertFreeId = (doc: Document, id: string, self?: Element) => {
+  if (!VALID_ID.test(id)) throw new LayerEditError(`"${id}" is not a valid id (letters, digits, "_", "-" and ".", not starting with a digit).`);
+  const existing = Array.from(doc.getElementsByTagName('*')).find(el => el.getAttribute('id') === id);
+  if (existing && existing !== self) throw new LayerEditError(`Another element already uses id "${id}".`);
+};
+
+export const setLayerVisibility = (content: string, key: number, visible: boolean): string =>
+  editLayer(content, key, g => {
+    g.removeAttribute('visibility');
+    if (visible) g.removeAttribute('display');
+    else g.setAttribute('display', 'none');
+  });
+
+export const setLayerLocked = (content: string, key: number, locked: boolean): string =>
+  editLayer(content, key, g => {
+    if (locked) g.setAttribute(LOCK_ATTR, 'true');
+    else g.removeAttribute(LOCK_ATTR);
+  }, true);
+
+export const renameLayer = (content: string, key: number, id: string): string =>
+  editLayer(content, key, (g, doc) => {
+    const trimmed = id.trim();
+    assertFreeId(doc, trimmed, g);
+    g.setAttribute('id', trimmed);
+  });
+
+/** Moves a layer into another group, or to the top level when `targetKey` is null. */
+export const moveLayer = (content: string, key: number, targetKey: number | null): string =>
+  editLayer(content, key, (g, doc) => {
+    const target = targetKey === null ? doc.documentElement : groupsOf(doc)[targetKey];
+    if (!target) throw new LayerEditError('Target layer no longer exists.');
+    if (target === g || g.contains(target)) throw new LayerEditError('A layer cannot be moved into itself.');
+    if (isLockedTree(target)) throw new LayerEditError('Target layer is locked.');
+    target.appendChild(g);
+  });
+
+/** Wraps a layer's loose primitives in a new named sub-group. */
+export const groupLooseElements = (content: string, key: number, id: string): string =>
+  editLayer(content, key, (g, doc) => {
+    const trimmed = id.trim();
+    assertFreeId(doc, trimmed);
+    const loose = Array.from(g.children).filter(isShape);
+    if (loose.length === 0) throw new LayerEditError('Layer has no loose elements to group.');
+    const wrapper = doc.createElementNS(g.namespaceURI, 'g');
+    wrapper.setAttribute('id', trimmed);
+    g.insertBefore(wrapper, loose[0]);
+    loose.forEach(el => wrapper.appendChild(el));
+  });
+
+/** Adds an empty top-level layer that other layers can be moved into. */
+export const createLayer = (content: string, id: string): string => {
+  const doc = parseSvgDocument(content);
+  if (!doc) throw new LayerEditError('SVG could not be parsed.');
+  const trimmed = id.trim();
+  assertFreeId(doc, trimmed);
+  const g = doc.createElementNS(doc.documentElement.namespaceURI, 'g');
+  g.setAttribute('id', trimmed);
+  doc.documentElement.appendChild(g);
+  return new XMLSerializer().serializeToString(doc);
+};
+
+// --- LOCK ENFORCEMENT ---
+// Refinements rewrite markup outside the layer inspector; they must leave locked layers as they were.
+
+/** Locked groups not inside another locked group, keyed by id (or position when they have none). */
+const lockedRoots = (doc: Document): Map<string, Element> => {
+  const roots = groupsOf(doc).filter(g => g.getAttribute(LOCK_ATTR) === 'true' && !(g.parentElement && isLockedTree(g.parentElement)));
+  return new Map(roots.map((g, i) => [g.getAttribute('id') ?? `#${i + 1}`, g]));
+};
+
+/** The locked layer an element sits in or contains, or null when it touches none. */
+export const lockedLayerOf = (el: Element): string | null => {
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    if (node.getAttribute(LOCK_ATTR) === 'true') return node.getAttribute('id') ?? 'unnamed';
+  }
+  const inner = Array.from(el.getElementsByTagName('g')).find(g => g.getAttribute(LOCK_ATTR) === 'true');
+  return inner ? inner.getAttribute('id') ?? 'unnamed' : null;
+};
+
+/** Ids of the document's locked layers, outermost only. */
+export const lockedLayerIds = (content: string): string[] => {
+  const doc = parseSvgDocument(content);
+  return doc ? [...lockedRoots(doc).keys()] : [];
+};
+
+/** Throws a LayerEditError when a rewrite dropped or changed any layer that was locked before it. */
+export const assertLockedLayersKept = (before: string, after: string) => {
+  const original = parseSvgDocument(before);
+  if (!original) return;
+  const locked = lockedRoots(original);
+  if (locked.size === 0) return;
+  const rewritten = parseSvgDocument(after);
+  const kept = rewritten ? lockedRoots(rewritten) : new Map<string, Element>();
+  const serializer = new XMLSerializer();
+  for (const [id, g] of locked) {
+    const match = kept.get(id);
+    if (!match || serializer.serializeToString(match) !== serializer.serializeToString(g)) {
+      throw new LayerEditError(`The refinement changed locked layer "${id}".`);
+    }
+  }
+};
@@ -0,0 +1,636 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { PostProcessChange, PostProcessReport, SvgValidationReport } from "../types";
+import { Bounds, Matrix, IDENTITY, multiply, applyMatrix, parseTransform, numbersIn, ctmOf, elementBounds, parseSvgDocument, NON_RENDERED } from "./svgGeometry";
+import { validateSvg } from "./svgValidator";
+import { DIMENSIONS_GROUP } from "./dimensions";
+
+// Deterministic clean-up of the Architect's markup. Models emit six-decimal coordinates,
+// transforms nested for no reason and the same line twice; none of it changes the drawing,
+// all of it bloats revisions, muddies diffs and litters exports.
+
+export interface PostProcessOptions {
+  precision?: number; // decimal places kept; by default enough to resolve 1/10000 of the drawing
+  enforceStyle?: boolean;
+  tightenViewBox?: boolean;
+  keepGroups?: string[]; // group ids kept even when they end up empty
+}
+
+export interface PostProcessResult {
+  content: string;
+  report: PostProcessReport;
+}
+
+const RESOLUTION = 10000; // drawing size over the smallest coordinate step kept by default
+const VIEWBOX_MARGIN = 0.02; // of the drawing's larger side
+const COLLINEAR_TOLERANCE = 1e-3; // sine of the turn between two segments that still counts as straight
+
+const SHAPES = ['path', 'line', 'polyline', 'polygon', 'rect', 'circle', 'ellipse'];
+const CONTAINERS = ['g', 'a'];
+
+// The system instruction's style directive. vector-effect does not inherit, so it stays on each shape.
+const STYLE_DIRECTIVE: Record<string, string> = { stroke: 'black', fill: 'none', 'stroke-width': '1' };
+const STYLE_PROPS = ['stroke', 'fill', 'stroke-width', 'vector-effect'];
+const TEXT_STYLE: Record<string, string> = { fill: 'black', stroke: 'none' };
+
+export const CHANGE_LABELS: Record<PostProcessChange, string> = {
+  style_enforced: 'styles enforced',
+  coordinates_rounded: 'coordinates rounded',
+  segments_merged: 'collinear segments merged',
+  degenerate_removed: 'zero-length pieces removed',
+  duplicates_removed: 'duplicates removed',
+  empty_groups_removed: 'empty groups removed',
+  groups_unwrapped: 'bare groups unwrapped',
+  transforms_flattened: 'transforms flattened',
+  viewbox_tightened: 'viewBox tightened'
+};
+
+interface Pass {
+  precision: number;
+  changes: Partial<Record<PostProcessChange, number>>;
+}
+
+const note = (pass: Pass, change: PostProcessChange, count: number = 1) => {
+  if (count > 0) pass.changes[change] = (pass.changes[change] ?? 0) + count;
+};
+
+const round = (pass: Pass, value: number): number => {
+  const rounded = Number(value.toFixed(pass.precision));
+  if (rounded !== value) note(pass, 'coordinates_rounded');
+  return rounded;
+};
+
+const formatNumber = (value: number): string => String(value === 0 ? 0 : value);
+
+const byteLength = (text: string) => new TextEncoder().encode(text).length;
+
+const isTranslation = (m: Matrix) => m[0] === 1 && m[1] === 0 && m[2] === 0 && m[3] === 1;
+const isIdentity = (m: Matrix) => isTranslation(m) && m[4] === 0 && m[5] === 0;
+const isAxisAligned = (m: Matrix) => m[1] === 0 && m[2] === 0;
+const isSimilarity = (m: Matrix) =>
+  Math.abs(m[0] * m[0] + m[1] * m[1] - (m[2] * m[2] + m[3] * m[3])) < 1e-9 && Math.abs(m[0] * m[2] + m[1] * m[3]) < 1e-9;
+const scaleOf = (m: Matrix) => Math.sqrt(Math.abs(m[0] * m[3] - m[1] * m[2]));
+
+const formatMatrix = (pass: Pass, m: Matrix): string => {
+  const [e, f] = [Number(m[4].toFixed(pass.precision)), Number(m[5].toFixed(pass.precision))];
+  if (isTranslation(m)) return `translate(${formatNumber(e)} ${formatNumber(f)})`;
+  return `matrix(${m.slice(0, 4).map(n => formatNumber(Number(n.toFixed(6)))).join(' ')} ${formatNumber(e)} ${formatNumber(f)})`;
+};
+
+const isDimensionsGroup = (el: Element) => el.localName === 'g' && el.getAttribute('id') === DIMENSIONS_GROUP;
+
+/** Inside the dimensions layer or something that is never drawn directly; both are left alone. */
+const isExempt = (el: Element) => {
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    if (isDimensionsGroup(node) || NON_RENDERED.includes(node.localName)) return true;
+  }
+  return false;
+};
+
+// Anything painted through a url() reference is laid out in the element's own user space, and a
+// nested <svg> ignores transforms, so a transform above either cannot be pushed further down.
+const isPinned = (el: Element) =>
+  Array.from(el.attributes).some(attr => /url\(/i.test(attr.value)) || el.getElementsByTagName('svg').length > 0;
+
+// --- STYLE ---
+
+const styleDeclarations = (el: Element): [string, string][] =>
+  (el.getAttribute('style') ?? '')
+    .split(';')
+    .map(decl => decl.split(':').map(part => part.trim()) as [string, string])
+    .filter(([name, value]) => name && value !== undefined);
+
+const declaredStyle = (el: Element, prop: string): string | null =>
+  styleDeclarations(el).find(([name]) => name === prop)?.[1] ?? el.getAttribute(prop);
+
+/**
+ * Sets the directive once on the root, where it inherits, and strips every override below it.
+ * Text is filled rather than stroked so it stays legible.
+ */
+const enforceStyle = (root: Element, pass: Pass) => {
+  const visit = (el: Element) => {
+    if (NON_RENDERED.includes(el.localName) || isDimensionsGroup(el)) return;
+    const isShape = SHAPES.includes(el.localName);
+    const expected = el === root ? STYLE_DIRECTIVE : el.localName === 'text' ? TEXT_STYLE : {};
+    const deviates = STYLE_PROPS.some(prop => {
+      const value = declaredStyle(el, prop);
+      if (prop === 'vector-effect') return isShape && value !== 'non-scaling-stroke';
+      if (prop in expected) return value !== expected[prop];
+      return value !== null && value !== STYLE_DIRECTIVE[prop];
+    });
+
+    const kept = styleDeclarations(el).filter(([name]) => !STYLE_PROPS.includes(name));
+    if (kept.length) el.setAttribute('style', kept.map(([name, value]) => `${name}:${value}`).join(';'));
+    else el.removeAttribute('style');
+    // Attributes that stay are overwritten in place, so a second pass leaves the markup byte-identical.
+    STYLE_PROPS.filter(prop => !(prop in expected) && !(isShape && prop === 'vector-effect')).forEach(prop => el.removeAttribute(prop));
+    Object.entries(expected).forEach(([prop, value]) => el.setAttribute(prop, value));
+    if (isShape) el.setAttribute('vector-effect', 'non-scaling-stroke');
+    if (deviates) note(pass, 'style_enforced');
+
+    if (el.localName !== 'text') Array.from(el.children).forEach(visit);
+  };
+  visit(root);
+};
+
+// --- PATHS ---
+
+type SegmentCommand = 'M' | 'L' | 'C' | 'Q' | 'A' | 'Z';
+
+/** One absolute path command. Arcs hold [rx, ry, rotation, large-arc, sweep, x, y]. */
+interface Segment {
+  cmd: SegmentCommand;
+  values: number[];
+}
+
+const ARITY: Record<string, number> = { M: 2, L: 2, H: 1, V: 1, C: 6, S: 4, Q: 4, T: 2, A: 7, Z: 0 };
+
+/** Parses path data into absolute M/L/C/Q/A/Z segments. Null when the data is malformed. */
+const parsePath = (d: string): Segment[] | null => {
+  const COMMAND = /[\s,]*([MmLlHhVvCcSsQqTtAaZz])/y;
+  const NUMBER = /[\s,]*([-+]?(?:\d+\.?\d*|\.\d+)(?:e[-+]?\d+)?)/iy;
+  const FLAG = /[\s,]*([01])/y;
+  const END = /[\s,]*$/y;
+  let pos = 0;
+  const scan = (re: RegExp): string | null => {
+    re.lastIndex = pos;
+    const match = re.exec(d);
+    if (!match) return null;
+    pos = re.lastIndex;
+    return match[1];
+  };
+  const atEnd = () => { END.lastIndex = pos; return END.test(d); };
+
+  const segments: Segment[] = [];
+  let cmd = '';
+  let [x, y] = [0, 0];
+  let [startX, startY] = [0, 0];
+  let control: [number, number] | null = null; // last cubic or quadratic control point, for S and T
+
+  while (!atEnd()) {
+    const letter = scan(COMMAND);
+    if (letter) cmd = letter;
+    else if (!cmd || cmd.toUpperCase() === 'Z') return null;
+    const upper = cmd.toUpperCase();
+    const [ox, oy] = cmd === upper ? [0, 0] : [x, y];
+
+    const args: number[] = [];
+    for (let k = 0; k < ARITY[upper]; k++) {
+      const value = scan(upper === 'A' && (k === 3 || k === 4) ? FLAG : NUMBER);
+      if (value === null) return null;
+      args.push(Number(value));
+    }
+
+    const previous = segments[segments.length - 1]?.cmd;
+    const reflected = (): [number, number] => control ? [2 * x - control[0], 2 * y - control[1]] : [x, y];
+    let next: Segment;
+    switch (upper) {
+      case 'M':
+        next = { cmd: 'M', values: [ox + args[0], oy + args[1]] };
+        [startX, startY] = next.values;
+        cmd = cmd === 'M' ? 'L' : 'l'; // further pairs are implicit linetos
+        break;
+      case 'L':
+        next = { cmd: 'L', values: [ox + args[0], oy + args[1]] };
+        break;
+      case 'H':
+        next = { cmd: 'L', values: [ox + args[0], y] };
+        break;
+      case 'V':
+        next = { cmd: 'L', values: [x, oy + args[0]] };
+        break;
+      case 'C':
+        next = { cmd: 'C', values: args.map((v, k) => v + (k % 2 ? oy : ox)) };
+        break;
+      case 'S': {
+        const [cx, cy] = previous === 'C' ? reflected() : [x, y];
+        next = { cmd: 'C', values: [cx, cy, ...args.map((v, k) => v + (k % 2 ? oy : ox))] };
+        break;
+      }
+      case 'Q':
+        next = { cmd: 'Q', values: args.map((v, k) => v + (k % 2 ? oy : ox)) };
+        break;
+      case 'T': {
+        const [cx, cy] = previous === 'Q' ? reflected() : [x, y];
+        next = { cmd: 'Q', values: [cx, cy, ox + args[0], oy + args[1]] };
+        break;
+      }
+      case 'A':
+        next = { cmd: 'A', values: [Math.abs(args[0]), Math.abs(args[1]), args[2], args[3], args[4], ox + args[5], oy + args[6]] };
+        break;
+      default:
+        next = { cmd: 'Z', values: [] };
+    }
+    if (next.values.some(v => !Number.isFinite(v))) return null;
+
+    segments.push(next);
+    const n = next.values.length;
+    control = next.cmd === 'C' ? [next.values[2], next.values[3]] : next.cmd === 'Q' ? [next.values[0], next.values[1]] : null;
+    [x, y] = next.cmd === 'Z' ? [startX, startY] : [next.values[n - 2], next.values[n - 1]];
+  }
+  return segments;
+};
+
+/** Maps segments through `m`. Null if an arc would need a non-uniform scale, which arcs cannot express. */
+const transformSegments = (segments: Segment[], m: Matrix): Segment[] | null => {
+  if (isIdentity(m)) return segments;
+  const similar = isSimilarity(m);
+  const result: Segment[] = [];
+  for (const seg of segments) {
+    if (seg.cmd === 'A') {
+      if (!similar) return null;
+      const [rx, ry, rotation, large, sweep, x, y] = seg.values;
+      const rad = (rotation * Math.PI) / 180;
+      const [ax, ay] = [m[0] * Math.cos(rad) + m[2] * Math.sin(rad), m[1] * Math.cos(rad) + m[3] * Math.sin(rad)];
+      const scale = scaleOf(m);
+      const mirrored = m[0] * m[3] - m[1] * m[2] < 0;
+      result.push({
+        cmd: 'A',
+        values: [rx * scale, ry * scale, (Math.atan2(ay, ax) * 180) / Math.PI, large, mirrored ? 1 - sweep : sweep, ...applyMatrix(m, x, y)]
+      });
+      continue;
+    }
+    const values: number[] = [];
+    for (let k = 0; k + 1 < seg.values.length; k += 2) values.push(...applyMatrix(m, seg.values[k], seg.values[k + 1]));
+    result.push({ cmd: seg.cmd, values });
+  }
+  return result;
+};
+
+const samePoint = (a: number[], b: number[]) => a[0] === b[0] && a[1] === b[1];
+
+/** Whether b lies on the straight continuation of a→b→c. */
+const isCollinear = (a: number[], b: number[], c: number[]) => {
+  const [ux, uy, vx, vy] = [b[0] - a[0], b[1] - a[1], c[0] - b[0], c[1] - b[1]];
+  const lengths = Math.hypot(ux, uy) * Math.hypot(vx, vy);
+  return lengths > 0 && Math.abs(ux * vy - uy * vx) <= COLLINEAR_TOLERANCE * lengths && ux * vx + uy * vy > 0;
+};
+
+/** Rounds segments, drops the ones that draw nothing and merges straight runs of linetos. */
+const cleanSegments = (segments: Segment[], pass: Pass): Segment[] => {
+  const out: Segment[] = [];
+  let current = [0, 0];
+  let start = [0, 0];
+  let anchor = [0, 0]; // where the last emitted segment began
+
+  segments.forEach(segment => {
+    const seg: Segment = {
+      cmd: segment.cmd,
+      values: segment.values.map((v, k) => segment.cmd === 'A' && (k === 3 || k === 4) ? v : round(pass, v))
+    };
+    const end = seg.values.slice(-2);
+    const last = out[out.length - 1];
+
+    switch (seg.cmd) {
+      case 'M':
+        if (last?.cmd === 'M') { out.pop(); note(pass, 'degenerate_removed'); } // a moveto that drew nothing
+        start = end;
+        break;
+      case 'L':
+        if (samePoint(end, current)) { note(pass, 'degenerate_removed'); return; }
+        if (last?.cmd === 'L' && isCollinear(anchor, current, end)) {
+          last.values = end;
+          current = end;
+          note(pass, 'segments_merged');
+          return;
+        }
+        break;
+      case 'C':
+      case 'Q':
+        if (samePoint(end, current) && seg.values.every((v, k) => v === current[k % 2])) { note(pass, 'degenerate_removed'); return; }
+        break;
+      case 'A':
+        if (samePoint(end, current)) { note(pass, 'degenerate_removed'); return; }
+        // A zero radius is drawn as a straight line.
+        if (seg.values[0] === 0 || seg.values[1] === 0) { seg.cmd = 'L'; seg.values = end; }
+        break;
+      case 'Z':
+        if (last?.cmd === 'M' || !last) { out.pop(); note(pass, 'degenerate_removed'); current = start; return; }
+        break;
+    }
+    out.push(seg);
+    anchor = current;
+    current = seg.cmd === 'Z' ? start : end;
+  });
+
+  while (out[out.length - 1]?.cmd === 'M') {
+    out.pop();
+    note(pass, 'degenerate_removed');
+  }
+  return out;
+};
+
+const serializeSegments = (segments: Segment[]): string => {
+  let d = '';
+  let previous = '';
+  segments.forEach(seg => {
+    const repeat = seg.cmd === previous && seg.cmd !== 'M' && seg.cmd !== 'Z';
+    if (!repeat) d += seg.cmd;
+    seg.values.forEach((value, k) => {
+      const text = formatNumber(value);
+      d += (k === 0 && !repeat) || text.startsWith('-') ? text : ` ${text}`;
+    });
+    previous = seg.cmd;
+  });
+  return d;
+};
+
+// --- SHAPES ---
+
+const num = (el: Element, name: string) => Number(el.getAttribute(name) ?? 0) || 0;
+
+const setNumbers = (el: Element, values: Record<string, number>, pass: Pass) =>
+  Object.entries(values).forEach(([name, value]) => {
+    if (el.hasAttribute(name) || value !== 0) el.setAttribute(name, formatNumber(round(pass, value)));
+  });
+
+/** Rounds a point list, dropping repeated points and the middle of straight runs. */
+const cleanPoints = (points: number[][], closed: boolean, pass: Pass): number[][] => {
+  const out: number[][] = [];
+  points.map(p => p.map(v => round(pass, v))).forEach(point => {
+    if (out.length && samePoint(out[out.length - 1], point)) { note(pass, 'degenerate_removed'); return; }
+    if (out.length >= 2 && isCollinear(out[out.length - 2], out[out.length - 1], point)) {
+      out[out.length - 1] = point;
+      note(pass, 'segments_merged');
+      return;
+    }
+    out.push(point);
+  });
+  if (closed && out.length > 1 && samePoint(out[0], out[out.length - 1])) {
+    out.pop();
+    note(pass, 'degenerate_removed');
+  }
+  return out;
+};
+
+/**
+ * Bakes `m` into a shape's geometry and rounds it. Returns false, without touching the
+ * element, when the shape cannot absorb `m` and has to keep a transform instead.
+ */
+const rewriteShape = (el: Element, m: Matrix, pass: Pass): boolean => {
+  switch (el.localName) {
+    case 'path': {
+      const segments = parsePath(el.getAttribute('d') ?? '');
+      if (!segments) return isIdentity(m);
+      const transformed = transformSegments(segments, m);
+      if (!transformed) return false;
+      el.setAttribute('d', serializeSegments(cleanSegments(transformed, pass)));
+      return true;
+    }
+    case 'line': {
+      const [x1, y1] = applyMatrix(m, num(el, 'x1'), num(el, 'y1'));
+      const [x2, y2] = applyMatrix(m, num(el, 'x2'), num(el, 'y2'));
+      setNumbers(el, { x1, y1, x2, y2 }, pass);
+      return true;
+    }
+    case 'polyline':
+    case 'polygon': {
+      const nums = numbersIn(el.getAttribute('points'));
+      const points: number[][] = [];
+      for (let k = 0; k + 1 < nums.length; k += 2) points.push(applyMatrix(m, nums[k], nums[k + 1]));
+      el.setAttribute('points', cleanPoints(points, el.localName === 'polygon', pass).map(p => p.map(formatNumber).join(',')).join(' '));
+      return true;
+    }
+    case 'rect': {
+      if (!isAxisAligned(m)) return false;
+      const [x0, y0] = applyMatrix(m, num(el, 'x'), num(el, 'y'));
+      const [x1, y1] = applyMatrix(m, num(el, 'x') + num(el, 'width'), num(el, 'y') + num(el, 'height'));
+      setNumbers(el, { x: Math.min(x0, x1), y: Math.min(y0, y1), width: Math.abs(x1 - x0), height: Math.abs(y1 - y0) }, pass);
+      if (el.hasAttribute('rx')) setNumbers(el, { rx: num(el, 'rx') * Math.abs(m[0]) }, pass);
+      if (el.hasAttribute('ry')) setNumbers(el, { ry: num(el, 'ry') * Math.abs(m[3]) }, pass);
+      return true;
+    }
+    case 'circle': {
+      if (!isSimilarity(m)) return false;
+      const [cx, cy] = applyMatrix(m, num(el, 'cx'), num(el, 'cy'));
+      setNumbers(el, { cx, cy, r: num(el, 'r') * scaleOf(m) }, pass);
+      return true;
+    }
+    case 'ellipse': {
+      if (!isAxisAligned(m)) return false;
+      const [cx, cy] = applyMatrix(m, num(el, 'cx'), num(el, 'cy'));
+      setNumbers(el, { cx, cy, rx: num(el, 'rx') * Math.abs(m[0]), ry: num(el, 'ry') * Math.abs(m[3]) }, pass);
+      return true;
+    }
+    default:
+      return false;
+  }
+};
+
+const isDegenerate = (el: Element): boolean => {
+  switch (el.localName) {
+    case 'path': {
+      const segments = parsePath(el.getAttribute('d') ?? '');
+      return segments !== null && segments.every(seg => seg.cmd === 'M' || seg.cmd === 'Z');
+    }
+    case 'line':
+      return num(el, 'x1') === num(el, 'x2') && num(el, 'y1') === num(el, 'y2');
+    case 'polyline':
+    case 'polygon':
+      return numbersIn(el.getAttribute('points')).length < 4;
+    case 'rect':
+      return num(el, 'width') <= 0 || num(el, 'height') <= 0;
+    case 'circle':
+      return num(el, 'r') <= 0;
+    case 'ellipse':
+      return num(el, 'rx') <= 0 || num(el, 'ry') <= 0;
+    default:
+      return false;
+  }
+};
+
+// --- TRANSFORMS ---
+
+const setTransform = (el: Element, m: Matrix, pass: Pass) => {
+  if (isIdentity(m)) el.removeAttribute('transform');
+  else el.setAttribute('transform', formatMatrix(pass, m));
+};
+
+/**
+ * Pushes every group transform down to the shapes and bakes it into their coordinates
+ * wherever the geometry can absorb it; whatever cannot is left as a single transform.
+ */
+const flattenTransforms = (el: Element, inherited: Matrix, pass: Pass) => {
+  const hadTransform = el.hasAttribute('transform');
+  const matrix = multiply(inherited, parseTransform(el.getAttribute('transform')));
+
+  if (NON_RENDERED.includes(el.localName)) return;
+  if (CONTAINERS.includes(el.localName) && !isDimensionsGroup(el)) {
+    const pinned = isPinned(el);
+    if (pinned) setTransform(el, matrix, pass);
+    else el.removeAttribute('transform');
+    Array.from(el.children).forEach(child => flattenTransforms(child, pinned ? IDENTITY : matrix, pass));
+  } else if (SHAPES.includes(el.localName) && !isPinned(el)) {
+    // Baking a scale into the coordinates would scale the stroke too, unless the stroke ignores scaling.
+    const bakeable = isTranslation(matrix) || el.getAttribute('vector-effect') === 'non-scaling-stroke';
+    if (bakeable && rewriteShape(el, matrix, pass)) {
+      el.removeAttribute('transform');
+    } else {
+      setTransform(el, matrix, pass);
+      rewriteShape(el, IDENTITY, pass);
+    }
+  } else {
+    setTransform(el, matrix, pass);
+  }
+  if (hadTransform && !el.hasAttribute('transform')) note(pass, 'transforms_flattened');
+};
+
+// --- STRUCTURE ---
+
+const signature = (el: Element) =>
+  `${el.localName} ${Array.from(el.attributes).map(attr => `${attr.name}=${attr.value}`).sort().join(' ')} ${el.textContent ?? ''}`;
+
+/** Removes shapes that draw nothing and shapes identical to an earlier one in the same layer. */
+const removeRedundantShapes = (root: Element, pass: Pass) => {
+  const seen = new Map<Element, Set<string>>();
+  Array.from(root.getElementsByTagName('*')).forEach(el => {
+    if (!SHAPES.includes(el.localName) && el.localName !== 'text') return;
+    if (isExempt(el)) return;
+    if (isDegenerate(el)) {
+      el.parentNode?.removeChild(el);
+      note(pass, 'degenerate_removed');
+      return;
+    }
+    if (el.hasAttribute('id')) return; // may be referenced
+    let layer: Element = root;
+    for (let node = el.parentElement; node && node !== root; node = node.parentElement) {
+      if (node.hasAttribute('id')) { layer = node; break; }
+    }
+    const keys = seen.get(layer) ?? new Set<string>();
+    seen.set(layer, keys);
+    const key = signature(el);
+    if (keys.has(key)) {
+      el.parentNode?.removeChild(el);
+      note(pass, 'duplicates_removed');
+    } else {
+      keys.add(key);
+    }
+  });
+};
+
+/** Drops groups left with nothing to draw and dissolves attribute-less wrappers. */
+const pruneGroups = (el: Element, keep: string[], pass: Pass) => {
+  if (NON_RENDERED.includes(el.localName) || isDimensionsGroup(el)) return;
+  Array.from(el.children).forEach(child => pruneGroups(child, keep, pass));
+  if (el.localName !== 'g' || !el.parentNode) return;
+  const id = el.getAttribute('id')?.toLowerCase();
+  if (el.children.length === 0 && !(id && keep.includes(id))) {
+    el.parentNode.removeChild(el);
+    note(pass, 'empty_groups_removed');
+  } else if (el.attributes.length === 0) {
+    while (el.firstChild) el.parentNode.insertBefore(el.firstChild, el);
+    el.parentNode.removeChild(el);
+    note(pass, 'groups_unwrapped');
+  }
+};
+
+/** Nearest declared value of an inherited property. */
+const inheritedStyle = (el: Element, prop: string): string | null => {
+  for (let node: Element | null = el; node; node = node.parentElement) {
+    const value = declaredStyle(node, prop);
+    if (value !== null) return value;
+  }
+  return null;
+};
+
+/** Drawing bounds, with text widened from its anchor point to a rough estimate of its glyph box. */
+const drawingBounds = (root: Element): Bounds | null => {
+  let bounds = elementBounds(root);
+  Array.from(root.getElementsByTagName('text')).forEach(text => {
+    if (isExempt(text)) return;
+    const size = parseFloat(inheritedStyle(text, 'font-size') ?? '') || 16;
+    const width = (text.textContent ?? '').trim().length * size * 0.6;
+    const anchor = inheritedStyle(text, 'text-anchor');
+    const left = num(text, 'x') - (anchor === 'middle' ? width / 2 : anchor === 'end' ? width : 0);
+    const m = ctmOf(text);
+    [[left, num(text, 'y') - size], [left + width, num(text, 'y') + size * 0.25]].forEach(([px, py]) => {
+      const [x, y] = applyMatrix(m, px, py);
+      bounds = bounds
+        ? { minX: Math.min(bounds.minX, x), minY: Math.min(bounds.minY, y), maxX: Math.max(bounds.maxX, x), maxY: Math.max(bounds.maxY, y) }
+        : { minX: x, minY: y, maxX: x, maxY: y };
+    });
+  });
+  return bounds;
+};
+
+/** Drops the indentation between elements; text content is untouched. */
+const stripWhitespace = (el: Element) => {
+  if (el.localName === 'text' || NON_RENDERED.includes(el.localName)) return;
+  Array.from(el.childNodes).forEach(node => {
+    if (node.nodeType === 3 && !(node.textContent ?? '').trim()) el.removeChild(node);
+  });
+  Array.from(el.children).forEach(stripWhitespace);
+};
+
+const tightenViewBox = (root: Element, pass: Pass) => {
+  const bounds = drawingBounds(root);
+  const current = numbersIn(root.getAttribute('viewBox'));
+  if (!bounds || current.length !== 4) return;
+  const margin = Math.max(bounds.maxX - bounds.minX, bounds.maxY - bounds.minY) * VIEWBOX_MARGIN;
+  const fitted = [bounds.minX - margin, bounds.minY - margin, bounds.maxX - bounds.minX + 2 * margin, bounds.maxY - bounds.minY + 2 * margin]
+    .map(v => Number(v.toFixed(pass.precision)));
+  // Leave a box that is already within a quarter of the margin alone, so repeated passes settle.
+  if (fitted[2] <= 0 || fitted[3] <= 0 || fitted.every((v, k) => Math.abs(v - current[k]) <= margin / 4)) return;
+
+  root.setAttribute('viewBox', fitted.map(formatNumber).join(' '));
+  // Keep a fixed pixel size in proportion with the new box.
+  const [width, height] = [root.getAttribute('width'), root.getAttribute('height')];
+  if (width && height && /^[\d.]+(px)?$/.test(width) && /^[\d.]+(px)?$/.test(height)) {
+    root.setAttribute('height', (parseFloat(width) * fitted[3] / fitted[2]).toFixed(1));
+  }
+  note(pass, 'viewbox_tightened');
+};
+
+// --- ENTRY POINTS ---
+
+const defaultPrecision = (root: Element): number => {
+  const viewBox = numbersIn(root.getAttribute('viewBox'));
+  const size = viewBox.length === 4 ? Math.max(viewBox[2], viewBox[3]) : 0;
+  return size > 0 ? Math.max(0, Math.min(6, Math.ceil(Math.log10(RESOLUTION / size)))) : 3;
+};
+
+/**
+ * Normalizes an SVG without changing what it draws: enforces the style directive, flattens
+ * transforms, rounds coordinates, merges straight runs, drops zero-length and duplicate
+ * geometry and empty groups, and fits the viewBox to the drawing. The dimensions layer is
+ * left exactly as it was. Unparseable input comes back unchanged with an empty report.
+ */
+export const postProcessSvg = (content: string, options: PostProcessOptions = {}): PostProcessResult => {
+  const bytesBefore = byteLength(content);
+  const doc = parseSvgDocument(content);
+  if (!doc) return { content, report: { bytesBefore, bytesAfter: bytesBefore, changes: {} } };
+
+  const root = doc.documentElement;
+  const pass: Pass = { precision: options.precision ?? defaultPrecision(root), changes: {} };
+  const hasDimensions = Array.from(root.getElementsByTagName('g')).some(g => g.getAttribute('id') === DIMENSIONS_GROUP);
+
+  if (options.enforceStyle !== false) enforceStyle(root, pass);
+  Array.from(root.children).forEach(child => flattenTransforms(child, IDENTITY, pass));
+  removeRedundantShapes(root, pass);
+  pruneGroups(root, (options.keepGroups ?? []).map(id => id.toLowerCase()), pass);
+  stripWhitespace(root);
+  // The dimensions layer records the viewBox it was drawn around; refitting would orphan it.
+  if (options.tightenViewBox !== false && !hasDimensions) tightenViewBox(root, pass);
+
+  const result = new XMLSerializer().serializeToString(doc);
+  return { content: result, report: { bytesBefore, bytesAfter: byteLength(result), changes: pass.changes } };
+};
+
+/**
+ * Validates model output and normalizes the sanitized markup, returning the report of the
+ * normalized document. If normalizing would break validation the original report stands.
+ */
+export const validateAndNormalize = (content: string, requiredGroups: string[], options: PostProcessOptions = {}): SvgValidationReport => {
+  const report = validateSvg(content, requiredGroups);
+  if (!report.valid || !report.sanitized) return report;
+  const processed = postProcessSvg(report.sanitized, { ...options, keepGroups: [...(options.keepGroups ?? []), ...requiredGroups] });
+  const normalized = validateSvg(processed.content, requiredGroups);
+  return normalized.valid ? { ...normalized, postProcess: processed.report } : report;
+};
+
+/** One line per kind of change, e.g. "12 coordinates rounded". */
+export const describePostProcess = (report: PostProcessReport): string[] =>
+  (Object.entries(report.changes) as [PostProcessChange, number][]).map(([change, count]) => `${count} ${CHANGE_LABELS[change]}`);
@@ -0,0 +1,81 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { installNodeDom } from '../cli/nodeDom';
+import { validateSvg } from './svgValidator';
+
+const drawing = (extra: string, hull = '<rect width="100" height="10"/>') =>
+  `<svg xmlns="http://www.w3.org/2000/svg" xmlns:xlink="http://www.w3.org/1999/xlink" viewBox="0 0 100 20">${extra}` +
+  `<g id="hull">${hull}</g><g id="superstructure"><rect x="40" width="10" height="6"/></g></svg>`;
+
+const codes = (content: string) => validateSvg(content).issues.map(issue => issue.code);
+
+beforeAll(() => installNodeDom());
+
+describe('validateSvg sanitizer', () => {
+  it('passes a clean drawing through untouched', () => {
+    const report = validateSvg(drawing('<defs><path id="gun" d="M0 0 L5 0"/></defs>', '<use href="#gun"/><rect width="100" height="10"/>'));
+    expect(report.valid).toBe(true);
+    expect(report.issues).toEqual([]);
+    expect(report.sanitized).toContain('href="#gun"');
+  });
+
+  it('removes <script> elements', () => {
+    const report = validateSvg(drawing('<script>alert(1)</script>'));
+    expect(report.issues.map(issue => issue.code)).toEqual(['SCRIPT_REMOVED']);
+    expect(report.sanitized).not.toContain('script');
+    expect(report.valid).toBe(true);
+  });
+
+  it('removes on* event handlers and keeps the element', () => {
+    const report = validateSvg(drawing('', '<rect width="100" height="10" onclick="alert(1)" onLoad="alert(2)"/>'));
+    expect(report.issues.map(issue => issue.code)).toEqual(['EVENT_HANDLER_REMOVED', 'EVENT_HANDLER_REMOVED']);
+    expect(report.sanitized).not.toMatch(/onclick|onload/i);
+    expect(report.sanitized).toContain('<rect width="100" height="10"');
+  });
+
+  it.each([
+    ['href', '<a href="https://example.com"><rect width="100" height="10"/></a>'],
+    ['xlink:href', '<use xlink:href="https://example.com/parts.svg#gun"/><rect width="100" height="10"/>'],
+    ['a javascript: href', '<a href="javascript:alert(1)"><rect width="100" height="10"/></a>']
+  ])('removes an external %s', (_, hull) => {
+    const report = validateSvg(drawing('', hull));
+    expect(report.issues.map(issue => issue.code)).toEqual(['EXTERNAL_REF_REMOVED']);
+    expect(report.sanitized).not.toMatch(/example\.com|javascript:/);
+  });
+
+  it('removes attributes that load an external url()', () => {
+    const report = validateSvg(drawing('', '<rect width="100" height="10" fill="url(https://example.com/hatch.svg)" stroke="url(#hatch)"/>'));
+    expect(report.issues.map(issue => issue.code)).toEqual(['EXTERNAL_REF_REMOVED']);
+    expect(report.sanitized).not.toContain('example.com');
+    expect(report.sanitized).toContain('stroke="url(#hatch)"');
+  });
+
+  it.each([
+    ['url()', '<style>rect { fill: url("https://example.com/hatch.png") }</style>'],
+    ['@import', '<style>@import "https://example.com/theme.css";</style>']
+  ])('removes a <style> block that uses %s', (_, style) => {
+    const report = validateSvg(drawing(style));
+    expect(report.issues.map(issue => issue.code)).toEqual(['EXTERNAL_REF_REMOVED']);
+    expect(report.sanitized).not.toContain('<style');
+  });
+
+  it('keeps a <style> block that only references the document', () => {
+    expect(codes(drawing('<style>rect { fill: url(#hatch); stroke-width: 1 }</style>'))).toEqual([]);
+  });
+
+  it.each(['set', 'animate'])('removes <%s> that targets href or a handler', tag => {
+    const report = validateSvg(drawing('',
+      `<a href="#hull"><${tag} attributeName="href" to="javascript:alert(1)"/><${tag} attributeName="xlink:href" to="https://example.com"/>` +
+      `<${tag} attributeName="onclick" to="alert(1)"/><rect width="100" height="10"/></a>`));
+    expect(report.issues.map(issue => issue.code)).toEqual(['SCRIPT_REMOVED', 'SCRIPT_REMOVED', 'SCRIPT_REMOVED']);
+    expect(report.sanitized).not.toContain(`<${tag}`);
+  });
+
+  it.each(['set', 'animate'])('keeps <%s> that animates presentation', tag => {
+    expect(codes(drawing('', `<rect width="100" height="10"><${tag} attributeName="opacity" to="0.5"/></rect>`))).toEqual([]);
+  });
+});
@@ -0,0 +1,170 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SvgValidationIssue, SvgValidationReport, ViewType } from "../types";
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+const XLINK_NS = 'http://www.w3.org/1999/xlink';
+
+/** Semantic groups every schematic must carry for the downstream tooling to work. */
+export const REQUIRED_GROUPS = ['hull', 'superstructure'];
+
+// Views that legitimately show no superstructure.
+const REQUIRED_GROUPS_BY_VIEW: Partial<Record<ViewType, string[]>> = {
+  section: ['hull'],
+  inboard: ['hull']
+};
+
+export const requiredGroupsFor = (viewType: ViewType): string[] => REQUIRED_GROUPS_BY_VIEW[viewType] ?? REQUIRED_GROUPS;
+
+// Elements that can execute code or embed arbitrary HTML inside an SVG.
+const FORBIDDEN_ELEMENTS = ['script', 'foreignObject', 'iframe', 'embed', 'object', 'audio', 'video', 'canvas'];
+
+// Drawing primitives; a document without any of these is an empty shell.
+export const SHAPE_ELEMENTS = ['path', 'line', 'polyline', 'polygon', 'rect', 'circle', 'ellipse', 'text', 'use'];
+
+export class SvgValidationError extends Error {
+  constructor(message: string, public readonly report: SvgValidationReport) {
+    super(message);
+    this.name = 'SvgValidationError';
+  }
+}
+
+const isInternalRef = (value: string) => value.trim().startsWith('#');
+
+const hasExternalUrl = (value: string) =>
+  /javascript:/i.test(value) || /url\(\s*['"]?(?!#)/i.test(value) || /@import/i.test(value);
+
+/**
+ * Strips anything executable or network-bound from a parsed SVG document in place.
+ * Returns the issues describing what was removed.
+ */
+const sanitizeDocument = (doc: Document): SvgValidationIssue[] => {
+  const issues: SvgValidationIssue[] = [];
+  const note = (code: SvgValidationIssue['code'], message: string) =>
+    issues.push({ code, severity: 'warning', message });
+
+  FORBIDDEN_ELEMENTS.forEach(tag => {
+    Array.from(doc.getElementsByTagName(tag)).forEach(el => {
+      el.parentNode?.removeChild(el);
+      if (tag === 'script') note('SCRIPT_REMOVED', 'Removed <script> element.');
+      else note('FOREIGN_OBJECT_REMOVED', `Removed <${tag}> element.`);
+    });
+  });
+
+  // Animation elements can re-introduce handlers or hrefs at runtime.
+  ['set', 'animate'].forEach(tag => {
+    Array.from(doc.getElementsByTagName(tag)).forEach(el => {
+      const target = (el.getAttribute('attributeName') || '').toLowerCase();
+      if (target.startsWith('on') || target === 'href' || target === 'xlink:href') {
+        el.parentNode?.removeChild(el);
+        note('SCRIPT_REMOVED', `Removed <${tag}> targeting "${target}".`);
+      }
+    });
+  });
+
+  Array.from(doc.getElementsByTagName('style')).forEach(el => {
+    if (hasExternalUrl(el.textContent || '')) {
+      el.parentNode?.removeChild(el);
+      note('EXTERNAL_REF_REMOVED', 'Removed <style> block referencing external resources.');
+    }
+  });
+
+  Array.from(doc.getElementsByTagName('*')).forEach(el => {
+    Array.from(el.attributes).forEach(attr => {
+      const name = attr.name.toLowerCase();
+      if (name.startsWith('on')) {
+        el.removeAttribute(attr.name);
+        note('EVENT_HANDLER_REMOVED', `Removed ${attr.name} handler from <${el.tagName}>.`);
+      } else if ((name === 'href' || name === 'xlink:href') && !isInternalRef(attr.value)) {
+        el.removeAttributeNode(attr);
+        note('EXTERNAL_REF_REMOVED', `Removed external ${attr.name} from <${el.tagName}>.`);
+      } else if (hasExternalUrl(attr.value)) {
+        el.removeAttribute(attr.name);
+        note('EXTERNAL_REF_REMOVED', `Removed ${attr.name} referencing external resources from <${el.tagName}>.`);
+      }
+    });
+  });
+
+  return issues;
+};
+
+const parseViewBox = (value: string | null): [number, number, number, number] | undefined => {
+  if (!value) return undefined;
+  const parts = value.trim().split(/[\s,]+/).map(Number);
+  if (parts.length !== 4 || parts.some(n => !Number.isFinite(n))) return undefined;
+  return parts as [number, number, number, number];
+};
+
+/**
+ * Parses, sanitizes and structurally checks a generated SVG.
+ * The returned report is safe to act on: `sanitized` is the only markup that should reach the DOM.
+ */
+export const validateSvg = (content: string, requiredGroups: string[] = REQUIRED_GROUPS): SvgValidationReport => {
+  const issues: SvgValidationIssue[] = [];
+  const fail = (code: SvgValidationIssue['code'], message: string): SvgValidationReport => ({
+    valid: false,
+    sanitized: null,
+    issues: [...issues, { code, severity: 'error', message }],
+    groupIds: []
+  });
+
+  let markup = content.trim();
+  if (!/^(<\?xml[^>]*>\s*)?(<!--[\s\S]*?-->\s*)*<svg[\s>]/i.test(markup)) {
+    return fail('NOT_SVG', 'Output does not start with an <svg> element.');
+  }
+  // Models routinely omit the namespace, which makes the XML parser treat the root as unknown.
+  if (!/<svg[^>]*\sxmlns=/i.test(markup)) {
+    markup = markup.replace(/<svg/i, `<svg xmlns="${SVG_NS}"`);
+  }
+  if (/xlink:/.test(markup) && !/xmlns:xlink=/.test(markup)) {
+    markup = markup.replace(/<svg/i, `<svg xmlns:xlink="${XLINK_NS}"`);
+  }
+
+  const doc = new DOMParser().parseFromString(markup, 'image/svg+xml');
+  const parserError = doc.getElementsByTagName('parsererror')[0];
+  if (parserError) {
+    return fail('MALFORMED_XML', `SVG is not well-formed XML: ${(parserError.textContent || '').trim().slice(0, 200)}`);
+  }
+  const root = doc.documentElement;
+  if (root.localName !== 'svg' || root.namespaceURI !== SVG_NS) {
+    return fail('NOT_SVG', `Root element is <${root.localName}>, expected <svg>.`);
+  }
+
+  issues.push(...sanitizeDocument(doc));
+
+  const viewBox = parseViewBox(root.getAttribute('viewBox'));
+  if (!root.hasAttribute('viewBox')) {
+    issues.push({ code: 'MISSING_VIEWBOX', severity: 'error', message: 'Root <svg> has no viewBox.' });
+  } else if (!viewBox || viewBox[2] <= 0 || viewBox[3] <= 0) {
+    issues.push({ code: 'INVALID_VIEWBOX', severity: 'error', message: `viewBox "${root.getAttribute('viewBox')}" is not four numbers with positive width and height.` });
+  }
+
+  const groupIds = Array.from(doc.getElementsByTagName('g'))
+    .map(g => g.getAttribute('id'))
+    .filter((id): id is string => !!id);
+  requiredGroups
+    .filter(required => !groupIds.some(id => id.toLowerCase() === required))
+    .forEach(missing => issues.push({ code: 'MISSING_GROUP', severity: 'error', message: `Required group <g id="${missing}"> is missing.` }));
+
+  if (!SHAPE_ELEMENTS.some(tag => doc.getElementsByTagName(tag).length > 0)) {
+    issues.push({ code: 'EMPTY_DRAWING', severity: 'error', message: 'SVG contains no drawable geometry.' });
+  }
+
+  return {
+    valid: !issues.some(issue => issue.severity === 'error'),
+    sanitized: new XMLSerializer().serializeToString(doc),
+    issues,
+    viewBox,
+    groupIds
+  };
+};
+
+/** Human-readable summary of the blocking issues, suitable for a repair prompt. */
+export const describeIssues = (report: SvgValidationReport): string =>
+  report.issues
+    .filter(issue => issue.severity === 'error')
+    .map(issue => `- [${issue.code}] ${issue.message}`)
+    .join('\n');
@@ -0,0 +1,39 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { beforeAll, describe, expect, it } from 'vitest';
+import { installNodeDom } from '../cli/nodeDom';
+import { BUILT_IN_THEMES, LAYER_PALETTE, applyTheme } from './themes';
+
+const theme = (id: string) => BUILT_IN_THEMES.find(t => t.id === id)!;
+const parse = (content: string) => new DOMParser().parseFromString(content, 'image/svg+xml');
+
+beforeAll(() => installNodeDom());
+
+describe('applyTheme', () => {
+  it('recolours paint set by <style> rules and keeps their other declarations', () => {
+    const themed = parse(applyTheme(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10">' +
+      '<style>.line { stroke: #000; stroke-width: 2 } rect { fill: #fff }</style>' +
+      '<rect class="line" width="4" height="4" style="stroke:#111"/><path class="line" d="M0 0 L1 1"/></svg>',
+      theme('blueprint')
+    ));
+    const [blueprint] = BUILT_IN_THEMES;
+    expect(themed.querySelector('style')!.textContent).not.toMatch(/stroke:|fill:/);
+    expect(themed.querySelector('style')!.textContent).toContain('stroke-width: 2');
+    expect(themed.querySelector('rect')!.getAttribute('style')).toBe(`stroke:${blueprint.ink};fill:${blueprint.background};stroke:${blueprint.ink}`);
+    expect(themed.querySelector('path')!.getAttribute('style')).toBe(`stroke:${blueprint.ink}`);
+  });
+
+  it('fills and strokes a layer in its colour', () => {
+    const themed = parse(applyTheme(
+      '<svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 10 10"><g id="hull"><rect width="4" height="4"/></g><g id="masts" fill="none"/></svg>',
+      theme('layers')
+    ));
+    expect(themed.getElementById('hull')!.getAttribute('fill')).toBe(LAYER_PALETTE.hull);
+    expect(themed.getElementById('hull')!.getAttribute('stroke')).toBe(LAYER_PALETTE.hull);
+    expect(themed.getElementById('masts')!.getAttribute('fill')).toBe('none');
+  });
+});
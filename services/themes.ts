@@ -0,0 +1,172 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { SvgTheme, WarshipProject } from "../types";
+import { parseSvgDocument, numbersIn, NON_RENDERED } from "./svgGeometry";
+
+// Themes recolour the SVG's own attributes instead of filtering the page, so the preview,
+// the SVG, DXF and sheet exports all carry the same colours. Every colour in a drawing is
+// either ink or paper: dark ones become the theme's ink (or its layer's), light ones its background.
+
+const SVG_NS = 'http://www.w3.org/2000/svg';
+
+export const DEFAULT_THEME_ID = 'blueprint';
+
+/** Distinct inks for the semantic groups the Architect is asked to produce. */
+export const LAYER_PALETTE: Record<string, string> = {
+  hull: '#1d4ed8',
+  superstructure: '#b91c1c',
+  armament: '#15803d',
+  funnels: '#c2410c',
+  masts: '#7e22ce',
+  boats: '#0f766e',
+  details: '#52525b',
+  dimensions: '#a16207'
+};
+
+export const BUILT_IN_THEMES: SvgTheme[] = [
+  { id: 'blueprint', name: 'Blueprint', background: '#0b3a66', ink: '#e6f0ff', text: '#e6f0ff' },
+  { id: 'print', name: 'Print', background: '#ffffff', ink: '#000000', text: '#000000' },
+  { id: 'dark', name: 'Dark Mode', background: '#18181b', ink: '#e4e4e7', text: '#a1a1aa' },
+  { id: 'layers', name: 'Layer Colours', background: '#ffffff', ink: '#27272a', text: '#27272a', layerColors: LAYER_PALETTE }
+];
+
+export const themesOf = (project?: WarshipProject | null): SvgTheme[] => [...BUILT_IN_THEMES, ...(project?.customThemes ?? [])];
+
+export const resolveTheme = (project?: WarshipProject | null): SvgTheme =>
+  themesOf(project).find(theme => theme.id === (project?.themeId ?? DEFAULT_THEME_ID)) ?? BUILT_IN_THEMES[0];
+
+// --- COLOURS ---
+
+const NAMED: Record<string, string> = { black: '#000000', white: '#ffffff', gray: '#808080', grey: '#808080', silver: '#c0c0c0' };
+
+/** RGB channels 0-255 of a hex, rgb() or basic named colour. Null for anything else. */
+export const parseColor = (value: string): [number, number, number] | null => {
+  const color = (NAMED[value.trim().toLowerCase()] ?? value).trim().toLowerCase();
+  const hex = color.match(/^#([0-9a-f]{3}|[0-9a-f]{6})$/);
+  if (hex) {
+    const digits = hex[1].length === 3 ? hex[1].split('').map(c => c + c).join('') : hex[1];
+    return [0, 2, 4].map(i => parseInt(digits.slice(i, i + 2), 16)) as [number, number, number];
+  }
+  if (/^rgba?\(/.test(color)) {
+    const [r, g, b] = numbersIn(color);
+    if ([r, g, b].every(Number.isFinite)) return [r, g, b];
+  }
+  return null;
+};
+
+/** Relative luminance, 0 (black) to 1 (white). */
+export const luminance = ([r, g, b]: [number, number, number]): number => (0.2126 * r + 0.7152 * g + 0.0722 * b) / 255;
+
+export const isDarkColor = (value: string): boolean => luminance(parseColor(value) ?? [0, 0, 0]) < 0.5;
+
+const UNPAINTED = /^(none|transparent|inherit|currentcolor)$|url\(/i;
+
+/** Light paint becomes paper; dark paint, and colours we cannot read, become ink. */
+const recolor = (value: string, ink: string, paper: string): string => {
+  if (UNPAINTED.test(value.trim())) return value;
+  const rgb = parseColor(value);
+  return rgb && luminance(rgb) >= 0.5 ? paper : ink;
+};
+
+// Layer colours follow a group's id, or its last hyphenated part so prefixed copies keep them.
+const layerInk = (el: Element, theme: SvgTheme): string | undefined => {
+  const id = el.localName === 'g' ? el.getAttribute('id')?.toLowerCase() : undefined;
+  if (!id || !theme.layerColors) return undefined;
+  return theme.layerColors[id] ?? theme.layerColors[id.slice(id.lastIndexOf('-') + 1)];
+};
+
+const PAINT_DECLARATION = /^(stroke|fill|stop-color)\s*:/i;
+
+/**
+ * Moves the colours set by <style> rules onto the elements they match, ahead of each element's
+ * own style so that still wins, and leaves every other declaration in the stylesheet. Rules apply
+ * in source order; selector specificity is not weighed.
+ */
+const inlineStylesheetPaint = (doc: Document) => {
+  const inherited = new Map<Element, string[]>();
+  Array.from(doc.getElementsByTagName('style')).forEach(style => {
+    const css = (style.textContent ?? '').replace(/\/\*[\s\S]*?\*\//g, '');
+    style.textContent = css.replace(/([^{}@;]+)\{([^{}]*)\}/g, (rule, selector: string, body: string) => {
+      const declarations = body.split(';').map(part => part.trim()).filter(Boolean);
+      const paint = declarations.filter(part => PAINT_DECLARATION.test(part));
+      if (paint.length === 0) return rule;
+      let targets: Element[];
+      try {
+        targets = Array.from(doc.querySelectorAll(selector.trim()));
+      } catch {
+        return rule; // a selector the DOM cannot match keeps its rule untouched
+      }
+      targets.forEach(el => inherited.set(el, [...(inherited.get(el) ?? []), ...paint]));
+      const rest = declarations.filter(part => !PAINT_DECLARATION.test(part));
+      return rest.length ? `${selector}{${rest.join(';')}}` : '';
+    });
+  });
+  inherited.forEach((paint, el) => {
+    el.setAttribute('style', [...paint, el.getAttribute('style') ?? ''].filter(Boolean).join(';'));
+  });
+};
+
+// --- APPLY ---
+
+export interface ThemeOptions {
+  background?: boolean; // paint the viewBox with the theme background; off when the page supplies it
+}
+
+/**
+ * Rewrites every stroke and fill in the SVG to the theme, including those set by <style> rules,
+ * which are moved onto the elements they match. The document structure is otherwise unchanged
+ * unless a background is requested, which adds one rect behind everything else.
+ */
+export const applyTheme = (content: string, theme: SvgTheme, options: ThemeOptions = {}): string => {
+  const doc = parseSvgDocument(content);
+  if (!doc) return content;
+  const root = doc.documentElement;
+  inlineStylesheetPaint(doc);
+
+  const visit = (el: Element, ink: string) => {
+    if (NON_RENDERED.includes(el.localName)) return;
+    const own = layerInk(el, theme);
+    const current = own ?? ink;
+    const paint = el.localName === 'text' || el.localName === 'tspan' ? (own ?? (ink === theme.ink ? theme.text : ink)) : current;
+
+    ['stroke', 'fill', 'stop-color'].forEach(prop => {
+      const value = el.getAttribute(prop);
+      if (value !== null) el.setAttribute(prop, recolor(value, paint, theme.background));
+    });
+    const style = el.getAttribute('style');
+    if (style) {
+      el.setAttribute('style', style.replace(/(^|;)\s*(stroke|fill|stop-color)\s*:\s*([^;]+)/g,
+        (_match, sep, prop, value) => `${sep}${prop}:${recolor(value, paint, theme.background)}`));
+    }
+    // A layer's ink has to be set on the group itself to beat the colours inherited from above.
+    if (own) ['stroke', 'fill'].forEach(prop => { if (!el.hasAttribute(prop)) el.setAttribute(prop, own); });
+    Array.from(el.children).forEach(child => visit(child, current));
+  };
+  // Unstyled shapes fill black by default, which is ink too.
+  if (!root.hasAttribute('fill')) root.setAttribute('fill', '#000000');
+  visit(root, theme.ink);
+  root.setAttribute('data-theme', theme.id);
+
+  const viewBox = numbersIn(root.getAttribute('viewBox'));
+  if (options.background && viewBox.length === 4) {
+    const rect = doc.createElementNS(SVG_NS, 'rect');
+    [['x', viewBox[0]], ['y', viewBox[1]], ['width', viewBox[2]], ['height', viewBox[3]]]
+      .forEach(([name, value]) => rect.setAttribute(String(name), String(value)));
+    rect.setAttribute('fill', theme.background);
+    rect.setAttribute('stroke', 'none');
+    root.insertBefore(rect, root.firstChild);
+  }
+  return new XMLSerializer().serializeToString(doc);
+};
+
+/** A fresh user theme seeded from an existing one. */
+export const customThemeFrom = (base: SvgTheme, name: string): SvgTheme => ({
+  ...base,
+  id: crypto.randomUUID(),
+  name,
+  layerColors: base.layerColors ? { ...base.layerColors } : undefined,
+  custom: true
+});
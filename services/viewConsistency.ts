@@ -0,0 +1,135 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { BoundingBox, ConsistencyReport, HullExtent, ProjectView, StationComparison, StationSpan } from "../types";
+import { Bounds, groupBounds, viewBoxOf } from "./svgGeometry";
+import { currentSvgOf } from "./revisionHistory";
+import { stripDimensions } from "./dimensions";
+
+/** Default allowed disagreement between the views, as a fraction of hull length. */
+export const DEFAULT_STATION_TOLERANCE = 0.02;
+
+// Groups that are not longitudinal features in their own right.
+const IGNORED_GROUPS = ['hull', 'root', 'background', 'annotations', 'labels'];
+
+interface ViewStations {
+  hull: HullExtent;
+  stations: Record<string, StationSpan>;
+}
+
+/** The side/top pair to compare for each ship on the sheet, in sheet order. */
+export const consistencyPairs = (views: ProjectView[]): { side: ProjectView; top: ProjectView }[] => {
+  const ships = [...new Set(views.map(view => view.shipIndex))];
+  return ships.flatMap(shipIndex => {
+    const side = views.find(view => view.shipIndex === shipIndex && view.viewType === 'side' && view.history);
+    const top = views.find(view => view.shipIndex === shipIndex && view.viewType === 'top' && view.history);
+    return side && top ? [{ side, top }] : [];
+  });
+};
+
+/**
+ * Longitudinal stations of every named group, normalized so the hull runs from 0 to 1.
+ * Returns null when the drawing has no measurable hull to normalize against.
+ */
+export const extractStations = (viewId: string, content: string, sheetBox?: BoundingBox): ViewStations | null => {
+  // Dimensioning widens the viewBox, which would throw off the sheet length below.
+  const svg = stripDimensions(content);
+  const groups = groupBounds(svg);
+  const hull = groups.hull;
+  const length = hull ? hull.maxX - hull.minX : 0;
+  if (!hull || length <= 0) return null;
+
+  const toStation = (b: Bounds): StationSpan => {
+    const start = (b.minX - hull.minX) / length;
+    const end = (b.maxX - hull.minX) / length;
+    return { start, end, center: (start + end) / 2 };
+  };
+
+  // The Architect is asked to frame the ship with the viewBox, so the crop box maps onto it.
+  const viewBox = viewBoxOf(svg);
+  const sheetLength = viewBox && sheetBox
+    ? (length / (viewBox.maxX - viewBox.minX)) * (sheetBox.xmax - sheetBox.xmin)
+    : undefined;
+
+  const stations: Record<string, StationSpan> = {};
+  Object.entries(groups)
+    .filter(([id]) => !IGNORED_GROUPS.includes(id))
+    .forEach(([id, bounds]) => { stations[id] = toStation(bounds); });
+
+  return { hull: { viewId, start: hull.minX, length, sheetLength }, stations };
+};
+
+/**
+ * Compares the stations shared by a side profile and a deck plan.
+ * Both views are assumed to be drawn with the bow at the same end, as on a standard sheet.
+ */
+export const checkConsistency = (
+  side: { id: string; svg: string; sheetBox?: BoundingBox },
+  top: { id: string; svg: string; sheetBox?: BoundingBox },
+  tolerance: number = DEFAULT_STATION_TOLERANCE
+): ConsistencyReport | null => {
+  const a = extractStations(side.id, side.svg, side.sheetBox);
+  const b = extractStations(top.id, top.svg, top.sheetBox);
+  if (!a || !b) return null;
+
+  const stations: StationComparison[] = Object.keys(a.stations)
+    .filter(id => b.stations[id])
+    .map(groupId => {
+      const s = a.stations[groupId];
+      const t = b.stations[groupId];
+      const delta = Math.max(Math.abs(s.start - t.start), Math.abs(s.end - t.end));
+      return { groupId, side: s, top: t, delta, mismatched: delta > tolerance };
+    })
+    .sort((x, y) => x.side.center - y.side.center);
+
+  const lengthDelta = a.hull.sheetLength && b.hull.sheetLength
+    ? Math.abs(a.hull.sheetLength - b.hull.sheetLength) / Math.max(a.hull.sheetLength, b.hull.sheetLength)
+    : undefined;
+
+  return {
+    side: a.hull,
+    top: b.hull,
+    tolerance,
+    lengthDelta,
+    stations,
+    sideOnly: Object.keys(a.stations).filter(id => !b.stations[id]),
+    topOnly: Object.keys(b.stations).filter(id => !a.stations[id]),
+    mismatchCount: stations.filter(s => s.mismatched).length + (lengthDelta !== undefined && lengthDelta > tolerance ? 1 : 0)
+  };
+};
+
+/** Runs the check on a project's side/top pair using each view's current revision and crop box. */
+export const checkViewPair = (
+  pair: { side: ProjectView; top: ProjectView },
+  boxes: Record<string, BoundingBox>,
+  tolerance?: number
+): ConsistencyReport | null => {
+  const sideSvg = currentSvgOf(pair.side)?.content;
+  const topSvg = currentSvgOf(pair.top)?.content;
+  if (!sideSvg || !topSvg) return null;
+  return checkConsistency(
+    { id: pair.side.id, svg: sideSvg, sheetBox: boxes[pair.side.id] },
+    { id: pair.top.id, svg: topSvg, sheetBox: boxes[pair.top.id] },
+    tolerance
+  );
+};
+
+/**
+ * Repair instructions for one view of the pair: each mismatched group is sent to the
+ * midpoint of the two views' stations, converted into that view's own x coordinates.
+ */
+export const formatStationTargets = (report: ConsistencyReport, view: 'side' | 'top'): string => {
+  const hull = report[view];
+  const toX = (station: number) => (hull.start + station * hull.length).toFixed(1);
+  return report.stations
+    .filter(s => s.mismatched)
+    .map(s => {
+      const current = s[view];
+      const start = (s.side.start + s.top.start) / 2;
+      const end = (s.side.end + s.top.end) / 2;
+      return `- <g id="${s.groupId}">: currently spans x=${toX(current.start)}..${toX(current.end)}; move/resize it to span x=${toX(start)}..${toX(end)}.`;
+    })
+    .join('\n');
+};
@@ -0,0 +1,37 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+import { ViewType } from "../types";
+
+export const VIEW_TYPES: ViewType[] = ['side', 'top', 'bow', 'stern', 'section', 'inboard', 'isometric', 'unknown'];
+
+export const VIEW_TYPE_LABELS: Record<ViewType, string> = {
+  side: 'Side Profile',
+  top: 'Deck Plan',
+  bow: 'Bow Elevation',
+  stern: 'Stern Elevation',
+  section: 'Cross-Section',
+  inboard: 'Inboard Profile',
+  isometric: 'Isometric',
+  unknown: 'Other View'
+};
+
+/** Default Architect focus per view type; a view's own contextInstruction replaces it. */
+export const VIEW_CONTEXT_INSTRUCTIONS: Record<ViewType, string> = {
+  side: "FOCUS: Side Profile. Pay attention to mast heights, funnel rakes, hull sheer lines, and freeboard.",
+  top: "FOCUS: Top/Overhead Deck Plan. Pay attention to beam width, turret rotation circles, deck planking patterns, and lifeboats.",
+  bow: "FOCUS: Bow Elevation (looking aft). Pay attention to stem shape, flare, beam at the waterline, anchor hawses, and the silhouettes of turrets and masts behind.",
+  stern: "FOCUS: Stern Elevation (looking forward). Pay attention to transom or counter shape, rudders, propeller shafts, and the silhouettes of the superstructure behind.",
+  section: "FOCUS: Midship Cross-Section. Pay attention to frame shape, deck levels, armour belt and deck thickness, bulkheads, double bottom, and bilge keels.",
+  inboard: "FOCUS: Inboard Profile. Pay attention to deck levels, transverse bulkheads, machinery spaces, magazines, and internal compartment boundaries.",
+  isometric: "FOCUS: Isometric View. Preserve the projection: keep parallel edges parallel and do not flatten into an orthographic view.",
+  unknown: "FOCUS: Reproduce the drawing faithfully, preserving its projection and proportions."
+};
+
+export const contextInstructionFor = (viewType: ViewType, override?: string): string =>
+  override?.trim() || VIEW_CONTEXT_INSTRUCTIONS[viewType];
+
+export const isViewType = (value: unknown): value is ViewType =>
+  typeof value === 'string' && (VIEW_TYPES as string[]).includes(value);
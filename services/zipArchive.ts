@@ -0,0 +1,100 @@
+/**
+ * @license
+ * SPDX-License-Identifier: Apache-2.0
+*/
+
+// Minimal ZIP writer. Entries are stored uncompressed: the payloads are SVG and JSON, which
+// every unzip tool handles this way, and it keeps the writer synchronous and dependency-free.
+
+export class ZipError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = 'ZipError';
+  }
+}
+
+export interface ZipEntry {
+  name: string; // path inside the archive, '/'-separated
+  data: string | Uint8Array;
+}
+
+const MAX_UINT32 = 0xffffffff;
+const MAX_ENTRIES = 0xffff; // without the ZIP64 extensions
+
+let crcTable: Uint32Array | null = null;
+
+const crc32 = (bytes: Uint8Array): number => {
+  if (!crcTable) {
+    crcTable = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+      let c = n;
+      for (let k = 0; k < 8; k++) c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+      crcTable[n] = c >>> 0;
+    }
+  }
+  let crc = MAX_UINT32;
+  for (let i = 0; i < bytes.length; i++) crc = crcTable[(crc ^ bytes[i]) & 0xff] ^ (crc >>> 8);
+  return (crc ^ MAX_UINT32) >>> 0;
+};
+
+/** MS-DOS time and date words, in local time as the format expects. */
+const dosDateTime = (date: Date): [number, number] => [
+  (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2),
+  ((Math.max(1980, date.getFullYear()) - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate()
+];
+
+/** Little-endian record builder. */
+const record = (fields: [number, 2 | 4][], tail: Uint8Array[] = []): Uint8Array => {
+  const size = fields.reduce((acc, [, width]) => acc + width, 0);
+  const bytes = new Uint8Array(size + tail.reduce((acc, part) => acc + part.length, 0));
+  const view = new DataView(bytes.buffer);
+  let offset = 0;
+  fields.forEach(([value, width]) => {
+    if (width === 2) view.setUint16(offset, value, true);
+    else view.setUint32(offset, value, true);
+    offset += width;
+  });
+  tail.forEach(part => { bytes.set(part, offset); offset += part.length; });
+  return bytes;
+};
+
+/** Builds a ZIP archive. Names are written as UTF-8; duplicate names are rejected. */
+export const createZip = (entries: ZipEntry[], modified: Date = new Date()): Blob => {
+  if (entries.length > MAX_ENTRIES) throw new ZipError(`A ZIP archive holds at most ${MAX_ENTRIES} entries.`);
+  const names = new Set<string>();
+  const encoder = new TextEncoder();
+  const [time, date] = dosDateTime(modified);
+  const parts: Uint8Array[] = [];
+  const directory: Uint8Array[] = [];
+  let offset = 0;
+
+  entries.forEach(entry => {
+    const name = entry.name.replace(/^\/+/, '');
+    if (!name || names.has(name)) throw new ZipError(`Invalid or duplicate entry name "${entry.name}".`);
+    names.add(name);
+    const nameBytes = encoder.encode(name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    if (data.length > MAX_UINT32 || offset > MAX_UINT32) throw new ZipError('Archive is too large.');
+    const crc = crc32(data);
+
+    // Flag bit 11: names are UTF-8.
+    const local = record([
+      [0x04034b50, 4], [20, 2], [0x0800, 2], [0, 2], [time, 2], [date, 2],
+      [crc, 4], [data.length, 4], [data.length, 4], [nameBytes.length, 2], [0, 2]
+    ], [nameBytes]);
+    directory.push(record([
+      [0x02014b50, 4], [20, 2], [20, 2], [0x0800, 2], [0, 2], [time, 2], [date, 2],
+      [crc, 4], [data.length, 4], [data.length, 4], [nameBytes.length, 2], [0, 2], [0, 2],
+      [0, 2], [0, 2], [0, 4], [offset, 4]
+    ], [nameBytes]));
+    parts.push(local, data);
+    offset += local.length + data.length;
+  });
+
+  const directorySize = directory.reduce((acc, part) => acc + part.length, 0);
+  const end = record([
+    [0x06054b50, 4], [0, 2], [0, 2], [entries.length, 2], [entries.length, 2],
+    [directorySize, 4], [offset, 4], [0, 2]
+  ]);
+  return new Blob([...parts, ...directory, end], { type: 'application/zip' });
+};
@@ -6,6 +6,8 @@
 export enum GenerationStatus {
   IDLE = 'IDLE',
   SEGMENTING = 'SEGMENTING',
+  REVIEWING_SEGMENTATION = 'REVIEWING_SEGMENTATION', // Waiting for the user to confirm view boxes
+  REVIEWING_CANDIDATES = 'REVIEWING_CANDIDATES', // Waiting for the user to pick a draft per view
   LOADING = 'LOADING', // General loading state for parallel pipelines
   AUDITING = 'AUDITING',
   HEALING = 'HEALING',
@@ -13,7 +15,7 @@ export enum GenerationStatus {
   ERROR = 'ERROR'
 }
 
-export type ViewType = 'side' | 'top' | 'isometric' | 'unknown';
+export type ViewType = 'side' | 'top' | 'bow' | 'stern' | 'section' | 'inboard' | 'isometric' | 'unknown';
 
 export interface BoundingBox {
   ymin: number;
@@ -22,9 +24,76 @@ export interface BoundingBox {
   xmax: number;
 }
 
-export interface DetectedViews {
-  side?: BoundingBox;
-  top?: BoundingBox;
+export interface DetectedView {
+  id: string;
+  label: string; // e.g. "Side Profile", "Midship Section", "Ship 2 Deck Plan"
+  viewType: ViewType;
+  box: BoundingBox;
+  shipIndex: number; // sheets can carry several ships; 0-based
+  shipType?: ShipType; // detected or chosen; selects the Architect template and Inspector checklist
+  contextInstruction?: string; // Architect focus; defaults to the view type's instruction
+}
+
+export type ShipType = 'battleship' | 'cruiser' | 'destroyer' | 'carrier' | 'submarine' | 'auxiliary' | 'age-of-sail';
+
+/** A feature the Inspector checks for on drawings of one ship type. */
+export interface ChecklistItem {
+  id: string;
+  feature: string;
+  views?: ViewType[]; // views the feature shows in; every view when unset
+}
+
+/** Type-specific guidance for the Architect and the features the Inspector audits against. */
+export interface ShipTemplate {
+  shipType: ShipType;
+  label: string;
+  instructions: string; // added to the view's Architect focus
+  groups: string[]; // semantic group ids a drawing of this type is expected to have
+  checklist: ChecklistItem[];
+}
+
+export interface Segmentation {
+  views: DetectedView[]; // in sheet reading order
+  padding: number; // source pixels added around each box when cropping
+}
+
+export interface ProjectView {
+  id: string; // matches the DetectedView it was cropped from
+  label: string;
+  viewType: ViewType;
+  shipIndex: number;
+  shipType?: ShipType;
+  contextInstruction?: string;
+  crop?: ImageData;
+  history?: RevisionTree; // the view's current drawing is the tree's head
+  candidates?: DraftCandidate[]; // every draft generated in a best-of-N run, best first
+  selectedCandidateId?: string; // candidate the current history was healed from
+  calibration?: ScaleCalibration; // re-applied to new revisions so their dimensions stay current
+  checkpoint?: PipelineCheckpoint; // left by a failed or cancelled pipeline run, until it is resumed
+}
+
+export type LengthUnit = 'm' | 'ft';
+
+/** A known real-world length the drawing is scaled against, in the calibration's unit. */
+export type CalibrationReference =
+  | { kind: 'loa' | 'beam'; length: number } // measured off the hull group
+  | { kind: 'span'; length: number; fraction: number }; // clicked on the scan; fraction of the scan's ink width
+
+export interface ScaleCalibration {
+  unit: LengthUnit;
+  reference: CalibrationReference;
+  unitsPerSvgUnit: number; // real-world length of one SVG user unit
+}
+
+export interface DraftCandidate {
+  id: string;
+  content: string;
+  variant: string; // short description of the temperature / prompt variant that produced it
+  temperature: number;
+  audit: AuditReport;
+  validation: SvgValidationReport;
+  fidelity?: FidelityScore;
+  rankScore: number; // higher is better; combines audit severity and raster fidelity
 }
 
 export interface GeneratedSvg {
@@ -32,15 +101,358 @@ export interface GeneratedSvg {
   content: string;
   prompt: string;
   timestamp: number;
-  auditReport?: string;
+  auditReport?: AuditReport;
+  viewType: ViewType;
+  validation?: SvgValidationReport;
+  stage?: RevisionStage;
+  parentId?: string; // revision this one was derived from
+  rounds?: PipelineRound[]; // audit/heal history that produced this revision
+  stopReason?: LoopStopReason;
+  fidelity?: FidelityScore; // raster comparison against the view's source crop
+  trace?: PipelineTrace; // the pipeline run that produced this revision
+  config?: PipelineConfig; // model settings the revision was generated with
+}
+
+/** Model-free comparison of a rasterized SVG against its source scan. All ratios are 0-1, higher is better. */
+export interface FidelityScore {
+  edgeIoU: number; // overlap of edge maps, with a small positional tolerance
+  chamfer: number; // mean symmetric edge-to-edge distance as a fraction of the image diagonal (lower is better)
+  silhouetteIoU: number; // overlap of the filled outlines
+  overall: number;
+  resolution: [number, number]; // size the comparison ran at
+}
+
+export interface PipelineLoopOptions {
+  maxRounds: number;
+  stopAtSeverity: FindingSeverity; // converged once nothing at or above this severity is open
+  minImprovement: number; // smallest severity-score drop that counts as progress
+  maxFidelityDrop?: number; // roll back a heal whose overall fidelity falls by more than this; unset disables the check
+  candidateCount?: number; // drafts generated per view before healing (best-of-N); 1 when unset
+  candidateSelection?: 'auto' | 'manual'; // let the best candidate proceed, or wait for the user to pick
+}
+
+export type LoopStopReason = 'converged' | 'max_rounds' | 'no_improvement' | 'regression' | 'interrupted';
+
+export interface PipelineRound {
+  index: number;
+  input: string; // SVG the Inspector audited this round
+  audit: AuditReport; // verified when a heal was attempted
+  result: string; // SVG carried into the next round (equals input when nothing was healed or it was rolled back)
+  scoreBefore: number;
+  scoreAfter: number;
+  rolledBack: boolean;
+  rollbackReason?: string;
+  fidelityBefore?: FidelityScore;
+  fidelityAfter?: FidelityScore;
+}
+
+export interface ViewPipelineResult {
+  draft: string;
+  content: string;
+  draftAudit?: AuditReport; // absent only when an interrupted run stopped before its first audit
+  auditReport?: AuditReport;
+  validation: SvgValidationReport;
+  rounds: PipelineRound[];
+  stopReason: LoopStopReason;
+  fidelity?: FidelityScore; // of `content`, when a rasterizer was available
+  trace?: PipelineTrace;
+  config?: PipelineConfig;
+}
+
+export type PipelineStage = 'draft' | 'audit' | 'heal' | 'verify';
+
+/**
+ * Everything a view's pipeline run completed before it failed or was cancelled.
+ * Passing it back to runViewPipeline continues from the stage that was interrupted.
+ */
+export interface PipelineCheckpoint {
+  prompt: string;
+  loopOptions: PipelineLoopOptions;
+  stage: PipelineStage; // the stage that was running when the run stopped
+  error: string;
+  aborted: boolean; // cancelled by the user rather than failed
+  draft?: SvgValidationReport; // validated draft
+  draftAudit?: AuditReport;
+  current?: SvgValidationReport; // the drawing the loop is improving
+  currentFidelity?: FidelityScore;
+  rounds: PipelineRound[]; // completed rounds
+  audit?: AuditReport; // the next round's audit, when it finished
+  healed?: SvgValidationReport; // that round's heal, when it finished
+  healedFidelity?: FidelityScore;
+  healedAudit?: AuditReport; // the fresh audit of that heal, when it finished
+  trace?: PipelineTrace; // continued by the resumed run
+  config?: PipelineConfig; // settings the run started with; a resumed run keeps them
+  updatedAt: number;
+}
+
+/** Token counts as reported by the provider; fields it does not report are left unset. */
+export interface TokenUsage {
+  inputTokens?: number;
+  outputTokens?: number;
+  thinkingTokens?: number;
+  totalTokens?: number;
+}
+
+/** One model call as it was sent. Images are counted rather than stored. */
+export interface TraceCall {
+  model: string;
+  systemInstruction?: string;
+  prompt: string; // text parts, in order
+  images: number;
+  temperature?: number;
+  thinkingBudget?: number;
+  startedAt: number;
+  durationMs: number;
+  usage?: TokenUsage;
+  response?: string; // raw text, before extraction and validation
+  error?: string;
+}
+
+/** One pipeline stage: every call it made (retries and repairs included) and what it produced. */
+export interface TraceStep {
+  id: string;
+  stage: PipelineStage;
+  round?: number; // audit, heal and verify rounds
+  startedAt: number;
+  durationMs: number;
+  calls: TraceCall[];
+  svg?: string; // validated output of draft and heal
+  audit?: AuditReport; // output of audit and verify
+  fidelity?: FidelityScore;
+  note?: string;
+  error?: string;
+}
+
+export interface PipelineTrace {
+  id: string;
+  viewLabel: string;
   viewType: ViewType;
+  provider: string;
+  startedAt: number;
+  finishedAt?: number;
+  steps: TraceStep[];
+}
+
+export type RevisionStage = 'draft' | 'healed' | 'refined' | 'reconciled' | 'edited' | 'dimensioned';
+
+export interface RevisionTree {
+  revisions: Record<string, GeneratedSvg>;
+  headId: string;
+  redoIds: string[]; // most recently undone revision last
+}
+
+export type FindingSeverity = 'critical' | 'major' | 'minor';
+
+export type FindingCategory = 'missing_feature' | 'proportion_error' | 'topology' | 'style_violation';
+
+export type FindingStatus = 'open' | 'partially_resolved' | 'resolved';
+
+export interface AuditFinding {
+  id: string;
+  severity: FindingSeverity;
+  category: FindingCategory;
+  groupId: string; // affected <g id>, or "root" when the issue is document-wide
+  description: string;
+  checklistId?: string; // the ship type's checklist item this finding reports, if any
+  status: FindingStatus;
+  verificationNote?: string;
+}
+
+export interface AuditReport {
+  summary: string;
+  findings: AuditFinding[];
+  verified: boolean; // true once a verification pass has set each finding's status
+  legacy?: boolean; // free prose from before findings were structured; its findings list says nothing
+}
+
+export type SvgIssueCode =
+  | 'NOT_SVG'
+  | 'MALFORMED_XML'
+  | 'MISSING_VIEWBOX'
+  | 'INVALID_VIEWBOX'
+  | 'MISSING_GROUP'
+  | 'EMPTY_DRAWING'
+  | 'SCRIPT_REMOVED'
+  | 'EVENT_HANDLER_REMOVED'
+  | 'FOREIGN_OBJECT_REMOVED'
+  | 'EXTERNAL_REF_REMOVED';
+
+export interface SvgValidationIssue {
+  code: SvgIssueCode;
+  severity: 'error' | 'warning';
+  message: string;
+}
+
+export interface SvgValidationReport {
+  valid: boolean;
+  sanitized: string | null; // null when the input could not be parsed as SVG
+  issues: SvgValidationIssue[];
+  viewBox?: [number, number, number, number];
+  groupIds: string[];
+  postProcess?: PostProcessReport; // set when the markup was normalized before this validation
+}
+
+export type PostProcessChange =
+  | 'style_enforced'
+  | 'coordinates_rounded'
+  | 'segments_merged'
+  | 'degenerate_removed'
+  | 'duplicates_removed'
+  | 'empty_groups_removed'
+  | 'groups_unwrapped'
+  | 'transforms_flattened'
+  | 'viewbox_tightened';
+
+/** What the deterministic normalization pass did to a model's SVG. */
+export interface PostProcessReport {
+  bytesBefore: number;
+  bytesAfter: number;
+  changes: Partial<Record<PostProcessChange, number>>;
+}
+
+/** Longitudinal extent of a group, as fractions of hull length measured from the hull's left end. */
+export interface StationSpan {
+  start: number;
+  end: number;
+  center: number;
+}
+
+/** Where the hull sits in one view's own SVG coordinates. */
+export interface HullExtent {
+  viewId: string;
+  start: number;
+  length: number;
+  sheetLength?: number; // hull length on the 0-1000 source sheet scale, when the crop box is known
+}
+
+export interface StationComparison {
+  groupId: string;
+  side: StationSpan;
+  top: StationSpan;
+  delta: number; // largest end-point disagreement, as a fraction of hull length
+  mismatched: boolean;
+}
+
+export interface ConsistencyReport {
+  side: HullExtent;
+  top: HullExtent;
+  tolerance: number;
+  lengthDelta?: number; // relative disagreement in overall length on the sheet
+  stations: StationComparison[];
+  sideOnly: string[]; // groups drawn in only one of the two views
+  topOnly: string[];
+  mismatchCount: number;
 }
 
 export interface WarshipProject {
   id: string;
-  sideView?: GeneratedSvg;
-  topView?: GeneratedSvg;
+  name: string;
+  shipClass?: string;
+  createdAt: number;
+  updatedAt: number;
   originalImage: ImageData;
+  segmentation?: Segmentation; // user-confirmed boxes the views were cut from
+  views: ProjectView[]; // ordered as on the sheet
+  sheetOptions?: SheetOptions; // last presentation sheet settings
+  themeId?: string; // theme applied to the preview and every export
+  customThemes?: SvgTheme[];
+  // Workspace state restored when the project is reopened
+  activeViewId?: string;
+  refinementDraft?: string;
+}
+
+export type BatchJobStatus = 'queued' | 'segmenting' | 'drafting' | 'auditing' | 'healing' | 'done' | 'failed';
+
+/** One image in a batch run. */
+export interface BatchJob {
+  id: string;
+  fileName: string;
+  image: ImageData;
+  prompt: string;
+  loopOptions?: PipelineLoopOptions;
+  config?: PipelineConfig;
+  shipType?: ShipType; // chosen for the whole sheet; detected per ship when unset
+  status: BatchJobStatus;
+  detail?: string; // latest pipeline status line
+  error?: string;
+  project?: WarshipProject; // set once done; also saved to the library
+  startedAt?: number;
+  finishedAt?: number;
+}
+
+export type ProgressPhase =
+  | 'scanning' | 'candidates' | 'drafting' | 'auditing' | 'healing' | 'repairing' | 'verifying' | 'refining' | 'reconciling'
+  | 'done' | 'failed' | 'cancelled';
+
+/** Live state of one view's work while a run is in flight. */
+export interface ViewProgress {
+  id: string; // view id, or SHEET_TRACK_ID for work spanning the whole sheet
+  label: string;
+  phase: ProgressPhase;
+  round?: number;
+  startedAt: number;
+  phaseStartedAt: number;
+  retries: number; // transient model failures retried so far
+  finishedAt?: number;
+  error?: string;
+  preview?: string; // sanitized partial draft, replaced as more of it streams in
+}
+
+/** Each kind of model call the app makes; a pipeline configuration sets the model and prompt for every one. */
+export type PipelineRole = 'detect' | 'draft' | 'audit' | 'heal' | 'verify' | 'repair' | 'reconcile' | 'refine' | 'refineSelection';
+
+export interface RoleConfig {
+  model: string;
+  thinkingBudget?: number; // unset leaves thinking at the model's default
+  temperature?: number;
+  systemPrompt?: string; // may contain {{placeholders}} the stage fills in
+}
+
+/** Model settings for a whole run, saved as a named preset. */
+export interface PipelineConfig {
+  id: string;
+  name: string;
+  roles: Record<PipelineRole, RoleConfig>;
+  cropPadding: number; // pixels kept around each detected view when cropping
+  custom?: boolean; // user-defined; built-in presets cannot be edited
+}
+
+/** Colours baked into the SVG itself, so previews and exports look the same. */
+export interface SvgTheme {
+  id: string;
+  name: string;
+  background: string;
+  ink: string; // strokes and dark fills
+  text: string;
+  layerColors?: Record<string, string>; // ink per semantic group id
+  custom?: boolean; // user-defined; built-in themes cannot be edited
+}
+
+export type SheetSize = 'A4' | 'A3' | 'A2' | 'A1';
+
+export interface TitleBlock {
+  shipName: string;
+  shipClass?: string;
+  date: string;
+  scale?: string; // overrides the scale computed from the views' calibration
+  sheetNumber: string; // e.g. "1 of 3"
+  drawnBy?: string;
+}
+
+export interface SheetOptions {
+  size: SheetSize; // always laid out landscape
+  shipIndex: number;
+  titleBlock: TitleBlock;
+  showLegend: boolean;
+}
+
+export interface ProjectSummary {
+  id: string;
+  name: string;
+  shipClass?: string;
+  thumbnail?: string; // data URL
+  createdAt: number;
+  updatedAt: number;
 }
 
 export interface ApiError {